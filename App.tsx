@@ -1,15 +1,16 @@
 // App.tsx
-import React, { useEffect, useRef, useState } from "react";
-import { Platform } from "react-native";
-import { NavigationContainer } from "@react-navigation/native";
+import React, { useEffect, useRef } from "react";
+import { AppState } from "react-native";
+import {
+  createNavigationContainerRef,
+  NavigationContainer,
+} from "@react-navigation/native";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import * as Notifications from "expo-notifications";
-import { Accelerometer } from "expo-sensors";
 import * as Haptics from "expo-haptics";
-import { Audio } from "expo-av";
-import * as Brightness from "expo-brightness";
 
 import { UserProvider, useUser } from "./context/UserContext";
+import { AppLockProvider } from "./context/AppLockContext";
 
 import AuthScreen from "./screens/AuthScreen";
 import OnboardingScreen from "./screens/OnboardingScreen";
@@ -22,10 +23,40 @@ import MoodOverviewScreen from "./screens/MoodOverviewScreen";
 import MoodStatisticsScreen from "./screens/MoodStatisticsScreen";
 import ScheduleCalendarScreen from "./screens/ScheduleCalendarScreen";
 import ScreenTimeRegulatorScreen from "./screens/ScreenTimeRegulatorScreen";
+import ProfilesScreen from "./screens/ProfilesScreen";
+import DataSettingsScreen from "./screens/DataSettingsScreen";
+import CheckInHistoryScreen from "./screens/CheckInHistoryScreen";
+import AppLockSettingsScreen from "./screens/AppLockSettingsScreen";
+import RecoveryCodesScreen from "./screens/RecoveryCodesScreen";
+import PairingScreen from "./screens/PairingScreen";
+import SensorSettingsScreen from "./screens/SensorSettingsScreen";
+import SensorCalibrationScreen from "./screens/SensorCalibrationScreen";
+import AlertModesScreen from "./screens/AlertModesScreen";
 
 // 👇 Comet-powered chatbot overlay ("Your Friend")
 // file is in src/components/YourFriendChat.tsx
 import YourFriendChat from "./src/components/YourFriendChat";
+import SyncOverrideBanner from "./src/components/SyncOverrideBanner";
+import AppLockScreen from "./src/components/AppLockScreen";
+import {
+  alertIdFromResponse,
+  subscribeAlertNotifications,
+} from "./src/events/alertNotifications";
+import { syncService } from "./src/sync/syncService";
+import { sensorService } from "./src/sensors/sensorService";
+import type { CalibratableKind } from "./src/sensors/calibration";
+import { assessOverloadRisk, intensityForScore } from "./src/risk/overloadRisk";
+import { SENSOR_ALERTS } from "./src/sensors/alerts";
+import { useAlertStatus } from "./src/sensors/useAlertStatus";
+import { alertPause } from "./src/sensors/alertModes";
+// also defines the background task, which must happen at startup
+import {
+  loadMonitoring,
+  stopMonitoring,
+  takePendingEvents,
+  updateMonitoredSensors,
+} from "./src/sensors/backgroundMonitor";
+import { canAccess, homeRouteFor, RouteName } from "./src/auth/access";
 
 // ----------------------------------------------------
 // Notifications config – for local notifications
@@ -42,7 +73,8 @@ Notifications.setNotificationHandler({
 // Navigation types
 // ----------------------------------------------------
 export type RootStackParamList = {
-  Auth: { role?: "individual" | "parent" | "under18" } | undefined;
+  // email = log in to this existing account
+  Auth: { role?: "individual" | "parent" | "under18"; email?: string } | undefined;
   Onboarding: undefined;
   Home: undefined;
   CheckIn: undefined;
@@ -53,356 +85,313 @@ export type RootStackParamList = {
   MoodStats: undefined;
   ScheduleCalendar: { userId?: string } | undefined;
   ScreenTimeRegulator: undefined;
+  Profiles: undefined;
+  DataSettings: undefined;
+  History: undefined;
+  AppLock: undefined;
+  RecoveryCodes: undefined;
+  Pairing: undefined;
+  SensorSettings: undefined;
+  // kind = calibrate just this sensor
+  SensorCalibration: { kind?: CalibratableKind } | undefined;
+  AlertModes: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
+const navigationRef = createNavigationContainerRef<RootStackParamList>();
+
+// Every screen; which ones are registered depends on who's signed in
+// (see src/auth/access.ts)
+const SCREENS: { name: RouteName; component: React.ComponentType<any> }[] = [
+  { name: "Home", component: HomeScreen },
+  { name: "Auth", component: AuthScreen },
+  { name: "Onboarding", component: OnboardingScreen },
+  { name: "CheckIn", component: CheckInScreen },
+  { name: "Tools", component: ToolsScreen },
+  { name: "Coach", component: CoachScreen },
+  { name: "Parent", component: ParentScreen },
+  { name: "MoodOverview", component: MoodOverviewScreen },
+  { name: "MoodStats", component: MoodStatisticsScreen },
+  { name: "ScheduleCalendar", component: ScheduleCalendarScreen },
+  { name: "ScreenTimeRegulator", component: ScreenTimeRegulatorScreen },
+  { name: "Profiles", component: ProfilesScreen },
+  { name: "DataSettings", component: DataSettingsScreen },
+  { name: "History", component: CheckInHistoryScreen },
+  { name: "AppLock", component: AppLockSettingsScreen },
+  { name: "RecoveryCodes", component: RecoveryCodesScreen },
+  { name: "Pairing", component: PairingScreen },
+  { name: "SensorSettings", component: SensorSettingsScreen },
+  { name: "SensorCalibration", component: SensorCalibrationScreen },
+  { name: "AlertModes", component: AlertModesScreen },
+];
 
 // ----------------------------------------------------
-// GLOBAL SHAKE WATCHER – anger / overload detection
+// SENSORS – shake / noise / light overload detection
 // ----------------------------------------------------
-const GlobalShakeWatcher: React.FC = () => {
-  const { addCheckIn, logAlertEvent } = useUser();
+const SensorRunner: React.FC = () => {
+  const { addCheckIn, logAlertEvent, checkIns, alertModes } = useUser();
+  // the settings with the active mode applied
+  const { settings: sensorSettings } = useAlertStatus();
 
   const addCheckInRef = useRef(addCheckIn);
   const logAlertEventRef = useRef(logAlertEvent);
-
+  const checkInsRef = useRef(checkIns);
+  const sensorSettingsRef = useRef(sensorSettings);
+  const alertModesRef = useRef(alertModes);
   useEffect(() => {
     addCheckInRef.current = addCheckIn;
     logAlertEventRef.current = logAlertEvent;
-  }, [addCheckIn, logAlertEvent]);
-
-  const [_shakeValue, setShakeValue] = useState(0);
-  const [_accelAvailable, setAccelAvailable] = useState<boolean | null>(null);
-
-  // Ask notification permission once
-  useEffect(() => {
-    const setupNotifications = async () => {
-      const { status } = await Notifications.getPermissionsAsync();
-      if (status !== "granted") {
-        await Notifications.requestPermissionsAsync();
-      }
-    };
-    setupNotifications();
-  }, []);
+    checkInsRef.current = checkIns;
+    sensorSettingsRef.current = sensorSettings;
+    alertModesRef.current = alertModes;
+  }, [addCheckIn, logAlertEvent, checkIns, sensorSettings, alertModes]);
 
   useEffect(() => {
-    let subscription: any = null;
-    let lastShakeTime = 0;
-
-    const setup = async () => {
-      if (Platform.OS === "web") {
-        setAccelAvailable(false);
-        return;
-      }
-
-      const available = await Accelerometer.isAvailableAsync();
-      setAccelAvailable(available);
-      if (!available) {
-        console.log("Accelerometer not available on this device.");
-        return;
-      }
-
-      Accelerometer.setUpdateInterval(100); // 100 ms
-
-      subscription = Accelerometer.addListener(({ x, y, z }) => {
-        const total = Math.sqrt(x * x + y * y + z * z);
-        setShakeValue(total);
-
-        const now = Date.now();
-        const SHAKE_THRESHOLD = 2.3; // needs a real hard shake
-        const COOLDOWN_MS = 6000; // 6s
-
-        if (total > SHAKE_THRESHOLD && now - lastShakeTime > COOLDOWN_MS) {
-          lastShakeTime = now;
-
-          // 1) Haptic warning
+    sensorService.configure(sensorSettings);
+  }, [sensorSettings]);
+
+  useEffect(
+    () =>
+      sensorService.start(({ kind, at }) => {
+        const reaction = SENSOR_ALERTS[kind];
+        // how serious this moment is, given everything else going on
+        const risk = assessOverloadRisk({
+          now: at,
+          checkIns: checkInsRef.current,
+          sensors: {
+            levels: sensorService.levels(),
+            settings: sensorSettingsRef.current,
+          },
+        });
+        // a snooze or quiet hours hush it, but it's still logged
+        const paused = alertPause(alertModesRef.current, at).paused;
+        if (!paused && (kind === "shake" || risk.zone === "red")) {
           Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
-
-          // 2) Log a high-risk check-in (we detect these as sensor-style in stats)
-          addCheckInRef.current?.("angry", [
-            "Phone shaken hard",
-            "Possible anger / overload moment",
-          ]);
-
-          // 3) Log event for parent dashboard
-          logAlertEventRef.current?.(
-            "shake",
-            "Strong phone movement detected (possible anger / overload)."
-          );
-
-          // 4) Soft, supportive notification
-          Notifications.scheduleNotificationAsync({
-            content: {
-              title: "NeuroAura: big feelings detected 💛",
-              body:
-                "It felt like your phone was shaken really hard. If you’re upset or overwhelmed, try a slow breath and open NeuroAura to use your calm tools. You’re doing your best and that’s enough.",
-              sound: "default",
-              data: { type: "high_risk_shake" },
-            },
-            trigger: null,
-          }).catch((err) =>
-            console.warn("Failed to schedule shake notification:", err)
-          );
         }
-      });
-    };
-
-    setup();
-
-    return () => {
-      if (subscription) subscription.remove();
-    };
-  }, []);
+        // tagged as sensor so stats can skip it; no body signals – the
+        // user didn't tick any
+        addCheckInRef.current?.(reaction.mood, [], {
+          source: "sensor",
+          notes: reaction.notes,
+          intensity: intensityForScore(risk.score),
+        });
+        // notifications etc. subscribe to the alert. The message stays
+        // about the sensor – a linked parent may see alerts but not moods.
+        logAlertEventRef.current?.(reaction.alert, reaction.message, { silenced: paused });
+      }),
+    []
+  );
 
   return null; // invisible
 };
 
 // ----------------------------------------------------
-// GLOBAL NOISE WATCHER – loud environments
+// BACKGROUND MONITORING – log what it found while the app was closed
 // ----------------------------------------------------
-const GlobalNoiseWatcher: React.FC = () => {
-  const { addCheckIn, logAlertEvent } = useUser();
+const BackgroundMonitorRunner: React.FC = () => {
+  const {
+    profile,
+    hydrated,
+    sessionRestored,
+    checkIns,
+    sensorSettings,
+    alertModes,
+    addCheckIn,
+    logAlertEvent,
+  } = useUser();
 
   const addCheckInRef = useRef(addCheckIn);
   const logAlertEventRef = useRef(logAlertEvent);
-
+  const checkInsRef = useRef(checkIns);
   useEffect(() => {
     addCheckInRef.current = addCheckIn;
     logAlertEventRef.current = logAlertEvent;
-  }, [addCheckIn, logAlertEvent]);
+    checkInsRef.current = checkIns;
+  }, [addCheckIn, logAlertEvent, checkIns]);
+
+  const signedInId = profile?.id ?? null;
+  const activeId = hydrated ? signedInId : null;
 
-  const [_noiseDebug, setNoiseDebug] = useState<number | null>(null);
+  // Monitoring belongs to whoever turned it on: signing out or switching
+  // to another profile stops it
+  useEffect(() => {
+    if (!sessionRestored) return;
+    loadMonitoring()
+      .then((monitoring) => {
+        if (monitoring.enabled && monitoring.profileId !== signedInId) {
+          return stopMonitoring();
+        }
+      })
+      .catch((e) => console.warn("Failed to check background monitoring", e));
+  }, [sessionRestored, signedInId]);
 
   useEffect(() => {
-    let cancelled = false;
+    if (!activeId) return;
+    updateMonitoredSensors(activeId, sensorSettings, alertModes).catch((e) =>
+      console.warn("Failed to update background monitoring", e)
+    );
+  }, [activeId, sensorSettings, alertModes]);
 
-    const startNoiseLoop = async () => {
+  useEffect(() => {
+    if (!activeId) return;
+    let draining = false;
+    const drain = async () => {
+      if (draining) return;
+      draining = true;
       try {
-        if (Platform.OS === "web") return;
-
-        // Mic permission
-        const existing = await Audio.getPermissionsAsync();
-        let status = existing.status;
-        if (status !== "granted") {
-          const req = await Audio.requestPermissionsAsync();
-          status = req.status;
-        }
-        if (status !== "granted") {
-          console.log("Mic permission not granted; skipping noise watch.");
-          return;
+        const events = await takePendingEvents(activeId);
+        for (const event of events) {
+          const reaction = SENSOR_ALERTS[event.kind];
+          const risk = assessOverloadRisk({ now: event.at, checkIns: checkInsRef.current });
+          addCheckInRef.current(reaction.mood, [], {
+            source: "sensor",
+            notes: reaction.notes,
+            intensity: intensityForScore(risk.score),
+            timestamp: event.at,
+          });
+          // the background task already notified them, unless paused
+          logAlertEventRef.current(
+            reaction.alert,
+            `${reaction.message} (while NeuroAura was closed)`,
+            event.silenced
+              ? { timestamp: event.at, silenced: true }
+              : { timestamp: event.at, notifiedAt: event.at }
+          );
         }
+      } catch (e) {
+        console.warn("Failed to log background events", e);
+      } finally {
+        draining = false;
+      }
+    };
+    drain();
+    const sub = AppState.addEventListener("change", (state) => {
+      if (state === "active") drain();
+    });
+    return () => sub.remove();
+  }, [activeId]);
 
-        await Audio.setAudioModeAsync({
-          allowsRecordingIOS: true,
-          playsInSilentModeIOS: true,
-        });
+  return null; // invisible
+};
 
-        let lastNoiseAlert = 0;
-
-        while (!cancelled) {
-          const recording = new Audio.Recording();
-          let maxLevel = -160;
-
-          try {
-            await recording.prepareToRecordAsync({
-              ...Audio.RecordingOptionsPresets.LOW_QUALITY,
-              // @ts-ignore – metering flag not typed
-              isMeteringEnabled: true,
-            });
-
-            recording.setOnRecordingStatusUpdate((status) => {
-              const s = status as any;
-              if (typeof s.metering === "number") {
-                setNoiseDebug(s.metering);
-                if (s.metering > maxLevel) maxLevel = s.metering;
-              }
-            });
-
-            await recording.startAsync();
-            await new Promise((res) => setTimeout(res, 2500)); // ~2.5s window
-
-            try {
-              await recording.stopAndUnloadAsync();
-            } catch (err) {
-              console.warn("Noise recording stop error:", err);
-            }
-          } catch (err) {
-            console.warn("Noise recording error:", err);
-          }
-
-          const now = Date.now();
-          const VERY_LOUD_THRESHOLD = -12; // extreme volume
-          const COOLDOWN_MS = 5 * 60 * 1000; // 5 min
-
-          if (maxLevel > VERY_LOUD_THRESHOLD && now - lastNoiseAlert > COOLDOWN_MS) {
-            lastNoiseAlert = now;
-
-            // 1) Log an overwhelmed moment
-            addCheckInRef.current?.("overwhelmed", [
-              "Very loud environment",
-              "Possible sound overload moment",
-            ]);
-
-            // 2) Parent log
-            logAlertEventRef.current?.(
-              "manual_high_risk",
-              "Very loud environment detected (noise overload risk)."
-            );
-
-            // 3) Immediate notification
-            Notifications.scheduleNotificationAsync({
-              content: {
-                title: "NeuroAura: this place is VERY loud 🚨",
-                body:
-                  "The sound level here is extremely high. If noise is a trigger for you, try moving to a quieter spot or using headphones. You’re allowed to protect your senses.",
-                sound: "default",
-                data: { type: "noise_high" },
-              },
-              trigger: null,
-            }).catch((err) =>
-              console.warn("Failed to schedule noise notification:", err)
-            );
-
-            // 4) Follow-up check-in notification
-            Notifications.scheduleNotificationAsync({
-              content: {
-                title: "NeuroAura: quick check-in 💭",
-                body:
-                  "That place was really loud a moment ago. Are you still feeling overwhelmed, or is it a bit better now? If you want, open NeuroAura and log how you feel so I can support you.",
-                sound: "default",
-                data: { type: "noise_followup" },
-              },
-              trigger: { seconds: 90 },
-            }).catch((err) =>
-              console.warn(
-                "Failed to schedule noise follow-up notification:",
-                err
-              )
-            );
-          }
-
-          if (cancelled) break;
-
-          // sample every 30s
-          await new Promise((res) => setTimeout(res, 30000));
-        }
+// ----------------------------------------------------
+// EVENT SUBSCRIBERS – react to check-ins / alerts
+// ----------------------------------------------------
+const DomainEventSubscribers: React.FC = () => {
+  const { acknowledgeAlert } = useUser();
+
+  const acknowledgeAlertRef = useRef(acknowledgeAlert);
+  useEffect(() => {
+    acknowledgeAlertRef.current = acknowledgeAlert;
+  }, [acknowledgeAlert]);
 
-        await Audio.setAudioModeAsync({ allowsRecordingIOS: false });
-      } catch (err) {
-        console.warn("Global noise watcher error:", err);
+  // Ask notification permission once
+  useEffect(() => {
+    const setupNotifications = async () => {
+      const { status } = await Notifications.getPermissionsAsync();
+      if (status !== "granted") {
+        await Notifications.requestPermissionsAsync();
       }
     };
+    setupNotifications();
+  }, []);
 
-    startNoiseLoop();
+  useEffect(() => subscribeAlertNotifications(), []);
 
-    return () => {
-      cancelled = true;
-    };
+  // Tapping an alert notification counts as seeing the alert
+  useEffect(() => {
+    const sub = Notifications.addNotificationResponseReceivedListener(
+      (response) => {
+        const alertId = alertIdFromResponse(response);
+        if (alertId) acknowledgeAlertRef.current?.(alertId);
+      }
+    );
+    return () => sub.remove();
   }, []);
 
   return null; // invisible
 };
 
 // ----------------------------------------------------
-// GLOBAL LIGHT WATCHER – brightness overload
+// SYNC – outbox + pull for the active profile
 // ----------------------------------------------------
-const GlobalLightWatcher: React.FC = () => {
-  const { addCheckIn, logAlertEvent } = useUser();
-
-  const addCheckInRef = useRef(addCheckIn);
-  const logAlertEventRef = useRef(logAlertEvent);
+const SyncRunner: React.FC = () => {
+  const { profile, profiles, checkIns, alerts, hydrated, applyRemoteChanges } =
+    useUser();
 
+  const applyRemoteChangesRef = useRef(applyRemoteChanges);
   useEffect(() => {
-    addCheckInRef.current = addCheckIn;
-    logAlertEventRef.current = logAlertEvent;
-  }, [addCheckIn, logAlertEvent]);
-
-  const [_lightDebug, setLightDebug] = useState<number | null>(null);
+    applyRemoteChangesRef.current = applyRemoteChanges;
+  }, [applyRemoteChanges]);
+
+  useEffect(
+    () =>
+      syncService.start({
+        applyRemoteChanges: (profileId, changes, tombstones) =>
+          applyRemoteChangesRef.current(profileId, changes, tombstones),
+      }),
+    []
+  );
 
   useEffect(() => {
-    let cancelled = false;
+    syncService.setKnownProfiles(profiles.map((p) => p.id));
+  }, [profiles]);
 
-    const startLightLoop = async () => {
-      try {
-        if (Platform.OS === "web") return;
+  const activeId = hydrated ? profile?.id ?? null : null;
+  useEffect(() => {
+    syncService.setActiveProfile(activeId);
+  }, [activeId]);
 
-        const existing = await Brightness.getPermissionsAsync();
-        let status = existing.status;
-        if (status !== "granted") {
-          const req = await Brightness.requestPermissionsAsync();
-          status = req.status;
-        }
-        if (status !== "granted") {
-          console.log("Brightness permission not granted; skipping light watch.");
-          return;
-        }
+  // First sync of a profile uploads what it already has; after that
+  // the outbox only sees new changes. (Deliberately not re-run when
+  // checkIns / alerts change.)
+  useEffect(() => {
+    if (activeId) syncService.seedProfile(activeId, checkIns, alerts);
+  }, [activeId]);
 
-        let lastLightAlert = 0;
-
-        while (!cancelled) {
-          let level = 0;
-          try {
-            level = await Brightness.getSystemBrightnessAsync();
-          } catch {
-            try {
-              level = await Brightness.getBrightnessAsync();
-            } catch (err) {
-              console.warn("Light reading error:", err);
-            }
-          }
-
-          setLightDebug(level);
-          const now = Date.now();
-          const VERY_BRIGHT_THRESHOLD = 0.85;
-          const COOLDOWN_MS = 5 * 60 * 1000;
-
-          if (level >= VERY_BRIGHT_THRESHOLD && now - lastLightAlert > COOLDOWN_MS) {
-            lastLightAlert = now;
-
-            // 1) Log as overwhelmed
-            addCheckInRef.current?.("overwhelmed", [
-              "Very bright screen / light",
-              "Possible light sensitivity trigger",
-            ]);
-
-            // 2) Parent log
-            logAlertEventRef.current?.(
-              "manual_high_risk",
-              "Very bright screen / ambient light detected (light overload risk)."
-            );
-
-            // 3) Notification
-            Notifications.scheduleNotificationAsync({
-              content: {
-                title: "NeuroAura: light is very harsh here 🌞",
-                body:
-                  "The brightness around your device is really intense. If bright light triggers headaches or sensory overload, try moving to shade, dimming your screen, or using tinted glasses.",
-                sound: "default",
-                data: { type: "light_high" },
-              },
-              trigger: null,
-            }).catch((err) =>
-              console.warn("Failed to schedule light notification:", err)
-            );
-          }
-
-          if (cancelled) break;
-
-          await new Promise((res) => setTimeout(res, 30000)); // check every 30s
-        }
-      } catch (err) {
-        console.warn("Global light watcher error:", err);
-      }
-    };
+  return null; // invisible
+};
 
-    startLightLoop();
+// ----------------------------------------------------
+// NAVIGATION – only the screens the signed-in role may see
+// ----------------------------------------------------
+const AppNavigator: React.FC = () => {
+  const { profile, sessionRestored } = useUser();
+  const landing = homeRouteFor(profile);
+  // who (and in which state) the current stack was built for
+  const routingKey = profile ? `${profile.id}:${landing}` : "signed-out";
+  const routingKeyRef = useRef<string | null>(null);
+
+  // Signing in / out, finishing onboarding or a role change starts
+  // over on that user's landing screen
+  useEffect(() => {
+    if (!sessionRestored) return;
+    const previous = routingKeyRef.current;
+    routingKeyRef.current = routingKey;
+    if (previous !== null && previous !== routingKey && navigationRef.isReady()) {
+      navigationRef.reset({ index: 0, routes: [{ name: landing }] });
+    }
+  }, [sessionRestored, routingKey, landing]);
 
-    return () => {
-      cancelled = true;
-    };
-  }, []);
+  // wait for the stored session so the first screen is the right one
+  if (!sessionRestored) return null;
 
-  return null; // invisible
+  return (
+    <Stack.Navigator
+      initialRouteName={landing}
+      screenOptions={{ headerShown: false }}
+    >
+      {SCREENS.filter((screen) => canAccess(screen.name, profile)).map(
+        (screen) => (
+          <Stack.Screen
+            key={screen.name}
+            name={screen.name}
+            component={screen.component}
+          />
+        )
+      )}
+    </Stack.Navigator>
+  );
 };
 
 // ----------------------------------------------------
@@ -410,39 +399,28 @@ const GlobalLightWatcher: React.FC = () => {
 // ----------------------------------------------------
 export default function App() {
   return (
-    <UserProvider>
-      <NavigationContainer>
-        {/* Global background sensors while the app is open */}
-        <GlobalShakeWatcher />
-        <GlobalNoiseWatcher />
-        <GlobalLightWatcher />
-
-        <Stack.Navigator
-          initialRouteName="Home"
-          screenOptions={{ headerShown: false }}
-        >
-          <Stack.Screen name="Home" component={HomeScreen} />
-          <Stack.Screen name="Auth" component={AuthScreen} />
-          <Stack.Screen name="Onboarding" component={OnboardingScreen} />
-          <Stack.Screen name="CheckIn" component={CheckInScreen} />
-          <Stack.Screen name="Tools" component={ToolsScreen} />
-          <Stack.Screen name="Coach" component={CoachScreen} />
-          <Stack.Screen name="Parent" component={ParentScreen} />
-          <Stack.Screen name="MoodOverview" component={MoodOverviewScreen} />
-          <Stack.Screen name="MoodStats" component={MoodStatisticsScreen} />
-          <Stack.Screen
-            name="ScheduleCalendar"
-            component={ScheduleCalendarScreen}
-          />
-          <Stack.Screen
-            name="ScreenTimeRegulator"
-            component={ScreenTimeRegulatorScreen}
-          />
-        </Stack.Navigator>
+    <AppLockProvider>
+      <UserProvider>
+        <NavigationContainer ref={navigationRef}>
+          <DomainEventSubscribers />
+          <SyncRunner />
+
+          {/* Overload sensors while the app is open */}
+          <SensorRunner />
+          <BackgroundMonitorRunner />
+
+          <AppNavigator />
+
+          {/* Floating Comet-powered "Your Friend" chatbot on every screen */}
+          <YourFriendChat />
+
+          {/* Shown when a sync replaced something edited on this device */}
+          <SyncOverrideBanner />
 
-        {/* Floating Comet-powered "Your Friend" chatbot on every screen */}
-        <YourFriendChat />
-      </NavigationContainer>
-    </UserProvider>
+          {/* PIN lock over everything (only when the user turned it on) */}
+          <AppLockScreen />
+        </NavigationContainer>
+      </UserProvider>
+    </AppLockProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,177 @@
+// context/AppLockContext.tsx
+import React, {
+  createContext,
+  ReactNode,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { AppState } from "react-native";
+import {
+  checkPin,
+  DEFAULT_AUTO_LOCK_SECONDS,
+  loadAppLock,
+  removePin,
+  resetPinWithPassword,
+  setAutoLock,
+  setPin,
+  UnlockResult,
+} from "../src/auth/appLock";
+
+interface AppLockContextValue {
+  // false until the stored lock settings have been read
+  ready: boolean;
+  enabled: boolean;
+  locked: boolean;
+  autoLockSeconds: number;
+  // the login whose password can reset the PIN
+  ownerEmail: string | null;
+
+  unlock: (pin: string) => Promise<UnlockResult>;
+  // "Forgot PIN": removes the PIN and unlocks
+  resetWithPassword: (password: string) => Promise<UnlockResult>;
+  enable: (pin: string, ownerEmail: string, autoLockSeconds?: number) => Promise<void>;
+  // Both need the current PIN, so an unlocked phone left lying around
+  // can't be used to switch the lock off.
+  changePin: (currentPin: string, nextPin: string) => Promise<UnlockResult>;
+  disable: (currentPin: string) => Promise<UnlockResult>;
+  setAutoLockSeconds: (seconds: number) => Promise<void>;
+  lockNow: () => void;
+}
+
+const AppLockContext = createContext<AppLockContextValue | undefined>(undefined);
+
+export const AppLockProvider = ({ children }: { children: ReactNode }) => {
+  const [ready, setReady] = useState(false);
+  const [enabled, setEnabled] = useState(false);
+  const [locked, setLocked] = useState(false);
+  const [autoLockSeconds, setAutoLockState] = useState(DEFAULT_AUTO_LOCK_SECONDS);
+  const [ownerEmail, setOwnerEmail] = useState<string | null>(null);
+
+  // read by the AppState listener, which is only set up once
+  const settingsRef = useRef({ enabled, autoLockSeconds });
+  settingsRef.current = { enabled, autoLockSeconds };
+  const backgroundedAtRef = useRef<number | null>(null);
+
+  // Re-read on launch and whenever the app comes back, so a PIN removed
+  // by "Delete everything" is forgotten here too.
+  const reload = async () => {
+    const config = await loadAppLock();
+    setEnabled(!!config);
+    setOwnerEmail(config?.ownerEmail ?? null);
+    setAutoLockState(config?.autoLockSeconds ?? DEFAULT_AUTO_LOCK_SECONDS);
+    if (!config) setLocked(false);
+    return config;
+  };
+
+  useEffect(() => {
+    (async () => {
+      const config = await reload();
+      // a cold start always asks for the PIN
+      if (config) setLocked(true);
+      setReady(true);
+    })();
+  }, []);
+
+  useEffect(() => {
+    const sub = AppState.addEventListener("change", (next) => {
+      if (next === "background") {
+        backgroundedAtRef.current = Date.now();
+        return;
+      }
+      if (next !== "active") return;
+      const since = backgroundedAtRef.current;
+      backgroundedAtRef.current = null;
+      const { enabled: isEnabled, autoLockSeconds: delay } = settingsRef.current;
+      if (isEnabled && since !== null && Date.now() - since >= delay * 1000) {
+        setLocked(true);
+      }
+      reload().catch((e) => console.warn("Failed to reload app lock", e));
+    });
+    return () => sub.remove();
+  }, []);
+
+  const unlock = async (pin: string) => {
+    const result = await checkPin(pin);
+    if (result.ok) setLocked(false);
+    return result;
+  };
+
+  const resetWithPassword = async (password: string) => {
+    const result = await resetPinWithPassword(password);
+    if (result.ok) {
+      setEnabled(false);
+      setOwnerEmail(null);
+      setLocked(false);
+    }
+    return result;
+  };
+
+  const enable = async (
+    pin: string,
+    owner: string,
+    seconds: number = autoLockSeconds
+  ) => {
+    const config = await setPin(pin, owner, seconds);
+    setEnabled(true);
+    setOwnerEmail(config.ownerEmail);
+    setAutoLockState(config.autoLockSeconds);
+  };
+
+  const changePin = async (currentPin: string, nextPin: string) => {
+    const result = await checkPin(currentPin);
+    if (result.ok) await enable(nextPin, ownerEmail ?? "", autoLockSeconds);
+    return result;
+  };
+
+  const disable = async (currentPin: string) => {
+    const result = await checkPin(currentPin);
+    if (result.ok) {
+      await removePin();
+      setEnabled(false);
+      setOwnerEmail(null);
+    }
+    return result;
+  };
+
+  const setAutoLockSeconds = async (seconds: number) => {
+    setAutoLockState(seconds);
+    await setAutoLock(seconds);
+  };
+
+  const lockNow = () => {
+    if (enabled) setLocked(true);
+  };
+
+  const value = useMemo(
+    () => ({
+      ready,
+      enabled,
+      locked,
+      autoLockSeconds,
+      ownerEmail,
+      unlock,
+      resetWithPassword,
+      enable,
+      changePin,
+      disable,
+      setAutoLockSeconds,
+      lockNow,
+    }),
+    [ready, enabled, locked, autoLockSeconds, ownerEmail]
+  );
+
+  return (
+    <AppLockContext.Provider value={value}>{children}</AppLockContext.Provider>
+  );
+};
+
+export const useAppLock = (): AppLockContextValue => {
+  const ctx = useContext(AppLockContext);
+  if (!ctx) {
+    throw new Error("useAppLock must be used inside an AppLockProvider");
+  }
+  return ctx;
+};
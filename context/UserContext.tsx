@@ -4,8 +4,45 @@ import React, {
   useContext,
   useState,
   useMemo,
+  useEffect,
+  useRef,
   ReactNode,
 } from "react";
+import { AppState } from "react-native";
+import {
+  getRepository,
+  DEFAULT_RETENTION,
+  ProfileDataSummary,
+  pruneExpired,
+  purgeExpiredProfiles,
+  sanitizeRetention,
+  summarizeProfileData,
+  transferProfileData,
+  RetentionPolicy,
+} from "../src/storage";
+import { deleteAllData, DeletionReport } from "../src/privacy/deleteAllData";
+import { clearSession, loadSession, saveSession } from "../src/auth/session";
+import { getAuthProvider } from "../src/auth/providers";
+import {
+  DEFAULT_SENSOR_SETTINGS,
+  sanitizeSensorSettings,
+  SensorSettings,
+} from "../src/sensors/settings";
+import {
+  AlertModes,
+  DEFAULT_ALERT_MODES,
+  sanitizeAlertModes,
+} from "../src/sensors/alertModes";
+import { domainEvents } from "../src/events/eventBus";
+import { forgetProfileKey } from "../src/sync/profileKeys";
+import { loadDeviceId } from "../src/sync/deviceId";
+import { applyRemoteAlerts, applyRemoteCheckIns } from "../src/sync/applyRemote";
+import type { RemoteChange, Tombstones } from "../src/sync/types";
+import { ALIVE_FIELD, FieldClock, touchClock } from "../src/sync/clock";
+import type { RemoteOverride } from "../src/sync/merge";
+
+// Expired check-ins / alerts are purged on load and then this often
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
 
 export type MoodType =
   | "calm"
@@ -17,17 +54,68 @@ export type MoodType =
 
 export type UserRole = "individual" | "parent" | "under18" | "guest";
 
+export type AgeMode = "teen" | "adult";
+
 export interface UserProfile {
+  id: string;
   name: string;
   email: string;
   role: UserRole;
+  // false from sign-up until OnboardingScreen is done (missing on
+  // profiles made before onboarding was tracked – treated as done)
+  onboarded?: boolean;
+
+  // filled in by OnboardingScreen
+  ageMode?: AgeMode;
+  disorders?: string[];
+  sensitivities?: string[];
+  allergies?: string[];
+  language?: string;
+
+  // a guest session: never registered, and its data is deleted when it
+  // ends unless it's moved into a new account
+  ephemeral?: boolean;
 }
 
+// What callers pass to setProfile – id is optional (see setProfile)
+export type ProfileInput = Omit<UserProfile, "id"> & { id?: string };
+
+// "manual" = the user logged it, "sensor" = a global watcher logged it
+export type CheckInSource = "manual" | "sensor";
+
+export type SleepQuality = "good" | "ok" | "bad";
+
+// 1 = barely there, 5 = as strong as it gets
+export type MoodIntensity = 1 | 2 | 3 | 4 | 5;
+
 export interface CheckIn {
   id: string;
   timestamp: number;
   mood: MoodType;
   symptoms: string[];
+  source: CheckInSource;
+  sleepQuality?: SleepQuality;
+  intensity?: MoodIntensity;
+  notes?: string;
+  // set when the entry was changed after it was logged
+  updatedAt?: number;
+  // per-field edit stamps, used to merge edits from other devices
+  clock?: FieldClock;
+}
+
+// What the history screen lets the user change on an entry
+export type CheckInEdit = Partial<
+  Pick<CheckIn, "mood" | "symptoms" | "notes" | "intensity" | "sleepQuality">
+>;
+
+// Optional extras for addCheckIn; source defaults to "manual"
+export interface CheckInDetails {
+  source?: CheckInSource;
+  sleepQuality?: SleepQuality;
+  intensity?: MoodIntensity;
+  notes?: string;
+  // when it happened, if earlier (background monitoring logs on return)
+  timestamp?: number;
 }
 
 export type AlertEventType =
@@ -41,58 +129,661 @@ export interface AlertEvent {
   type: AlertEventType;
   message: string;
   timestamp: number;
+  // when someone saw / dealt with it
+  acknowledgedAt?: number;
+  // set when the user was already notified (by background monitoring)
+  notifiedAt?: number;
+  // raised during a snooze or quiet hours – logged, not notified
+  silenced?: boolean;
+}
+
+// Optional extras for logAlertEvent
+export interface AlertDetails {
+  // when it happened, if earlier
+  timestamp?: number;
+  notifiedAt?: number;
+  silenced?: boolean;
 }
 
 interface UserContextValue {
+  // the active profile (null = nobody signed in)
   profile: UserProfile | null;
-  setProfile: (profile: UserProfile | null) => void;
+  // Updates the profile with the same id, else the one with the same
+  // email, else registers a new profile – and signs it in.
+  // null signs out without forgetting any profile.
+  setProfile: (profile: ProfileInput | null) => void;
+  signOut: () => void;
+  // false until the stored session has been checked at launch
+  sessionRestored: boolean;
+
+  // every profile registered on this device (siblings sharing a tablet)
+  profiles: UserProfile[];
+  // Signs in a guest profile (no login to check). Profiles with a login
+  // go through AuthScreen instead.
+  switchProfile: (profileId: string) => void;
+
+  // Starts a guest session: nothing is kept once it ends (signing out,
+  // switching profile or closing the app)
+  startGuestSession: () => void;
+  isGuestSession: boolean;
+  // What the running guest session has logged (null if there isn't one)
+  guestDataSummary: () => Promise<ProfileDataSummary | null>;
+  // Signs a new account in in place of the guest session, moving the
+  // guest's data into it if keepData is set
+  upgradeGuestSession: (account: ProfileInput, keepData: boolean) => Promise<void>;
+  removeProfile: (profileId: string) => Promise<void>;
 
   checkIns: CheckIn[];
-  addCheckIn: (mood: MoodType, symptoms: string[]) => void;
+  addCheckIn: (
+    mood: MoodType,
+    symptoms: string[],
+    details?: CheckInDetails
+  ) => void;
+  // most recent manual check-in (sensor entries are skipped)
+  lastCheckIn: CheckIn | null;
+  updateCheckIn: (id: string, changes: CheckInEdit) => void;
+  // Returns the removed entry so the caller can offer undo
+  deleteCheckIn: (id: string) => CheckIn | null;
+  // Puts a deleted entry back (no-op if its id is already present)
+  restoreCheckIn: (checkIn: CheckIn) => void;
 
   alerts: AlertEvent[];
-  logAlertEvent: (type: AlertEventType, message: string) => void;
+  logAlertEvent: (
+    type: AlertEventType,
+    message: string,
+    details?: AlertDetails
+  ) => void;
+  acknowledgeAlert: (alertId: string) => void;
+
+  // Adds restored records (e.g. from a backup). Ids already present
+  // are skipped, so importing the same file twice is harmless.
+  mergeImported: (checkIns: CheckIn[], alerts: AlertEvent[]) => void;
+  // Applies changes pulled from the sync server to the active profile
+  // and returns the local edits they replaced. null = that profile isn't
+  // the loaded one, try again later.
+  applyRemoteChanges: (
+    profileId: string,
+    changes: RemoteChange[],
+    tombstones: Tombstones
+  ) => RemoteOverride[] | null;
+
+  // How long the active profile keeps check-ins / alerts
+  retention: RetentionPolicy;
+  setRetention: (policy: RetentionPolicy) => void;
+
+  // Thresholds, cooldowns and intervals of the overload sensors
+  sensorSettings: SensorSettings;
+  setSensorSettings: (settings: SensorSettings) => void;
+
+  // Context mode, quiet hours and snooze for the sensor alerts
+  alertModes: AlertModes;
+  setAlertModes: (modes: AlertModes) => void;
+
+  // Wipes every profile, login and stored record on this device and
+  // signs out. Resolves with what was removed.
+  deleteAllData: () => Promise<DeletionReport>;
+
+  // false until stored check-ins / alerts have been loaded
+  hydrated: boolean;
 }
 
 const UserContext = createContext<UserContextValue | undefined>(undefined);
 
 export const UserProvider = ({ children }: { children: ReactNode }) => {
-  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [registryLoaded, setRegistryLoaded] = useState(false);
+  // only ever in memory
+  const [guest, setGuest] = useState<UserProfile | null>(null);
+
   const [checkIns, setCheckIns] = useState<CheckIn[]>([]);
   const [alerts, setAlerts] = useState<AlertEvent[]>([]);
+  const [hydrated, setHydrated] = useState(false);
+  const [retention, setRetentionState] =
+    useState<RetentionPolicy>(DEFAULT_RETENTION);
+  const [sensorSettings, setSensorSettingsState] =
+    useState<SensorSettings>(DEFAULT_SENSOR_SETTINGS);
+  const [alertModes, setAlertModesState] = useState<AlertModes>(DEFAULT_ALERT_MODES);
+
+  // Which profile the check-ins / alerts in state belong to (null while
+  // nobody is signed in, or the next profile is still loading).
+  const dataOwnerRef = useRef<string | null>(null);
+  // If stored data couldn't be migrated, never write over it.
+  const canPersistRef = useRef(true);
+  // Set when the first profile on the device is created, so data saved
+  // before profiles existed is moved into it before loading.
+  const claimLegacyForRef = useRef<string | null>(null);
+
+  const profile = useMemo(
+    () =>
+      profiles.find((p) => p.id === activeProfileId) ??
+      (guest && guest.id === activeProfileId ? guest : null),
+    [profiles, activeProfileId, guest]
+  );
+  const guestActive = !!guest && guest.id === activeProfileId;
+
+  // Load the profile registry once on startup. The profile stays signed
+  // in only if its session is still valid.
+  useEffect(() => {
+    (async () => {
+      try {
+        const repo = getRepository();
+        // edits are stamped with it, so it's known before any data loads
+        await loadDeviceId();
+        const registry = await repo.loadProfiles();
+        // the app was closed during a guest session
+        if (registry.guestSessionId) {
+          await repo.deleteProfileData(registry.guestSessionId);
+        }
+        // every profile, signed in or not – done before any is loaded
+        await purgeExpiredProfiles(repo, registry.profiles.map((p) => p.id));
+        const session = await loadSession();
+        setProfiles(registry.profiles);
+        setActiveProfileId(
+          session && registry.profiles.some((p) => p.id === session.profileId)
+            ? session.profileId
+            : null
+        );
+      } catch (e) {
+        console.warn("Failed to load profiles", e);
+      }
+      setRegistryLoaded(true);
+    })();
+  }, []);
+
+  // The session follows the active profile (a guest session is never
+  // restored)
+  const sessionProfileId = guestActive ? null : activeProfileId;
+  useEffect(() => {
+    if (!registryLoaded) return;
+    (sessionProfileId ? saveSession(sessionProfileId) : clearSession()).catch((e) =>
+      console.warn("Failed to save session", e)
+    );
+  }, [registryLoaded, sessionProfileId]);
+
+  // The account's provider may end a sign-in (e.g. a revoked refresh
+  // token) – checked at launch and whenever the app comes back
+  const sessionEmail = sessionProfileId ? profile?.email : undefined;
+  useEffect(() => {
+    if (!sessionEmail) return;
+    const check = () =>
+      getAuthProvider()
+        .refresh(sessionEmail)
+        .then((valid) => {
+          if (!valid) {
+            setActiveProfileId((current) => (current === sessionProfileId ? null : current));
+          }
+        })
+        .catch((e) => console.warn("Failed to refresh sign-in", e));
+    check();
+    const sub = AppState.addEventListener("change", (state) => {
+      if (state === "active") check();
+    });
+    return () => sub.remove();
+  }, [sessionEmail, sessionProfileId]);
+
+  useEffect(() => {
+    if (!registryLoaded) return;
+    getRepository()
+      .saveProfiles({
+        profiles,
+        activeProfileId: sessionProfileId,
+        guestSessionId: guest?.id ?? null,
+      })
+      .catch((e) => console.warn("Failed to save profiles", e));
+  }, [registryLoaded, profiles, sessionProfileId, guest]);
+
+  // Leaving a guest session ends it, and what it logged goes with it
+  // (upgradeGuestSession has already moved anything worth keeping)
+  useEffect(() => {
+    if (!guest || guest.id === activeProfileId) return;
+    const guestId = guest.id;
+    setGuest(null);
+    getRepository()
+      .deleteProfileData(guestId)
+      .catch((e) => console.warn("Failed to delete guest data", e));
+  }, [guest, activeProfileId]);
+
+  // Hydrate the active profile's data whenever it changes. Nothing in
+  // state carries over: not another profile's data, and not what was
+  // logged while nobody was signed in (on a shared phone there's no
+  // telling whose sensor alert that was). Only what's logged while the
+  // new profile loads is kept on top of its stored history.
+  useEffect(() => {
+    if (!registryLoaded) return;
+    let cancelled = false;
+
+    setHydrated(false);
+    setRetentionState(DEFAULT_RETENTION);
+    setSensorSettingsState(DEFAULT_SENSOR_SETTINGS);
+    setAlertModesState(DEFAULT_ALERT_MODES);
+    setCheckIns([]);
+    setAlerts([]);
+    dataOwnerRef.current = null;
+
+    if (!activeProfileId) {
+      setHydrated(true);
+      return;
+    }
+
+    (async () => {
+      const repo = getRepository();
+      let stored = null;
+      let policy = DEFAULT_RETENTION;
+      let sensors = DEFAULT_SENSOR_SETTINGS;
+      let modes = DEFAULT_ALERT_MODES;
+      try {
+        if (claimLegacyForRef.current === activeProfileId) {
+          claimLegacyForRef.current = null;
+          await repo.claimLegacyData(activeProfileId);
+        }
+        stored = await repo.loadUserData(activeProfileId);
+        const prefs = await repo.loadPreferences(activeProfileId);
+        policy = sanitizeRetention(prefs.retention);
+        sensors = sanitizeSensorSettings(prefs.sensors);
+        modes = sanitizeAlertModes(prefs.alertModes);
+      } catch (e) {
+        console.warn("Failed to load stored user data", e);
+      }
+      if (cancelled) return;
+
+      setRetentionState(policy);
+      setSensorSettingsState(sensors);
+      setAlertModesState(modes);
+
+      if (stored) {
+        const { checkIns: storedCheckIns, alerts: storedAlerts } = stored;
+        setCheckIns((prev) => [...prev, ...storedCheckIns]);
+        setAlerts((prev) => [...prev, ...storedAlerts]);
+        canPersistRef.current = true;
+      } else {
+        canPersistRef.current = false;
+      }
+      dataOwnerRef.current = activeProfileId;
+      setHydrated(true);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [registryLoaded, activeProfileId]);
+
+  // Write on every change once the active profile is hydrated
+  useEffect(() => {
+    if (!hydrated || !activeProfileId || !canPersistRef.current) return;
+    if (dataOwnerRef.current !== activeProfileId) return;
+    getRepository()
+      .saveUserData(activeProfileId, { checkIns, alerts })
+      .catch((e) => console.warn("Failed to save user data", e));
+  }, [hydrated, activeProfileId, checkIns, alerts]);
+
+  // Retention purge for the active profile while it's open (the others
+  // are purged at startup)
+  useEffect(() => {
+    if (!hydrated || !activeProfileId) return;
+    const purge = () => {
+      const now = Date.now();
+      setCheckIns((prev) => pruneExpired(prev, retention.checkInDays, now));
+      setAlerts((prev) => pruneExpired(prev, retention.alertDays, now));
+    };
+    purge();
+    const timer = setInterval(purge, PURGE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hydrated, activeProfileId, retention]);
+
+  const setProfile = (input: ProfileInput | null) => {
+    if (!input) {
+      setActiveProfileId(null);
+      return;
+    }
+
+    const email = input.email.trim().toLowerCase();
+    const existing =
+      profiles.find((p) => input.id && p.id === input.id) ??
+      (email ? profiles.find((p) => p.email.trim().toLowerCase() === email) : undefined);
+
+    const id =
+      existing?.id ?? input.id ?? `${Date.now()}_${Math.random().toString(16).slice(2)}`;
+    const next: UserProfile = { ...existing, ...input, id };
 
-  const addCheckIn = (mood: MoodType, symptoms: string[]) => {
+    if (!existing && profiles.length === 0) {
+      claimLegacyForRef.current = id;
+    }
+    setProfiles((prev) =>
+      existing ? prev.map((p) => (p.id === id ? next : p)) : [...prev, next]
+    );
+    setActiveProfileId(id);
+  };
+
+  const signOut = () => {
+    if (profile?.email && !guestActive) getAuthProvider().signOut(profile.email);
+    setActiveProfileId(null);
+  };
+
+  const switchProfile = (profileId: string) => {
+    const target = profiles.find((p) => p.id === profileId);
+    if (!target || target.role !== "guest") return;
+    setActiveProfileId(profileId);
+  };
+
+  const startGuestSession = () => {
+    const session: UserProfile = {
+      id: `guest_${Date.now()}_${Math.random().toString(16).slice(2)}`,
+      name: "friend",
+      email: "",
+      role: "guest",
+      ephemeral: true,
+    };
+    setGuest(session);
+    setActiveProfileId(session.id);
+  };
+
+  const guestDataSummary = async () => {
+    if (!guest || !guestActive) return null;
+    const summary = await summarizeProfileData(getRepository(), guest.id);
+    // what's on screen may not have been written yet
+    return { ...summary, checkIns: checkIns.length, alerts: alerts.length };
+  };
+
+  const upgradeGuestSession = async (account: ProfileInput, keepData: boolean) => {
+    if (!guest || !guestActive) {
+      setProfile(account);
+      return;
+    }
+    // an account joining a profile from another device brings its id
+    const id = account.id ?? `${Date.now()}_${Math.random().toString(16).slice(2)}`;
+    if (keepData) {
+      const repo = getRepository();
+      try {
+        await repo.saveUserData(guest.id, { checkIns, alerts });
+        await transferProfileData(repo, guest.id, id);
+      } catch (e) {
+        // don't leave half a copy under an id nobody will use
+        await repo.deleteProfileData(id).catch(() => {});
+        throw e;
+      }
+    }
+    setProfile({ ...account, id });
+  };
+
+  const removeProfile = async (profileId: string) => {
+    await getRepository().deleteProfileData(profileId);
+    await forgetProfileKey(profileId);
+    setProfiles((prev) => prev.filter((p) => p.id !== profileId));
+    setActiveProfileId((prev) => (prev === profileId ? null : prev));
+  };
+
+  const addCheckIn = (
+    mood: MoodType,
+    symptoms: string[],
+    details: CheckInDetails = {}
+  ) => {
     const entry: CheckIn = {
       id: `${Date.now()}_${Math.random().toString(16).slice(2)}`,
-      timestamp: Date.now(),
+      timestamp: details.timestamp ?? Date.now(),
       mood,
       symptoms,
+      source: details.source ?? "manual",
+      sleepQuality: details.sleepQuality,
+      intensity: details.intensity,
+      notes: details.notes?.trim() || undefined,
+    };
+    setCheckIns((prev) =>
+      details.timestamp === undefined
+        ? [entry, ...prev]
+        : [entry, ...prev].sort((a, b) => b.timestamp - a.timestamp)
+    );
+    domainEvents.emit("checkin.created", {
+      profileId: activeProfileId,
+      checkIn: entry,
+    });
+  };
+
+  const updateCheckIn = (id: string, changes: CheckInEdit) => {
+    const current = checkIns.find((c) => c.id === id);
+    if (!current) return;
+    const updated: CheckIn = {
+      ...current,
+      ...changes,
+      notes:
+        changes.notes !== undefined
+          ? changes.notes.trim() || undefined
+          : current.notes,
+      updatedAt: Date.now(),
+      clock: touchClock(current.clock, Object.keys(changes)),
+    };
+    setCheckIns((prev) => prev.map((c) => (c.id === id ? updated : c)));
+    domainEvents.emit("checkin.updated", {
+      profileId: activeProfileId,
+      checkIn: updated,
+    });
+  };
+
+  const deleteCheckIn = (id: string) => {
+    const removed = checkIns.find((c) => c.id === id) ?? null;
+    if (!removed) return null;
+    setCheckIns((prev) => prev.filter((c) => c.id !== id));
+    domainEvents.emit("checkin.deleted", {
+      profileId: activeProfileId,
+      checkIn: removed,
+    });
+    return removed;
+  };
+
+  const restoreCheckIn = (deleted: CheckIn) => {
+    if (checkIns.some((c) => c.id === deleted.id)) return;
+    // stamped so it also outranks the delete on other devices
+    const checkIn: CheckIn = {
+      ...deleted,
+      clock: touchClock(deleted.clock, [ALIVE_FIELD]),
     };
-    setCheckIns((prev) => [entry, ...prev]);
+    setCheckIns((prev) =>
+      prev.some((c) => c.id === checkIn.id)
+        ? prev
+        : [...prev, checkIn].sort((a, b) => b.timestamp - a.timestamp)
+    );
+    domainEvents.emit("checkin.created", { profileId: activeProfileId, checkIn });
   };
 
-  const logAlertEvent = (type: AlertEventType, message: string) => {
+  const lastCheckIn = useMemo(() => {
+    let latest: CheckIn | null = null;
+    for (const c of checkIns) {
+      if (c.source !== "manual") continue;
+      if (!latest || c.timestamp > latest.timestamp) latest = c;
+    }
+    return latest;
+  }, [checkIns]);
+
+  const logAlertEvent = (
+    type: AlertEventType,
+    message: string,
+    details: AlertDetails = {}
+  ) => {
     const evt: AlertEvent = {
       id: `${Date.now()}_${Math.random().toString(16).slice(2)}`,
       type,
       message,
-      timestamp: Date.now(),
+      timestamp: details.timestamp ?? Date.now(),
+      notifiedAt: details.notifiedAt,
+      silenced: details.silenced,
     };
-    setAlerts((prev) => [evt, ...prev]);
+    setAlerts((prev) =>
+      details.timestamp === undefined
+        ? [evt, ...prev]
+        : [evt, ...prev].sort((a, b) => b.timestamp - a.timestamp)
+    );
+    domainEvents.emit("alert.raised", { profileId: activeProfileId, alert: evt });
+  };
+
+  const acknowledgeAlert = (alertId: string) => {
+    const current = alerts.find((a) => a.id === alertId);
+    if (!current || current.acknowledgedAt) return;
+    const acknowledged: AlertEvent = { ...current, acknowledgedAt: Date.now() };
+    setAlerts((prev) => prev.map((a) => (a.id === alertId ? acknowledged : a)));
+    domainEvents.emit("alert.acknowledged", {
+      profileId: activeProfileId,
+      alert: acknowledged,
+    });
+  };
+
+  const mergeImported = (incomingCheckIns: CheckIn[], incomingAlerts: AlertEvent[]) => {
+    const unseen = <T extends { id: string }>(prev: T[], incoming: T[]) => {
+      const seen = new Set(prev.map((r) => r.id));
+      return incoming.filter((r) => !seen.has(r.id));
+    };
+    const merge = <T extends { id: string; timestamp: number }>(
+      prev: T[],
+      incoming: T[]
+    ) => {
+      const fresh = unseen(prev, incoming);
+      if (fresh.length === 0) return prev;
+      return [...prev, ...fresh].sort((a, b) => b.timestamp - a.timestamp);
+    };
+    setCheckIns((prev) => merge(prev, incomingCheckIns));
+    setAlerts((prev) => merge(prev, incomingAlerts));
+
+    // only what was actually added goes on to sync
+    const addedCheckIns = unseen(checkIns, incomingCheckIns);
+    const addedAlerts = unseen(alerts, incomingAlerts);
+    if (activeProfileId && (addedCheckIns.length > 0 || addedAlerts.length > 0)) {
+      domainEvents.emit("data.imported", {
+        profileId: activeProfileId,
+        checkIns: addedCheckIns,
+        alerts: addedAlerts,
+      });
+    }
+  };
+
+  const applyRemoteChanges = (
+    profileId: string,
+    changes: RemoteChange[],
+    tombstones: Tombstones
+  ) => {
+    if (!hydrated || profileId !== activeProfileId) return null;
+    if (dataOwnerRef.current !== profileId) return null;
+    setCheckIns((prev) => applyRemoteCheckIns(prev, changes, tombstones).records);
+    setAlerts((prev) => applyRemoteAlerts(prev, changes));
+    // reported against what's on screen right now
+    return applyRemoteCheckIns(checkIns, changes, tombstones).overrides;
+  };
+
+  const setRetention = (policy: RetentionPolicy) => {
+    if (!activeProfileId) return;
+    const profileId = activeProfileId;
+    const next = sanitizeRetention(policy);
+    setRetentionState(next);
+    (async () => {
+      try {
+        const repo = getRepository();
+        const prefs = await repo.loadPreferences(profileId);
+        await repo.savePreferences(profileId, { ...prefs, retention: next });
+      } catch (e) {
+        console.warn("Failed to save retention policy", e);
+      }
+    })();
+  };
 
-    // later you can sync this with a backend / parent dashboard view
+  const setSensorSettings = (settings: SensorSettings) => {
+    const next = sanitizeSensorSettings(settings);
+    setSensorSettingsState(next);
+    if (!activeProfileId) return;
+    const profileId = activeProfileId;
+    (async () => {
+      try {
+        const repo = getRepository();
+        const prefs = await repo.loadPreferences(profileId);
+        await repo.savePreferences(profileId, { ...prefs, sensors: next });
+      } catch (e) {
+        console.warn("Failed to save sensor settings", e);
+      }
+    })();
+  };
+
+  const setAlertModes = (modes: AlertModes) => {
+    const next = sanitizeAlertModes(modes);
+    setAlertModesState(next);
+    if (!activeProfileId) return;
+    const profileId = activeProfileId;
+    (async () => {
+      try {
+        const repo = getRepository();
+        const prefs = await repo.loadPreferences(profileId);
+        await repo.savePreferences(profileId, { ...prefs, alertModes: next });
+      } catch (e) {
+        console.warn("Failed to save alert modes", e);
+      }
+    })();
+  };
+
+  const deleteAll = async (): Promise<DeletionReport> => {
+    // nothing may be written back while (or after) the wipe runs
+    const couldPersist = canPersistRef.current;
+    canPersistRef.current = false;
+    let report: DeletionReport;
+    try {
+      report = await deleteAllData();
+    } catch (e) {
+      canPersistRef.current = couldPersist;
+      throw e;
+    }
+
+    dataOwnerRef.current = null;
+    claimLegacyForRef.current = null;
+    setGuest(null);
+    setActiveProfileId(null);
+    setProfiles([]);
+    setCheckIns([]);
+    setAlerts([]);
+    setRetentionState(DEFAULT_RETENTION);
+    setSensorSettingsState(DEFAULT_SENSOR_SETTINGS);
+    setAlertModesState(DEFAULT_ALERT_MODES);
+    return report;
   };
 
   const value = useMemo(
     () => ({
       profile,
       setProfile,
+      signOut,
+      sessionRestored: registryLoaded,
+      profiles,
+      switchProfile,
+      startGuestSession,
+      isGuestSession: guestActive,
+      guestDataSummary,
+      upgradeGuestSession,
+      removeProfile,
       checkIns,
       addCheckIn,
+      lastCheckIn,
+      updateCheckIn,
+      deleteCheckIn,
+      restoreCheckIn,
       alerts,
       logAlertEvent,
+      acknowledgeAlert,
+      mergeImported,
+      applyRemoteChanges,
+      retention,
+      setRetention,
+      sensorSettings,
+      setSensorSettings,
+      alertModes,
+      setAlertModes,
+      deleteAllData: deleteAll,
+      hydrated,
     }),
-    [profile, checkIns, alerts]
+    [
+      profile,
+      profiles,
+      registryLoaded,
+      checkIns,
+      lastCheckIn,
+      alerts,
+      retention,
+      sensorSettings,
+      alertModes,
+      hydrated,
+    ]
   );
 
   return <UserContext.Provider value={value}>{children}</UserContext.Provider>;
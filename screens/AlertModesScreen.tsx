@@ -0,0 +1,386 @@
+// screens/AlertModesScreen.tsx
+import React from "react";
+import {
+  SafeAreaView,
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from "react-native";
+import type { NativeStackScreenProps } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../App";
+import { useUser } from "../context/UserContext";
+import { SENSOR_INFO, SENSOR_KINDS, SensorKind } from "../src/sensors/settings";
+import {
+  ALERT_MODE_IDS,
+  ALERT_MODE_INFO,
+  AlertModeId,
+  clockLabel,
+  ModeSensorRule,
+  QUIET_END_CHOICES,
+  QUIET_START_CHOICES,
+  QuietHours,
+  SensitivityStep,
+  SNOOZE_CHOICES,
+  snoozeUntil,
+  stepLabel,
+} from "../src/sensors/alertModes";
+import { useAlertStatus } from "../src/sensors/useAlertStatus";
+
+type Props = NativeStackScreenProps<RootStackParamList, "AlertModes">;
+
+const STEPS: SensitivityStep[] = [0, 1, 2];
+
+// a stored time that isn't a preset is offered too
+const withCurrent = (choices: number[], current: number) =>
+  choices.includes(current) ? choices : [...choices, current].sort((a, b) => a - b);
+
+const timeLabel = (at: number) =>
+  new Date(at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+const AlertModesScreen: React.FC<Props> = ({ navigation }) => {
+  const { alertModes, setAlertModes } = useUser();
+  const { pause } = useAlertStatus();
+  const activeMode = alertModes.activeMode;
+  const quiet = alertModes.quietHours;
+
+  const pickMode = (mode: AlertModeId) => setAlertModes({ ...alertModes, activeMode: mode });
+
+  const updateRule = (kind: SensorKind, change: Partial<ModeSensorRule>) => {
+    const rules = alertModes.rules[activeMode];
+    setAlertModes({
+      ...alertModes,
+      rules: {
+        ...alertModes.rules,
+        [activeMode]: { ...rules, [kind]: { ...rules[kind], ...change } },
+      },
+    });
+  };
+
+  const updateQuiet = (change: Partial<QuietHours>) =>
+    setAlertModes({ ...alertModes, quietHours: { ...quiet, ...change } });
+
+  const snooze = (minutes: number | null) =>
+    setAlertModes({
+      ...alertModes,
+      snoozedUntil: minutes === null ? null : snoozeUntil(Date.now(), minutes),
+    });
+
+  const renderChips = <T extends number>(
+    choices: T[],
+    current: T,
+    label: (value: T) => string,
+    onPick: (value: T) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {choices.map((value) => {
+        const active = value === current;
+        return (
+          <TouchableOpacity
+            key={value}
+            style={[styles.chip, active && styles.chipActive]}
+            onPress={() => onPick(value)}
+          >
+            <Text style={[styles.chipText, active && styles.chipTextActive]}>
+              {label(value)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const snoozed = pause.paused && pause.reason === "snooze";
+  const modeInfo = ALERT_MODE_INFO[activeMode];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.inner}>
+        <Text style={styles.header}>Alert modes 🔕</Text>
+        <Text style={styles.subheader}>
+          A concert, PE or a movie night can set the sensors off for no
+          reason. Snooze them for a while, give them quiet hours, or pick a
+          mode that fits where you are.
+        </Text>
+
+        <View style={[styles.card, pause.paused && styles.cardPaused]}>
+          <Text style={styles.cardTitle}>
+            {pause.paused
+              ? `Sensor alerts paused until ${timeLabel(pause.until)}`
+              : `${modeInfo.emoji} ${modeInfo.title} mode`}
+          </Text>
+          <Text style={styles.hint}>
+            {pause.paused
+              ? pause.reason === "snooze"
+                ? "You snoozed them. What the sensors notice is still logged, just without notifications or buzzing."
+                : "It’s quiet hours. What the sensors notice is still logged, just without notifications or buzzing."
+              : modeInfo.detail}
+          </Text>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>⏸️ Snooze</Text>
+          <Text style={styles.hint}>
+            Hush every sensor alert for a while – still logged, but no
+            notifications or buzzing. They come back on their own.
+          </Text>
+          {renderChips(
+            SNOOZE_CHOICES,
+            -1,
+            (minutes) => (minutes < 60 ? `${minutes} min` : `${minutes / 60} h`),
+            (minutes) => snooze(minutes)
+          )}
+          {snoozed && (
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => snooze(null)}>
+              <Text style={styles.secondaryButtonText}>Turn alerts back on now</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Mode</Text>
+          <Text style={styles.hint}>
+            Each mode decides which sensors alert, and how much it takes.
+          </Text>
+          <View style={styles.chipRow}>
+            {ALERT_MODE_IDS.map((mode) => {
+              const active = mode === activeMode;
+              const info = ALERT_MODE_INFO[mode];
+              return (
+                <TouchableOpacity
+                  key={mode}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => pickMode(mode)}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                    {info.emoji} {info.title}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {activeMode === "everyday" ? (
+            <Text style={styles.hint}>{modeInfo.detail}</Text>
+          ) : (
+            SENSOR_KINDS.map((kind) => {
+              const rule = alertModes.rules[activeMode][kind];
+              const info = SENSOR_INFO[kind];
+              return (
+                <View key={kind} style={styles.ruleRow}>
+                  <View style={styles.cardHeader}>
+                    <Text style={styles.label}>
+                      {info.emoji} {info.title}
+                    </Text>
+                    <TouchableOpacity
+                      style={[styles.toggle, rule.enabled && styles.toggleOn]}
+                      onPress={() => updateRule(kind, { enabled: !rule.enabled })}
+                    >
+                      <Text style={[styles.toggleText, rule.enabled && styles.toggleTextOn]}>
+                        {rule.enabled ? "Alerts" : "Silent"}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                  {rule.enabled &&
+                    renderChips(STEPS, rule.step, stepLabel, (step) =>
+                      updateRule(kind, { step })
+                    )}
+                </View>
+              );
+            })
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>🌙 Quiet hours</Text>
+            <TouchableOpacity
+              style={[styles.toggle, quiet.enabled && styles.toggleOn]}
+              onPress={() => updateQuiet({ enabled: !quiet.enabled })}
+            >
+              <Text style={[styles.toggleText, quiet.enabled && styles.toggleTextOn]}>
+                {quiet.enabled ? "On" : "Off"}
+              </Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.hint}>
+            Every day between these times sensor alerts don’t notify or buzz –
+            whatever the mode. They’re still logged.
+          </Text>
+          {quiet.enabled && (
+            <>
+              <Text style={styles.label}>From</Text>
+              {renderChips(
+                withCurrent(QUIET_START_CHOICES, quiet.startMinute),
+                quiet.startMinute,
+                clockLabel,
+                (startMinute) => updateQuiet({ startMinute })
+              )}
+              <Text style={styles.label}>Until</Text>
+              {renderChips(
+                withCurrent(QUIET_END_CHOICES, quiet.endMinute),
+                quiet.endMinute,
+                clockLabel,
+                (endMinute) => updateQuiet({ endMinute })
+              )}
+            </>
+          )}
+        </View>
+
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={() => navigation.navigate("SensorSettings")}
+        >
+          <Text style={styles.secondaryButtonText}>Sensor settings</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.backButtonText}>Back</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default AlertModesScreen;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F3F4F6",
+  },
+  inner: {
+    paddingHorizontal: 24,
+    paddingTop: 32,
+    paddingBottom: 24,
+  },
+  header: {
+    fontSize: 22,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  subheader: {
+    fontSize: 14,
+    color: "#4B5563",
+    marginTop: 6,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    marginBottom: 14,
+  },
+  cardPaused: {
+    backgroundColor: "#EDE9FE",
+    borderColor: "#DDD6FE",
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 6,
+  },
+  cardTitle: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  hint: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginBottom: 4,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#374151",
+    marginTop: 10,
+  },
+  ruleRow: {
+    borderTopWidth: 1,
+    borderTopColor: "#F3F4F6",
+    marginTop: 6,
+  },
+  toggle: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    paddingVertical: 4,
+    paddingHorizontal: 14,
+    backgroundColor: "white",
+  },
+  toggleOn: {
+    backgroundColor: "#8B5CF6",
+    borderColor: "#8B5CF6",
+  },
+  toggleText: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#4B5563",
+  },
+  toggleTextOn: {
+    color: "white",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginTop: 6,
+  },
+  chip: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+    backgroundColor: "white",
+  },
+  chipActive: {
+    backgroundColor: "#8B5CF6",
+    borderColor: "#8B5CF6",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#4B5563",
+    fontWeight: "600",
+  },
+  chipTextActive: {
+    color: "white",
+  },
+  secondaryButton: {
+    backgroundColor: "white",
+    borderRadius: 999,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    alignItems: "center",
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  secondaryButtonText: {
+    color: "#4B5563",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  backButton: {
+    marginTop: 8,
+    backgroundColor: "#111827",
+    borderRadius: 999,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  backButtonText: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,410 @@
+// screens/AppLockSettingsScreen.tsx
+import React, { useState } from "react";
+import {
+  SafeAreaView,
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+} from "react-native";
+import type { NativeStackScreenProps } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../App";
+import { useUser } from "../context/UserContext";
+import { useAppLock } from "../context/AppLockContext";
+import {
+  AUTO_LOCK_CHOICES,
+  autoLockLabel,
+  MAX_PIN_LENGTH,
+  pinProblem,
+  UnlockResult,
+} from "../src/auth/appLock";
+
+type Props = NativeStackScreenProps<RootStackParamList, "AppLock">;
+
+const AppLockSettingsScreen: React.FC<Props> = ({ navigation }) => {
+  const { profile } = useUser();
+  const {
+    enabled,
+    autoLockSeconds,
+    ownerEmail,
+    enable,
+    changePin,
+    disable,
+    setAutoLockSeconds,
+    lockNow,
+  } = useAppLock();
+
+  const [currentPin, setCurrentPin] = useState("");
+  const [pin, setPin] = useState("");
+  const [pinConfirm, setPinConfirm] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  // The PIN is reset with an account password, so guests can't set one
+  const canSetPin = !!profile && profile.role !== "guest" && !!profile.email;
+
+  const clearInputs = () => {
+    setCurrentPin("");
+    setPin("");
+    setPinConfirm("");
+  };
+
+  const checkNewPin = (): boolean => {
+    const problem = pinProblem(pin);
+    if (problem) {
+      Alert.alert("Choose another PIN", problem);
+      return false;
+    }
+    if (pin !== pinConfirm) {
+      Alert.alert("PINs don’t match", "Type the same PIN in both boxes.");
+      return false;
+    }
+    return true;
+  };
+
+  const explainFailure = (result: UnlockResult) => {
+    if (result.ok) return;
+    Alert.alert(
+      "Current PIN isn’t right",
+      result.lockedUntil
+        ? "Too many wrong tries – wait a little and try again."
+        : "Type the PIN you use to unlock the app."
+    );
+  };
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await task();
+    } catch (e: any) {
+      console.warn("App lock change failed", e);
+      Alert.alert("Oops", e?.message || "Couldn’t save that. Try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnable = () => {
+    if (!profile || !checkNewPin()) return;
+    run(async () => {
+      await enable(pin, profile.email);
+      clearInputs();
+      Alert.alert(
+        "App lock is on 🔐",
+        `If you forget the PIN, the password for ${profile.email} resets it.`
+      );
+    });
+  };
+
+  const handleChange = () => {
+    if (!checkNewPin()) return;
+    run(async () => {
+      const result = await changePin(currentPin, pin);
+      if (!result.ok) return explainFailure(result);
+      clearInputs();
+      Alert.alert("PIN changed", "Use your new PIN next time.");
+    });
+  };
+
+  const handleDisable = () => {
+    run(async () => {
+      const result = await disable(currentPin);
+      if (!result.ok) return explainFailure(result);
+      clearInputs();
+    });
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.inner}>
+        <Text style={styles.header}>App lock 🔐</Text>
+        <Text style={styles.subheader}>
+          Keep your check-ins and chats private on a shared phone. The PIN is
+          stored only as a hash on this device.
+        </Text>
+
+        {!enabled && !canSetPin && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Log in to use a PIN</Text>
+            <Text style={styles.hint}>
+              A forgotten PIN is reset with your account password, so app lock
+              needs an account – not a guest profile.
+            </Text>
+          </View>
+        )}
+
+        {!enabled && canSetPin && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Turn on app lock</Text>
+            <Text style={styles.hint}>
+              Choose a PIN of 4–{MAX_PIN_LENGTH} digits. You’ll type it whenever
+              you open NeuroAura.
+            </Text>
+            <TextInput
+              style={styles.input}
+              value={pin}
+              onChangeText={setPin}
+              placeholder="New PIN"
+              placeholderTextColor="#9CA3AF"
+              secureTextEntry
+              keyboardType="number-pad"
+              maxLength={MAX_PIN_LENGTH}
+            />
+            <TextInput
+              style={styles.input}
+              value={pinConfirm}
+              onChangeText={setPinConfirm}
+              placeholder="Type it again"
+              placeholderTextColor="#9CA3AF"
+              secureTextEntry
+              keyboardType="number-pad"
+              maxLength={MAX_PIN_LENGTH}
+            />
+            <TouchableOpacity
+              style={[styles.primaryButton, busy && styles.disabled]}
+              onPress={handleEnable}
+              disabled={busy}
+            >
+              <Text style={styles.primaryButtonText}>
+                {busy ? "Saving…" : "Turn on"}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {enabled && (
+          <>
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Lock after leaving the app</Text>
+              <Text style={styles.hint}>
+                How long NeuroAura can be in the background before it asks for
+                the PIN again.
+              </Text>
+              <View style={styles.chipRow}>
+                {AUTO_LOCK_CHOICES.map((seconds) => {
+                  const active = seconds === autoLockSeconds;
+                  return (
+                    <TouchableOpacity
+                      key={seconds}
+                      style={[styles.chip, active && styles.chipActive]}
+                      onPress={() =>
+                        setAutoLockSeconds(seconds).catch((e) =>
+                          console.warn("Failed to save auto-lock", e)
+                        )
+                      }
+                    >
+                      <Text
+                        style={[styles.chipText, active && styles.chipTextActive]}
+                      >
+                        {autoLockLabel(seconds)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <TouchableOpacity style={styles.secondaryButton} onPress={lockNow}>
+                <Text style={styles.secondaryButtonText}>Lock now</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Change or turn off</Text>
+              <Text style={styles.hint}>
+                Needs your current PIN.
+                {ownerEmail ? ` Forgot it? The password for ${ownerEmail} resets it on the lock screen.` : ""}
+              </Text>
+              <TextInput
+                style={styles.input}
+                value={currentPin}
+                onChangeText={setCurrentPin}
+                placeholder="Current PIN"
+                placeholderTextColor="#9CA3AF"
+                secureTextEntry
+                keyboardType="number-pad"
+                maxLength={MAX_PIN_LENGTH}
+              />
+              <TextInput
+                style={styles.input}
+                value={pin}
+                onChangeText={setPin}
+                placeholder="New PIN"
+                placeholderTextColor="#9CA3AF"
+                secureTextEntry
+                keyboardType="number-pad"
+                maxLength={MAX_PIN_LENGTH}
+              />
+              <TextInput
+                style={styles.input}
+                value={pinConfirm}
+                onChangeText={setPinConfirm}
+                placeholder="New PIN again"
+                placeholderTextColor="#9CA3AF"
+                secureTextEntry
+                keyboardType="number-pad"
+                maxLength={MAX_PIN_LENGTH}
+              />
+              <View style={styles.buttonRow}>
+                <TouchableOpacity
+                  style={[styles.secondaryButton, busy && styles.disabled]}
+                  onPress={handleDisable}
+                  disabled={busy || !currentPin}
+                >
+                  <Text style={styles.secondaryButtonText}>Turn off</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.primaryButton, busy && styles.disabled]}
+                  onPress={handleChange}
+                  disabled={busy || !currentPin}
+                >
+                  <Text style={styles.primaryButtonText}>
+                    {busy ? "Saving…" : "Change PIN"}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </>
+        )}
+
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.backButtonText}>Back</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default AppLockSettingsScreen;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F3F4F6",
+  },
+  inner: {
+    paddingHorizontal: 24,
+    paddingTop: 32,
+    paddingBottom: 24,
+  },
+  header: {
+    fontSize: 22,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  subheader: {
+    fontSize: 14,
+    color: "#4B5563",
+    marginTop: 6,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    marginBottom: 14,
+  },
+  cardTitle: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#111827",
+    marginBottom: 6,
+  },
+  hint: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: "#111827",
+    marginTop: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginTop: 6,
+  },
+  chip: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+    backgroundColor: "white",
+  },
+  chipActive: {
+    backgroundColor: "#8B5CF6",
+    borderColor: "#8B5CF6",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#4B5563",
+    fontWeight: "600",
+  },
+  chipTextActive: {
+    color: "white",
+  },
+  buttonRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 12,
+  },
+  primaryButton: {
+    backgroundColor: "#8B5CF6",
+    borderRadius: 999,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    alignItems: "center",
+    marginTop: 12,
+  },
+  primaryButtonText: {
+    color: "white",
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  secondaryButton: {
+    backgroundColor: "white",
+    borderRadius: 999,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    alignItems: "center",
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    color: "#4B5563",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+  backButton: {
+    marginTop: 8,
+    backgroundColor: "#111827",
+    borderRadius: 999,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  backButtonText: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
@@ -13,8 +13,19 @@ import {
 } from "react-native";
 import type { NativeStackScreenProps } from "@react-navigation/native-stack";
 import type { RootStackParamList } from "../App";
-import * as SecureStore from "expo-secure-store";
-import { useUser, UserRole } from "../context/UserContext";
+import { ProfileInput, useUser, UserRole } from "../context/UserContext";
+import {
+  findUser,
+  issueRecoveryCodes,
+  loadUsers,
+  resetPasswordWithRecoveryCode,
+} from "../src/auth/accountStore";
+import { AuthFailure, AuthResult, getAuthProvider } from "../src/auth/providers";
+import { MIN_PASSWORD_LENGTH, passwordProblem } from "../src/auth/passwords";
+import { isEmptySummary, ProfileDataSummary } from "../src/storage";
+import RecoveryCodeList from "../src/components/RecoveryCodeList";
+import { getSyncConfig } from "../src/sync/syncClient";
+import { joinWithDeviceCode } from "../src/sync/profileKeys";
 
 type Props = NativeStackScreenProps<RootStackParamList, "Auth">;
 
@@ -25,51 +36,62 @@ const PASTEL_YELLOW = "#E9ECCE";
 const PASTEL_GREEN = "#CDE9DC";
 const PASTEL_BLUE = "#C4DFE5";
 
-type AuthMode = "login" | "signup";
-
-interface StoredUser {
-  name: string;
-  email: string;
-  password: string; // ⚠️ demo only
-  role?: UserRole;
-}
-
-const USER_KEY = "neuroaura_user";
-
-async function saveUser(user: StoredUser) {
-  await SecureStore.setItemAsync(USER_KEY, JSON.stringify(user));
+type AuthMode = "login" | "signup" | "recover";
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+
+// "3 check-ins, 1 alert and 2 schedule items"
+function describeSummary(s: ProfileDataSummary): string {
+  const parts = [
+    s.checkIns > 0 && plural(s.checkIns, "check-in"),
+    s.alerts > 0 && plural(s.alerts, "alert"),
+    s.scheduleItems > 0 && plural(s.scheduleItems, "schedule item"),
+    s.screenTimeDays > 0 && plural(s.screenTimeDays, "day") + " of screen time",
+    s.chatMessages > 0 && "your chat with Your Friend",
+  ].filter(Boolean) as string[];
+  if (parts.length <= 1) return parts.join("");
+  return `${parts.slice(0, -1).join(", ")} and ${parts[parts.length - 1]}`;
 }
 
-async function loadUser(): Promise<StoredUser | null> {
-  try {
-    const v = await SecureStore.getItemAsync(USER_KEY);
-    if (!v) return null;
-    return JSON.parse(v);
-  } catch (e) {
-    console.warn("Failed to parse stored user", e);
-    return null;
-  }
-}
-
-const AuthScreen: React.FC<Props> = ({ navigation, route }) => {
-  const { setProfile } = useUser();
+const AuthScreen: React.FC<Props> = ({ route }) => {
+  const auth = getAuthProvider();
+  const {
+    setProfile,
+    startGuestSession,
+    isGuestSession,
+    guestDataSummary,
+    upgradeGuestSession,
+  } = useUser();
 
   const incomingRole: UserRole =
     (route.params?.role as UserRole) || "individual";
 
-  const [mode, setMode] = useState<AuthMode>("signup");
+  // coming from the profile list = logging in to that account
+  const accountEmail = route.params?.email;
+  const [mode, setMode] = useState<AuthMode>(accountEmail ? "login" : "signup");
   const [name, setName] = useState("");
-  const [email, setEmail] = useState("");
+  const [email, setEmail] = useState(accountEmail ?? "");
   const [password, setPassword] = useState("");
   const [confirm, setConfirm] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  // joining a profile that's already on another device (see
+  // DataSettingsScreen); kept once redeemed, as a code works only once
+  const [deviceCode, setDeviceCode] = useState("");
+  const [joinedProfileId, setJoinedProfileId] = useState<string | null>(null);
+  const syncConfig = getSyncConfig();
+  // a new account's recovery codes, shown once before signing it in
+  const [issued, setIssued] = useState<{
+    codes: string[];
+    account: ProfileInput;
+  } | null>(null);
   const [loading, setLoading] = useState(false);
   const [savedEmailHint, setSavedEmailHint] = useState<string | null>(null);
 
   useEffect(() => {
     (async () => {
-      const existing = await loadUser();
-      if (existing) {
-        setSavedEmailHint(existing.email);
+      const users = await loadUsers();
+      if (users.length > 0) {
+        setSavedEmailHint(users[users.length - 1].email);
       }
     })();
   }, []);
@@ -78,108 +100,241 @@ const AuthScreen: React.FC<Props> = ({ navigation, route }) => {
     setMode(next);
     setPassword("");
     setConfirm("");
+    setRecoveryCode("");
+  };
+
+  const explainFailure = (reason: AuthFailure, message?: string) => {
+    switch (reason) {
+      case "cancelled":
+        return;
+      case "account_exists":
+        Alert.alert(
+          "Account already exists",
+          "There’s already an account with this email on this device. Try logging in instead."
+        );
+        return;
+      case "no_account":
+        Alert.alert(
+          "No account found",
+          "I couldn’t find an account with this email on this device. Try signing up first."
+        );
+        return;
+      case "wrong_password":
+        Alert.alert(
+          "Oops",
+          "Email or password doesn’t match what’s saved on this device."
+        );
+        return;
+      default:
+        Alert.alert("Couldn’t reach sign-in", message || "Please try again in a moment.");
+    }
   };
 
   const handleSignup = async () => {
-    if (!name.trim()) {
-      Alert.alert("Tell me your name 💛", "We’ll use it to greet you inside.");
-      return;
+    // a provider with its own sign-in page asks for these itself
+    if (auth.collectsPassword) {
+      if (!name.trim()) {
+        Alert.alert("Tell me your name 💛", "We’ll use it to greet you inside.");
+        return;
+      }
+      if (!email.trim()) {
+        Alert.alert("Email missing", "Add an email so we can remember you.");
+        return;
+      }
+      const problem = passwordProblem(password, { name, email });
+      if (problem) {
+        Alert.alert("Choose a stronger password", problem);
+        return;
+      }
+      if (password !== confirm) {
+        Alert.alert("Passwords don’t match", "Double-check both fields.");
+        return;
+      }
     }
-    if (!email.trim()) {
-      Alert.alert("Email missing", "Add an email so we can remember you.");
-      return;
+
+    setLoading(true);
+    let profileId = joinedProfileId;
+    if (syncConfig && deviceCode.trim() && !profileId) {
+      try {
+        profileId = await joinWithDeviceCode(syncConfig, deviceCode);
+        setJoinedProfileId(profileId);
+      } catch (e: any) {
+        setLoading(false);
+        Alert.alert(
+          "That device code didn’t work",
+          `${e?.message || "Please try again."} Make a new one on your other device.`
+        );
+        return;
+      }
     }
-    if (!password || password.length < 4) {
-      Alert.alert(
-        "Password too short",
-        "Use at least 4 characters for this demo."
-      );
+
+    let result: AuthResult;
+    try {
+      result = await auth.signUp({ name, email, password, role: incomingRole });
+    } catch (e) {
+      console.warn("Failed to create account", e);
+      setLoading(false);
+      Alert.alert("Couldn’t create account", "Please try again.");
       return;
     }
-    if (password !== confirm) {
-      Alert.alert("Passwords don’t match", "Double-check both fields.");
+    if (!result.ok) {
+      setLoading(false);
+      explainFailure(result.reason, result.message);
       return;
     }
 
-    setLoading(true);
-    const user: StoredUser = {
-      name: name.trim(),
-      email: email.trim(),
-      password,
-      role: incomingRole,
+    const account: ProfileInput = {
+      // same id as on the other device, so the two sync together
+      ...(profileId ? { id: profileId } : {}),
+      name: result.account.name,
+      email: result.account.email,
+      role: result.account.role || incomingRole,
+      onboarded: false,
     };
-    await saveUser(user);
+    // recovery codes belong to accounts kept on this device
+    if (auth.kind === "local") {
+      try {
+        const codes = await issueRecoveryCodes(account.email);
+        setLoading(false);
+        setIssued({ codes, account });
+        return;
+      } catch (e) {
+        // the account is fine without them – they can be made in settings
+        console.warn("Failed to create recovery codes", e);
+      }
+    }
+    await finishSignup(account);
+  };
 
-    // 🔥 update global profile for the rest of the app
-    setProfile({
-      name: user.name,
-      email: user.email,
-      role: user.role || "individual",
-    });
+  // 🔥 signs the new account in – App.tsx routes it to Onboarding
+  const finishSignup = async (account: ProfileInput) => {
+    if (!isGuestSession) {
+      setLoading(false);
+      setProfile(account);
+      return;
+    }
 
+    let summary = null;
+    try {
+      summary = await guestDataSummary();
+    } catch (e) {
+      console.warn("Failed to read guest data", e);
+    }
     setLoading(false);
-
+    const upgrade = async (keepData: boolean) => {
+      try {
+        await upgradeGuestSession(account, keepData);
+      } catch (e: any) {
+        console.warn("Failed to move guest data", e);
+        Alert.alert(
+          "Couldn’t bring your data over",
+          `${e?.message || "Something went wrong."} Your account is ready – you can log in and start fresh.`
+        );
+        setProfile(account);
+      }
+    };
+    if (!summary || isEmptySummary(summary)) {
+      upgrade(false);
+      return;
+    }
     Alert.alert(
-      "Account created 🎉",
-      "Welcome to NeuroAura! Let’s go check in.",
+      "Keep what you logged as a guest?",
+      `You logged ${describeSummary(summary)}. It can move into your new account – if you start fresh, it’s deleted.`,
       [
-        {
-          text: "Continue",
-          onPress: () => {
-            navigation.replace("CheckIn");
-          },
-        },
+        { text: "Start fresh", style: "destructive", onPress: () => upgrade(false) },
+        { text: "Keep it", onPress: () => upgrade(true) },
       ]
     );
   };
 
   const handleLogin = async () => {
-    if (!email.trim() || !password) {
+    if (auth.collectsPassword && (!email.trim() || !password)) {
       Alert.alert("Missing info", "Type your email and password to continue.");
       return;
     }
 
     setLoading(true);
-    const existing = await loadUser();
-    setLoading(false);
-
-    if (!existing) {
-      Alert.alert(
-        "No account found",
-        "I couldn’t find any saved account on this device. Try signing up first."
-      );
-      return;
+    let result: AuthResult;
+    try {
+      result = await auth.signIn({ email, password });
+    } catch (e) {
+      console.warn("Failed to log in", e);
+      result = { ok: false, reason: "unavailable" };
     }
+    setLoading(false);
 
-    if (existing.email !== email.trim() || existing.password !== password) {
-      Alert.alert(
-        "Oops",
-        "Email or password doesn’t match what’s saved on this device."
-      );
+    if (!result.ok) {
+      explainFailure(result.reason, result.message);
       return;
     }
+    const existing = result.account;
 
     // 🔥 update profile with stored data (and role)
     const roleToUse: UserRole = existing.role || incomingRole || "individual";
 
+    // App.tsx takes it from here (check-in, or the parent view)
     setProfile({
       name: existing.name,
       email: existing.email,
       role: roleToUse,
     });
+  };
+
+  const handleRecover = async () => {
+    if (!email.trim() || !recoveryCode.trim()) {
+      Alert.alert("Missing info", "Type your email and one of your recovery codes.");
+      return;
+    }
+    const existing = await findUser(email);
+    const problem = passwordProblem(password, {
+      name: existing?.name ?? "",
+      email,
+    });
+    if (problem) {
+      Alert.alert("Choose a stronger password", problem);
+      return;
+    }
+    if (password !== confirm) {
+      Alert.alert("Passwords don’t match", "Double-check both fields.");
+      return;
+    }
 
+    setLoading(true);
+    let result;
+    try {
+      result = await resetPasswordWithRecoveryCode(email, recoveryCode, password);
+    } catch (e) {
+      console.warn("Failed to reset password", e);
+      setLoading(false);
+      Alert.alert("Couldn’t change your password", "Please try again.");
+      return;
+    }
+    setLoading(false);
+
+    if (!result.ok) {
+      Alert.alert(
+        result.reason === "no_account" ? "No account found" : "That code didn’t work",
+        result.reason === "no_account"
+          ? "I couldn’t find an account with this email on this device."
+          : result.reason === "no_codes"
+          ? "This account has no unused recovery codes left."
+          : "Check for typos – each code works only once."
+      );
+      return;
+    }
+
+    const user = result.user;
     Alert.alert(
-      "Welcome back 💫",
-      `Hi ${existing.name}, let’s check in.`,
-      [
-        {
-          text: "Go to check-in",
-          onPress: () => {
-            navigation.replace("CheckIn");
-          },
-        },
-      ]
+      "Password changed 🔑",
+      result.remaining === 0
+        ? "That was your last recovery code – make a new set in Settings."
+        : `That code is now used up. You have ${plural(result.remaining, "code")} left.`
     );
+    setProfile({
+      name: user.name,
+      email: user.email,
+      role: user.role || incomingRole || "individual",
+    });
   };
 
   const roleLabel =
@@ -209,140 +364,258 @@ const AuthScreen: React.FC<Props> = ({ navigation, route }) => {
             </Text>
           </View>
 
-          {/* Mode toggle */}
-          <View style={styles.modeToggleWrapper}>
-            <View style={styles.modeToggle}>
-              <TouchableOpacity
-                style={[
-                  styles.modeButton,
-                  mode === "signup" && styles.modeButtonActive,
-                ]}
-                onPress={() => switchMode("signup")}
-                activeOpacity={0.9}
-              >
-                <Text
-                  style={[
-                    styles.modeText,
-                    mode === "signup" && styles.modeTextActive,
-                  ]}
-                >
-                  Sign up
-                </Text>
-              </TouchableOpacity>
-
-              <TouchableOpacity
-                style={[
-                  styles.modeButton,
-                  mode === "login" && styles.modeButtonActive,
-                ]}
-                onPress={() => switchMode("login")}
-                activeOpacity={0.9}
-              >
-                <Text
-                  style={[
-                    styles.modeText,
-                    mode === "login" && styles.modeTextActive,
-                  ]}
-                >
-                  Log in
-                </Text>
-              </TouchableOpacity>
+          {issued ? (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Your recovery codes 🗝️</Text>
+              <RecoveryCodeList
+                codes={issued.codes}
+                email={issued.account.email}
+                onDone={() => {
+                  const { account } = issued;
+                  setIssued(null);
+                  setLoading(true);
+                  finishSignup(account);
+                }}
+              />
             </View>
-          </View>
-
-          {/* Form card */}
-          <View style={styles.card}>
-            {mode === "signup" && (
-              <>
-                <Text style={styles.label}>Name</Text>
-                <TextInput
-                  style={styles.input}
-                  placeholder="What should I call you? 😊"
-                  value={name}
-                  onChangeText={setName}
-                  placeholderTextColor="#777"
-                  autoCapitalize="words"
-                />
-              </>
-            )}
-
-            <Text style={styles.label}>Email</Text>
-            <TextInput
-              style={styles.input}
-              placeholder={
-                savedEmailHint && mode === "login"
-                  ? `Try: ${savedEmailHint}`
-                  : "you@example.com"
-              }
-              value={email}
-              onChangeText={setEmail}
-              autoCapitalize="none"
-              keyboardType="email-address"
-              placeholderTextColor="#777"
-            />
-
-            <Text style={styles.label}>Password</Text>
-            <TextInput
-              style={styles.input}
-              placeholder={mode === "signup" ? "Create a password" : "••••••••"}
-              value={password}
-              onChangeText={setPassword}
-              secureTextEntry
-              placeholderTextColor="#777"
-            />
-
-            {mode === "signup" && (
-              <>
-                <Text style={styles.label}>Confirm password</Text>
-                <TextInput
-                  style={styles.input}
-                  placeholder="Type it again"
-                  value={confirm}
-                  onChangeText={setConfirm}
-                  secureTextEntry
-                  placeholderTextColor="#777"
-                />
-              </>
-            )}
-
-            <Text style={styles.helperText}>
-              For this hackathon build, your account is{" "}
-              <Text style={{ fontWeight: "700" }}>stored only on this device</Text>.
-              In a real launch we’ll plug in secure cloud auth.
-            </Text>
-
-            <TouchableOpacity
-              style={[styles.primaryButton, loading && styles.primaryDisabled]}
-              onPress={mode === "signup" ? handleSignup : handleLogin}
-              disabled={loading}
-              activeOpacity={0.95}
-            >
-              <Text style={styles.primaryText}>
-                {loading
-                  ? "Please wait…"
-                  : mode === "signup"
-                  ? "Create my NeuroAura account ✨"
-                  : "Log me in 🚪"}
-              </Text>
-            </TouchableOpacity>
-
-            <TouchableOpacity
-              style={styles.secondaryButton}
-              onPress={() => {
-                // guest profile; still set something so UI has a name
-                setProfile({
-                  name: "friend",
-                  email: "guest@neuroaura",
-                  role: incomingRole || "guest",
-                });
-                navigation.replace("CheckIn");
-              }}
-            >
-              <Text style={styles.secondaryText}>
-                Continue as guest (no saving) →
-              </Text>
-            </TouchableOpacity>
-          </View>
+          ) : (
+            <>
+              {/* Mode toggle */}
+              <View style={styles.modeToggleWrapper}>
+                <View style={styles.modeToggle}>
+                  <TouchableOpacity
+                    style={[
+                      styles.modeButton,
+                      mode === "signup" && styles.modeButtonActive,
+                    ]}
+                    onPress={() => switchMode("signup")}
+                    activeOpacity={0.9}
+                  >
+                    <Text
+                      style={[
+                        styles.modeText,
+                        mode === "signup" && styles.modeTextActive,
+                      ]}
+                    >
+                      Sign up
+                    </Text>
+                  </TouchableOpacity>
+
+                  <TouchableOpacity
+                    style={[
+                      styles.modeButton,
+                      mode === "login" && styles.modeButtonActive,
+                    ]}
+                    onPress={() => switchMode("login")}
+                    activeOpacity={0.9}
+                  >
+                    <Text
+                      style={[
+                        styles.modeText,
+                        mode === "login" && styles.modeTextActive,
+                      ]}
+                    >
+                      Log in
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+
+              {/* Form card */}
+              <View style={styles.card}>
+                {auth.collectsPassword ? (
+                  <>
+                    {mode === "signup" && (
+                      <>
+                        <Text style={styles.label}>Name</Text>
+                        <TextInput
+                          style={styles.input}
+                          placeholder="What should I call you? 😊"
+                          value={name}
+                          onChangeText={setName}
+                          placeholderTextColor="#777"
+                          autoCapitalize="words"
+                        />
+                      </>
+                    )}
+
+                    <Text style={styles.label}>Email</Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder={
+                        savedEmailHint && mode !== "signup"
+                          ? `Try: ${savedEmailHint}`
+                          : "you@example.com"
+                      }
+                      value={email}
+                      onChangeText={setEmail}
+                      autoCapitalize="none"
+                      keyboardType="email-address"
+                      placeholderTextColor="#777"
+                    />
+
+                    {mode === "recover" && (
+                      <>
+                        <Text style={styles.label}>Recovery code</Text>
+                        <TextInput
+                          style={styles.input}
+                          placeholder="XXXXX-XXXXX"
+                          value={recoveryCode}
+                          onChangeText={setRecoveryCode}
+                          autoCapitalize="characters"
+                          autoCorrect={false}
+                          placeholderTextColor="#777"
+                        />
+                      </>
+                    )}
+
+                    <Text style={styles.label}>
+                      {mode === "recover" ? "New password" : "Password"}
+                    </Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder={
+                        mode !== "login"
+                          ? `At least ${MIN_PASSWORD_LENGTH} characters`
+                          : "••••••••"
+                      }
+                      value={password}
+                      onChangeText={setPassword}
+                      secureTextEntry
+                      placeholderTextColor="#777"
+                    />
+
+                    {mode !== "login" && (
+                      <>
+                        <Text style={styles.label}>Confirm password</Text>
+                        <TextInput
+                          style={styles.input}
+                          placeholder="Type it again"
+                          value={confirm}
+                          onChangeText={setConfirm}
+                          secureTextEntry
+                          placeholderTextColor="#777"
+                        />
+                      </>
+                    )}
+
+                    {mode !== "login" && (
+                      <Text style={styles.helperText}>
+                        Mix letters with a number or symbol, and leave out your name
+                        and email.
+                      </Text>
+                    )}
+                  </>
+                ) : (
+                  <Text style={styles.helperText}>
+                    You’ll {mode === "signup" ? "create your account" : "log in"} on
+                    the sign-in page of{" "}
+                    <Text style={{ fontWeight: "700" }}>{auth.label}</Text>, then
+                    come straight back here.
+                  </Text>
+                )}
+
+                {mode === "signup" && syncConfig && (
+                  <>
+                    <Text style={styles.label}>Device code (optional)</Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="From Data settings on your other device"
+                      value={deviceCode}
+                      onChangeText={(text) => {
+                        setDeviceCode(text);
+                        setJoinedProfileId(null);
+                      }}
+                      autoCapitalize="characters"
+                      autoCorrect={false}
+                      placeholderTextColor="#777"
+                    />
+                    <Text style={styles.helperText}>
+                      Already use NeuroAura on another phone or tablet? Its code
+                      brings your profile and history over and keeps both in sync.
+                    </Text>
+                  </>
+                )}
+
+                {mode === "recover" ? (
+                  <Text style={styles.helperText}>
+                    Use one of the codes you saved when you signed up. It stops
+                    working once it’s used.
+                  </Text>
+                ) : !auth.collectsPassword ? (
+                  <Text style={styles.helperText}>
+                    NeuroAura never sees your password – it keeps only a
+                    short-lived sign-in token, in this device’s secure storage.
+                  </Text>
+                ) : (
+                  <Text style={styles.helperText}>
+                    Your account is{" "}
+                    <Text style={{ fontWeight: "700" }}>stored only on this device</Text>,
+                    and your password only as a salted hash – nobody can read it
+                    back, not even us.
+                  </Text>
+                )}
+
+                <TouchableOpacity
+                  style={[styles.primaryButton, loading && styles.primaryDisabled]}
+                  onPress={
+                    mode === "signup"
+                      ? handleSignup
+                      : mode === "recover"
+                      ? handleRecover
+                      : handleLogin
+                  }
+                  disabled={loading}
+                  activeOpacity={0.95}
+                >
+                  <Text style={styles.primaryText}>
+                    {loading
+                      ? "Please wait…"
+                      : mode === "signup"
+                      ? "Create my NeuroAura account ✨"
+                      : mode === "recover"
+                      ? "Set my new password 🔑"
+                      : "Log me in 🚪"}
+                  </Text>
+                </TouchableOpacity>
+
+                {mode === "login" && auth.kind === "local" && (
+                  <TouchableOpacity
+                    style={styles.secondaryButton}
+                    onPress={() => switchMode("recover")}
+                  >
+                    <Text style={styles.secondaryText}>
+                      Forgot your password? Use a recovery code
+                    </Text>
+                  </TouchableOpacity>
+                )}
+                {mode === "recover" && (
+                  <TouchableOpacity
+                    style={styles.secondaryButton}
+                    onPress={() => switchMode("login")}
+                  >
+                    <Text style={styles.secondaryText}>← Back to log in</Text>
+                  </TouchableOpacity>
+                )}
+
+                {isGuestSession ? (
+                  <Text style={styles.helperText}>
+                    Signing up from a guest session? You can keep what you’ve
+                    logged so far.
+                  </Text>
+                ) : (
+                  <TouchableOpacity
+                    style={styles.secondaryButton}
+                    onPress={startGuestSession}
+                  >
+                    <Text style={styles.secondaryText}>
+                      Continue as guest (nothing kept after you leave) →
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </>
+          )}
 
           <Text style={styles.footerNote}>
             Designed for teens & adults (12+), with gentle colours and zero
@@ -450,6 +723,12 @@ const styles = StyleSheet.create({
     shadowRadius: 10,
     shadowOffset: { width: 0, height: 4 },
   },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    color: "#111827",
+    marginBottom: 8,
+  },
   label: {
     fontSize: 13,
     fontWeight: "700",
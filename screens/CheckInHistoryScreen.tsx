@@ -0,0 +1,636 @@
+// screens/CheckInHistoryScreen.tsx
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  SafeAreaView,
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Alert,
+} from "react-native";
+import type { NativeStackScreenProps } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../App";
+import { useUser, CheckIn, MoodType } from "../context/UserContext";
+
+type Props = NativeStackScreenProps<RootStackParamList, "History">;
+
+const PASTEL_PURPLE = "#F0D9EF";
+const PASTEL_PINK = "#FCDCE1";
+const PASTEL_PEACH = "#FFE6BB";
+const PASTEL_GREEN = "#CDE9DC";
+const PASTEL_BLUE = "#C4DFE5";
+
+const MOOD_META: Record<MoodType, { label: string; emoji: string; color: string }> = {
+  calm: { label: "Calm", emoji: "😌", color: PASTEL_GREEN },
+  okay: { label: "Okay", emoji: "🙂", color: PASTEL_BLUE },
+  overwhelmed: { label: "Anxious", emoji: "😵‍💫", color: PASTEL_PINK },
+  angry: { label: "Angry", emoji: "😡", color: PASTEL_PEACH },
+  sad: { label: "Sad", emoji: "😢", color: PASTEL_PURPLE },
+  idk: { label: "I don’t know", emoji: "🤷", color: PASTEL_BLUE },
+};
+
+const MOOD_ORDER: MoodType[] = ["calm", "okay", "overwhelmed", "angry", "sad", "idk"];
+
+// Same chips as CheckInScreen
+const BODY_OPTIONS = [
+  "Headache",
+  "Heart beating fast",
+  "Stomach feels weird",
+  "Noise too much",
+  "Lights too bright",
+  "Hard to sit still",
+  "Very tired",
+];
+
+type SourceFilter = "all" | "manual" | "sensor";
+
+const FILTERS: { key: SourceFilter; label: string }[] = [
+  { key: "all", label: "All" },
+  { key: "manual", label: "✍️ Mine" },
+  { key: "sensor", label: "📡 Sensor" },
+];
+
+// How long the "Undo" bar stays after a delete
+const UNDO_MS = 6000;
+
+const dayKey = (ts: number) => {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${d.getMonth()}-${d.getDate()}`;
+};
+
+function dayTitle(ts: number): string {
+  const now = Date.now();
+  if (dayKey(ts) === dayKey(now)) return "Today";
+  if (dayKey(ts) === dayKey(now - 24 * 60 * 60 * 1000)) return "Yesterday";
+  return new Date(ts).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+const timeLabel = (ts: number) =>
+  new Date(ts).toLocaleTimeString(undefined, {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const CheckInHistoryScreen: React.FC<Props> = ({ navigation }) => {
+  const { checkIns, updateCheckIn, deleteCheckIn, restoreCheckIn } = useUser();
+
+  const [filter, setFilter] = useState<SourceFilter>("all");
+
+  // edit sheet
+  const [editing, setEditing] = useState<CheckIn | null>(null);
+  const [editMood, setEditMood] = useState<MoodType>("okay");
+  const [editSymptoms, setEditSymptoms] = useState<string[]>([]);
+  const [editNotes, setEditNotes] = useState("");
+
+  // last deleted entry, for undo
+  const [undoEntry, setUndoEntry] = useState<CheckIn | null>(null);
+  const undoTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (undoTimer.current) clearTimeout(undoTimer.current);
+    };
+  }, []);
+
+  const counts = useMemo(() => {
+    const manual = checkIns.filter((c) => c.source !== "sensor").length;
+    return { all: checkIns.length, manual, sensor: checkIns.length - manual };
+  }, [checkIns]);
+
+  const sections = useMemo(() => {
+    const visible = checkIns
+      .filter((c) =>
+        filter === "all"
+          ? true
+          : filter === "sensor"
+          ? c.source === "sensor"
+          : c.source !== "sensor"
+      )
+      .sort((a, b) => b.timestamp - a.timestamp);
+
+    const groups: { key: string; title: string; data: CheckIn[] }[] = [];
+    for (const c of visible) {
+      const key = dayKey(c.timestamp);
+      const last = groups[groups.length - 1];
+      if (last && last.key === key) {
+        last.data.push(c);
+      } else {
+        groups.push({ key, title: dayTitle(c.timestamp), data: [c] });
+      }
+    }
+    return groups;
+  }, [checkIns, filter]);
+
+  const openEditor = (entry: CheckIn) => {
+    setEditing(entry);
+    setEditMood(entry.mood);
+    setEditSymptoms(entry.symptoms);
+    setEditNotes(entry.notes ?? "");
+  };
+
+  const toggleSymptom = (label: string) => {
+    setEditSymptoms((prev) =>
+      prev.includes(label) ? prev.filter((x) => x !== label) : [...prev, label]
+    );
+  };
+
+  const saveEdit = () => {
+    if (!editing) return;
+    updateCheckIn(editing.id, {
+      mood: editMood,
+      symptoms: editSymptoms,
+      notes: editNotes,
+    });
+    setEditing(null);
+  };
+
+  const handleDelete = (entry: CheckIn) => {
+    const removed = deleteCheckIn(entry.id);
+    if (!removed) return;
+    setUndoEntry(removed);
+    if (undoTimer.current) clearTimeout(undoTimer.current);
+    undoTimer.current = setTimeout(() => setUndoEntry(null), UNDO_MS);
+  };
+
+  const handleUndo = () => {
+    if (!undoEntry) return;
+    restoreCheckIn(undoEntry);
+    setUndoEntry(null);
+    if (undoTimer.current) clearTimeout(undoTimer.current);
+  };
+
+  const confirmDelete = (entry: CheckIn) => {
+    Alert.alert("Delete this check-in?", "It will disappear from your charts.", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Delete", style: "destructive", onPress: () => handleDelete(entry) },
+    ]);
+  };
+
+  // chips in the editor: the usual ones plus whatever this entry already had
+  const symptomChoices = useMemo(() => {
+    const extra = (editing?.symptoms ?? []).filter(
+      (s) => !BODY_OPTIONS.includes(s)
+    );
+    return [...BODY_OPTIONS, ...extra];
+  }, [editing]);
+
+  const renderItem = ({ item }: { item: CheckIn }) => {
+    const meta = MOOD_META[item.mood] ?? MOOD_META.idk;
+    const isSensor = item.source === "sensor";
+    return (
+      <View style={[styles.entryCard, { borderLeftColor: meta.color }]}>
+        <View style={styles.entryHeader}>
+          <Text style={styles.entryMood}>
+            {meta.emoji} {meta.label}
+            {item.intensity ? `  ·  ${item.intensity}/5` : ""}
+          </Text>
+          <Text style={styles.entryTime}>{timeLabel(item.timestamp)}</Text>
+        </View>
+
+        <View style={styles.badgeRow}>
+          <View style={[styles.badge, isSensor && styles.badgeSensor]}>
+            <Text style={styles.badgeText}>
+              {isSensor ? "📡 Sensor" : "✍️ You"}
+            </Text>
+          </View>
+          {item.updatedAt ? <Text style={styles.editedText}>edited</Text> : null}
+        </View>
+
+        {item.symptoms.length > 0 && (
+          <Text style={styles.entrySymptoms}>{item.symptoms.join(" · ")}</Text>
+        )}
+        {item.notes ? <Text style={styles.entryNotes}>“{item.notes}”</Text> : null}
+
+        <View style={styles.entryActions}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => openEditor(item)}>
+            <Text style={styles.actionText}>Edit</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={() => confirmDelete(item)}>
+            <Text style={[styles.actionText, styles.actionDanger]}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.inner}>
+        <Text style={styles.header}>Check-in history 📜</Text>
+        <Text style={styles.subheader}>
+          Fix a check-in that’s wrong, or remove ones the sensors logged by
+          mistake (like a phone dropped in a bag). Your charts update right
+          away.
+        </Text>
+
+        <View style={styles.filterRow}>
+          {FILTERS.map((f) => {
+            const active = filter === f.key;
+            return (
+              <TouchableOpacity
+                key={f.key}
+                style={[styles.filterChip, active && styles.filterChipActive]}
+                onPress={() => setFilter(f.key)}
+              >
+                <Text style={[styles.filterText, active && styles.filterTextActive]}>
+                  {f.label} ({counts[f.key]})
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <SectionList
+          sections={sections}
+          keyExtractor={(item) => item.id}
+          renderItem={renderItem}
+          renderSectionHeader={({ section }) => (
+            <Text style={styles.sectionTitle}>{section.title}</Text>
+          )}
+          stickySectionHeadersEnabled={false}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>
+              {checkIns.length === 0
+                ? "No check-ins yet. Log one and it will show up here 💛"
+                : "Nothing matches this filter."}
+            </Text>
+          }
+        />
+
+        {undoEntry && (
+          <View style={styles.undoBar}>
+            <Text style={styles.undoText}>Check-in deleted</Text>
+            <TouchableOpacity onPress={handleUndo}>
+              <Text style={styles.undoAction}>Undo</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.backButtonText}>Back</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Modal
+        visible={editing !== null}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setEditing(null)}
+      >
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>Edit check-in</Text>
+            {editing && (
+              <Text style={styles.modalSubtitle}>
+                {dayTitle(editing.timestamp)} · {timeLabel(editing.timestamp)}
+              </Text>
+            )}
+
+            <Text style={styles.modalLabel}>Mood</Text>
+            <View style={styles.chipRow}>
+              {MOOD_ORDER.map((m) => {
+                const active = editMood === m;
+                return (
+                  <TouchableOpacity
+                    key={m}
+                    style={[
+                      styles.chip,
+                      active && { backgroundColor: MOOD_META[m].color, borderColor: "#111827" },
+                    ]}
+                    onPress={() => setEditMood(m)}
+                  >
+                    <Text style={styles.chipText}>
+                      {MOOD_META[m].emoji} {MOOD_META[m].label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={styles.modalLabel}>Body</Text>
+            <View style={styles.chipRow}>
+              {symptomChoices.map((s) => {
+                const active = editSymptoms.includes(s);
+                return (
+                  <TouchableOpacity
+                    key={s}
+                    style={[styles.chip, active && styles.chipActive]}
+                    onPress={() => toggleSymptom(s)}
+                  >
+                    <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                      {s}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={styles.modalLabel}>Notes</Text>
+            <TextInput
+              style={styles.notesInput}
+              placeholder="Anything you want to remember about this moment"
+              placeholderTextColor="#9CA3AF"
+              value={editNotes}
+              onChangeText={setEditNotes}
+              multiline
+            />
+
+            <View style={styles.modalButtonsRow}>
+              <TouchableOpacity
+                style={styles.modalSecondary}
+                onPress={() => setEditing(null)}
+              >
+                <Text style={styles.modalSecondaryText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.modalPrimary} onPress={saveEdit}>
+                <Text style={styles.modalPrimaryText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+export default CheckInHistoryScreen;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F3F4F6",
+  },
+  inner: {
+    flex: 1,
+    paddingHorizontal: 24,
+    paddingTop: 32,
+    paddingBottom: 24,
+  },
+  header: {
+    fontSize: 22,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  subheader: {
+    fontSize: 14,
+    color: "#4B5563",
+    marginTop: 6,
+    marginBottom: 12,
+  },
+  filterRow: {
+    flexDirection: "row",
+    marginBottom: 8,
+  },
+  filterChip: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    backgroundColor: "white",
+  },
+  filterChipActive: {
+    backgroundColor: "#8B5CF6",
+    borderColor: "#8B5CF6",
+  },
+  filterText: {
+    fontSize: 12,
+    color: "#4B5563",
+    fontWeight: "600",
+  },
+  filterTextActive: {
+    color: "white",
+  },
+  listContent: {
+    paddingBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: "#6B7280",
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  entryCard: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderLeftWidth: 6,
+    marginBottom: 10,
+  },
+  entryHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  entryMood: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  entryTime: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  badgeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 6,
+  },
+  badge: {
+    backgroundColor: "#EEF2FF",
+    borderRadius: 999,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  badgeSensor: {
+    backgroundColor: "#FEF3C7",
+  },
+  badgeText: {
+    fontSize: 11,
+    color: "#374151",
+    fontWeight: "600",
+  },
+  editedText: {
+    fontSize: 11,
+    color: "#9CA3AF",
+    marginLeft: 8,
+    fontStyle: "italic",
+  },
+  entrySymptoms: {
+    fontSize: 12,
+    color: "#4B5563",
+    marginTop: 6,
+  },
+  entryNotes: {
+    fontSize: 12,
+    color: "#374151",
+    marginTop: 4,
+    fontStyle: "italic",
+  },
+  entryActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 8,
+  },
+  actionButton: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#4F46E5",
+  },
+  actionDanger: {
+    color: "#B91C1C",
+  },
+  emptyText: {
+    fontSize: 13,
+    color: "#6B7280",
+    textAlign: "center",
+    marginTop: 32,
+  },
+  undoBar: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    backgroundColor: "#111827",
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    marginBottom: 8,
+  },
+  undoText: {
+    color: "white",
+    fontSize: 13,
+  },
+  undoAction: {
+    color: "#C4B5FD",
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  backButton: {
+    backgroundColor: "#111827",
+    borderRadius: 999,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  backButtonText: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: "rgba(17,24,39,0.5)",
+    justifyContent: "flex-end",
+  },
+  modalCard: {
+    backgroundColor: "white",
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingHorizontal: 18,
+    paddingTop: 16,
+    paddingBottom: 26,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  modalSubtitle: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  modalLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#374151",
+    marginTop: 10,
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    backgroundColor: "white",
+  },
+  chipActive: {
+    backgroundColor: "#8B5CF6",
+    borderColor: "#8B5CF6",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#374151",
+  },
+  chipTextActive: {
+    color: "white",
+  },
+  notesInput: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    paddingHorizontal: 12,
+    paddingVertical: 9,
+    fontSize: 13,
+    color: "#111827",
+    minHeight: 60,
+    textAlignVertical: "top",
+  },
+  modalButtonsRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 18,
+  },
+  modalSecondary: {
+    flex: 1,
+    marginRight: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    paddingVertical: 10,
+    alignItems: "center",
+  },
+  modalSecondaryText: {
+    color: "#4B5563",
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  modalPrimary: {
+    flex: 1,
+    marginLeft: 8,
+    borderRadius: 999,
+    backgroundColor: "#8B5CF6",
+    paddingVertical: 10,
+    alignItems: "center",
+  },
+  modalPrimaryText: {
+    color: "white",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
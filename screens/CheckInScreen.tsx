@@ -9,10 +9,19 @@ import {
   TouchableOpacity,
   Animated,
   Easing,
+  TextInput,
+  Alert,
 } from "react-native";
 import type { NativeStackScreenProps } from "@react-navigation/native-stack";
 import type { RootStackParamList } from "../App";
-import { useUser, MoodType } from "../context/UserContext";
+import {
+  useUser,
+  MoodType,
+  SleepQuality,
+  MoodIntensity,
+} from "../context/UserContext";
+import MonitoringBadge from "../src/components/MonitoringBadge";
+import AlertModeBadge from "../src/components/AlertModeBadge";
 
 type Props = NativeStackScreenProps<RootStackParamList, "CheckIn">;
 
@@ -47,12 +56,23 @@ const BODY_OPTIONS = [
   "Very tired",
 ];
 
+const SLEEP_OPTIONS: { key: SleepQuality; label: string }[] = [
+  { key: "good", label: "😴 Slept well" },
+  { key: "ok", label: "🙂 Okay-ish" },
+  { key: "bad", label: "🥱 Barely slept" },
+];
+
+const INTENSITY_OPTIONS: MoodIntensity[] = [1, 2, 3, 4, 5];
+
 const CheckInScreen: React.FC<Props> = ({ navigation }) => {
-  const { addCheckIn, profile } = useUser() as any;
+  const { addCheckIn, profile, signOut, isGuestSession } = useUser();
   const name = profile?.name || "friend";
 
   const [selectedMood, setSelectedMood] = useState<MoodKey | null>(null);
   const [selectedBody, setSelectedBody] = useState<string[]>([]);
+  const [sleepQuality, setSleepQuality] = useState<SleepQuality | null>(null);
+  const [intensity, setIntensity] = useState<MoodIntensity | null>(null);
+  const [notes, setNotes] = useState("");
   const [showSupportCard, setShowSupportCard] = useState(false);
 
   // Overflow menu state
@@ -102,7 +122,12 @@ const CheckInScreen: React.FC<Props> = ({ navigation }) => {
         ? selectedBody
         : ["No body notes added this time"];
 
-    addCheckIn?.(selectedMood === "idk" ? "idk" : selectedMood, bodyCopy);
+    addCheckIn(selectedMood, bodyCopy, {
+      source: "manual",
+      sleepQuality: sleepQuality ?? undefined,
+      intensity: intensity ?? undefined,
+      notes,
+    });
     setShowSupportCard(true);
   };
 
@@ -158,6 +183,16 @@ const CheckInScreen: React.FC<Props> = ({ navigation }) => {
     };
   }, [selectedMood]);
 
+  const endGuestSession = () =>
+    Alert.alert(
+      "End guest session?",
+      "Everything you logged as a guest will be deleted. Create an account first if you want to keep it.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "End session", style: "destructive", onPress: signOut },
+      ]
+    );
+
   return (
     <SafeAreaView style={styles.container}>
       {/* soft blobs */}
@@ -186,6 +221,9 @@ const CheckInScreen: React.FC<Props> = ({ navigation }) => {
         </View>
       </View>
 
+      <AlertModeBadge onPress={() => navigation.navigate("AlertModes")} />
+      <MonitoringBadge onPress={() => navigation.navigate("SensorSettings")} />
+
       {/* BIG DROPDOWN MENU */}
       {menuOpen && (
         <Animated.View style={[styles.menuOverlay, menuStyle]}>
@@ -208,6 +246,22 @@ const CheckInScreen: React.FC<Props> = ({ navigation }) => {
               </View>
             </TouchableOpacity>
 
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => {
+                setMenuOpen(false);
+                navigation.navigate("History");
+              }}
+            >
+              <Text style={styles.menuItemEmoji}>📜</Text>
+              <View style={styles.menuItemTextWrap}>
+                <Text style={styles.menuItemTitle}>Check-in history</Text>
+                <Text style={styles.menuItemSubtitle}>
+                  Browse, fix or delete past check-ins.
+                </Text>
+              </View>
+            </TouchableOpacity>
+
             <TouchableOpacity
               style={styles.menuItem}
               onPress={() => {
@@ -287,6 +341,127 @@ const CheckInScreen: React.FC<Props> = ({ navigation }) => {
                 </Text>
               </View>
             </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => {
+                setMenuOpen(false);
+                navigation.navigate("Profiles");
+              }}
+            >
+              <Text style={styles.menuItemEmoji}>👥</Text>
+              <View style={styles.menuItemTextWrap}>
+                <Text style={styles.menuItemTitle}>Switch profile</Text>
+                <Text style={styles.menuItemSubtitle}>
+                  Sharing this device? Each person keeps their own data.
+                </Text>
+              </View>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => {
+                setMenuOpen(false);
+                navigation.navigate("DataSettings");
+              }}
+            >
+              <Text style={styles.menuItemEmoji}>🗂️</Text>
+              <View style={styles.menuItemTextWrap}>
+                <Text style={styles.menuItemTitle}>Your data</Text>
+                <Text style={styles.menuItemSubtitle}>
+                  Backups, how long to keep history, delete all.
+                </Text>
+              </View>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => {
+                setMenuOpen(false);
+                navigation.navigate("AppLock");
+              }}
+            >
+              <Text style={styles.menuItemEmoji}>🔐</Text>
+              <View style={styles.menuItemTextWrap}>
+                <Text style={styles.menuItemTitle}>App lock</Text>
+                <Text style={styles.menuItemSubtitle}>
+                  A PIN so nobody else can open your journal or chats.
+                </Text>
+              </View>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => {
+                setMenuOpen(false);
+                navigation.navigate("SensorSettings");
+              }}
+            >
+              <Text style={styles.menuItemEmoji}>📡</Text>
+              <View style={styles.menuItemTextWrap}>
+                <Text style={styles.menuItemTitle}>Sensors</Text>
+                <Text style={styles.menuItemSubtitle}>
+                  What counts as too loud, too bright or shaken too hard.
+                </Text>
+              </View>
+            </TouchableOpacity>
+
+            {!isGuestSession && (
+              <TouchableOpacity
+                style={styles.menuItem}
+                onPress={() => {
+                  setMenuOpen(false);
+                  navigation.navigate("RecoveryCodes");
+                }}
+              >
+                <Text style={styles.menuItemEmoji}>🗝️</Text>
+                <View style={styles.menuItemTextWrap}>
+                  <Text style={styles.menuItemTitle}>Recovery codes</Text>
+                  <Text style={styles.menuItemSubtitle}>
+                    Get back in if you forget your password.
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            )}
+
+            {profile?.role === "under18" && (
+              <TouchableOpacity
+                style={styles.menuItem}
+                onPress={() => {
+                  setMenuOpen(false);
+                  navigation.navigate("Pairing");
+                }}
+              >
+                <Text style={styles.menuItemEmoji}>🔗</Text>
+                <View style={styles.menuItemTextWrap}>
+                  <Text style={styles.menuItemTitle}>Parent link</Text>
+                  <Text style={styles.menuItemSubtitle}>
+                    Link with a parent and choose what they can see.
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => {
+                setMenuOpen(false);
+                if (isGuestSession) endGuestSession();
+                else signOut();
+              }}
+            >
+              <Text style={styles.menuItemEmoji}>🚪</Text>
+              <View style={styles.menuItemTextWrap}>
+                <Text style={styles.menuItemTitle}>
+                  {isGuestSession ? "End guest session" : "Log out"}
+                </Text>
+                <Text style={styles.menuItemSubtitle}>
+                  {isGuestSession
+                    ? "Everything from this session is deleted."
+                    : "Your check-ins stay saved for next time."}
+                </Text>
+              </View>
+            </TouchableOpacity>
           </View>
         </Animated.View>
       )}
@@ -297,6 +472,22 @@ const CheckInScreen: React.FC<Props> = ({ navigation }) => {
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={false}
       >
+        {isGuestSession && (
+          <View style={styles.guestBanner}>
+            <Text style={styles.guestBannerText}>
+              You’re using NeuroAura as a guest – nothing is kept after you
+              leave.
+            </Text>
+            <TouchableOpacity
+              onPress={() => navigation.navigate("Auth", { role: "individual" })}
+            >
+              <Text style={styles.guestBannerLink}>
+                Create an account to keep it →
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Greeting */}
         <View style={styles.greetingWrap}>
           <Text style={styles.greetingTitle}>Hi {name},</Text>
@@ -362,6 +553,66 @@ const CheckInScreen: React.FC<Props> = ({ navigation }) => {
           })}
         </View>
 
+        {/* Intensity */}
+        <Text style={styles.sectionLabel}>How strong is it? 🌡️</Text>
+        <Text style={styles.sectionHelper}>
+          1 = barely there, 5 = as big as it gets.
+        </Text>
+        <View style={styles.chipWrap}>
+          {INTENSITY_OPTIONS.map((level) => {
+            const active = intensity === level;
+            return (
+              <TouchableOpacity
+                key={level}
+                style={[styles.chip, active && styles.chipActive]}
+                onPress={() => {
+                  setIntensity(active ? null : level);
+                  setShowSupportCard(false);
+                }}
+                activeOpacity={0.9}
+              >
+                <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                  {level}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {/* Sleep */}
+        <Text style={styles.sectionLabel}>How did you sleep last night? 🌙</Text>
+        <View style={styles.chipWrap}>
+          {SLEEP_OPTIONS.map((opt) => {
+            const active = sleepQuality === opt.key;
+            return (
+              <TouchableOpacity
+                key={opt.key}
+                style={[styles.chip, active && styles.chipActive]}
+                onPress={() => {
+                  setSleepQuality(active ? null : opt.key);
+                  setShowSupportCard(false);
+                }}
+                activeOpacity={0.9}
+              >
+                <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                  {opt.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {/* Notes */}
+        <Text style={styles.sectionLabel}>Anything else? (optional) 📝</Text>
+        <TextInput
+          style={styles.notesInput}
+          placeholder="A few words about what happened, if you want."
+          placeholderTextColor="#777"
+          value={notes}
+          onChangeText={setNotes}
+          multiline
+        />
+
         {/* Confirm button */}
         <TouchableOpacity
           style={[
@@ -561,6 +812,22 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     paddingBottom: 40,
   },
+  guestBanner: {
+    backgroundColor: "#FEF3C7",
+    borderRadius: 12,
+    padding: 10,
+    marginBottom: 12,
+  },
+  guestBannerText: {
+    fontSize: 12,
+    color: "#92400E",
+  },
+  guestBannerLink: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#92400E",
+    marginTop: 4,
+  },
   greetingWrap: {
     marginBottom: 12,
   },
@@ -641,6 +908,17 @@ const styles = StyleSheet.create({
   chipTextActive: {
     color: "#111827",
   },
+  notesInput: {
+    minHeight: 70,
+    borderRadius: 16,
+    backgroundColor: "#FFFFFFCC",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: "#111827",
+    textAlignVertical: "top",
+    marginBottom: 16,
+  },
   confirmButton: {
     marginTop: 4,
     marginBottom: 12,
@@ -12,6 +12,7 @@ import type { NativeStackScreenProps } from "@react-navigation/native-stack";
 import type { RootStackParamList } from "../App";
 import { useUser } from "../context/UserContext";
 import { t, getLangFromProfile } from "../utils/i18n";
+import { homeRouteFor } from "../src/auth/access";
 
 type Props = NativeStackScreenProps<RootStackParamList, "Coach">;
 
@@ -32,7 +33,7 @@ const CoachScreen: React.FC<Props> = ({ navigation, route }) => {
           </Text>
           <TouchableOpacity
             style={styles.buttonPrimary}
-            onPress={() => navigation.replace("Home")}
+            onPress={() => navigation.replace(homeRouteFor(profile))}
           >
             <Text style={styles.buttonPrimaryText}>
               {t("coach_back_home", lang)}
@@ -133,7 +134,7 @@ const CoachScreen: React.FC<Props> = ({ navigation, route }) => {
 
           <TouchableOpacity
             style={styles.buttonSecondary}
-            onPress={() => navigation.replace("Home")}
+            onPress={() => navigation.replace(homeRouteFor(profile))}
           >
             <Text style={styles.buttonSecondaryText}>
               {t("coach_back_home", lang)}
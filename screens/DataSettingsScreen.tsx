@@ -0,0 +1,752 @@
+// screens/DataSettingsScreen.tsx
+import React, { useEffect, useState } from "react";
+import {
+  SafeAreaView,
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+} from "react-native";
+import type { NativeStackScreenProps } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../App";
+import { useUser } from "../context/UserContext";
+import {
+  shareExport,
+  shareEncryptedBackup,
+  ExportKind,
+} from "../src/backup/shareExport";
+import {
+  decryptBackup,
+  isEncryptedBackup,
+  MIN_PASSPHRASE_LENGTH,
+} from "../src/backup/encryption";
+import {
+  parseBackupBundle,
+  pickBackupFile,
+  previewImport,
+  commitScheduleImport,
+  ImportPreview,
+} from "../src/backup/importBundle";
+import {
+  ALERT_RETENTION_CHOICES,
+  CHECK_IN_RETENTION_CHOICES,
+  retentionLabel,
+} from "../src/storage";
+import { describeDeletion } from "../src/privacy/deleteAllData";
+import { syncService, SyncStatus } from "../src/sync/syncService";
+import { getSyncConfig } from "../src/sync/syncClient";
+import { deviceCodeFor } from "../src/sync/profileKeys";
+
+type Props = NativeStackScreenProps<RootStackParamList, "DataSettings">;
+
+const EXPORT_OPTIONS: { kind: ExportKind; title: string; body: string }[] = [
+  {
+    kind: "checkins_csv",
+    title: "Mood log (CSV) 📊",
+    body: "One row per check-in – easy to open in a spreadsheet or share with a therapist.",
+  },
+  {
+    kind: "alerts_csv",
+    title: "Sensor alerts (CSV) 🚨",
+    body: "Every shake / noise / light alert with its time.",
+  },
+];
+
+const DataSettingsScreen: React.FC<Props> = ({ navigation }) => {
+  const {
+    profile,
+    checkIns,
+    alerts,
+    mergeImported,
+    retention,
+    setRetention,
+    deleteAllData,
+    isGuestSession,
+  } = useUser();
+  const [busy, setBusy] = useState<
+    ExportKind | "backup" | "import" | "delete" | null
+  >(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [passphraseConfirm, setPassphraseConfirm] = useState("");
+  // an encrypted file picked for restore, waiting for its passphrase
+  const [lockedBackup, setLockedBackup] = useState<string | null>(null);
+  const [unlockPassphrase, setUnlockPassphrase] = useState("");
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(() =>
+    syncService.getStatus()
+  );
+  const [syncing, setSyncing] = useState(false);
+  // a one-time code for another device to join this profile
+  const [deviceCode, setDeviceCode] = useState<{ code: string; expiresAt: number } | null>(
+    null
+  );
+  const [makingCode, setMakingCode] = useState(false);
+
+  useEffect(() => syncService.onStatusChange(setSyncStatus), []);
+
+  const handleSyncNow = async () => {
+    setSyncing(true);
+    try {
+      await syncService.syncNow();
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleAddDevice = async () => {
+    const config = getSyncConfig();
+    if (!profile || !config) return;
+    setMakingCode(true);
+    try {
+      setDeviceCode(await deviceCodeFor(config, profile.id));
+    } catch (e: any) {
+      Alert.alert("Couldn’t make a code", e?.message || "Please try again.");
+    } finally {
+      setMakingCode(false);
+    }
+  };
+
+  const handleExport = async (kind: ExportKind) => {
+    if (!profile) {
+      Alert.alert("No profile", "Log in or pick a profile first.");
+      return;
+    }
+    setBusy(kind);
+    try {
+      await shareExport(kind, profile, checkIns, alerts);
+    } catch (e) {
+      console.warn("Export failed", e);
+      Alert.alert("Export failed", "I couldn’t create the file. Please try again.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleEncryptedBackup = async () => {
+    if (!profile) {
+      Alert.alert("No profile", "Log in or pick a profile first.");
+      return;
+    }
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      Alert.alert(
+        "Passphrase too short",
+        `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`
+      );
+      return;
+    }
+    if (passphrase !== passphraseConfirm) {
+      Alert.alert("Passphrases don’t match", "Please type it the same way twice.");
+      return;
+    }
+    setBusy("backup");
+    try {
+      await shareEncryptedBackup(profile, checkIns, alerts, passphrase);
+      setPassphrase("");
+      setPassphraseConfirm("");
+    } catch (e) {
+      console.warn("Encrypted backup failed", e);
+      Alert.alert("Backup failed", "I couldn’t create the file. Please try again.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handlePickBackup = async () => {
+    if (!profile) {
+      Alert.alert("No profile", "Log in or pick a profile first.");
+      return;
+    }
+    setBusy("import");
+    try {
+      const text = await pickBackupFile();
+      if (text == null) return;
+      if (isEncryptedBackup(text)) {
+        setUnlockPassphrase("");
+        setLockedBackup(text);
+        return;
+      }
+      const parsed = parseBackupBundle(text);
+      setPreview(await previewImport(parsed, profile.id, { checkIns, alerts }));
+    } catch (e: any) {
+      console.warn("Import failed", e);
+      Alert.alert("Can’t use this file", e?.message || "Please try another file.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleUnlockBackup = async () => {
+    if (!profile || !lockedBackup) return;
+    setBusy("import");
+    try {
+      const text = await decryptBackup(lockedBackup, unlockPassphrase);
+      const parsed = parseBackupBundle(text);
+      setPreview(await previewImport(parsed, profile.id, { checkIns, alerts }));
+      setLockedBackup(null);
+      setUnlockPassphrase("");
+    } catch (e: any) {
+      console.warn("Unlock failed", e);
+      Alert.alert("Can’t open this backup", e?.message || "Please try again.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleConfirmImport = async () => {
+    if (!profile || !preview) return;
+    setBusy("import");
+    try {
+      await commitScheduleImport(profile.id, preview);
+      mergeImported(preview.newCheckIns, preview.newAlerts);
+      setPreview(null);
+      Alert.alert("Restored 🎉", "Your backup was added to this profile.");
+    } catch (e) {
+      console.warn("Import commit failed", e);
+      Alert.alert("Restore failed", "Nothing was changed. Please try again.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const runDeleteAll = async () => {
+    setBusy("delete");
+    try {
+      const report = await deleteAllData();
+      navigation.reset({ index: 0, routes: [{ name: "Home" }] });
+      Alert.alert("Everything is deleted 🧹", `Removed:\n${describeDeletion(report)}`);
+    } catch (e) {
+      console.warn("Delete all failed", e);
+      Alert.alert(
+        "Couldn’t delete everything",
+        "Some data may still be on this device. Please try again."
+      );
+      setBusy(null);
+    }
+  };
+
+  const handleDeleteAll = () => {
+    Alert.alert(
+      "Delete everything?",
+      "This removes every profile, login, check-in, alert, schedule, screen-time log and chat on this device. It can’t be undone – make a backup first if you might want it later.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Delete everything", style: "destructive", onPress: runDeleteAll },
+      ]
+    );
+  };
+
+  const nothingNew =
+    !!preview &&
+    preview.newCheckIns.length +
+      preview.newAlerts.length +
+      preview.newScheduleItems.length ===
+      0;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.inner}>
+        <Text style={styles.header}>Your data 🗂️</Text>
+        <Text style={styles.subheader}>
+          Everything here belongs to {profile?.name || "you"}. Take it with you
+          whenever you want.
+        </Text>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Full backup 🔒</Text>
+          <Text style={styles.hint}>
+            Everything for this profile – check-ins, alerts, schedule, screen
+            time, chat and your health details – locked with a passphrase.
+            Without it the file can’t be opened, so keep it somewhere safe.
+          </Text>
+          <TextInput
+            style={styles.input}
+            placeholder={`Passphrase (${MIN_PASSPHRASE_LENGTH}+ characters)`}
+            placeholderTextColor="#9CA3AF"
+            secureTextEntry
+            autoCapitalize="none"
+            value={passphrase}
+            onChangeText={setPassphrase}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="Type it again"
+            placeholderTextColor="#9CA3AF"
+            secureTextEntry
+            autoCapitalize="none"
+            value={passphraseConfirm}
+            onChangeText={setPassphraseConfirm}
+          />
+          <TouchableOpacity
+            style={[styles.option, busy !== null && styles.optionDisabled]}
+            disabled={busy !== null}
+            onPress={handleEncryptedBackup}
+          >
+            <Text style={styles.optionTitle}>
+              {busy === "backup" ? "Encrypting…" : "Create encrypted backup 📦"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Export</Text>
+          <Text style={styles.hint}>
+            Files open in your phone’s share sheet, so you can save them or
+            send them to someone you trust. These are not encrypted.
+          </Text>
+          {EXPORT_OPTIONS.map((opt) => (
+            <TouchableOpacity
+              key={opt.kind}
+              style={[styles.option, busy !== null && styles.optionDisabled]}
+              disabled={busy !== null}
+              onPress={() => handleExport(opt.kind)}
+            >
+              <Text style={styles.optionTitle}>
+                {busy === opt.kind ? "Preparing…" : opt.title}
+              </Text>
+              <Text style={styles.optionBody}>{opt.body}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Restore from a backup</Text>
+          <Text style={styles.hint}>
+            New phone? Pick a NeuroAura backup file. I’ll show you what’s in it
+            before adding anything, and nothing you already have gets
+            replaced.
+          </Text>
+
+          {!preview && !lockedBackup && (
+            <TouchableOpacity
+              style={[styles.option, busy !== null && styles.optionDisabled]}
+              disabled={busy !== null}
+              onPress={handlePickBackup}
+            >
+              <Text style={styles.optionTitle}>
+                {busy === "import" ? "Reading…" : "Choose backup file 📥"}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {lockedBackup && (
+            <View style={styles.previewBox}>
+              <Text style={styles.previewTitle}>
+                This backup is locked 🔒 Enter its passphrase.
+              </Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Passphrase"
+                placeholderTextColor="#9CA3AF"
+                secureTextEntry
+                autoCapitalize="none"
+                value={unlockPassphrase}
+                onChangeText={setUnlockPassphrase}
+              />
+              <View style={styles.previewButtons}>
+                <TouchableOpacity
+                  style={styles.secondaryButton}
+                  disabled={busy !== null}
+                  onPress={() => {
+                    setLockedBackup(null);
+                    setUnlockPassphrase("");
+                  }}
+                >
+                  <Text style={styles.secondaryButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[
+                    styles.primaryButton,
+                    (!unlockPassphrase || busy !== null) && styles.optionDisabled,
+                  ]}
+                  disabled={!unlockPassphrase || busy !== null}
+                  onPress={handleUnlockBackup}
+                >
+                  <Text style={styles.primaryButtonText}>
+                    {busy === "import" ? "Unlocking…" : "Unlock"}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {preview && (
+            <View style={styles.previewBox}>
+              <Text style={styles.previewTitle}>
+                Backup of {preview.bundle.profile?.name || "a profile"} from{" "}
+                {new Date(preview.bundle.exportedAt).toLocaleDateString()}
+              </Text>
+              <Text style={styles.previewLine}>
+                • {preview.newCheckIns.length} new check-ins
+              </Text>
+              <Text style={styles.previewLine}>
+                • {preview.newAlerts.length} new alerts
+              </Text>
+              <Text style={styles.previewLine}>
+                • {preview.newScheduleItems.length} new schedule items
+              </Text>
+              {preview.duplicateCount > 0 && (
+                <Text style={styles.previewMuted}>
+                  {preview.duplicateCount} records are already on this device
+                  and will be skipped.
+                </Text>
+              )}
+              {preview.invalidCount > 0 && (
+                <Text style={styles.previewMuted}>
+                  {preview.invalidCount} damaged records can’t be read and
+                  will be left out.
+                </Text>
+              )}
+
+              <View style={styles.previewButtons}>
+                <TouchableOpacity
+                  style={styles.secondaryButton}
+                  disabled={busy !== null}
+                  onPress={() => setPreview(null)}
+                >
+                  <Text style={styles.secondaryButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[
+                    styles.primaryButton,
+                    (nothingNew || busy !== null) && styles.optionDisabled,
+                  ]}
+                  disabled={nothingNew || busy !== null}
+                  onPress={handleConfirmImport}
+                >
+                  <Text style={styles.primaryButtonText}>
+                    {nothingNew ? "Nothing new" : "Add to my data"}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Sync between devices 🔄</Text>
+          {syncStatus.enabled ? (
+            <>
+              <Text style={styles.hint}>
+                Changes are saved here first and sent to your sync server
+                whenever it can be reached.
+              </Text>
+              <Text style={styles.previewLine}>
+                {syncStatus.pending === 0
+                  ? "Everything is sent ✅"
+                  : `${syncStatus.pending} change${syncStatus.pending === 1 ? "" : "s"} waiting to send`}
+              </Text>
+              {syncStatus.lastSyncedAt && (
+                <Text style={styles.previewMuted}>
+                  Last sync {new Date(syncStatus.lastSyncedAt).toLocaleTimeString()}
+                </Text>
+              )}
+              {syncStatus.lastError && (
+                <Text style={styles.previewMuted}>
+                  Last problem: {syncStatus.lastError}
+                </Text>
+              )}
+              <TouchableOpacity
+                style={[styles.option, syncing && styles.optionDisabled]}
+                disabled={syncing}
+                onPress={handleSyncNow}
+              >
+                <Text style={styles.optionTitle}>
+                  {syncing ? "Syncing…" : "Sync now"}
+                </Text>
+              </TouchableOpacity>
+              {profile && !isGuestSession && (
+                <TouchableOpacity
+                  style={[styles.option, makingCode && styles.optionDisabled]}
+                  disabled={makingCode}
+                  onPress={handleAddDevice}
+                >
+                  <Text style={styles.optionTitle}>Add another device 📱</Text>
+                  <Text style={styles.optionBody}>
+                    Gives you a code to type in when signing up on your other
+                    phone or tablet. It gets this profile and everything in it.
+                  </Text>
+                </TouchableOpacity>
+              )}
+              {deviceCode && (
+                <View style={styles.previewBox}>
+                  <Text style={styles.previewTitle}>{deviceCode.code}</Text>
+                  <Text style={styles.previewMuted}>
+                    Works once, until{" "}
+                    {new Date(deviceCode.expiresAt).toLocaleTimeString()}. Only
+                    share it with your own devices.
+                  </Text>
+                </View>
+              )}
+            </>
+          ) : (
+            <Text style={styles.hint}>
+              Off. Run the NeuroAura sync server on a computer at home and
+              start the app with EXPO_PUBLIC_SYNC_URL pointing at it.
+            </Text>
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Keep my history for…</Text>
+          <Text style={styles.hint}>
+            Older entries are deleted automatically. Shorter is more private;
+            longer gives better mood charts.
+          </Text>
+
+          <Text style={styles.retentionLabel}>Check-ins</Text>
+          <View style={styles.chipRow}>
+            {CHECK_IN_RETENTION_CHOICES.map((days) => {
+              const active = retention.checkInDays === days;
+              return (
+                <TouchableOpacity
+                  key={`c-${days}`}
+                  style={[styles.chip, active && styles.chipActive]}
+                  disabled={!profile}
+                  onPress={() => setRetention({ ...retention, checkInDays: days })}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                    {retentionLabel(days)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.retentionLabel}>Sensor alerts</Text>
+          <View style={styles.chipRow}>
+            {ALERT_RETENTION_CHOICES.map((days) => {
+              const active = retention.alertDays === days;
+              return (
+                <TouchableOpacity
+                  key={`a-${days}`}
+                  style={[styles.chip, active && styles.chipActive]}
+                  disabled={!profile}
+                  onPress={() => setRetention({ ...retention, alertDays: days })}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                    {retentionLabel(days)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        <View style={[styles.card, styles.dangerCard]}>
+          <Text style={styles.cardTitle}>Delete everything</Text>
+          <Text style={styles.hint}>
+            Wipes all NeuroAura data on this phone – every profile, login and
+            saved entry – without uninstalling the app.
+          </Text>
+          <TouchableOpacity
+            style={[styles.dangerButton, busy !== null && styles.optionDisabled]}
+            disabled={busy !== null}
+            onPress={handleDeleteAll}
+          >
+            <Text style={styles.dangerButtonText}>
+              {busy === "delete" ? "Deleting…" : "Delete all my data 🗑️"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.backButtonText}>Back</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default DataSettingsScreen;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F3F4F6",
+  },
+  inner: {
+    paddingHorizontal: 24,
+    paddingTop: 32,
+    paddingBottom: 24,
+  },
+  header: {
+    fontSize: 22,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  subheader: {
+    fontSize: 14,
+    color: "#4B5563",
+    marginTop: 6,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    marginBottom: 14,
+  },
+  cardTitle: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#111827",
+    marginBottom: 6,
+  },
+  hint: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginBottom: 10,
+  },
+  option: {
+    backgroundColor: "#EEF2FF",
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 8,
+  },
+  input: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: "#111827",
+    marginTop: 8,
+  },
+  optionDisabled: {
+    opacity: 0.6,
+  },
+  optionTitle: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#1E1B4B",
+  },
+  optionBody: {
+    fontSize: 12,
+    color: "#4B5563",
+    marginTop: 2,
+  },
+  previewBox: {
+    backgroundColor: "#F9FAFB",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    padding: 12,
+    marginTop: 8,
+  },
+  previewTitle: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: "#111827",
+    marginBottom: 6,
+  },
+  previewLine: {
+    fontSize: 13,
+    color: "#111827",
+    marginTop: 2,
+  },
+  previewMuted: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginTop: 6,
+  },
+  previewButtons: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 12,
+  },
+  primaryButton: {
+    backgroundColor: "#8B5CF6",
+    borderRadius: 999,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  primaryButtonText: {
+    color: "white",
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  secondaryButton: {
+    backgroundColor: "white",
+    borderRadius: 999,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+  },
+  secondaryButtonText: {
+    color: "#4B5563",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  retentionLabel: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#374151",
+    marginTop: 6,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginTop: 6,
+  },
+  chip: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+    backgroundColor: "white",
+  },
+  chipActive: {
+    backgroundColor: "#8B5CF6",
+    borderColor: "#8B5CF6",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#4B5563",
+    fontWeight: "600",
+  },
+  chipTextActive: {
+    color: "white",
+  },
+  dangerCard: {
+    borderColor: "#FCA5A5",
+  },
+  dangerButton: {
+    backgroundColor: "#FEE2E2",
+    borderRadius: 12,
+    padding: 12,
+    alignItems: "center",
+    marginTop: 4,
+  },
+  dangerButtonText: {
+    color: "#B91C1C",
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  backButton: {
+    marginTop: 8,
+    backgroundColor: "#111827",
+    borderRadius: 999,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  backButtonText: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
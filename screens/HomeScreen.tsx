@@ -12,6 +12,7 @@ import {
 } from "react-native";
 import type { NativeStackScreenProps } from "@react-navigation/native-stack";
 import type { RootStackParamList } from "../App";
+import { useUser } from "../context/UserContext";
 
 type Props = NativeStackScreenProps<RootStackParamList, "Home">;
 
@@ -23,6 +24,7 @@ const PASTEL_GREEN = "#CDE9DC";
 const PASTEL_BLUE = "#C4DFE5";
 
 const HomeScreen: React.FC<Props> = ({ navigation }) => {
+  const { profiles } = useUser();
   const introOpacity = useRef(new Animated.Value(0)).current;
   const introTranslateY = useRef(new Animated.Value(20)).current;
   const cardPulse = useRef(new Animated.Value(1)).current;
@@ -143,6 +145,17 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
           </TouchableOpacity>
         </Animated.View>
 
+        {profiles.length > 0 && (
+          <TouchableOpacity
+            style={styles.profilesLink}
+            onPress={() => navigation.navigate("Profiles")}
+          >
+            <Text style={styles.profilesLinkText}>
+              Already have a profile on this device? Pick it here 👥
+            </Text>
+          </TouchableOpacity>
+        )}
+
         <Text style={styles.footerNote}>
           NeuroAura is designed for ADHD, autism, anxiety and sensory-sensitive
           brains — with colours, shapes and flows that feel safe 💛
@@ -225,6 +238,16 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: "#374151",
   },
+  profilesLink: {
+    marginTop: 18,
+    alignItems: "center",
+  },
+  profilesLinkText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#374151",
+    textDecorationLine: "underline",
+  },
   footerNote: {
     marginTop: 22,
     fontSize: 11,
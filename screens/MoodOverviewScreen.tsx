@@ -12,7 +12,7 @@ import {
 } from "react-native";
 import type { NativeStackScreenProps } from "@react-navigation/native-stack";
 import type { RootStackParamList } from "../App";
-import { useUser, MoodType } from "../context/UserContext";
+import { useUser } from "../context/UserContext";
 
 type Props = NativeStackScreenProps<RootStackParamList, "MoodOverview">;
 
@@ -25,7 +25,8 @@ const PASTEL_GREEN = "#CDE9DC";
 const PASTEL_BLUE = "#C4DFE5";
 
 // We’ll normalize everything into these keys
-type MoodKey = MoodType | "idk";
+// ("overwhelmed" check-ins show up as "anxious")
+type MoodKey = "calm" | "okay" | "anxious" | "angry" | "sad" | "idk";
 
 const MOOD_META: Record<MoodKey, { label: string; emoji: string; color: string }> = {
   calm: { label: "Calm", emoji: "😌", color: PASTEL_GREEN },
@@ -63,16 +64,6 @@ const normalizeMood = (raw: any): MoodKey => {
   return "idk";
 };
 
-// Rough heuristic: is this check-in likely coming from sensors?
-const isSensorLike = (entry: any): boolean => {
-  if (entry?.source === "sensor") return true;
-  const syms: string[] = Array.isArray(entry?.symptoms) ? entry.symptoms : [];
-  const text = syms.join(" ").toLowerCase();
-  if (text.includes("phone shaken hard")) return true;
-  if (text.includes("very loud environment")) return true;
-  if (text.includes("very bright screen")) return true;
-  return false;
-};
 
 const MoodOverviewScreen: React.FC<Props> = ({ navigation }) => {
   const { profile, checkIns = [] } = useUser() as any;
@@ -125,7 +116,7 @@ const MoodOverviewScreen: React.FC<Props> = ({ navigation }) => {
     const last7All = parsed.filter((c) => c._ts >= sevenAgo);
 
     // 3) Remove sensor-style entries (we only want manual ones in this chart)
-    const last7Manual = last7All.filter((c) => !isSensorLike(c));
+    const last7Manual = last7All.filter((c) => c.source !== "sensor");
 
     // 4) Count moods
     const counts: Record<MoodKey, number> = {
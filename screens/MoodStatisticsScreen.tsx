@@ -15,6 +15,8 @@ import type { NativeStackScreenProps } from "@react-navigation/native-stack";
 import type { RootStackParamList } from "../App";
 import { useUser } from "../context/UserContext";
 import { LineChart } from "react-native-chart-kit";
+import { assessOverloadRisk, explainRisk } from "../src/risk/overloadRisk";
+import { sensorService } from "../src/sensors/sensorService";
 
 type Props = NativeStackScreenProps<RootStackParamList, "MoodStats">;
 
@@ -40,16 +42,6 @@ const MOOD_META: Record<MoodKey, { label: string; emoji: string; color: string }
     idk: { label: "I don’t know", emoji: "🤷", color: PASTEL_BLUE },
   };
 
-// Map mood → “sensory load %”
-const MOOD_LOAD: Record<MoodKey, number> = {
-  calm: 20,     // low
-  okay: 35,     // low / medium
-  anxious: 70,  // medium / high
-  angry: 90,    // high
-  sad: 60,      // medium
-  idk: 45,      // mid
-};
-
 // ---------- helpers ----------
 
 // Convert stored timestamp into ms
@@ -77,16 +69,6 @@ const normalizeMood = (raw: any): MoodKey => {
   return "idk";
 };
 
-// Detect sensor-generated logs so we can ignore them in stats
-const isSensorLike = (entry: any): boolean => {
-  if (entry?.source === "sensor") return true;
-  const syms: string[] = Array.isArray(entry?.symptoms) ? entry.symptoms : [];
-  const text = syms.join(" ").toLowerCase();
-  if (text.includes("phone shaken hard")) return true;
-  if (text.includes("very loud environment")) return true;
-  if (text.includes("very bright screen")) return true;
-  return false;
-};
 
 type DayBucket = {
   key: string; // date.toDateString()
@@ -96,7 +78,7 @@ type DayBucket = {
 };
 
 const MoodStatisticsScreen: React.FC<Props> = ({ navigation }) => {
-  const { profile, checkIns = [] } = useUser() as any;
+  const { profile, checkIns = [], sensorSettings } = useUser() as any;
   const name = profile?.name || "friend";
 
   // Fade / scale animation for the whole stats area
@@ -130,11 +112,12 @@ const MoodStatisticsScreen: React.FC<Props> = ({ navigation }) => {
         return { ...c, _ts: ts };
       })
       .filter(Boolean) as Array<any & { _ts: number }>;
+    const history = parsed.map((c) => ({ ...c, timestamp: c._ts }));
 
     const todayManual = parsed
       .filter(
         (c) =>
-          new Date(c._ts).toDateString() === todayKey && !isSensorLike(c)
+          new Date(c._ts).toDateString() === todayKey && c.source !== "sensor"
       )
       .sort((a, b) => a._ts - b._ts);
 
@@ -153,8 +136,8 @@ const MoodStatisticsScreen: React.FC<Props> = ({ navigation }) => {
         .toString()
         .padStart(2, "0")}`;
 
-      const moodKey = normalizeMood(entry.mood);
-      const load = MOOD_LOAD[moodKey] ?? 40;
+      // the risk as it stood right after this check-in
+      const load = assessOverloadRisk({ now: entry._ts, checkIns: history }).score;
 
       todayLabels.push(label);
       todayValues.push(load);
@@ -163,6 +146,17 @@ const MoodStatisticsScreen: React.FC<Props> = ({ navigation }) => {
     return { todayLabels, todayValues, todayAny: true };
   }, [checkIns]);
 
+  // Right now, with the sensors' latest levels too
+  const currentRisk = useMemo(
+    () =>
+      assessOverloadRisk({
+        now: Date.now(),
+        checkIns: checkIns || [],
+        sensors: { levels: sensorService.levels(), settings: sensorSettings },
+      }),
+    [checkIns, sensorSettings]
+  );
+
   // ========= 2. LAST 4 WEEKS CALENDAR STATS =========
   const {
     weeks,
@@ -190,7 +184,7 @@ const MoodStatisticsScreen: React.FC<Props> = ({ navigation }) => {
 
     const earliest = now - rangeDays * 24 * 60 * 60 * 1000;
     const recentManual = parsed.filter(
-      (c) => c._ts >= earliest && !isSensorLike(c)
+      (c) => c._ts >= earliest && c.source !== "sensor"
     );
 
     const dayMap = new Map<string, DayBucket>();
@@ -304,11 +298,30 @@ const MoodStatisticsScreen: React.FC<Props> = ({ navigation }) => {
           contentContainerStyle={styles.scrollContent}
           showsVerticalScrollIndicator={false}
         >
+          {/* ========== RISK RIGHT NOW ========== */}
+          {currentRisk.factors.length > 0 && (
+            <View style={styles.summaryCard}>
+              <Text style={styles.summaryTitle}>Overload risk right now</Text>
+              <Text style={styles.summaryBody}>
+                <Text style={styles.summaryHighlight}>
+                  {currentRisk.score}/100
+                </Text>{" "}
+                ·{" "}
+                {currentRisk.zone === "red"
+                  ? "high"
+                  : currentRisk.zone === "yellow"
+                  ? "rising"
+                  : "low"}
+                {explainRisk(currentRisk) ? ` – ${explainRisk(currentRisk)}.` : "."}
+              </Text>
+            </View>
+          )}
+
           {/* ========== TODAY'S SENSORY LOAD GRAPH ========== */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Today’s sensory risk timeline</Text>
             <Text style={styles.sectionSub}>
-              Based on your check-ins and moods logged throughout the day.
+              Your overload risk after each check-in today.
             </Text>
 
             {todayAny ? (
@@ -382,7 +395,8 @@ const MoodStatisticsScreen: React.FC<Props> = ({ navigation }) => {
                 </View>
 
                 <Text style={styles.loadHint}>
-                  Calm / Okay → low · Anxious / Sad → medium · Angry → high.
+                  Mood and how strong it was, body signals, sleep and recent
+                  sensor alerts all count.
                 </Text>
               </View>
             ) : (
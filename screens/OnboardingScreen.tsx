@@ -47,8 +47,8 @@ const LANGUAGE_OPTIONS = [
   { code: "es", label: "Spanish" },
 ];
 
-const OnboardingScreen: React.FC<Props> = ({ navigation }) => {
-  const { setProfile } = useUser();
+const OnboardingScreen: React.FC<Props> = () => {
+  const { profile, setProfile } = useUser();
   const [name, setName] = useState("");
   const [ageMode, setAgeMode] = useState<"teen" | "adult">("teen");
 
@@ -73,16 +73,20 @@ const OnboardingScreen: React.FC<Props> = ({ navigation }) => {
       ? [...allergies, otherAllergy.trim()]
       : allergies;
 
+    // Keep id, email + role from AuthScreen, add the onboarding answers
     setProfile({
+      id: profile?.id,
+      email: profile?.email ?? "",
+      role: profile?.role ?? (ageMode === "teen" ? "under18" : "individual"),
       name: name.trim(),
       ageMode,
       disorders,
       sensitivities,
       allergies: finalAllergies,
       language,
+      onboarded: true,
     });
-
-    navigation.replace("Home");
+    // App.tsx moves on to the landing screen for this role
   };
 
   const canContinue = !!name.trim();
@@ -0,0 +1,613 @@
+// screens/PairingScreen.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  SafeAreaView,
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import type { NativeStackScreenProps } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../App";
+import { useUser } from "../context/UserContext";
+import {
+  acceptPairingCode,
+  confirmLink,
+  createPairingCode,
+  isPairingAvailable,
+  listLinks,
+  lookupPairingCode,
+  revokeLink,
+  updateSharing,
+} from "../src/pairing/pairingClient";
+import {
+  categoryTitle,
+  DEFAULT_SHARE,
+  delayLabel,
+  NEVER_SHARED,
+  PairingCode,
+  PairingLink,
+  SharingChoice,
+} from "../src/pairing/types";
+import SharingEditor from "../src/components/SharingEditor";
+
+type Props = NativeStackScreenProps<RootStackParamList, "Pairing">;
+
+// while a code is on screen, look for the teen's answer this often
+const PENDING_POLL_MS = 5_000;
+
+function formatCountdown(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+const PairingScreen: React.FC<Props> = ({ navigation }) => {
+  const { profile } = useUser();
+  const isParent = profile?.role === "parent";
+  const available = isPairingAvailable();
+
+  const [links, setLinks] = useState<PairingLink[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // parent side
+  const [code, setCode] = useState<PairingCode | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // teen side
+  const [codeInput, setCodeInput] = useState("");
+  const [offer, setOffer] = useState<{ code: string; parentName: string } | null>(
+    null
+  );
+  const [sharing, setSharing] = useState<SharingChoice>({
+    categories: DEFAULT_SHARE,
+    delayMinutes: 0,
+  });
+  // link whose sharing is being changed, and the unsaved choice
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SharingChoice | null>(null);
+
+  const teenDetails = () => ({
+    profileId: profile!.id,
+    name: profile!.name,
+    sensitivities: [...(profile?.sensitivities ?? []), ...(profile?.allergies ?? [])],
+  });
+
+  const refresh = useCallback(async () => {
+    if (!profile || !available) return;
+    setLoading(true);
+    try {
+      setLinks(await listLinks(profile.id));
+      setError(null);
+    } catch (e: any) {
+      console.warn("Failed to load links", e);
+      setError(e?.message || "Couldn’t load your links.");
+    } finally {
+      setLoading(false);
+    }
+  }, [profile, available]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // countdown + polling while a code is live
+  useEffect(() => {
+    if (!code) return;
+    const tick = setInterval(() => {
+      const t = Date.now();
+      setNow(t);
+      if (t >= code.expiresAt) setCode(null);
+    }, 1000);
+    const poll = setInterval(refresh, PENDING_POLL_MS);
+    return () => {
+      clearInterval(tick);
+      clearInterval(poll);
+    };
+  }, [code, refresh]);
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await task();
+    } catch (e: any) {
+      console.warn("Pairing step failed", e);
+      Alert.alert("Oops", e?.message || "Something went wrong. Try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreateCode = () =>
+    run(async () => {
+      if (!profile) return;
+      setCode(await createPairingCode(profile.id, profile.name));
+      setNow(Date.now());
+    });
+
+  const handleLookup = () =>
+    run(async () => {
+      const typed = codeInput.trim().toUpperCase();
+      if (!profile || !typed) return;
+      const { parentName } = await lookupPairingCode(typed, profile.id);
+      setOffer({ code: typed, parentName });
+    });
+
+  const checkChoice = (choice: SharingChoice) => {
+    if (choice.categories.length > 0) return true;
+    Alert.alert(
+      "Nothing picked",
+      "Choose at least one thing to share, or unlink instead."
+    );
+    return false;
+  };
+
+  const handleAccept = () =>
+    run(async () => {
+      if (!profile || !offer || !checkChoice(sharing)) return;
+      await acceptPairingCode(offer.code, teenDetails(), sharing);
+      setOffer(null);
+      setCodeInput("");
+      await refresh();
+      Alert.alert(
+        "Almost there",
+        `${offer.parentName} now needs to confirm the link on their phone.`
+      );
+    });
+
+  const startEditing = (link: PairingLink) => {
+    setEditingId(link.id);
+    setDraft({ categories: link.categories, delayMinutes: link.delayMinutes });
+  };
+
+  const handleSaveSharing = () =>
+    run(async () => {
+      if (!profile || !editingId || !draft || !checkChoice(draft)) return;
+      await updateSharing(editingId, teenDetails(), draft);
+      setEditingId(null);
+      setDraft(null);
+      await refresh();
+    });
+
+  const handleConfirm = (link: PairingLink) =>
+    run(async () => {
+      if (!profile) return;
+      await confirmLink(link.id, profile.id);
+      setCode(null);
+      await refresh();
+    });
+
+  const handleRevoke = (link: PairingLink) => {
+    if (!profile) return;
+    const other = isParent ? link.childName : link.parentName;
+    const pending = link.status === "pending";
+    Alert.alert(
+      pending ? `Decline ${other}?` : `Unlink ${other}?`,
+      isParent
+        ? "You’ll stop seeing anything they share. They can link again with a new code."
+        : `${other} will stop seeing your data right away. You can link again later with a new code.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: pending ? "Decline" : "Unlink",
+          style: "destructive",
+          onPress: () =>
+            run(async () => {
+              await revokeLink(link.id, profile.id);
+              await refresh();
+            }),
+        },
+      ]
+    );
+  };
+
+  const pending = links.filter((l) => l.status === "pending");
+  const active = links.filter((l) => l.status === "active");
+
+  const renderShared = (link: PairingLink) => (
+    <View style={styles.sharedBox}>
+      <Text style={styles.sharedTitle}>
+        {isParent ? "They share with you:" : `${link.parentName} can see:`}
+      </Text>
+      {link.categories.map((c) => (
+        <Text key={c} style={styles.sharedLine}>
+          ✓ {categoryTitle(c)}
+        </Text>
+      ))}
+      <Text style={styles.sharedMuted}>
+        {link.delayMinutes > 0
+          ? `⏱ ${delayLabel(link.delayMinutes)} delay (not for alerts or red-zone check-ins)`
+          : "⏱ No delay"}
+      </Text>
+      {!isParent && (
+        <>
+          <Text style={[styles.sharedTitle, { marginTop: 8 }]}>Never shared:</Text>
+          {NEVER_SHARED.map((item) => (
+            <Text key={item} style={styles.sharedMuted}>
+              ✗ {item}
+            </Text>
+          ))}
+        </>
+      )}
+    </View>
+  );
+
+  // The teen can change a link's sharing in place
+  const renderSharing = (link: PairingLink) => {
+    if (isParent) return renderShared(link);
+    if (editingId !== link.id || !draft) {
+      return (
+        <>
+          {renderShared(link)}
+          <TouchableOpacity onPress={() => startEditing(link)} disabled={busy}>
+            <Text style={styles.editLink}>Change what {link.parentName} sees</Text>
+          </TouchableOpacity>
+        </>
+      );
+    }
+    return (
+      <>
+        <SharingEditor value={draft} onChange={setDraft} parentName={link.parentName} />
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => {
+              setEditingId(null);
+              setDraft(null);
+            }}
+          >
+            <Text style={styles.secondaryButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.primaryButton, busy && styles.disabled]}
+            onPress={handleSaveSharing}
+            disabled={busy}
+          >
+            <Text style={styles.primaryButtonText}>Save</Text>
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.inner}>
+        <Text style={styles.header}>
+          {isParent ? "Link your teen 🔗" : "Parent link 🔗"}
+        </Text>
+        <Text style={styles.subheader}>
+          {isParent
+            ? "Your teen decides what you see, and either of you can end the link at any time."
+            : "You choose exactly what a parent or guardian can see, and you can stop sharing at any time."}
+        </Text>
+
+        {!available && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Needs a sync server</Text>
+            <Text style={styles.hint}>
+              Linking works through the NeuroAura sync server. Start the app
+              with EXPO_PUBLIC_SYNC_URL set on both phones.
+            </Text>
+          </View>
+        )}
+
+        {available && error && <Text style={styles.error}>{error}</Text>}
+
+        {/* Parent: make a code */}
+        {available && isParent && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Pairing code</Text>
+            {code ? (
+              <>
+                <Text style={styles.code}>{code.code}</Text>
+                <Text style={styles.hint}>
+                  On your teen’s phone: menu → Parent link → type this code.
+                  Expires in {formatCountdown(code.expiresAt - now)}.
+                </Text>
+              </>
+            ) : (
+              <Text style={styles.hint}>
+                Codes work once and only for 10 minutes.
+              </Text>
+            )}
+            <TouchableOpacity
+              style={[styles.primaryButton, busy && styles.disabled]}
+              onPress={handleCreateCode}
+              disabled={busy}
+            >
+              <Text style={styles.primaryButtonText}>
+                {code ? "New code" : "Get a pairing code"}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Teen: enter a code, then choose what to share */}
+        {available && !isParent && !offer && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Enter a pairing code</Text>
+            <Text style={styles.hint}>
+              Ask your parent or guardian to open “Link your teen” on their
+              phone.
+            </Text>
+            <TextInput
+              style={styles.input}
+              value={codeInput}
+              onChangeText={setCodeInput}
+              placeholder="e.g. K7MP3Q"
+              placeholderTextColor="#9CA3AF"
+              autoCapitalize="characters"
+              autoCorrect={false}
+              maxLength={8}
+            />
+            <TouchableOpacity
+              style={[styles.primaryButton, (busy || !codeInput.trim()) && styles.disabled]}
+              onPress={handleLookup}
+              disabled={busy || !codeInput.trim()}
+            >
+              <Text style={styles.primaryButtonText}>Check code</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {available && !isParent && offer && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>
+              {offer.parentName} wants to link with you
+            </Text>
+            <Text style={styles.hint}>
+              Pick what they’ll be able to see. Nothing else leaves your phone.
+            </Text>
+            <SharingEditor
+              value={sharing}
+              onChange={setSharing}
+              parentName={offer.parentName}
+            />
+            <View style={styles.buttonRow}>
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => setOffer(null)}
+              >
+                <Text style={styles.secondaryButtonText}>Not now</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.primaryButton, busy && styles.disabled]}
+                onPress={handleAccept}
+                disabled={busy}
+              >
+                <Text style={styles.primaryButtonText}>
+                  Share with {offer.parentName}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {loading && links.length === 0 && <ActivityIndicator style={{ marginVertical: 12 }} />}
+
+        {pending.map((link) => (
+          <View key={link.id} style={styles.card}>
+            <Text style={styles.cardTitle}>
+              {isParent
+                ? `${link.childName} wants to link`
+                : `Waiting for ${link.parentName} to confirm`}
+            </Text>
+            {renderSharing(link)}
+            <View style={styles.buttonRow}>
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => handleRevoke(link)}
+                disabled={busy}
+              >
+                <Text style={styles.secondaryButtonText}>
+                  {isParent ? "Decline" : "Cancel"}
+                </Text>
+              </TouchableOpacity>
+              {isParent && (
+                <TouchableOpacity
+                  style={[styles.primaryButton, busy && styles.disabled]}
+                  onPress={() => handleConfirm(link)}
+                  disabled={busy}
+                >
+                  <Text style={styles.primaryButtonText}>Confirm link</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        ))}
+
+        {active.map((link) => (
+          <View key={link.id} style={styles.card}>
+            <Text style={styles.cardTitle}>
+              Linked with {isParent ? link.childName : link.parentName} ✅
+            </Text>
+            {renderSharing(link)}
+            <TouchableOpacity
+              style={styles.dangerButton}
+              onPress={() => handleRevoke(link)}
+              disabled={busy}
+            >
+              <Text style={styles.dangerButtonText}>
+                {isParent ? "Unlink" : "Stop sharing"}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.backButtonText}>Back</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default PairingScreen;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F3F4F6",
+  },
+  inner: {
+    paddingHorizontal: 24,
+    paddingTop: 32,
+    paddingBottom: 24,
+  },
+  header: {
+    fontSize: 22,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  subheader: {
+    fontSize: 14,
+    color: "#4B5563",
+    marginTop: 6,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    marginBottom: 14,
+  },
+  cardTitle: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#111827",
+    marginBottom: 6,
+  },
+  hint: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginBottom: 4,
+  },
+  error: {
+    fontSize: 12,
+    color: "#B91C1C",
+    marginBottom: 10,
+  },
+  code: {
+    fontSize: 34,
+    fontWeight: "800",
+    letterSpacing: 6,
+    color: "#4C1D95",
+    textAlign: "center",
+    marginVertical: 10,
+  },
+  input: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 18,
+    letterSpacing: 4,
+    color: "#111827",
+    marginTop: 8,
+    textAlign: "center",
+  },
+  sharedBox: {
+    backgroundColor: "#F9FAFB",
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 4,
+  },
+  sharedTitle: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#374151",
+    marginBottom: 4,
+  },
+  sharedLine: {
+    fontSize: 13,
+    color: "#111827",
+    marginTop: 2,
+  },
+  sharedMuted: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginTop: 2,
+  },
+  editLink: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#6D28D9",
+    marginTop: 10,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 12,
+  },
+  primaryButton: {
+    backgroundColor: "#8B5CF6",
+    borderRadius: 999,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    alignItems: "center",
+    marginTop: 8,
+  },
+  primaryButtonText: {
+    color: "white",
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  secondaryButton: {
+    backgroundColor: "white",
+    borderRadius: 999,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    alignItems: "center",
+    marginTop: 8,
+  },
+  secondaryButtonText: {
+    color: "#4B5563",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+  dangerButton: {
+    backgroundColor: "#FEE2E2",
+    borderRadius: 12,
+    padding: 12,
+    alignItems: "center",
+    marginTop: 12,
+  },
+  dangerButtonText: {
+    color: "#B91C1C",
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  backButton: {
+    marginTop: 8,
+    backgroundColor: "#111827",
+    borderRadius: 999,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  backButtonText: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
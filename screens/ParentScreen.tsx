@@ -1,5 +1,5 @@
 // screens/ParentScreen.tsx
-import React from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import {
   View,
   Text,
@@ -7,21 +7,147 @@ import {
   SafeAreaView,
   ScrollView,
   TouchableOpacity,
+  ActivityIndicator,
 } from "react-native";
 import type { NativeStackScreenProps } from "@react-navigation/native-stack";
 import type { RootStackParamList } from "../App";
 import { useUser } from "../context/UserContext";
+import type { ScheduleItem } from "../src/storage/types";
+import { assessOverloadRisk, explainRisk } from "../src/risk/overloadRisk";
+import MonitoringBadge from "../src/components/MonitoringBadge";
 import { t, getLangFromProfile } from "../utils/i18n";
+import {
+  isPairingAvailable,
+  listLinks,
+  loadSharedData,
+  SharedData,
+} from "../src/pairing/pairingClient";
+import {
+  delayLabel,
+  PairingLink,
+  ShareCategory,
+  SharedCheckIn,
+} from "../src/pairing/types";
 
 type Props = NativeStackScreenProps<RootStackParamList, "Parent">;
 
+function todayString(): string {
+  const d = new Date();
+  const month = `${d.getMonth() + 1}`.padStart(2, "0");
+  const day = `${d.getDate()}`.padStart(2, "0");
+  return `${d.getFullYear()}-${month}-${day}`;
+}
+
+function happensToday(item: ScheduleItem): boolean {
+  const today = todayString();
+  if (item.date === today) return true;
+  if (item.date > today || item.repeat === "NONE") return false;
+  if (item.repeat === "DAILY") return true;
+  return new Date(`${item.date}T12:00:00`).getDay() === new Date().getDay();
+}
+
+// "09:30 pm" -> minutes after midnight, for sorting
+function toMinutes(time: string): number {
+  const match = /^(\d{1,2}):(\d{2})\s*(am|pm)?$/i.exec(time.trim());
+  if (!match) return 0;
+  const suffix = match[3]?.toLowerCase();
+  let hours = Number(match[1]);
+  if (suffix) hours = (hours % 12) + (suffix === "pm" ? 12 : 0);
+  return hours * 60 + Number(match[2]);
+}
+
 const ParentScreen: React.FC<Props> = ({ navigation }) => {
-  const { profile, lastCheckIn } = useUser();
+  const { profile, signOut } = useUser();
   const lang = getLangFromProfile(profile);
 
-  const name = profile?.name || "your child";
+  const [links, setLinks] = useState<PairingLink[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [shared, setShared] = useState<SharedData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const activeLinks = links.filter((l) => l.status === "active");
+  const pendingCount = links.filter((l) => l.status === "pending").length;
+  const link = activeLinks.find((l) => l.id === selectedId) ?? activeLinks[0] ?? null;
+
+  const refresh = useCallback(async () => {
+    if (!profile || !isPairingAvailable()) return;
+    setLoading(true);
+    try {
+      setLinks(await listLinks(profile.id));
+      setLoadError(null);
+    } catch (e: any) {
+      console.warn("Failed to load links", e);
+      setLoadError(e?.message || "Couldn’t load your linked teens.");
+    } finally {
+      setLoading(false);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!profile || !link) {
+      setShared(null);
+      return;
+    }
+    let cancelled = false;
+    loadSharedData(link, profile.id)
+      .then((data) => {
+        if (!cancelled) setShared(data);
+      })
+      .catch((e) => {
+        console.warn("Failed to load shared data", e);
+        if (!cancelled) setLoadError(e?.message || "Couldn’t load what they share.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [profile, link?.id]);
+
+  // the teen's latest check-in they logged themselves
+  const lastCheckIn = useMemo(() => {
+    let latest: SharedCheckIn | null = null;
+    for (const c of shared?.checkIns ?? []) {
+      if (c.source !== "manual") continue;
+      if (!latest || c.timestamp > latest.timestamp) latest = c;
+    }
+    return latest;
+  }, [shared]);
+
+  const name = link?.childName || "your child";
   const isTeen = profile?.ageMode === "teen";
 
+  // With no link there's nothing to hide, just nothing to show yet
+  const shares = (category: ShareCategory) =>
+    !link || link.categories.includes(category);
+  const hiddenText = `Hidden – ${name} chose not to share this.`;
+  const sharesMood = shares("zone") || shares("moods");
+
+  // Fused from whatever they share – moods (or just their zones), body
+  // signals, sleep and sensor alerts. With nothing recent the zone of
+  // their last check-in stands in.
+  const risk = useMemo(
+    () =>
+      shared && sharesMood
+        ? assessOverloadRisk({
+            now: Date.now(),
+            checkIns: shared.checkIns,
+            alerts: shares("alerts") ? shared.alerts : undefined,
+          })
+        : null,
+    [shared, link]
+  );
+  const fused = risk && risk.factors.length > 0 ? risk : null;
+  const zone = fused?.zone ?? lastCheckIn?.zone ?? null;
+
+  const recentAlerts = (shared?.alerts ?? []).slice(0, 3);
+  const todayItems = (shared?.schedule ?? [])
+    .filter((item) => happensToday(item))
+    .sort((a, b) => toMinutes(a.time) - toMinutes(b.time));
+
   // Mood + risk summarization
   let moodText = "No recent mood check";
   let zoneLabel = "No zone yet";
@@ -29,6 +155,16 @@ const ParentScreen: React.FC<Props> = ({ navigation }) => {
   let riskExplanation =
     "Once your child logs how they feel, you’ll see a summary of their stress level here.";
 
+  if (!sharesMood) {
+    zoneLabel = "Not shared";
+    riskExplanation = hiddenText;
+  }
+  if (link && !shares("moods")) {
+    moodText = shares("zone")
+      ? `Hidden – ${name} shares only their zone.`
+      : hiddenText;
+  }
+
   if (lastCheckIn) {
     switch (lastCheckIn.mood) {
       case "calm":
@@ -47,55 +183,39 @@ const ParentScreen: React.FC<Props> = ({ navigation }) => {
         moodText = "Very stressed / angry";
         break;
     }
+  }
 
-    let riskScore = 0;
-    switch (lastCheckIn.mood) {
-      case "calm":
-        riskScore = 15;
-        break;
-      case "okay":
-        riskScore = 35;
-        break;
-      case "sad":
-        riskScore = 55;
-        break;
-      case "overwhelmed":
-        riskScore = 70;
-        break;
-      case "angry":
-        riskScore = 80;
-        break;
-    }
-    riskScore += (lastCheckIn.symptoms?.length || 0) * 5;
-    if (lastCheckIn.sleepQuality === "bad") riskScore += 10;
-    if (lastCheckIn.sleepQuality === "good") riskScore -= 5;
-    if (riskScore < 0) riskScore = 0;
-    if (riskScore > 100) riskScore = 100;
-
-    if (riskScore <= 30) {
+  if (lastCheckIn || fused) {
+    if (zone === "green") {
       zoneLabel = "Green zone (low stress)";
       zoneColor = "#22C55E";
       riskExplanation =
         "Their system looks relatively calm right now. This is a good window for regular tasks or schoolwork.";
-    } else if (riskScore <= 65) {
+    } else if (zone === "yellow") {
       zoneLabel = "Yellow zone (rising stress)";
       zoneColor = "#FACC15";
       riskExplanation =
         "They might be getting stretched or overstimulated. Gentle breaks, quieter spaces, or headphones may help.";
-    } else {
+    } else if (zone === "red") {
       zoneLabel = "Red zone (high stress)";
       zoneColor = "#EF4444";
       riskExplanation =
         "Their system is likely overloaded. This is where meltdown, shutdown, or panic is more likely if support isn’t given.";
     }
+    if (fused) {
+      zoneLabel += ` · ${fused.score}/100`;
+      const why = explainRisk(fused);
+      if (why) riskExplanation += ` What’s adding up: ${why}.`;
+    }
   }
 
-  const symptomsLine =
-    lastCheckIn && lastCheckIn.symptoms.length > 0
-      ? lastCheckIn.symptoms.join(", ")
-      : "None logged in the last check-in.";
+  const symptomsLine = !shares("symptoms")
+    ? hiddenText
+    : lastCheckIn?.symptoms && lastCheckIn.symptoms.length > 0
+    ? lastCheckIn.symptoms.join(", ")
+    : "None logged in the last check-in.";
 
-  let sleepLine = "Not logged yet.";
+  let sleepLine = shares("sleep") ? "Not logged yet." : hiddenText;
   if (lastCheckIn && lastCheckIn.sleepQuality) {
     if (lastCheckIn.sleepQuality === "good") {
       sleepLine = "Slept fairly well last night.";
@@ -106,10 +226,12 @@ const ParentScreen: React.FC<Props> = ({ navigation }) => {
     }
   }
 
-  const watchList =
-    profile && (profile.sensitivities.length > 0 || profile.allergies.length > 0)
-      ? [...profile.sensitivities, ...profile.allergies].join(", ")
-      : "Not specified yet.";
+  const triggers = link?.sensitivities ?? [];
+  const watchList = !shares("sensitivities")
+    ? hiddenText
+    : triggers.length > 0
+    ? triggers.join(", ")
+    : "Not specified yet.";
 
   return (
     <SafeAreaView style={styles.container}>
@@ -119,6 +241,61 @@ const ParentScreen: React.FC<Props> = ({ navigation }) => {
           {t("parent_subheader", lang).replace("{name}", name)}
         </Text>
 
+        <MonitoringBadge onPress={() => navigation.navigate("SensorSettings")} />
+
+        {/* Linked teens */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Linked teens</Text>
+          {!isPairingAvailable() ? (
+            <Text style={styles.value}>
+              Linking needs the NeuroAura sync server – see the README.
+            </Text>
+          ) : activeLinks.length === 0 ? (
+            <Text style={styles.value}>
+              {pendingCount > 0
+                ? "Your teen has answered – confirm the link to start seeing what they share."
+                : "No teen linked yet. Make a pairing code and ask them to type it in on their phone."}
+            </Text>
+          ) : (
+            <>
+              <View style={styles.chipRow}>
+                {activeLinks.map((l) => {
+                  const active = l.id === link?.id;
+                  return (
+                    <TouchableOpacity
+                      key={l.id}
+                      style={[styles.chip, active && styles.chipActive]}
+                      onPress={() => setSelectedId(l.id)}
+                    >
+                      <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                        {l.childName}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <Text style={styles.hint}>
+                {name} chose what you see and can stop sharing at any time.
+                {link && link.delayMinutes > 0
+                  ? ` They share with a ${delayLabel(link.delayMinutes)} delay – sensor alerts and red-zone moments still show straight away.`
+                  : ""}
+              </Text>
+            </>
+          )}
+          {loading && <ActivityIndicator style={{ marginTop: 8 }} />}
+          {loadError && <Text style={styles.error}>{loadError}</Text>}
+          <View style={styles.cardActions}>
+            <TouchableOpacity onPress={refresh} disabled={loading}>
+              <Text style={styles.actionText}>Refresh</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => navigation.navigate("Pairing")}>
+              <Text style={styles.actionText}>
+                {pendingCount > 0 ? `Review requests (${pendingCount})` : "Link your teen 🔗"}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
         {!isTeen && (
           <Text style={styles.infoBanner}>
             Note: This profile is currently set as “Adult (18+)”. In a real
@@ -154,6 +331,58 @@ const ParentScreen: React.FC<Props> = ({ navigation }) => {
           <Text style={styles.value}>{sleepLine}</Text>
         </View>
 
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Recent sensor alerts</Text>
+          {!shares("alerts") ? (
+            <Text style={styles.value}>{hiddenText}</Text>
+          ) : recentAlerts.length === 0 ? (
+            <Text style={styles.value}>No alerts shared yet.</Text>
+          ) : (
+            recentAlerts.map((a) => (
+              <Text key={a.id} style={styles.bullet}>
+                • {new Date(a.timestamp).toLocaleString()} – {a.message}
+              </Text>
+            ))
+          )}
+        </View>
+
+        {link && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Their schedule today</Text>
+            {!shares("schedule") ? (
+              <Text style={styles.value}>{hiddenText}</Text>
+            ) : todayItems.length === 0 ? (
+              <Text style={styles.value}>Nothing planned for today.</Text>
+            ) : (
+              todayItems.map((item) => (
+                <Text key={item.id} style={styles.bullet}>
+                  {item.completed ? "✓" : "•"} {item.time} – {item.title}
+                </Text>
+              ))
+            )}
+          </View>
+        )}
+
+        {link && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Chats with Your Friend</Text>
+            {!shares("chat") ? (
+              <Text style={styles.value}>
+                Private – {name} hasn’t chosen to share their chats.
+              </Text>
+            ) : !shared?.chat || shared.chat.length === 0 ? (
+              <Text style={styles.value}>Nothing shared yet.</Text>
+            ) : (
+              shared.chat.slice(-6).map((m, i) => (
+                <Text key={`${m.at}_${i}`} style={styles.bullet}>
+                  {m.role === "user" ? `${name}: ` : "Your Friend: "}
+                  {m.content}
+                </Text>
+              ))
+            )}
+          </View>
+        )}
+
         {/* Triggers / sensitivities */}
         <View style={styles.card}>
           <Text style={styles.cardTitle}>Their sensitivities & triggers</Text>
@@ -188,11 +417,32 @@ const ParentScreen: React.FC<Props> = ({ navigation }) => {
           </Text>
         </View>
 
+        <TouchableOpacity
+          style={styles.linkButton}
+          onPress={() => navigation.navigate("AppLock")}
+        >
+          <Text style={styles.linkButtonText}>App lock 🔐</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.linkButton}
+          onPress={() => navigation.navigate("RecoveryCodes")}
+        >
+          <Text style={styles.linkButtonText}>Recovery codes 🗝️</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.linkButton}
+          onPress={() => navigation.navigate("SensorSettings")}
+        >
+          <Text style={styles.linkButtonText}>Sensors 📡</Text>
+        </TouchableOpacity>
+
         <TouchableOpacity
           style={styles.backButton}
-          onPress={() => navigation.replace("Home")}
+          onPress={signOut}
         >
-          <Text style={styles.backButtonText}>Back to main view</Text>
+          <Text style={styles.backButtonText}>Log out</Text>
         </TouchableOpacity>
       </ScrollView>
     </SafeAreaView>
@@ -307,6 +557,62 @@ const styles = StyleSheet.create({
     marginTop: 6,
     fontStyle: "italic",
   },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginTop: 4,
+  },
+  chip: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+    backgroundColor: "white",
+  },
+  chipActive: {
+    backgroundColor: "#8B5CF6",
+    borderColor: "#8B5CF6",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#4B5563",
+    fontWeight: "600",
+  },
+  chipTextActive: {
+    color: "white",
+  },
+  error: {
+    fontSize: 12,
+    color: "#B91C1C",
+    marginTop: 6,
+  },
+  cardActions: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 10,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#6D28D9",
+  },
+  linkButton: {
+    marginTop: 8,
+    backgroundColor: "white",
+    borderRadius: 999,
+    paddingVertical: 12,
+    alignItems: "center",
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+  },
+  linkButtonText: {
+    color: "#111827",
+    fontSize: 14,
+    fontWeight: "600",
+  },
   backButton: {
     marginTop: 8,
     backgroundColor: "#111827",
@@ -0,0 +1,221 @@
+// screens/ProfilesScreen.tsx
+import React from "react";
+import {
+  SafeAreaView,
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
+import type { NativeStackScreenProps } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../App";
+import { useUser, UserProfile, UserRole } from "../context/UserContext";
+
+type Props = NativeStackScreenProps<RootStackParamList, "Profiles">;
+
+const PASTEL_PURPLE = "#F0D9EF";
+const PASTEL_PINK = "#FCDCE1";
+const PASTEL_YELLOW = "#E9ECCE";
+const PASTEL_GREEN = "#CDE9DC";
+const PASTEL_BLUE = "#C4DFE5";
+
+const ROLE_META: Record<UserRole, { label: string; emoji: string; color: string }> = {
+  individual: { label: "Individual", emoji: "🧠", color: PASTEL_BLUE },
+  parent: { label: "Parent / guardian", emoji: "👨‍👩‍👧", color: PASTEL_GREEN },
+  under18: { label: "Under 18", emoji: "🌈", color: PASTEL_PINK },
+  guest: { label: "Guest", emoji: "👋", color: PASTEL_PURPLE },
+};
+
+const ProfilesScreen: React.FC<Props> = ({ navigation }) => {
+  const { profile, profiles, switchProfile, removeProfile } = useUser();
+
+  // Guests have no password; everyone else logs in to their account
+  const handleSwitch = (p: UserProfile) => {
+    if (p.id === profile?.id) {
+      if (navigation.canGoBack()) navigation.goBack();
+    } else if (p.role === "guest") {
+      switchProfile(p.id);
+    } else {
+      navigation.navigate("Auth", {
+        role: p.role,
+        email: p.email,
+      });
+    }
+  };
+
+  const confirmRemove = (p: UserProfile) => {
+    Alert.alert(
+      `Remove ${p.name}?`,
+      "This deletes their check-ins, alerts, schedule, screen time and chat from this device. It can’t be undone.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: () => {
+            removeProfile(p.id).catch((e) => {
+              console.warn("Failed to remove profile", e);
+              Alert.alert("Oops", "Couldn’t remove that profile. Try again.");
+            });
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.blobTopRight} />
+
+      <ScrollView contentContainerStyle={styles.inner}>
+        <Text style={styles.title}>Who’s using NeuroAura? 👥</Text>
+        <Text style={styles.subtitle}>
+          Each person gets their own check-ins, schedule and chat. Nothing is
+          shared between profiles.
+        </Text>
+
+        {profiles.length === 0 && (
+          <Text style={styles.empty}>
+            No profiles on this device yet. Add one to get started.
+          </Text>
+        )}
+
+        {profiles.map((p) => {
+          const meta = ROLE_META[p.role] ?? ROLE_META.individual;
+          const isActive = profile?.id === p.id;
+          return (
+            <TouchableOpacity
+              key={p.id}
+              style={[
+                styles.card,
+                { backgroundColor: meta.color },
+                isActive && styles.cardActive,
+              ]}
+              onPress={() => handleSwitch(p)}
+              onLongPress={() => confirmRemove(p)}
+              activeOpacity={0.9}
+            >
+              <Text style={styles.cardEmoji}>{meta.emoji}</Text>
+              <View style={styles.cardTextWrap}>
+                <Text style={styles.cardTitle}>{p.name}</Text>
+                <Text style={styles.cardMeta}>
+                  {meta.label}
+                  {p.email ? ` • ${p.email}` : ""}
+                </Text>
+              </View>
+              {isActive && <Text style={styles.activePill}>Active</Text>}
+            </TouchableOpacity>
+          );
+        })}
+
+        <Text style={styles.hint}>Tip: long-press a profile to remove it.</Text>
+
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={() => navigation.navigate("Home")}
+        >
+          <Text style={styles.primaryText}>Add another profile ✨</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default ProfilesScreen;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: PASTEL_YELLOW,
+  },
+  blobTopRight: {
+    position: "absolute",
+    top: -80,
+    right: -50,
+    width: 210,
+    height: 210,
+    borderRadius: 130,
+    backgroundColor: PASTEL_PURPLE,
+    opacity: 0.4,
+  },
+  inner: {
+    paddingHorizontal: 24,
+    paddingTop: 32,
+    paddingBottom: 40,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: "800",
+    color: "#111827",
+  },
+  subtitle: {
+    fontSize: 13,
+    color: "#4B5563",
+    marginTop: 6,
+    marginBottom: 18,
+  },
+  empty: {
+    fontSize: 13,
+    color: "#6B7280",
+    marginBottom: 12,
+  },
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 22,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 2,
+    borderColor: "transparent",
+  },
+  cardActive: {
+    borderColor: "#111827",
+  },
+  cardEmoji: {
+    fontSize: 26,
+    marginRight: 12,
+  },
+  cardTextWrap: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "800",
+    color: "#111827",
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: "#374151",
+    marginTop: 2,
+  },
+  activePill: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 999,
+    backgroundColor: "#111827",
+    color: "#FFFFFF",
+    fontSize: 11,
+    fontWeight: "700",
+    overflow: "hidden",
+  },
+  hint: {
+    fontSize: 11,
+    color: "#6B7280",
+    textAlign: "center",
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  primaryButton: {
+    backgroundColor: "#111827",
+    borderRadius: 999,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  primaryText: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "700",
+  },
+});
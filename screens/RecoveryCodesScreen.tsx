@@ -0,0 +1,259 @@
+// screens/RecoveryCodesScreen.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  SafeAreaView,
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+} from "react-native";
+import type { NativeStackScreenProps } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../App";
+import { useUser } from "../context/UserContext";
+import {
+  issueRecoveryCodes,
+  recoveryCodesLeft,
+  verifyLogin,
+} from "../src/auth/accountStore";
+import { RECOVERY_CODE_COUNT } from "../src/auth/recoveryCodes";
+import { getAuthProvider } from "../src/auth/providers";
+import RecoveryCodeList from "../src/components/RecoveryCodeList";
+
+type Props = NativeStackScreenProps<RootStackParamList, "RecoveryCodes">;
+
+const RecoveryCodesScreen: React.FC<Props> = ({ navigation }) => {
+  const { profile } = useUser();
+  const auth = getAuthProvider();
+  // guests have no account to recover, and an identity server's
+  // accounts are recovered there
+  const email =
+    profile && profile.role !== "guest" && auth.kind === "local" ? profile.email ?? "" : "";
+
+  const [remaining, setRemaining] = useState<number | null>(null);
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  // a new set, shown once until the user says it's saved
+  const [codes, setCodes] = useState<string[] | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!email) return;
+    try {
+      setRemaining(await recoveryCodesLeft(email));
+    } catch (e) {
+      console.warn("Failed to read recovery codes", e);
+    }
+  }, [email]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleRegenerate = async () => {
+    if (!password) {
+      Alert.alert("Password needed", "Type your account password to continue.");
+      return;
+    }
+    setBusy(true);
+    try {
+      const login = await verifyLogin(email, password);
+      if (!login.ok) {
+        Alert.alert(
+          "Password isn’t right",
+          login.reason === "no_account"
+            ? "This account isn’t saved on this device."
+            : "Type the password you log in with."
+        );
+        return;
+      }
+      setCodes(await issueRecoveryCodes(email));
+      setPassword("");
+    } catch (e: any) {
+      console.warn("Failed to make recovery codes", e);
+      Alert.alert("Oops", e?.message || "Couldn’t make new codes. Try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.inner}>
+        <Text style={styles.header}>Recovery codes 🗝️</Text>
+        <Text style={styles.subheader}>
+          One-time codes that let you choose a new password if you forget
+          yours. Only their hashes are stored on this device.
+        </Text>
+
+        {auth.kind !== "local" ? (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Managed by {auth.label}</Text>
+            <Text style={styles.hint}>
+              Your account lives with your sign-in provider, so a forgotten
+              password is reset on its sign-in page.
+            </Text>
+          </View>
+        ) : !email ? (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Log in to use recovery codes</Text>
+            <Text style={styles.hint}>
+              Recovery codes belong to an account, so guest sessions don’t have
+              them.
+            </Text>
+          </View>
+        ) : codes ? (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Your new codes</Text>
+            <RecoveryCodeList
+              codes={codes}
+              email={email}
+              onDone={() => {
+                setCodes(null);
+                refresh();
+              }}
+            />
+          </View>
+        ) : (
+          <>
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Codes left</Text>
+              <Text style={styles.count}>
+                {remaining == null ? "…" : `${remaining} of ${RECOVERY_CODE_COUNT}`}
+              </Text>
+              <Text style={styles.hint}>
+                {remaining === 0
+                  ? "You have no unused codes – make a new set so you can still get back in."
+                  : "Each code works once. When you use one on the log-in screen, it stops working."}
+              </Text>
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Make a new set</Text>
+              <Text style={styles.hint}>
+                Your old codes stop working straight away. Needs your current
+                password.
+              </Text>
+              <TextInput
+                style={styles.input}
+                value={password}
+                onChangeText={setPassword}
+                placeholder="Current password"
+                placeholderTextColor="#9CA3AF"
+                secureTextEntry
+              />
+              <TouchableOpacity
+                style={[styles.primaryButton, busy && styles.disabled]}
+                onPress={handleRegenerate}
+                disabled={busy}
+              >
+                <Text style={styles.primaryButtonText}>
+                  {busy ? "Making codes…" : "Make new codes"}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+
+        {!codes && (
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Text style={styles.backButtonText}>Back</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default RecoveryCodesScreen;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F3F4F6",
+  },
+  inner: {
+    paddingHorizontal: 24,
+    paddingTop: 32,
+    paddingBottom: 24,
+  },
+  header: {
+    fontSize: 22,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  subheader: {
+    fontSize: 14,
+    color: "#4B5563",
+    marginTop: 6,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    marginBottom: 14,
+  },
+  cardTitle: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#111827",
+    marginBottom: 6,
+  },
+  count: {
+    fontSize: 24,
+    fontWeight: "800",
+    color: "#8B5CF6",
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: "#111827",
+    marginTop: 8,
+  },
+  primaryButton: {
+    backgroundColor: "#8B5CF6",
+    borderRadius: 999,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    alignItems: "center",
+    marginTop: 12,
+  },
+  primaryButtonText: {
+    color: "white",
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+  backButton: {
+    marginTop: 8,
+    backgroundColor: "#111827",
+    borderRadius: 999,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  backButtonText: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
@@ -18,8 +18,12 @@ import {
   Alert,
   ScrollView,
 } from "react-native";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Ionicons } from "@expo/vector-icons";
+import { getRepository, ScheduleItem } from "../src/storage";
+import { touchClock } from "../src/sync/clock";
+import { SCHEDULE_ITEM_SPEC } from "../src/sync/applyRemote";
+import { useUser } from "../context/UserContext";
+import { domainEvents } from "../src/events/eventBus";
 
 // Enable LayoutAnimation on Android
 if (
@@ -43,17 +47,6 @@ const TYPE_COLORS: Record<string, string> = {
   OTHER: "#06B6D4", // cyan
 };
 
-const SCHEDULE_STORAGE_KEY_PREFIX = "@neuroaura_schedule_";
-
-type ScheduleItem = {
-  id: string;
-  date: string; // YYYY-MM-DD
-  title: string;
-  type: "CHECK_IN" | "ACTIVITY" | "THERAPY" | "MEDICATION" | "OTHER";
-  time: string; // "09:30 pm"
-  repeat: "NONE" | "DAILY" | "WEEKLY";
-  completed: boolean;
-};
 
 function formatDateString(date: Date): string {
   const year = date.getFullYear();
@@ -117,7 +110,9 @@ interface ScheduleCalendarScreenProps {
 const ScheduleCalendarScreen: React.FC<ScheduleCalendarScreenProps> = ({
   route,
 }) => {
-  const userId = route?.params?.userId || "guest";
+  const { profile } = useUser();
+  // Schedules are stored per profile; "guest" when nobody is signed in
+  const userId = route?.params?.userId || profile?.id || "guest";
 
   const [items, setItems] = useState<ScheduleItem[]>([]);
   const [selectedDate, setSelectedDate] = useState<string>(
@@ -143,17 +138,20 @@ const ScheduleCalendarScreen: React.FC<ScheduleCalendarScreenProps> = ({
   // -----------------------------
   // Load + persist schedule items
   // -----------------------------
+  // Only save once the current user's items are loaded, so we never
+  // write an empty / previous user's list over stored data.
+  const [loadedUserId, setLoadedUserId] = useState<string | null>(null);
+  // the list as last loaded / saved – saving it back unchanged isn't a
+  // "change", and the next change is diffed against it
+  const savedItemsRef = useRef<ScheduleItem[] | null>(null);
+
   useEffect(() => {
     const load = async () => {
       try {
-        const key = `${SCHEDULE_STORAGE_KEY_PREFIX}${userId}`;
-        const raw = await AsyncStorage.getItem(key);
-        if (raw) {
-          const parsed = JSON.parse(raw);
-          if (Array.isArray(parsed)) {
-            setItems(parsed);
-          }
-        }
+        const stored = await getRepository().loadSchedule(userId);
+        savedItemsRef.current = stored;
+        setItems(stored);
+        setLoadedUserId(userId);
       } catch (e) {
         console.warn("Failed to load schedule items", e);
       }
@@ -162,16 +160,36 @@ const ScheduleCalendarScreen: React.FC<ScheduleCalendarScreenProps> = ({
   }, [userId]);
 
   useEffect(() => {
+    if (loadedUserId !== userId) return;
+    const previous = savedItemsRef.current;
+    savedItemsRef.current = items;
     const save = async () => {
       try {
-        const key = `${SCHEDULE_STORAGE_KEY_PREFIX}${userId}`;
-        await AsyncStorage.setItem(key, JSON.stringify(items));
+        await getRepository().saveSchedule(userId, items);
+        if (previous && items !== previous) {
+          domainEvents.emit("schedule.changed", {
+            profileId: userId,
+            items,
+            previous,
+          });
+        }
       } catch (e) {
         console.warn("Failed to save schedule items", e);
       }
     };
     save();
-  }, [items, userId]);
+  }, [items, userId, loadedUserId]);
+
+  // Edits pulled from another device are already stored – just show them
+  useEffect(
+    () =>
+      domainEvents.on("schedule.synced", ({ profileId, items: synced }) => {
+        if (profileId !== userId) return;
+        savedItemsRef.current = synced;
+        setItems(synced);
+      }),
+    [userId]
+  );
 
   // -----------------------------
   // Intro animation
@@ -294,6 +312,7 @@ const ScheduleCalendarScreen: React.FC<ScheduleCalendarScreenProps> = ({
       time: formTime.trim(),
       repeat: formRepeat,
       completed: false,
+      clock: touchClock(undefined, [...SCHEDULE_ITEM_SPEC.fields]),
     };
 
     setItems((prev) => [...prev, newItem]);
@@ -304,7 +323,13 @@ const ScheduleCalendarScreen: React.FC<ScheduleCalendarScreenProps> = ({
     LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
     setItems((prev) =>
       prev.map((item) =>
-        item.id === id ? { ...item, completed: !item.completed } : item
+        item.id === id
+          ? {
+              ...item,
+              completed: !item.completed,
+              clock: touchClock(item.clock, ["completed"]),
+            }
+          : item
       )
     );
   };
@@ -342,6 +367,7 @@ const ScheduleCalendarScreen: React.FC<ScheduleCalendarScreenProps> = ({
       time,
       repeat,
       completed: false,
+      clock: touchClock(undefined, [...SCHEDULE_ITEM_SPEC.fields]),
     };
     setItems((prev) => [...prev, newItem]);
   };
@@ -10,8 +10,9 @@ import {
   Animated,
   Easing,
 } from "react-native";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Ionicons } from "@expo/vector-icons";
+import { getRepository } from "../src/storage";
+import { useUser } from "../context/UserContext";
 
 const BG = "#020617";
 const CARD_BG = "#0F172A";
@@ -21,9 +22,6 @@ const TEXT_PRIMARY = "#E5E7EB";
 const TEXT_MUTED = "#9CA3AF";
 const DANGER = "#F97373";
 
-const GOAL_KEY = "@neuroaura_screen_time_goal_minutes";
-const USAGE_PREFIX = "@neuroaura_screen_time_usage_"; // per-day key
-
 type FocusPreset = 15 | 30 | 60;
 
 const todayKey = () => {
@@ -35,6 +33,9 @@ const todayKey = () => {
 };
 
 const ScreenTimeRegulatorScreen: React.FC = () => {
+  const { profile } = useUser();
+  const profileId = profile?.id || "guest";
+
   const [dailyGoal, setDailyGoal] = useState<number>(180); // minutes
   const [usedMinutes, setUsedMinutes] = useState<number>(0);
 
@@ -48,53 +49,58 @@ const ScreenTimeRegulatorScreen: React.FC = () => {
   const pulse = useRef(new Animated.Value(1)).current;
   const progressAnim = useRef(new Animated.Value(0)).current;
 
+  // Don't save defaults (or the previous profile's numbers) over
+  // stored values before this profile's are loaded
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+  const loaded = loadedFor === profileId;
+
   // Load goal + today usage
   useEffect(() => {
     const load = async () => {
       try {
-        const goalRaw = await AsyncStorage.getItem(GOAL_KEY);
-        if (goalRaw) {
-          const g = parseInt(goalRaw, 10);
-          if (!Number.isNaN(g) && g > 0) setDailyGoal(g);
-        }
+        const repo = getRepository();
+        const g = await repo.loadScreenTimeGoal(profileId);
+        setDailyGoal(g != null && g > 0 ? g : 180);
 
-        const usageKey = `${USAGE_PREFIX}${todayKey()}`;
-        const usageRaw = await AsyncStorage.getItem(usageKey);
-        if (usageRaw) {
-          const u = parseInt(usageRaw, 10);
-          if (!Number.isNaN(u) && u >= 0) setUsedMinutes(u);
-        }
+        const u = await repo.loadScreenTimeUsage(profileId, todayKey());
+        setUsedMinutes(u);
+        setLoadedFor(profileId);
       } catch (err) {
         console.warn("Failed to load screen-time data", err);
       }
     };
     load();
-  }, []);
+  }, [profileId]);
 
   // Save goal
   useEffect(() => {
+    if (!loaded) return;
     const saveGoal = async () => {
       try {
-        await AsyncStorage.setItem(GOAL_KEY, String(dailyGoal));
+        await getRepository().saveScreenTimeGoal(profileId, dailyGoal);
       } catch (err) {
         console.warn("Failed to save goal", err);
       }
     };
     saveGoal();
-  }, [dailyGoal]);
+  }, [dailyGoal, loaded, profileId]);
 
   // Save today usage
   useEffect(() => {
+    if (!loaded) return;
     const saveUsage = async () => {
       try {
-        const usageKey = `${USAGE_PREFIX}${todayKey()}`;
-        await AsyncStorage.setItem(usageKey, String(usedMinutes));
+        await getRepository().saveScreenTimeUsage(
+          profileId,
+          todayKey(),
+          usedMinutes
+        );
       } catch (err) {
         console.warn("Failed to save usage", err);
       }
     };
     saveUsage();
-  }, [usedMinutes]);
+  }, [usedMinutes, loaded, profileId]);
 
   // Intro + breathing animation
   useEffect(() => {
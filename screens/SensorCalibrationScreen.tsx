@@ -0,0 +1,355 @@
+// screens/SensorCalibrationScreen.tsx
+import React, { useEffect, useRef, useState } from "react";
+import {
+  SafeAreaView,
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
+import type { NativeStackScreenProps } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../App";
+import { useUser } from "../context/UserContext";
+import { SENSOR_INFO, thresholdLabel } from "../src/sensors/settings";
+import { sensorService } from "../src/sensors/sensorService";
+import {
+  CALIBRATABLE_KINDS,
+  CALIBRATION_STEPS,
+  CalibratableKind,
+  calibrate,
+  CalibrationResult,
+  CalibrationStep,
+} from "../src/sensors/calibration";
+
+type Props = NativeStackScreenProps<RootStackParamList, "SensorCalibration">;
+
+type Readings = Partial<Record<CalibratableKind, Partial<Record<CalibrationStep["part"], number[]>>>>;
+
+const levelLabel = (kind: CalibratableKind, value: number) =>
+  thresholdLabel(kind, kind === "shake" ? Math.round(value * 10) / 10 : Math.round(value));
+
+function explainFailure(kind: CalibratableKind, result: CalibrationResult): string {
+  if (result.ok) return "";
+  if (result.reason === "no_readings") {
+    return kind === "noise"
+      ? "The microphone didn’t give any readings. Check that NeuroAura may use it."
+      : "The motion sensor didn’t give any readings on this phone.";
+  }
+  return "The hard shake wasn’t much stronger than normal handling. Try shaking harder.";
+}
+
+const SensorCalibrationScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { sensorSettings, setSensorSettings } = useUser();
+  const kinds = route.params?.kind ? [route.params.kind] : CALIBRATABLE_KINDS;
+  const steps = kinds.flatMap((kind) => CALIBRATION_STEPS[kind]);
+
+  // -1 = the introduction, steps.length = the results
+  const [stepIndex, setStepIndex] = useState(-1);
+  const [recording, setRecording] = useState(false);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [live, setLive] = useState<number | null>(null);
+  const [readings, setReadings] = useState<Readings>({});
+
+  const mountedRef = useRef(true);
+  useEffect(
+    () => () => {
+      mountedRef.current = false;
+    },
+    []
+  );
+
+  const step = steps[stepIndex] as CalibrationStep | undefined;
+
+  useEffect(() => {
+    if (!step) return;
+    return sensorService.subscribeReadings(({ kind, value }) => {
+      if (kind === step.kind) setLive(value);
+    });
+  }, [step?.kind]);
+
+  const runStep = async () => {
+    if (!step) return;
+    setRecording(true);
+    setLive(null);
+    setSecondsLeft(Math.ceil(step.durationMs / 1000));
+    const countdown = setInterval(
+      () => setSecondsLeft((s) => Math.max(0, s - 1)),
+      1000
+    );
+    try {
+      const values = await sensorService.record(step.kind, step.durationMs, step.intervalMs);
+      if (!mountedRef.current) return;
+      const next: Readings = {
+        ...readings,
+        [step.kind]: { ...readings[step.kind], [step.part]: values },
+      };
+      setReadings(next);
+      // on to the next step still to do – a retry skips the rest
+      const remaining = steps.findIndex((s) => !next[s.kind]?.[s.part]);
+      setStepIndex(remaining === -1 ? steps.length : remaining);
+    } catch (e) {
+      console.warn("Calibration recording failed", e);
+    } finally {
+      clearInterval(countdown);
+      if (mountedRef.current) setRecording(false);
+    }
+  };
+
+  const results = kinds.map((kind) => ({
+    kind,
+    result: calibrate(kind, {
+      baseline: readings[kind]?.baseline ?? [],
+      reference: readings[kind]?.reference ?? [],
+    }),
+  }));
+
+  const retry = (kind: CalibratableKind) => {
+    setReadings((prev) => ({ ...prev, [kind]: {} }));
+    setStepIndex(steps.findIndex((s) => s.kind === kind));
+  };
+
+  const handleSave = () => {
+    let next = sensorSettings;
+    for (const { kind, result } of results) {
+      if (!result.ok) continue;
+      next = {
+        ...next,
+        [kind]: {
+          ...next[kind],
+          threshold: result.threshold,
+          calibration: result.calibration,
+        },
+      };
+    }
+    setSensorSettings(next);
+    Alert.alert("Saved ✅", "Your sensors now use thresholds that fit you and this phone.");
+    navigation.goBack();
+  };
+
+  const anyOk = results.some(({ result }) => result.ok);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.inner}>
+        <Text style={styles.header}>Calibrate sensors 🎚️</Text>
+        <Text style={styles.subheader}>
+          Every phone and every person is different. A minute of measuring
+          teaches NeuroAura what’s normal for you, so alerts only come when
+          something really is too much.
+        </Text>
+
+        {stepIndex === -1 && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>What happens</Text>
+            {steps.map((s, i) => (
+              <Text key={`${s.kind}-${s.part}`} style={styles.hint}>
+                {i + 1}. {SENSOR_INFO[s.kind].emoji} {s.title} (
+                {Math.round(s.durationMs / 1000)} s)
+              </Text>
+            ))}
+            <Text style={styles.hint}>
+              Sound is only measured, never recorded or kept. No alerts are
+              raised while you calibrate.
+            </Text>
+            <TouchableOpacity style={styles.primaryButton} onPress={() => setStepIndex(0)}>
+              <Text style={styles.primaryButtonText}>Start</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {step && (
+          <View style={styles.card}>
+            <Text style={styles.stepCount}>
+              Step {stepIndex + 1} of {steps.length}
+            </Text>
+            <Text style={styles.cardTitle}>
+              {SENSOR_INFO[step.kind].emoji} {step.title}
+            </Text>
+            <Text style={styles.hint}>{step.instructions}</Text>
+
+            {recording ? (
+              <>
+                <Text style={styles.countdown}>{secondsLeft} s</Text>
+                <Text style={styles.live}>
+                  {live === null ? "Measuring…" : `Now: ${levelLabel(step.kind, live)}`}
+                </Text>
+              </>
+            ) : (
+              <TouchableOpacity style={styles.primaryButton} onPress={runStep}>
+                <Text style={styles.primaryButtonText}>I’m ready – measure</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {stepIndex === steps.length && (
+          <>
+            {results.map(({ kind, result }) => (
+              <View key={kind} style={styles.card}>
+                <Text style={styles.cardTitle}>
+                  {SENSOR_INFO[kind].emoji} {SENSOR_INFO[kind].title}
+                </Text>
+                {result.ok ? (
+                  <>
+                    <Text style={styles.hint}>
+                      {CALIBRATION_STEPS[kind][0].title}:{" "}
+                      {levelLabel(kind, result.calibration.baseline)} ·{" "}
+                      {CALIBRATION_STEPS[kind][1].title}:{" "}
+                      {levelLabel(kind, result.calibration.reference)}
+                    </Text>
+                    <Text style={styles.result}>
+                      Alert at {thresholdLabel(kind, result.threshold)}
+                      {" "}(was {thresholdLabel(kind, sensorSettings[kind].threshold)})
+                    </Text>
+                  </>
+                ) : (
+                  <>
+                    <Text style={styles.hint}>{explainFailure(kind, result)}</Text>
+                    <TouchableOpacity
+                      style={styles.secondaryButton}
+                      onPress={() => retry(kind)}
+                    >
+                      <Text style={styles.secondaryButtonText}>Try again</Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+              </View>
+            ))}
+
+            {anyOk && (
+              <TouchableOpacity style={styles.primaryButton} onPress={handleSave}>
+                <Text style={styles.primaryButtonText}>Use these thresholds</Text>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+
+        <TouchableOpacity
+          style={[styles.backButton, recording && styles.disabled]}
+          onPress={() => navigation.goBack()}
+          disabled={recording}
+        >
+          <Text style={styles.backButtonText}>
+            {stepIndex === steps.length ? "Back" : "Cancel"}
+          </Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default SensorCalibrationScreen;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F3F4F6",
+  },
+  inner: {
+    paddingHorizontal: 24,
+    paddingTop: 32,
+    paddingBottom: 24,
+  },
+  header: {
+    fontSize: 22,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  subheader: {
+    fontSize: 14,
+    color: "#4B5563",
+    marginTop: 6,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    marginBottom: 14,
+  },
+  stepCount: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#7C3AED",
+    marginBottom: 4,
+  },
+  cardTitle: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#111827",
+    marginBottom: 6,
+  },
+  hint: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginBottom: 4,
+  },
+  countdown: {
+    fontSize: 32,
+    fontWeight: "700",
+    color: "#111827",
+    textAlign: "center",
+    marginTop: 12,
+  },
+  live: {
+    fontSize: 12,
+    color: "#7C3AED",
+    fontWeight: "600",
+    textAlign: "center",
+    marginTop: 4,
+  },
+  result: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#7C3AED",
+    marginTop: 6,
+  },
+  primaryButton: {
+    backgroundColor: "#8B5CF6",
+    borderRadius: 999,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    alignItems: "center",
+    marginTop: 12,
+    marginBottom: 12,
+  },
+  primaryButtonText: {
+    color: "white",
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  secondaryButton: {
+    backgroundColor: "white",
+    borderRadius: 999,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    alignItems: "center",
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    color: "#4B5563",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+  backButton: {
+    marginTop: 8,
+    backgroundColor: "#111827",
+    borderRadius: 999,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  backButtonText: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,520 @@
+// screens/SensorSettingsScreen.tsx
+import React, { useEffect, useState } from "react";
+import {
+  SafeAreaView,
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
+import type { NativeStackScreenProps } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../App";
+import { useUser } from "../context/UserContext";
+import {
+  DEFAULT_SENSOR_SETTINGS,
+  durationLabel,
+  SENSOR_INFO,
+  SENSOR_KINDS,
+  SensorConfig,
+  SensorKind,
+  thresholdLabel,
+} from "../src/sensors/settings";
+import { sensorService } from "../src/sensors/sensorService";
+import { calibratedThreshold, isCalibratable } from "../src/sensors/calibration";
+import {
+  BACKGROUND_INTERVAL_CHOICES,
+  BackgroundMonitoring,
+  monitoringUnsupported,
+  startMonitoring,
+  StartMonitoringResult,
+  stopMonitoring,
+  subscribeMonitoring,
+} from "../src/sensors/backgroundMonitor";
+import { ALERT_MODE_INFO } from "../src/sensors/alertModes";
+import { useAlertStatus } from "../src/sensors/useAlertStatus";
+
+type Props = NativeStackScreenProps<RootStackParamList, "SensorSettings">;
+
+function explainStartFailure(result: StartMonitoringResult) {
+  if (result.ok) return;
+  if (result.reason === "no_notifications") {
+    Alert.alert(
+      "Notifications are off",
+      "Background monitoring tells you what it notices with a notification, so it needs them turned on in your phone’s settings."
+    );
+  } else if (result.reason === "no_microphone") {
+    Alert.alert(
+      "Microphone is off",
+      "Background monitoring listens for very loud sound, so it needs the microphone. Allow it in your phone’s settings, or turn the noise sensor off to check only movement."
+    );
+  } else {
+    Alert.alert(
+      "Not available",
+      result.reason === "restricted"
+        ? "This phone doesn’t let NeuroAura run in the background right now (for example in battery saver mode)."
+        : "Background monitoring only works in the phone app."
+    );
+  }
+}
+
+// rounded so the live level doesn't flicker
+const readingLabel = (kind: SensorKind, value: number) =>
+  thresholdLabel(kind, kind === "shake" ? Math.round(value * 10) / 10 : Math.round(value));
+
+const SensorSettingsScreen: React.FC<Props> = ({ navigation }) => {
+  const { profile, sensorSettings, setSensorSettings, alertModes } = useUser();
+  const { mode, pause, settings: running } = useAlertStatus();
+  const modeTitle = `${ALERT_MODE_INFO[mode].title} mode`;
+  const [latest, setLatest] = useState<Partial<Record<SensorKind, number>>>({});
+  const [monitoring, setMonitoring] = useState<BackgroundMonitoring | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => subscribeMonitoring(setMonitoring), []);
+
+  const monitoringOn = !!monitoring?.enabled && monitoring.profileId === profile?.id;
+  // what the background runs found the phone won't give them
+  let monitoringWarning: string | null = null;
+  if (monitoring && monitoringUnsupported(monitoring)) {
+    monitoringWarning =
+      "Unsupported on this phone: the last check got no readings at all, so nothing can be noticed while NeuroAura is closed. Keep it open to use the sensors.";
+  } else if (monitoring && monitoring.emptyKinds.length > 0) {
+    const titles = monitoring.emptyKinds.map((kind) => SENSOR_INFO[kind].title.toLowerCase());
+    monitoringWarning = `Your phone gave no readings for ${titles.join(" or ")} in the background, so only the rest is checked.`;
+  }
+
+  const applyMonitoring = async (on: boolean, intervalMinutes: number) => {
+    if (!profile) return;
+    setBusy(true);
+    try {
+      if (on) {
+        explainStartFailure(
+          await startMonitoring(profile.id, sensorSettings, alertModes, intervalMinutes)
+        );
+      } else {
+        await stopMonitoring();
+      }
+    } catch (e) {
+      console.warn("Failed to change background monitoring", e);
+      Alert.alert("Something went wrong", "Background monitoring couldn’t be changed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(
+    () =>
+      sensorService.subscribeReadings(({ kind, value }) =>
+        setLatest((prev) => ({ ...prev, [kind]: value }))
+      ),
+    []
+  );
+
+  const update = (kind: SensorKind, change: Partial<SensorConfig>) =>
+    setSensorSettings({
+      ...sensorSettings,
+      [kind]: { ...sensorSettings[kind], ...change },
+    });
+
+  const renderChips = (
+    choices: number[],
+    current: number,
+    label: (value: number) => string,
+    onPick: (value: number) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {choices.map((value) => {
+        const active = value === current;
+        return (
+          <TouchableOpacity
+            key={value}
+            style={[styles.chip, active && styles.chipActive]}
+            onPress={() => onPick(value)}
+          >
+            <Text style={[styles.chipText, active && styles.chipTextActive]}>
+              {label(value)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.inner}>
+        <Text style={styles.header}>Sensors 📡</Text>
+        <Text style={styles.subheader}>
+          While NeuroAura is open it can notice hard shaking, loud sounds and
+          bright light, and log a possible overload moment. Tune each one to
+          you – or turn it off.
+        </Text>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Fit them to you</Text>
+          <Text style={styles.hint}>
+            A short guided check of a quiet room, a normal room, your usual
+            handling and a hard shake sets thresholds for you and this phone.
+          </Text>
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={() => navigation.navigate("SensorCalibration")}
+          >
+            <Text style={styles.primaryButtonText}>Calibrate</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>
+            {ALERT_MODE_INFO[mode].emoji} {modeTitle}
+            {pause.paused ? (pause.reason === "snooze" ? " · snoozed" : " · quiet hours") : ""}
+          </Text>
+          <Text style={styles.hint}>
+            Snooze the sensors, set quiet hours, or switch to a mode for
+            school, sports or sleeping.
+          </Text>
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={() => navigation.navigate("AlertModes")}
+          >
+            <Text style={styles.primaryButtonText}>Alert modes</Text>
+          </TouchableOpacity>
+        </View>
+
+        {SENSOR_KINDS.map((kind) => {
+          const info = SENSOR_INFO[kind];
+          const config = sensorSettings[kind];
+          const reading = latest[kind];
+          // what the active mode makes of it, and whether alerts are hushed
+          const now = running[kind];
+          const modeNote = !now.enabled
+            ? `Silent in ${modeTitle}.`
+            : pause.paused
+              ? "Still logged, but no notifications or buzzing for now."
+              : now.threshold !== config.threshold
+                ? `${modeTitle} alerts at ${thresholdLabel(kind, now.threshold)}.`
+                : null;
+          const calibrated =
+            isCalibratable(kind) && config.calibration
+              ? calibratedThreshold(kind, config.calibration)
+              : null;
+          // the calibrated threshold is offered next to the presets
+          const thresholdChoices =
+            calibrated === null || info.thresholdChoices.includes(calibrated)
+              ? info.thresholdChoices
+              : [...info.thresholdChoices, calibrated].sort((a, b) => a - b);
+          return (
+            <View key={kind} style={styles.card}>
+              <View style={styles.cardHeader}>
+                <Text style={styles.cardTitle}>
+                  {info.emoji} {info.title}
+                </Text>
+                <TouchableOpacity
+                  style={[styles.toggle, config.enabled && styles.toggleOn]}
+                  onPress={() => update(kind, { enabled: !config.enabled })}
+                >
+                  <Text
+                    style={[styles.toggleText, config.enabled && styles.toggleTextOn]}
+                  >
+                    {config.enabled ? "On" : "Off"}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+              <Text style={styles.hint}>{info.detail}</Text>
+
+              {config.enabled && (
+                <>
+                  {now.enabled && (
+                    <Text style={styles.live}>
+                      {reading === undefined
+                        ? "Waiting for a reading…"
+                        : `Right now: ${readingLabel(kind, reading)}`}
+                    </Text>
+                  )}
+                  {modeNote && <Text style={styles.hint}>{modeNote}</Text>}
+
+                  <Text style={styles.label}>Alert at (more sensitive first)</Text>
+                  {renderChips(
+                    thresholdChoices,
+                    config.threshold,
+                    (value) =>
+                      value === calibrated
+                        ? `${thresholdLabel(kind, value)} · yours`
+                        : thresholdLabel(kind, value),
+                    (threshold) => update(kind, { threshold })
+                  )}
+                  {isCalibratable(kind) && (
+                    <TouchableOpacity
+                      onPress={() => navigation.navigate("SensorCalibration", { kind })}
+                    >
+                      <Text style={styles.link}>
+                        {config.calibration
+                          ? `Calibrated ${new Date(config.calibration.calibratedAt).toLocaleDateString()} · calibrate again`
+                          : "Calibrate just this one"}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+
+                  <Text style={styles.label}>Quiet after an alert</Text>
+                  {renderChips(
+                    info.cooldownChoices,
+                    config.cooldownMs,
+                    durationLabel,
+                    (cooldownMs) => update(kind, { cooldownMs })
+                  )}
+
+                  <Text style={styles.label}>Check every</Text>
+                  {renderChips(
+                    info.intervalChoices,
+                    config.intervalMs,
+                    durationLabel,
+                    (intervalMs) => update(kind, { intervalMs })
+                  )}
+                </>
+              )}
+            </View>
+          );
+        })}
+
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>🛡️ While NeuroAura is closed</Text>
+            <TouchableOpacity
+              style={[
+                styles.toggle,
+                monitoringOn && styles.toggleOn,
+                busy && styles.disabled,
+              ]}
+              disabled={busy || !monitoring}
+              onPress={() =>
+                applyMonitoring(!monitoringOn, monitoring?.intervalMinutes ?? 30)
+              }
+            >
+              <Text style={[styles.toggleText, monitoringOn && styles.toggleTextOn]}>
+                {monitoringOn ? "On" : "Off"}
+              </Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.hint}>
+            Every so often your phone wakes NeuroAura for a few seconds to feel
+            for hard shaking and listen for very loud sound, then lets it sleep
+            again. A notification stays up while this is on. Many phones don’t
+            let apps use the sensors or the microphone in the background – if
+            a check gets nothing, it says so here.
+          </Text>
+          {monitoringOn && monitoringWarning && (
+            <View style={styles.warningBox}>
+              <Text style={styles.warningText}>{monitoringWarning}</Text>
+            </View>
+          )}
+          {monitoringOn && monitoring && (
+            <>
+              <Text style={styles.label}>Check about every</Text>
+              {renderChips(
+                BACKGROUND_INTERVAL_CHOICES,
+                monitoring.intervalMinutes,
+                (minutes) => `${minutes} min`,
+                (minutes) => {
+                  if (!busy) applyMonitoring(true, minutes);
+                }
+              )}
+              <Text style={styles.hint}>
+                Less often saves battery. Your phone may wait longer when the
+                battery is low.
+                {monitoring.lastRunAt
+                  ? ` Last check: ${new Date(monitoring.lastRunAt).toLocaleTimeString([], {
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}.`
+                  : ""}
+              </Text>
+            </>
+          )}
+        </View>
+
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={() => setSensorSettings(DEFAULT_SENSOR_SETTINGS)}
+        >
+          <Text style={styles.secondaryButtonText}>Reset to defaults</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.backButtonText}>Back</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default SensorSettingsScreen;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F3F4F6",
+  },
+  inner: {
+    paddingHorizontal: 24,
+    paddingTop: 32,
+    paddingBottom: 24,
+  },
+  header: {
+    fontSize: 22,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  subheader: {
+    fontSize: 14,
+    color: "#4B5563",
+    marginTop: 6,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    marginBottom: 14,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 6,
+  },
+  cardTitle: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  hint: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginBottom: 4,
+  },
+  warningBox: {
+    backgroundColor: "#FEF3C7",
+    borderRadius: 12,
+    padding: 10,
+    marginTop: 6,
+    marginBottom: 4,
+  },
+  warningText: {
+    fontSize: 12,
+    color: "#92400E",
+  },
+  live: {
+    fontSize: 12,
+    color: "#7C3AED",
+    fontWeight: "600",
+    marginTop: 4,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#374151",
+    marginTop: 10,
+  },
+  toggle: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    paddingVertical: 4,
+    paddingHorizontal: 14,
+    backgroundColor: "white",
+  },
+  toggleOn: {
+    backgroundColor: "#8B5CF6",
+    borderColor: "#8B5CF6",
+  },
+  toggleText: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#4B5563",
+  },
+  toggleTextOn: {
+    color: "white",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginTop: 6,
+  },
+  chip: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+    backgroundColor: "white",
+  },
+  chipActive: {
+    backgroundColor: "#8B5CF6",
+    borderColor: "#8B5CF6",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#4B5563",
+    fontWeight: "600",
+  },
+  chipTextActive: {
+    color: "white",
+  },
+  link: {
+    fontSize: 12,
+    color: "#7C3AED",
+    fontWeight: "600",
+    marginBottom: 4,
+  },
+  primaryButton: {
+    backgroundColor: "#8B5CF6",
+    borderRadius: 999,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    alignItems: "center",
+    marginTop: 12,
+  },
+  primaryButtonText: {
+    color: "white",
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+  secondaryButton: {
+    backgroundColor: "white",
+    borderRadius: 999,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  secondaryButtonText: {
+    color: "#4B5563",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  backButton: {
+    marginTop: 8,
+    backgroundColor: "#111827",
+    borderRadius: 999,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  backButtonText: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
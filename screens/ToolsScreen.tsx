@@ -32,8 +32,8 @@ type ToolsRouteParam = {
 };
 
 const ToolsScreen: React.FC = () => {
-  const { user } = useUser();
-  const userId = user?.id || "guest";
+  const { profile } = useUser();
+  const userId = profile?.id || "guest";
 
   // 🔥 Read initialTab from navigation params (so overflow can open Schedule directly)
   const route = useRoute<RouteProp<ToolsRouteParam, "Tools">>();
@@ -0,0 +1,562 @@
+// server/mock-oidc-server.js
+// Stand-in OpenID Connect identity server, so NeuroAura's OIDC sign-in
+// can be developed and tested without a real identity vendor. Not for
+// production: one public client, no rate limits, no consent screen.
+// Plain Node (18+), no dependencies:
+//
+//   npm run mock-oidc                         # listens on 0.0.0.0:4100
+//   ACCESS_TOKEN_TTL=30 npm run mock-oidc     # access tokens last 30 s
+//
+// Then start the app with
+//   EXPO_PUBLIC_AUTH_PROVIDER=oidc EXPO_PUBLIC_OIDC_ISSUER=http://<laptop-ip>:4100
+//
+// Flow: authorization code with PKCE (S256 only). Refresh tokens rotate
+// on every use; presenting one that was already used revokes the whole
+// sign-in, as a stolen token would be.
+//
+// API (also at /.well-known/openid-configuration)
+//   GET  /authorize   response_type=code, client_id, redirect_uri, state,
+//                     code_challenge, code_challenge_method=S256, scope,
+//                     nonce?, login_hint?, prompt=create? (sign-up form),
+//                     neuroaura_role? (stored on sign-up, sent back as a claim)
+//   POST /authorize   the sign-in / sign-up form
+//        -> 302 redirect_uri?code=…&state=…   (code valid for 60 s, once)
+//   POST /token       form: grant_type=authorization_code, code, code_verifier,
+//                     redirect_uri, client_id
+//                     form: grant_type=refresh_token, refresh_token, client_id
+//        -> { access_token, id_token, refresh_token, expires_in, token_type }
+//   GET  /userinfo    Authorization: Bearer <access token>
+//   POST /revoke      form: token=<refresh token>   (ends that sign-in)
+//   GET  /jwks        public key for token signatures
+
+const http = require("http");
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+
+const PORT = Number(process.env.PORT) || 4100;
+const HOST = process.env.HOST || "0.0.0.0";
+// by default the issuer is whatever address the client used
+const FIXED_ISSUER = (process.env.OIDC_ISSUER || "").replace(/\/+$/, "");
+const CLIENT_ID = process.env.OIDC_CLIENT_ID || "neuroaura-app";
+// seconds
+const ACCESS_TOKEN_TTL = Number(process.env.ACCESS_TOKEN_TTL) || 300;
+const REFRESH_TOKEN_TTL = Number(process.env.REFRESH_TOKEN_TTL) || 30 * 24 * 60 * 60;
+const CODE_TTL_MS = 60 * 1000;
+const DATA_FILE = path.resolve(
+  process.env.OIDC_DATA_FILE || path.join(__dirname, "data", "oidc-db.json")
+);
+
+const ROLES = new Set(["individual", "parent", "under18"]);
+const MIN_PASSWORD_LENGTH = 10;
+const MAX_BODY_BYTES = 64 * 1024;
+
+// ---------------------------------------------------------------
+// Storage: users, refresh tokens and the signing key in one JSON
+// file; authorization codes only in memory
+// ---------------------------------------------------------------
+function loadDb() {
+  try {
+    const db = JSON.parse(fs.readFileSync(DATA_FILE, "utf8"));
+    return {
+      // sub -> { sub, email, name, role, salt, passwordHash, createdAt }
+      users: db.users && typeof db.users === "object" ? db.users : {},
+      // sha256(token) -> { sub, family, expiresAt, usedAt }
+      refreshTokens:
+        db.refreshTokens && typeof db.refreshTokens === "object" ? db.refreshTokens : {},
+      privateKey: typeof db.privateKey === "string" ? db.privateKey : null,
+    };
+  } catch (e) {
+    if (e.code !== "ENOENT") {
+      console.warn(`Could not read ${DATA_FILE}, starting empty:`, e.message);
+    }
+    return { users: {}, refreshTokens: {}, privateKey: null };
+  }
+}
+
+function saveDb(db) {
+  fs.mkdirSync(path.dirname(DATA_FILE), { recursive: true });
+  const tmp = `${DATA_FILE}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(db));
+  fs.renameSync(tmp, DATA_FILE);
+}
+
+const db = loadDb();
+if (!db.privateKey) {
+  const { privateKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+  db.privateKey = privateKey.export({ type: "pkcs8", format: "pem" });
+  saveDb(db);
+}
+const privateKey = crypto.createPrivateKey(db.privateKey);
+const publicKey = crypto.createPublicKey(privateKey);
+const KEY_ID = crypto
+  .createHash("sha256")
+  .update(publicKey.export({ type: "spki", format: "der" }))
+  .digest("hex")
+  .slice(0, 16);
+
+// code -> { sub, clientId, redirectUri, challenge, nonce, scope, expiresAt }
+const codes = new Map();
+
+// ---------------------------------------------------------------
+// Crypto helpers
+// ---------------------------------------------------------------
+const b64url = (buf) => Buffer.from(buf).toString("base64url");
+const randomToken = () => crypto.randomBytes(32).toString("base64url");
+const sha256 = (text) => crypto.createHash("sha256").update(text).digest();
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+function signJwt(claims) {
+  const header = { alg: "RS256", typ: "JWT", kid: KEY_ID };
+  const input = `${b64url(JSON.stringify(header))}.${b64url(JSON.stringify(claims))}`;
+  const signature = crypto.sign("RSA-SHA256", Buffer.from(input), privateKey);
+  return `${input}.${b64url(signature)}`;
+}
+
+// Claims of a token this server signed and that hasn't expired, or null
+function verifyJwt(token) {
+  const parts = typeof token === "string" ? token.split(".") : [];
+  if (parts.length !== 3) return null;
+  const valid = crypto.verify(
+    "RSA-SHA256",
+    Buffer.from(`${parts[0]}.${parts[1]}`),
+    publicKey,
+    Buffer.from(parts[2], "base64url")
+  );
+  if (!valid) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(parts[1], "base64url").toString("utf8"));
+    return typeof claims.exp === "number" && claims.exp > nowSeconds() ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+function hashPassword(password, salt) {
+  return crypto.scryptSync(password, Buffer.from(salt, "hex"), 32).toString("hex");
+}
+
+function passwordMatches(user, password) {
+  const actual = Buffer.from(hashPassword(password, user.salt), "hex");
+  const expected = Buffer.from(user.passwordHash, "hex");
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+// ---------------------------------------------------------------
+// HTTP helpers
+// ---------------------------------------------------------------
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Cache-Control": "no-store",
+    ...headers,
+  });
+  res.end(JSON.stringify(body));
+}
+
+function sendHtml(res, status, html) {
+  res.writeHead(status, { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" });
+  res.end(html);
+}
+
+function redirect(res, location) {
+  res.writeHead(302, { Location: location, "Cache-Control": "no-store" });
+  res.end();
+}
+
+function readForm(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on("data", (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(Object.assign(new Error("Body too large"), { status: 413 }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () =>
+      resolve(Object.fromEntries(new URLSearchParams(Buffer.concat(chunks).toString("utf8"))))
+    );
+    req.on("error", reject);
+  });
+}
+
+function issuerFor(req) {
+  return FIXED_ISSUER || `http://${req.headers.host || `localhost:${PORT}`}`;
+}
+
+const escapeHtml = (text) =>
+  String(text ?? "").replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+const withParams = (uri, params) =>
+  `${uri}${uri.includes("?") ? "&" : "?"}${new URLSearchParams(params)}`;
+
+// ---------------------------------------------------------------
+// Authorization endpoint
+// ---------------------------------------------------------------
+// The app's own scheme, Expo Go's exp:// or a local web page – never
+// another website
+function allowedRedirect(uri) {
+  if (typeof uri !== "string" || !uri) return false;
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(uri)?.[1]?.toLowerCase();
+  if (!scheme) return false;
+  if (scheme === "https" || scheme === "http") {
+    return /^https?:\/\/(localhost|127\.0\.0\.1)(:\d+)?\//.test(uri);
+  }
+  return scheme !== "javascript" && scheme !== "data";
+}
+
+const AUTH_PARAMS = [
+  "response_type",
+  "client_id",
+  "redirect_uri",
+  "scope",
+  "state",
+  "nonce",
+  "code_challenge",
+  "code_challenge_method",
+  "prompt",
+  "login_hint",
+  "neuroaura_role",
+];
+
+// null, or { fatal } (can't redirect back) / { error, description }
+function authRequestProblem(params) {
+  if (params.client_id !== CLIENT_ID) return { fatal: "Unknown client_id" };
+  if (!allowedRedirect(params.redirect_uri)) return { fatal: "redirect_uri is not allowed" };
+  if (params.response_type !== "code") {
+    return { error: "unsupported_response_type", description: "Only response_type=code" };
+  }
+  if (!params.code_challenge || params.code_challenge_method !== "S256") {
+    return { error: "invalid_request", description: "PKCE with S256 is required" };
+  }
+  if (!(params.scope || "").split(" ").includes("openid")) {
+    return { error: "invalid_scope", description: "scope must include openid" };
+  }
+  return null;
+}
+
+function renderForm(res, params, { create, message, email = "", name = "" }) {
+  const hidden = AUTH_PARAMS.filter((k) => params[k] && k !== "prompt")
+    .map((k) => `<input type="hidden" name="${k}" value="${escapeHtml(params[k])}">`)
+    .join("\n");
+  const switchParams = Object.fromEntries(AUTH_PARAMS.filter((k) => params[k]).map((k) => [k, params[k]]));
+  if (create) delete switchParams.prompt;
+  else switchParams.prompt = "create";
+
+  sendHtml(
+    res,
+    message ? 400 : 200,
+    `<!doctype html>
+<html><head><meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Mock identity server</title>
+<style>
+  body { font-family: system-ui, sans-serif; background: #F3F4F6; margin: 0; padding: 24px; }
+  form { background: white; border: 1px solid #E5E7EB; border-radius: 16px; padding: 20px; max-width: 380px; margin: 0 auto; }
+  h1 { font-size: 20px; margin: 0 0 4px; } p { color: #6B7280; font-size: 13px; }
+  label { display: block; font-size: 13px; font-weight: 700; margin-top: 12px; }
+  input { width: 100%; box-sizing: border-box; padding: 10px; border: 1px solid #D1D5DB; border-radius: 12px; font-size: 15px; }
+  button { width: 100%; padding: 12px; border: 0; border-radius: 999px; font-size: 15px; font-weight: 700; margin-top: 14px; }
+  .primary { background: #8B5CF6; color: white; } .secondary { background: white; color: #4B5563; border: 1px solid #D1D5DB; }
+  .error { color: #B91C1C; font-weight: 600; } a { display: block; text-align: center; margin-top: 14px; font-size: 13px; color: #4B5563; }
+</style></head><body>
+<form method="post" action="/authorize">
+  <h1>${create ? "Create an account" : "Sign in"}</h1>
+  <p>Mock identity server for NeuroAura development.</p>
+  ${message ? `<p class="error">${escapeHtml(message)}</p>` : ""}
+  ${hidden}
+  <input type="hidden" name="mode" value="${create ? "create" : "signin"}">
+  ${create ? `<label>Name<input name="name" value="${escapeHtml(name)}" autocomplete="name"></label>` : ""}
+  <label>Email<input name="email" type="email" value="${escapeHtml(email || params.login_hint)}" autocomplete="email"></label>
+  <label>Password<input name="password" type="password" autocomplete="${create ? "new-password" : "current-password"}"></label>
+  <button class="primary" type="submit" name="action" value="continue">${create ? "Create account" : "Sign in"}</button>
+  <button class="secondary" type="submit" name="action" value="cancel">Cancel</button>
+  <a href="/authorize?${escapeHtml(new URLSearchParams(switchParams).toString())}">${create ? "Already have an account? Sign in" : "New here? Create an account"}</a>
+</form></body></html>`
+  );
+}
+
+function handleAuthorizePage(res, url) {
+  const params = Object.fromEntries(url.searchParams);
+  const problem = authRequestProblem(params);
+  if (problem?.fatal) return sendHtml(res, 400, `<p>${escapeHtml(problem.fatal)}</p>`);
+  if (problem) {
+    return redirect(
+      res,
+      withParams(params.redirect_uri, {
+        error: problem.error,
+        error_description: problem.description,
+        ...(params.state ? { state: params.state } : {}),
+      })
+    );
+  }
+  renderForm(res, params, { create: params.prompt === "create" });
+}
+
+async function handleAuthorizeSubmit(req, res) {
+  const form = await readForm(req);
+  const problem = authRequestProblem(form);
+  if (problem?.fatal) return sendHtml(res, 400, `<p>${escapeHtml(problem.fatal)}</p>`);
+  const back = (params) =>
+    redirect(res, withParams(form.redirect_uri, { ...params, ...(form.state ? { state: form.state } : {}) }));
+  if (problem) return back({ error: problem.error, error_description: problem.description });
+  if (form.action === "cancel") {
+    return back({ error: "access_denied", error_description: "The user cancelled" });
+  }
+
+  const create = form.mode === "create";
+  const email = (form.email || "").trim();
+  const name = (form.name || "").trim();
+  const password = form.password || "";
+  const retry = (message) => renderForm(res, form, { create, message, email, name });
+  const existing = Object.values(db.users).find(
+    (u) => u.email.toLowerCase() === email.toLowerCase()
+  );
+
+  let user;
+  if (create) {
+    if (!name) return retry("Add your name.");
+    if (!/^[^@\s]+@[^@\s]+$/.test(email)) return retry("Add a valid email.");
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return retry(`Use at least ${MIN_PASSWORD_LENGTH} characters for the password.`);
+    }
+    if (existing) return retry("There’s already an account with this email – sign in instead.");
+    const salt = crypto.randomBytes(16).toString("hex");
+    user = {
+      sub: crypto.randomUUID(),
+      email,
+      name,
+      role: ROLES.has(form.neuroaura_role) ? form.neuroaura_role : undefined,
+      salt,
+      passwordHash: hashPassword(password, salt),
+      createdAt: Date.now(),
+    };
+    db.users[user.sub] = user;
+    saveDb(db);
+  } else {
+    if (!existing || !passwordMatches(existing, password)) {
+      return retry("Email or password doesn’t match.");
+    }
+    user = existing;
+  }
+
+  const code = randomToken();
+  codes.set(code, {
+    sub: user.sub,
+    clientId: form.client_id,
+    redirectUri: form.redirect_uri,
+    challenge: form.code_challenge,
+    nonce: form.nonce,
+    scope: form.scope,
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+  back({ code });
+}
+
+// ---------------------------------------------------------------
+// Token endpoint
+// ---------------------------------------------------------------
+function tokenError(res, error, description, status = 400) {
+  send(res, status, { error, error_description: description });
+}
+
+function issueTokens(req, user, { family, nonce, scope }) {
+  const issuer = issuerFor(req);
+  const now = nowSeconds();
+  const refreshToken = randomToken();
+  db.refreshTokens[sha256(refreshToken).toString("hex")] = {
+    sub: user.sub,
+    family,
+    scope,
+    expiresAt: Date.now() + REFRESH_TOKEN_TTL * 1000,
+    usedAt: null,
+  };
+  saveDb(db);
+
+  return {
+    token_type: "Bearer",
+    expires_in: ACCESS_TOKEN_TTL,
+    scope,
+    access_token: signJwt({
+      iss: issuer,
+      sub: user.sub,
+      aud: CLIENT_ID,
+      scope,
+      iat: now,
+      exp: now + ACCESS_TOKEN_TTL,
+      jti: crypto.randomUUID(),
+    }),
+    id_token: signJwt({
+      iss: issuer,
+      sub: user.sub,
+      aud: CLIENT_ID,
+      iat: now,
+      exp: now + ACCESS_TOKEN_TTL,
+      ...(nonce ? { nonce } : {}),
+      email: user.email,
+      name: user.name,
+      ...(user.role ? { neuroaura_role: user.role } : {}),
+    }),
+    refresh_token: refreshToken,
+  };
+}
+
+function revokeFamily(family) {
+  for (const [hash, token] of Object.entries(db.refreshTokens)) {
+    if (token.family === family) delete db.refreshTokens[hash];
+  }
+}
+
+function dropExpired(now = Date.now()) {
+  for (const [code, entry] of codes) if (entry.expiresAt < now) codes.delete(code);
+  for (const [hash, token] of Object.entries(db.refreshTokens)) {
+    if (token.expiresAt < now) delete db.refreshTokens[hash];
+  }
+}
+
+async function handleToken(req, res) {
+  const form = await readForm(req);
+  if (form.client_id !== CLIENT_ID) return tokenError(res, "invalid_client", "Unknown client_id", 401);
+  dropExpired();
+
+  if (form.grant_type === "authorization_code") {
+    const entry = codes.get(form.code);
+    // a code works once, even if the exchange then fails
+    codes.delete(form.code);
+    if (!entry || entry.clientId !== form.client_id) {
+      return tokenError(res, "invalid_grant", "Unknown or expired code");
+    }
+    if (entry.redirectUri !== form.redirect_uri) {
+      return tokenError(res, "invalid_grant", "redirect_uri doesn’t match the authorization request");
+    }
+    const challenge = b64url(sha256(form.code_verifier || ""));
+    if (!form.code_verifier || challenge !== entry.challenge) {
+      return tokenError(res, "invalid_grant", "code_verifier doesn’t match code_challenge");
+    }
+    const user = db.users[entry.sub];
+    if (!user) return tokenError(res, "invalid_grant", "The account no longer exists");
+    return send(
+      res,
+      200,
+      issueTokens(req, user, { family: crypto.randomUUID(), nonce: entry.nonce, scope: entry.scope })
+    );
+  }
+
+  if (form.grant_type === "refresh_token") {
+    const hash = sha256(form.refresh_token || "").toString("hex");
+    const token = db.refreshTokens[hash];
+    if (!token) return tokenError(res, "invalid_grant", "Unknown, expired or revoked refresh token");
+    if (token.usedAt) {
+      // reuse of a rotated token: assume it leaked and end the sign-in
+      revokeFamily(token.family);
+      saveDb(db);
+      return tokenError(res, "invalid_grant", "Refresh token was already used");
+    }
+    const user = db.users[token.sub];
+    if (!user) return tokenError(res, "invalid_grant", "The account no longer exists");
+    token.usedAt = Date.now();
+    return send(res, 200, issueTokens(req, user, { family: token.family, scope: token.scope }));
+  }
+
+  tokenError(res, "unsupported_grant_type", `Unsupported grant_type "${form.grant_type}"`);
+}
+
+// ---------------------------------------------------------------
+// Other endpoints
+// ---------------------------------------------------------------
+function handleUserInfo(req, res) {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || "");
+  const claims = match && verifyJwt(match[1]);
+  const user = claims && db.users[claims.sub];
+  if (!user || claims.iss !== issuerFor(req)) {
+    return send(
+      res,
+      401,
+      { error: "invalid_token" },
+      { "WWW-Authenticate": 'Bearer error="invalid_token"' }
+    );
+  }
+  send(res, 200, {
+    sub: user.sub,
+    email: user.email,
+    name: user.name,
+    ...(user.role ? { neuroaura_role: user.role } : {}),
+  });
+}
+
+// RFC 7009: always 200, whether or not the token was known
+async function handleRevoke(req, res) {
+  const form = await readForm(req);
+  const token = db.refreshTokens[sha256(form.token || "").toString("hex")];
+  if (token) {
+    revokeFamily(token.family);
+    saveDb(db);
+  }
+  res.writeHead(200);
+  res.end();
+}
+
+function handleDiscovery(req, res) {
+  const issuer = issuerFor(req);
+  send(res, 200, {
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    userinfo_endpoint: `${issuer}/userinfo`,
+    revocation_endpoint: `${issuer}/revoke`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ["code"],
+    grant_types_supported: ["authorization_code", "refresh_token"],
+    code_challenge_methods_supported: ["S256"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["RS256"],
+    scopes_supported: ["openid", "profile", "email", "offline_access"],
+    token_endpoint_auth_methods_supported: ["none"],
+    prompt_values_supported: ["create"],
+  });
+}
+
+function handleJwks(res) {
+  send(res, 200, {
+    keys: [{ ...publicKey.export({ format: "jwk" }), kid: KEY_ID, alg: "RS256", use: "sig" }],
+  });
+}
+
+async function route(req, res) {
+  const url = new URL(req.url, `http://${req.headers.host || "localhost"}`);
+
+  if (req.method === "GET" && url.pathname === "/health") {
+    return send(res, 200, { ok: true });
+  }
+  if (req.method === "GET" && url.pathname === "/.well-known/openid-configuration") {
+    return handleDiscovery(req, res);
+  }
+  if (req.method === "GET" && url.pathname === "/jwks") return handleJwks(res);
+  if (req.method === "GET" && url.pathname === "/authorize") {
+    return handleAuthorizePage(res, url);
+  }
+  if (req.method === "POST" && url.pathname === "/authorize") {
+    return handleAuthorizeSubmit(req, res);
+  }
+  if (req.method === "POST" && url.pathname === "/token") return handleToken(req, res);
+  if (req.method === "GET" && url.pathname === "/userinfo") return handleUserInfo(req, res);
+  if (req.method === "POST" && url.pathname === "/revoke") return handleRevoke(req, res);
+  send(res, 404, { error: "Not found" });
+}
+
+const server = http.createServer((req, res) => {
+  route(req, res).catch((e) => {
+    const status = e.status || 500;
+    if (status === 500) console.error(e);
+    if (!res.headersSent) send(res, status, { error: e.message || "Server error" });
+  });
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`NeuroAura mock OIDC server on http://${HOST}:${PORT}`);
+  console.log(`Client id: ${CLIENT_ID}, access tokens last ${ACCESS_TOKEN_TTL} s`);
+  console.log(`Data file: ${DATA_FILE}`);
+});
@@ -0,0 +1,751 @@
+// server/sync-server.js
+// Reference sync server for NeuroAura – runs on a laptop / home server
+// so parent and teen devices can share data without a cloud vendor.
+// Plain Node (18+), no dependencies:
+//
+//   npm run sync-server              # listens on 0.0.0.0:4000
+//   PORT=5000 SYNC_TOKEN=secret SYNC_DATA_FILE=./sync.json npm run sync-server
+//
+// Then start the app with EXPO_PUBLIC_SYNC_URL=http://<laptop-ip>:4000
+// (and EXPO_PUBLIC_SYNC_TOKEN=secret if you set one).
+//
+// Profiles
+//   The first device that syncs a profile registers it and gets a key
+//   for it. Every other call sends that key as X-Profile-Key and acts
+//   as that profile – the server never takes a profileId from the caller
+//   on trust. The shared SYNC_TOKEN only decides who may talk to the
+//   server at all.
+//
+//   POST /v1/profiles/:profileId/register   -> 201 { profileKey }
+//        409 once the profile is registered (keys are never shown again)
+//
+//   More devices join with a one-time code made on a device that
+//   already has the profile; each gets a key of its own.
+//   POST /v1/device-codes                   (X-Profile-Key required)
+//        -> 201 { code, expiresAt }         (valid for 10 minutes)
+//   POST /v1/device-codes/:code/redeem      -> 201 { profileId, profileKey }
+//
+// API (X-Profile-Key required)
+//   GET  /health                            (no key or token needed)
+//   POST /v1/ops                            Idempotency-Key header required
+//        { deviceId, profileId, kind, payload, createdAt }  (profileId = yours)
+//        -> 201 { seq, duplicate: false } | 200 { seq, duplicate: true }
+//   GET  /v1/profiles/:profileId/changes?since=<seq>&limit=<n>  (your own only)
+//        -> { changes: [...], cursor, hasMore }
+//
+// Parent–teen pairing (both sides must confirm, either side can revoke)
+//   POST /v1/pairing-codes                  { parentName }  (you are the parent)
+//        -> 201 { code, expiresAt }         (valid for 10 minutes)
+//   GET  /v1/pairing-codes/:code            -> { parentName, expiresAt }
+//   POST /v1/pairing-codes/:code/accept     { childName, categories, delayMinutes?,
+//                                             sensitivities? }  (you are the teen)
+//        -> 201 { link }                    (waits for the parent to confirm)
+//   GET  /v1/profiles/:profileId/links      -> { links: [...] }  (your own only)
+//   POST /v1/links/:id/confirm              (the parent)
+//   POST /v1/links/:id/revoke               (either side)
+//   POST /v1/links/:id/sharing              { categories, delayMinutes,
+//                                             sensitivities? }  (the teen)
+//   GET  /v1/links/:id/changes?since=<seq>  (the parent)
+//        -> the teen's changes, limited to the shared fields. With a delay
+//           set, non-urgent changes are left out until it has passed, so
+//           read from since=0 to pick them up later.
+//   PUT  /v1/links/:id/chat                 { messages }  (the teen)
+//   GET  /v1/links/:id/chat                 -> { messages }  (the parent)
+
+const http = require("http");
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+
+const PORT = Number(process.env.PORT) || 4000;
+const HOST = process.env.HOST || "0.0.0.0";
+const TOKEN = process.env.SYNC_TOKEN || "";
+const DATA_FILE = path.resolve(
+  process.env.SYNC_DATA_FILE || path.join(__dirname, "data", "sync-db.json")
+);
+
+const KINDS = new Set([
+  "checkin.upsert",
+  "checkin.delete",
+  "alert.upsert",
+  "schedule.upsert",
+  "schedule.delete",
+]);
+// What a teen can share, and the change kinds each category covers.
+// "zone" sends only the stress zone of each check-in, "moods" the mood
+// itself; symptoms and sleep add fields to either (see shareChange()).
+// Check-in notes are never shared.
+const CHECK_IN_KINDS = ["checkin.upsert", "checkin.delete"];
+const SHARE_CATEGORIES = {
+  zone: CHECK_IN_KINDS,
+  moods: CHECK_IN_KINDS,
+  symptoms: CHECK_IN_KINDS,
+  sleep: CHECK_IN_KINDS,
+  alerts: ["alert.upsert"],
+  schedule: ["schedule.upsert", "schedule.delete"],
+  sensitivities: [], // stored on the link itself
+  chat: [], // see /v1/links/:id/chat
+};
+const MAX_DELAY_MINUTES = 24 * 60;
+const MAX_SHARED_CHAT = 50;
+const PAIRING_CODE_TTL_MS = 10 * 60 * 1000;
+// no 0/O, 1/I/L – easy to read out and type
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+// a device code hands out the whole profile, so it's harder to guess
+const DEVICE_CODE_LENGTH = 8;
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const DEFAULT_PAGE = 200;
+const MAX_PAGE = 1000;
+
+// ---------------------------------------------------------------
+// Storage: one JSON file, rewritten atomically after each change
+// ---------------------------------------------------------------
+function loadDb() {
+  try {
+    const db = JSON.parse(fs.readFileSync(DATA_FILE, "utf8"));
+    return {
+      seq: db.seq || 0,
+      changes: Array.isArray(db.changes) ? db.changes : [],
+      // idempotency key -> seq it was stored as
+      keys: db.keys && typeof db.keys === "object" ? db.keys : {},
+      pairingCodes:
+        db.pairingCodes && typeof db.pairingCodes === "object" ? db.pairingCodes : {},
+      links: normalizeLinks(db.links),
+      // linkId -> [{ role, content, at }]
+      chats: db.chats && typeof db.chats === "object" ? db.chats : {},
+      // profileId -> { keyHashes, registeredAt }
+      profiles: normalizeProfiles(db.profiles),
+      // code -> { profileId, expiresAt }
+      deviceCodes:
+        db.deviceCodes && typeof db.deviceCodes === "object" ? db.deviceCodes : {},
+    };
+  } catch (e) {
+    if (e.code !== "ENOENT") {
+      console.warn(`Could not read ${DATA_FILE}, starting empty:`, e.message);
+    }
+    return {
+      seq: 0,
+      changes: [],
+      keys: {},
+      pairingCodes: {},
+      links: {},
+      chats: {},
+      profiles: {},
+      deviceCodes: {},
+    };
+  }
+}
+
+// Links saved before sharing got finer: "body" meant symptoms + sleep
+function normalizeLinks(raw) {
+  const links = raw && typeof raw === "object" ? raw : {};
+  for (const link of Object.values(links)) {
+    if (link.categories.includes("body")) {
+      link.categories = cleanCategories(
+        link.categories.flatMap((c) => (c === "body" ? ["symptoms", "sleep"] : [c]))
+      );
+    }
+    if (typeof link.delayMinutes !== "number") link.delayMinutes = 0;
+  }
+  return links;
+}
+
+// Profiles registered before devices could join kept a single key
+function normalizeProfiles(raw) {
+  const profiles = raw && typeof raw === "object" ? raw : {};
+  for (const entry of Object.values(profiles)) {
+    if (!Array.isArray(entry.keyHashes)) {
+      entry.keyHashes = entry.keyHash ? [entry.keyHash] : [];
+      delete entry.keyHash;
+    }
+  }
+  return profiles;
+}
+
+function saveDb(db) {
+  fs.mkdirSync(path.dirname(DATA_FILE), { recursive: true });
+  const tmp = `${DATA_FILE}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(db));
+  fs.renameSync(tmp, DATA_FILE);
+}
+
+const db = loadDb();
+
+// ---------------------------------------------------------------
+// HTTP helpers
+// ---------------------------------------------------------------
+function send(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function readJson(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on("data", (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(Object.assign(new Error("Body too large"), { status: 413 }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8") || "null"));
+      } catch {
+        reject(Object.assign(new Error("Body is not valid JSON"), { status: 400 }));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function authorized(req) {
+  if (!TOKEN) return true;
+  return req.headers.authorization === `Bearer ${TOKEN}`;
+}
+
+// Only the hash of a profile key is stored
+const hashKey = (key) => crypto.createHash("sha256").update(key).digest();
+
+// The profile a request acts as, from its X-Profile-Key – or null
+function callerProfile(req) {
+  const key = req.headers["x-profile-key"];
+  if (typeof key !== "string" || !key) return null;
+  const hash = hashKey(key);
+  for (const [profileId, entry] of Object.entries(db.profiles)) {
+    for (const keyHash of entry.keyHashes) {
+      if (crypto.timingSafeEqual(Buffer.from(keyHash, "hex"), hash)) return profileId;
+    }
+  }
+  return null;
+}
+
+// A new key for one device of the profile
+function addProfileKey(profileId) {
+  const profileKey = crypto.randomBytes(32).toString("base64url");
+  db.profiles[profileId].keyHashes.push(hashKey(profileKey).toString("hex"));
+  return profileKey;
+}
+
+// First come, first served: later devices join with a device code
+function handleRegisterProfile(res, profileId) {
+  if (!nonEmpty(profileId)) return send(res, 400, { error: "profileId is required" });
+  if (db.profiles[profileId]) {
+    return send(res, 409, {
+      error: "This profile is already synced from another device – add this one with a code from it",
+    });
+  }
+  db.profiles[profileId] = { keyHashes: [], registeredAt: Date.now() };
+  const profileKey = addProfileKey(profileId);
+  saveDb(db);
+  send(res, 201, { profileKey });
+}
+
+// Made on a device that has the profile: it's how that device agrees
+// to let another one in
+function handleCreateDeviceCode(res, caller) {
+  dropExpiredCodes();
+  // one live code per profile
+  for (const [code, entry] of Object.entries(db.deviceCodes)) {
+    if (entry.profileId === caller) delete db.deviceCodes[code];
+  }
+  let code = newCode(DEVICE_CODE_LENGTH);
+  while (db.deviceCodes[code]) code = newCode(DEVICE_CODE_LENGTH);
+  const expiresAt = Date.now() + PAIRING_CODE_TTL_MS;
+  db.deviceCodes[code] = { profileId: caller, expiresAt };
+  saveDb(db);
+  send(res, 201, { code, expiresAt });
+}
+
+function handleRedeemDeviceCode(res, rawCode) {
+  dropExpiredCodes();
+  const code = String(rawCode || "").trim().toUpperCase();
+  const entry = db.deviceCodes[code];
+  if (!entry || !db.profiles[entry.profileId]) {
+    return send(res, 404, { error: "This code is wrong or has expired" });
+  }
+  // a code works once
+  delete db.deviceCodes[code];
+  const profileKey = addProfileKey(entry.profileId);
+  saveDb(db);
+  send(res, 201, { profileId: entry.profileId, profileKey });
+}
+
+// ---------------------------------------------------------------
+// Handlers
+// ---------------------------------------------------------------
+function validateOp(op) {
+  if (!op || typeof op !== "object") return "Body must be an object";
+  if (typeof op.deviceId !== "string" || !op.deviceId) return "deviceId is required";
+  if (typeof op.profileId !== "string" || !op.profileId) return "profileId is required";
+  if (!KINDS.has(op.kind)) return `Unknown kind "${op.kind}"`;
+  if (!op.payload || typeof op.payload !== "object") return "payload is required";
+  if (typeof op.payload.id !== "string" || !op.payload.id) {
+    return "payload.id is required";
+  }
+  // Merging happens on the devices, the server only relays. A delete
+  // must say when it happened or it can't be ordered against edits.
+  if (op.kind.endsWith(".delete")) {
+    const at = op.payload.deletedAt;
+    if (!at || typeof at.t !== "number" || typeof at.d !== "string") {
+      return "payload.deletedAt must be a stamp { t, d }";
+    }
+  }
+  return null;
+}
+
+async function handlePushOp(req, res, caller) {
+  const key = req.headers["idempotency-key"];
+  if (typeof key !== "string" || !key) {
+    return send(res, 400, { error: "Idempotency-Key header is required" });
+  }
+
+  const body = await readJson(req);
+  const invalid = validateOp(body);
+  if (invalid) return send(res, 400, { error: invalid });
+  if (body.profileId !== caller) {
+    return send(res, 403, { error: "Only this profile's own devices can write to it" });
+  }
+
+  // Same key again (e.g. the response got lost) – same answer, no new row
+  const scopedKey = `${body.deviceId}:${key}`;
+  if (db.keys[scopedKey] != null) {
+    return send(res, 200, { seq: db.keys[scopedKey], duplicate: true });
+  }
+
+  const change = {
+    seq: ++db.seq,
+    profileId: body.profileId,
+    deviceId: body.deviceId,
+    kind: body.kind,
+    payload: body.payload,
+    createdAt: typeof body.createdAt === "number" ? body.createdAt : Date.now(),
+    receivedAt: Date.now(),
+  };
+  db.changes.push(change);
+  db.keys[scopedKey] = change.seq;
+  saveDb(db);
+
+  send(res, 201, { seq: change.seq, duplicate: false });
+}
+
+function handlePullChanges(res, caller, profileId, url) {
+  // a linked parent reads through /v1/links/:id/changes instead
+  if (profileId !== caller) {
+    return send(res, 403, { error: "Only this profile's own devices can read its changes" });
+  }
+  const since = Math.max(0, parseInt(url.searchParams.get("since") || "0", 10) || 0);
+  const limit = Math.min(
+    MAX_PAGE,
+    Math.max(1, parseInt(url.searchParams.get("limit") || "", 10) || DEFAULT_PAGE)
+  );
+
+  const matching = db.changes.filter(
+    (c) => c.profileId === profileId && c.seq > since
+  );
+  const page = matching.slice(0, limit);
+  send(res, 200, {
+    changes: page,
+    cursor: page.length > 0 ? page[page.length - 1].seq : since,
+    hasMore: matching.length > page.length,
+  });
+}
+
+// ---------------------------------------------------------------
+// Pairing
+// ---------------------------------------------------------------
+const nonEmpty = (v) => typeof v === "string" && v.trim().length > 0;
+
+function newCode(length = CODE_LENGTH) {
+  let code = "";
+  for (let i = 0; i < length; i++) {
+    code += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+function dropExpiredCodes(now = Date.now()) {
+  for (const codes of [db.pairingCodes, db.deviceCodes]) {
+    for (const [code, entry] of Object.entries(codes)) {
+      if (entry.expiresAt <= now) delete codes[code];
+    }
+  }
+}
+
+function liveCode(raw) {
+  dropExpiredCodes();
+  const code = String(raw || "").trim().toUpperCase();
+  return db.pairingCodes[code] ? { code, entry: db.pairingCodes[code] } : null;
+}
+
+function validCategories(categories) {
+  return (
+    Array.isArray(categories) &&
+    categories.every((c) => Object.prototype.hasOwnProperty.call(SHARE_CATEGORIES, c))
+  );
+}
+
+// Full mood includes the zone, so only one of the two is kept
+function cleanCategories(categories) {
+  const unique = Array.from(new Set(categories));
+  return unique.includes("moods") ? unique.filter((c) => c !== "zone") : unique;
+}
+
+function validDelay(minutes) {
+  return (
+    minutes === undefined ||
+    (Number.isInteger(minutes) && minutes >= 0 && minutes <= MAX_DELAY_MINUTES)
+  );
+}
+
+const cleanSensitivities = (list) =>
+  Array.isArray(list) ? list.filter(nonEmpty).map((s) => s.trim()).slice(0, 50) : [];
+
+// Problem with a teen's sharing choices, or null
+function sharingProblem(body) {
+  if (!validCategories(body.categories) || body.categories.length === 0) {
+    return "Pick at least one thing to share";
+  }
+  if (!validDelay(body.delayMinutes)) {
+    return `delayMinutes must be a whole number from 0 to ${MAX_DELAY_MINUTES}`;
+  }
+  return null;
+}
+
+// What the link stores from the teen's choices
+function sharingFields(body) {
+  const categories = cleanCategories(body.categories);
+  return {
+    categories,
+    delayMinutes: body.delayMinutes ?? 0,
+    // only kept while the teen shares them
+    sensitivities: categories.includes("sensitivities")
+      ? cleanSensitivities(body.sensitivities)
+      : [],
+  };
+}
+
+async function handleCreateCode(req, res, caller) {
+  const body = await readJson(req);
+  if (!nonEmpty(body?.parentName)) {
+    return send(res, 400, { error: "parentName is required" });
+  }
+  dropExpiredCodes();
+  // one live code per parent
+  for (const [code, entry] of Object.entries(db.pairingCodes)) {
+    if (entry.parentProfileId === caller) delete db.pairingCodes[code];
+  }
+  let code = newCode();
+  while (db.pairingCodes[code]) code = newCode();
+  const expiresAt = Date.now() + PAIRING_CODE_TTL_MS;
+  db.pairingCodes[code] = {
+    parentProfileId: caller,
+    parentName: body.parentName.trim(),
+    expiresAt,
+  };
+  saveDb(db);
+  send(res, 201, { code, expiresAt });
+}
+
+function handleLookupCode(res, rawCode) {
+  const found = liveCode(rawCode);
+  if (!found) return send(res, 404, { error: "This code is wrong or has expired" });
+  send(res, 200, { parentName: found.entry.parentName, expiresAt: found.entry.expiresAt });
+}
+
+async function handleAcceptCode(req, res, caller, rawCode) {
+  const body = await readJson(req);
+  if (!nonEmpty(body?.childName)) {
+    return send(res, 400, { error: "childName is required" });
+  }
+  const problem = sharingProblem(body);
+  if (problem) return send(res, 400, { error: problem });
+  const found = liveCode(rawCode);
+  if (!found) return send(res, 404, { error: "This code is wrong or has expired" });
+  if (found.entry.parentProfileId === caller) {
+    return send(res, 400, { error: "A profile can't link to itself" });
+  }
+
+  const link = {
+    id: crypto.randomUUID(),
+    parentProfileId: found.entry.parentProfileId,
+    parentName: found.entry.parentName,
+    childProfileId: caller,
+    childName: body.childName.trim(),
+    ...sharingFields(body),
+    status: "pending",
+    createdAt: Date.now(),
+  };
+  // a code works once
+  delete db.pairingCodes[found.code];
+  db.links[link.id] = link;
+  saveDb(db);
+  send(res, 201, { link });
+}
+
+function handleListLinks(res, caller, profileId) {
+  if (profileId !== caller) {
+    return send(res, 403, { error: "Only this profile's own devices can list its links" });
+  }
+  const links = Object.values(db.links).filter(
+    (l) => l.parentProfileId === profileId || l.childProfileId === profileId
+  );
+  send(res, 200, { links });
+}
+
+async function handleLinkAction(res, caller, linkId, action) {
+  const link = db.links[linkId];
+  if (!link) return send(res, 404, { error: "No such link" });
+  const profileId = caller;
+
+  if (action === "confirm") {
+    if (profileId !== link.parentProfileId) {
+      return send(res, 403, { error: "Only the parent confirms a link" });
+    }
+    if (link.status !== "pending") {
+      return send(res, 409, { error: `This link is ${link.status}` });
+    }
+    link.status = "active";
+    link.confirmedAt = Date.now();
+  } else {
+    if (profileId !== link.parentProfileId && profileId !== link.childProfileId) {
+      return send(res, 403, { error: "Not part of this link" });
+    }
+    if (link.status !== "revoked") {
+      link.status = "revoked";
+      link.revokedAt = Date.now();
+      link.revokedBy = profileId === link.parentProfileId ? "parent" : "child";
+      delete db.chats[link.id];
+    }
+  }
+  saveDb(db);
+  send(res, 200, { link });
+}
+
+// The teen can change what a link shares at any time
+async function handleUpdateSharing(req, res, caller, linkId) {
+  const body = await readJson(req);
+  const link = db.links[linkId];
+  if (!link) return send(res, 404, { error: "No such link" });
+  if (caller !== link.childProfileId) {
+    return send(res, 403, { error: "Only the teen changes what is shared" });
+  }
+  if (link.status === "revoked") {
+    return send(res, 409, { error: "This link is revoked" });
+  }
+  const problem = sharingProblem(body);
+  if (problem) return send(res, 400, { error: problem });
+  Object.assign(link, sharingFields(body), { sharingUpdatedAt: Date.now() });
+  if (!link.categories.includes("chat")) delete db.chats[link.id];
+  saveDb(db);
+  send(res, 200, { link });
+}
+
+// The teen's device works out each check-in's zone
+// (src/risk/overloadRisk.ts) and uploads it; the server only passes it on
+const ZONES = ["green", "yellow", "red"];
+
+const uploadedZone = (checkIn) => (ZONES.includes(checkIn.zone) ? checkIn.zone : null);
+
+// Shown straight away even with a delay: sensor alerts and check-ins
+// in the red zone
+function isUrgent(change) {
+  if (change.kind === "alert.upsert") return true;
+  return change.kind === "checkin.upsert" && uploadedZone(change.payload) === "red";
+}
+
+// The change as the parent may see it, or null if it isn't shared
+function shareChange(change, categories) {
+  const allowed = categories.some((c) => SHARE_CATEGORIES[c].includes(change.kind));
+  if (!allowed) return null;
+  if (change.kind !== "checkin.upsert") return change;
+  const c = change.payload;
+  // only what the teen picked – never notes, and no field stamps,
+  // which would reveal when hidden fields were edited
+  const payload = {
+    id: c.id,
+    timestamp: c.timestamp,
+    source: c.source,
+  };
+  const zone = uploadedZone(c);
+  if (zone && (categories.includes("zone") || categories.includes("moods"))) {
+    payload.zone = zone;
+  }
+  if (c.updatedAt) payload.updatedAt = c.updatedAt;
+  if (categories.includes("moods")) {
+    payload.mood = c.mood;
+    if (c.intensity) payload.intensity = c.intensity;
+  }
+  if (categories.includes("symptoms")) payload.symptoms = c.symptoms ?? [];
+  if (categories.includes("sleep") && c.sleepQuality) {
+    payload.sleepQuality = c.sleepQuality;
+  }
+  return { ...change, payload };
+}
+
+// Only the linked parent reads a link's data, and only while it's active
+function readableLink(res, caller, linkId) {
+  const link = db.links[linkId];
+  if (!link) {
+    send(res, 404, { error: "No such link" });
+    return null;
+  }
+  if (caller !== link.parentProfileId) {
+    send(res, 403, { error: "Only the linked parent can read this" });
+    return null;
+  }
+  if (link.status !== "active") {
+    send(res, 409, { error: `This link is ${link.status}` });
+    return null;
+  }
+  return link;
+}
+
+function handleLinkChanges(res, caller, linkId, url) {
+  const link = readableLink(res, caller, linkId);
+  if (!link) return;
+  const since = Math.max(0, parseInt(url.searchParams.get("since") || "0", 10) || 0);
+  const visibleBefore = Date.now() - link.delayMinutes * 60_000;
+  const matching = db.changes.filter(
+    (c) => c.profileId === link.childProfileId && c.seq > since
+  );
+  const page = matching.slice(0, MAX_PAGE);
+  const shared = page
+    .filter((c) => c.receivedAt <= visibleBefore || isUrgent(c))
+    .map((c) => shareChange(c, link.categories))
+    .filter(Boolean);
+  send(res, 200, {
+    changes: shared,
+    cursor: page.length > 0 ? page[page.length - 1].seq : since,
+    hasMore: matching.length > page.length,
+  });
+}
+
+// The teen's device sends its whole (recent) chat; messages already
+// stored keep the time they first arrived, which the delay counts from
+async function handlePutChat(req, res, caller, linkId) {
+  const body = await readJson(req);
+  const link = db.links[linkId];
+  if (!link) return send(res, 404, { error: "No such link" });
+  if (caller !== link.childProfileId) {
+    return send(res, 403, { error: "Only the teen shares their chat" });
+  }
+  if (link.status !== "active" || !link.categories.includes("chat")) {
+    return send(res, 409, { error: "This link doesn't share the chat" });
+  }
+  if (!Array.isArray(body.messages)) {
+    return send(res, 400, { error: "messages must be an array" });
+  }
+  const previous = db.chats[link.id] ?? [];
+  const now = Date.now();
+  const incoming = body.messages
+    .filter((m) => m && (m.role === "user" || m.role === "assistant") && nonEmpty(m.content))
+    .slice(-MAX_SHARED_CHAT);
+  db.chats[link.id] = incoming.map((m) => {
+    const known = previous.find((p) => p.role === m.role && p.content === m.content);
+    return { role: m.role, content: m.content, at: known ? known.at : now };
+  });
+  saveDb(db);
+  send(res, 200, { stored: db.chats[link.id].length });
+}
+
+function handleGetChat(res, caller, linkId) {
+  const link = readableLink(res, caller, linkId);
+  if (!link) return;
+  if (!link.categories.includes("chat")) {
+    return send(res, 403, { error: "The chat isn't shared" });
+  }
+  const visibleBefore = Date.now() - link.delayMinutes * 60_000;
+  send(res, 200, {
+    messages: (db.chats[link.id] ?? []).filter((m) => m.at <= visibleBefore),
+  });
+}
+
+async function route(req, res) {
+  const url = new URL(req.url, `http://${req.headers.host || "localhost"}`);
+
+  if (req.method === "GET" && url.pathname === "/health") {
+    return send(res, 200, { ok: true, seq: db.seq });
+  }
+  if (!authorized(req)) {
+    return send(res, 401, { error: "Missing or wrong bearer token" });
+  }
+  const register = /^\/v1\/profiles\/([^/]+)\/register$/.exec(url.pathname);
+  if (req.method === "POST" && register) {
+    return handleRegisterProfile(res, decodeURIComponent(register[1]));
+  }
+  const redeem = /^\/v1\/device-codes\/([^/]+)\/redeem$/.exec(url.pathname);
+  if (req.method === "POST" && redeem) {
+    return handleRedeemDeviceCode(res, decodeURIComponent(redeem[1]));
+  }
+  // everything else acts as a registered profile
+  const caller = callerProfile(req);
+  if (!caller) {
+    return send(res, 401, { error: "Missing or unknown profile key" });
+  }
+
+  if (req.method === "POST" && url.pathname === "/v1/device-codes") {
+    return handleCreateDeviceCode(res, caller);
+  }
+  if (req.method === "POST" && url.pathname === "/v1/ops") {
+    return handlePushOp(req, res, caller);
+  }
+  const pull = /^\/v1\/profiles\/([^/]+)\/changes$/.exec(url.pathname);
+  if (req.method === "GET" && pull) {
+    return handlePullChanges(res, caller, decodeURIComponent(pull[1]), url);
+  }
+
+  if (req.method === "POST" && url.pathname === "/v1/pairing-codes") {
+    return handleCreateCode(req, res, caller);
+  }
+  const code = /^\/v1\/pairing-codes\/([^/]+)(\/accept)?$/.exec(url.pathname);
+  if (code && req.method === "GET" && !code[2]) {
+    return handleLookupCode(res, decodeURIComponent(code[1]));
+  }
+  if (code && req.method === "POST" && code[2]) {
+    return handleAcceptCode(req, res, caller, decodeURIComponent(code[1]));
+  }
+  const links = /^\/v1\/profiles\/([^/]+)\/links$/.exec(url.pathname);
+  if (req.method === "GET" && links) {
+    return handleListLinks(res, caller, decodeURIComponent(links[1]));
+  }
+  const action = /^\/v1\/links\/([^/]+)\/(confirm|revoke)$/.exec(url.pathname);
+  if (req.method === "POST" && action) {
+    return handleLinkAction(res, caller, decodeURIComponent(action[1]), action[2]);
+  }
+  const sharing = /^\/v1\/links\/([^/]+)\/sharing$/.exec(url.pathname);
+  if (req.method === "POST" && sharing) {
+    return handleUpdateSharing(req, res, caller, decodeURIComponent(sharing[1]));
+  }
+  const linkChanges = /^\/v1\/links\/([^/]+)\/changes$/.exec(url.pathname);
+  if (req.method === "GET" && linkChanges) {
+    return handleLinkChanges(res, caller, decodeURIComponent(linkChanges[1]), url);
+  }
+  const chat = /^\/v1\/links\/([^/]+)\/chat$/.exec(url.pathname);
+  if (chat && req.method === "PUT") {
+    return handlePutChat(req, res, caller, decodeURIComponent(chat[1]));
+  }
+  if (chat && req.method === "GET") {
+    return handleGetChat(res, caller, decodeURIComponent(chat[1]));
+  }
+  send(res, 404, { error: "Not found" });
+}
+
+const server = http.createServer((req, res) => {
+  route(req, res).catch((e) => {
+    const status = e.status || 500;
+    if (status === 500) console.error(e);
+    if (!res.headersSent) send(res, status, { error: e.message || "Server error" });
+  });
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`NeuroAura sync server on http://${HOST}:${PORT}`);
+  console.log(`Data file: ${DATA_FILE}${TOKEN ? " (token required)" : ""}`);
+});
@@ -0,0 +1,55 @@
+// src/auth/access.ts
+// Which screens each role may open, and where each user lands. App.tsx
+// only registers the screens the current user may see, so navigating
+// to any other screen does nothing.
+
+import type { RootStackParamList } from "../../App";
+import type { UserProfile, UserRole } from "../../context/UserContext";
+
+export type RouteName = keyof RootStackParamList;
+
+// "anyone" includes signed-out users
+type Access = "anyone" | "signedIn" | readonly UserRole[];
+
+// roles that track their own moods
+const SELF_CARE: readonly UserRole[] = ["individual", "under18", "guest"];
+
+export const ROUTE_ACCESS: Record<RouteName, Access> = {
+  Home: "anyone",
+  Auth: "anyone",
+  Profiles: "anyone",
+  Onboarding: "signedIn",
+  DataSettings: "signedIn",
+  AppLock: "signedIn",
+  RecoveryCodes: "signedIn",
+  // the sensors run for every signed-in role
+  SensorSettings: "signedIn",
+  SensorCalibration: "signedIn",
+  AlertModes: "signedIn",
+  CheckIn: SELF_CARE,
+  Tools: SELF_CARE,
+  Coach: SELF_CARE,
+  MoodOverview: SELF_CARE,
+  MoodStats: SELF_CARE,
+  ScreenTimeRegulator: SELF_CARE,
+  History: SELF_CARE,
+  ScheduleCalendar: [...SELF_CARE, "parent"],
+  Parent: ["parent"],
+  Pairing: ["parent", "under18"],
+};
+
+export function canAccess(route: RouteName, profile: UserProfile | null): boolean {
+  const access = ROUTE_ACCESS[route];
+  if (access === "anyone") return true;
+  if (!profile) return false;
+  if (access === "signedIn") return true;
+  return access.includes(profile.role);
+}
+
+// Where the app opens (and where "home" buttons go) for this user
+export function homeRouteFor(profile: UserProfile | null): RouteName {
+  if (!profile) return "Home";
+  if (profile.onboarded === false) return "Onboarding";
+  if (profile.role === "parent") return "Parent";
+  return "CheckIn";
+}
@@ -0,0 +1,229 @@
+// src/auth/accountStore.ts
+// Login accounts kept in SecureStore (separate from profiles, which
+// live in the storage repository). Each account is its own value –
+// SecureStore values are only good up to about 2 KB, and one account
+// with its recovery codes already takes half of that.
+
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+import * as SecureStore from "expo-secure-store";
+import type { UserRole } from "../../context/UserContext";
+import {
+  constantTimeEqual,
+  hashPassword,
+  needsRehash,
+  PasswordHash,
+  verifyPassword,
+} from "./passwords";
+import {
+  findRecoveryCode,
+  generateRecoveryCodes,
+  markRecoveryCodeUsed,
+  RecoveryCodeSet,
+  remainingRecoveryCodes,
+} from "./recoveryCodes";
+
+export interface StoredUser {
+  name: string;
+  email: string;
+  passwordHash?: PasswordHash;
+  // plaintext from older builds – replaced by passwordHash on the next
+  // successful login
+  password?: string;
+  role?: UserRole;
+  // hashes of the one-time recovery codes (never the codes themselves)
+  recovery?: RecoveryCodeSet;
+}
+
+export type LoginResult =
+  | { ok: true; user: StoredUser }
+  | { ok: false; reason: "no_account" | "wrong_password" };
+
+export type RecoveryResult =
+  | { ok: true; user: StoredUser; remaining: number }
+  | { ok: false; reason: "no_account" | "no_codes" | "wrong_code" };
+
+// The emails of every account on this device (siblings can share one
+// tablet); each account lives under its own key
+const INDEX_KEY = "neuroaura_account_index";
+// Older builds kept every account in one value here...
+const USERS_KEY = "neuroaura_users";
+// ...and before that exactly one account here
+const LEGACY_USER_KEY = "neuroaura_user";
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const sameEmail = (a: string, b: string) => normalizeEmail(a) === normalizeEmail(b);
+
+// SecureStore keys can't hold an "@", so the email is hashed
+const accountKey = (email: string) =>
+  `neuroaura_account_${bytesToHex(sha256(utf8ToBytes(normalizeEmail(email)))).slice(0, 32)}`;
+
+async function readOldAccounts(): Promise<StoredUser[]> {
+  const list = await SecureStore.getItemAsync(USERS_KEY);
+  if (list) {
+    const parsed = JSON.parse(list);
+    return Array.isArray(parsed) ? parsed : [];
+  }
+  const legacy = await SecureStore.getItemAsync(LEGACY_USER_KEY);
+  return legacy ? [JSON.parse(legacy)] : [];
+}
+
+// The index, moving accounts from an older build's layout first
+async function loadIndex(): Promise<string[]> {
+  const raw = await SecureStore.getItemAsync(INDEX_KEY);
+  if (raw) {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((e) => typeof e === "string") : [];
+  }
+
+  const old = await readOldAccounts();
+  const index: string[] = [];
+  for (const user of old) {
+    await SecureStore.setItemAsync(accountKey(user.email), JSON.stringify(user));
+    if (!index.includes(normalizeEmail(user.email))) index.push(normalizeEmail(user.email));
+  }
+  await SecureStore.setItemAsync(INDEX_KEY, JSON.stringify(index));
+  // only once every account is safely in its own key
+  await SecureStore.deleteItemAsync(USERS_KEY);
+  await SecureStore.deleteItemAsync(LEGACY_USER_KEY);
+  return index;
+}
+
+async function readAccount(email: string): Promise<StoredUser | null> {
+  const raw = await SecureStore.getItemAsync(accountKey(email));
+  return raw ? (JSON.parse(raw) as StoredUser) : null;
+}
+
+export async function loadUsers(): Promise<StoredUser[]> {
+  try {
+    const index = await loadIndex();
+    const users = await Promise.all(index.map(readAccount));
+    return users.filter((u): u is StoredUser => u !== null);
+  } catch (e) {
+    console.warn("Failed to parse stored users", e);
+    return [];
+  }
+}
+
+export async function saveUser(user: StoredUser) {
+  const index = await loadIndex();
+  await SecureStore.setItemAsync(accountKey(user.email), JSON.stringify(user));
+  const email = normalizeEmail(user.email);
+  if (!index.includes(email)) {
+    await SecureStore.setItemAsync(INDEX_KEY, JSON.stringify([...index, email]));
+  }
+}
+
+export async function findUser(email: string): Promise<StoredUser | null> {
+  try {
+    const index = await loadIndex();
+    if (!index.includes(normalizeEmail(email))) return null;
+    return await readAccount(email);
+  } catch (e) {
+    console.warn("Failed to parse stored user", e);
+    return null;
+  }
+}
+
+// Stores a new account with a hashed password (the caller checks the
+// password policy and that the email is free).
+export async function createAccount(
+  details: Omit<StoredUser, "passwordHash" | "password">,
+  password: string
+): Promise<StoredUser> {
+  const user: StoredUser = { ...details, passwordHash: await hashPassword(password) };
+  await saveUser(user);
+  return user;
+}
+
+// Checks a login. Legacy plaintext records (and hashes made with fewer
+// iterations) are re-saved with a fresh hash once the password is right.
+export async function verifyLogin(
+  email: string,
+  password: string
+): Promise<LoginResult> {
+  const user = await findUser(email);
+  if (!user) return { ok: false, reason: "no_account" };
+
+  let valid: boolean;
+  if (user.passwordHash) {
+    valid = await verifyPassword(password, user.passwordHash);
+  } else if (typeof user.password === "string") {
+    valid = constantTimeEqual(utf8ToBytes(password), utf8ToBytes(user.password));
+  } else {
+    valid = false;
+  }
+  if (!valid) return { ok: false, reason: "wrong_password" };
+
+  if (!user.passwordHash || needsRehash(user.passwordHash)) {
+    const { password: _plaintext, ...rest } = user;
+    const upgraded: StoredUser = { ...rest, passwordHash: await hashPassword(password) };
+    try {
+      await saveUser(upgraded);
+      return { ok: true, user: upgraded };
+    } catch (e) {
+      // still a valid login – we'll try again next time
+      console.warn("Failed to upgrade stored password", e);
+    }
+  }
+  return { ok: true, user };
+}
+
+// Makes a new set of recovery codes for the account, replacing any old
+// set. Returns the codes – the only time they exist in plain text.
+export async function issueRecoveryCodes(email: string): Promise<string[]> {
+  const user = await findUser(email);
+  if (!user) throw new Error("No account with that email on this device.");
+  const { codes, set } = await generateRecoveryCodes();
+  await saveUser({ ...user, recovery: set });
+  return codes;
+}
+
+export async function recoveryCodesLeft(email: string): Promise<number> {
+  const user = await findUser(email);
+  return remainingRecoveryCodes(user?.recovery);
+}
+
+// Sets a new password using one recovery code, which is used up. The
+// caller checks the password policy.
+export async function resetPasswordWithRecoveryCode(
+  email: string,
+  code: string,
+  newPassword: string
+): Promise<RecoveryResult> {
+  const user = await findUser(email);
+  if (!user) return { ok: false, reason: "no_account" };
+  if (!user.recovery || remainingRecoveryCodes(user.recovery) === 0) {
+    return { ok: false, reason: "no_codes" };
+  }
+
+  const index = await findRecoveryCode(code, user.recovery);
+  if (index === -1) return { ok: false, reason: "wrong_code" };
+
+  const { password: _plaintext, ...rest } = user;
+  const updated: StoredUser = {
+    ...rest,
+    passwordHash: await hashPassword(newPassword),
+    recovery: markRecoveryCodeUsed(user.recovery, index),
+  };
+  await saveUser(updated);
+  return { ok: true, user: updated, remaining: remainingRecoveryCodes(updated.recovery) };
+}
+
+// Forgets every account (new and older keys). Returns how many there were.
+export async function deleteAllUsers(): Promise<number> {
+  let index: string[] = [];
+  try {
+    index = await loadIndex();
+  } catch (e) {
+    console.warn("Failed to read the account index", e);
+  }
+  for (const email of index) {
+    await SecureStore.deleteItemAsync(accountKey(email));
+  }
+  await SecureStore.deleteItemAsync(INDEX_KEY);
+  await SecureStore.deleteItemAsync(USERS_KEY);
+  await SecureStore.deleteItemAsync(LEGACY_USER_KEY);
+  return index.length;
+}
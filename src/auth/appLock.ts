@@ -0,0 +1,158 @@
+// src/auth/appLock.ts
+// Optional app-lock PIN. Only a salted hash is kept (in SecureStore),
+// together with the auto-lock delay and the failed-attempt counter, so
+// restarting the app doesn't reset the back-off.
+
+import * as SecureStore from "expo-secure-store";
+import { sameEmail } from "./accountStore";
+import { getAuthProvider } from "./providers";
+import { hashPassword, PasswordHash, verifyPassword } from "./passwords";
+
+const APP_LOCK_KEY = "neuroaura_app_lock";
+
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 8;
+
+// seconds in the background before the app locks itself (0 = right away)
+export const AUTO_LOCK_CHOICES = [0, 60, 5 * 60, 15 * 60];
+export const DEFAULT_AUTO_LOCK_SECONDS = 60;
+
+// Wrong PINs allowed before the back-off starts, and its bounds
+const FREE_ATTEMPTS = 5;
+const BASE_LOCKOUT_MS = 30_000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+export interface AppLockConfig {
+  pinHash: PasswordHash;
+  // the login whose password can reset the PIN
+  ownerEmail: string;
+  autoLockSeconds: number;
+  failedAttempts: number;
+  lockedUntil: number | null;
+}
+
+export type UnlockResult =
+  | { ok: true }
+  | { ok: false; reason: "wrong"; attemptsLeft: number; lockedUntil: number | null }
+  | { ok: false; reason: "locked_out"; lockedUntil: number }
+  // the provider's sign-in page was closed or couldn't be reached
+  | { ok: false; reason: "unverified"; lockedUntil: null };
+
+export function autoLockLabel(seconds: number): string {
+  if (seconds === 0) return "Right away";
+  if (seconds < 60) return `${seconds} s`;
+  return `${Math.round(seconds / 60)} min`;
+}
+
+export function pinProblem(pin: string): string | null {
+  if (!/^\d+$/.test(pin)) return "Use numbers only.";
+  if (pin.length < MIN_PIN_LENGTH || pin.length > MAX_PIN_LENGTH) {
+    return `Use ${MIN_PIN_LENGTH}–${MAX_PIN_LENGTH} digits.`;
+  }
+  if (/^(\d)\1+$/.test(pin) || "0123456789".includes(pin) || "9876543210".includes(pin)) {
+    return "That PIN is too easy to guess.";
+  }
+  return null;
+}
+
+// 30 s after the 5th wrong try, doubling each time, at most an hour
+export function lockoutMs(failedAttempts: number): number {
+  if (failedAttempts < FREE_ATTEMPTS) return 0;
+  return Math.min(BASE_LOCKOUT_MS * 2 ** (failedAttempts - FREE_ATTEMPTS), MAX_LOCKOUT_MS);
+}
+
+export async function loadAppLock(): Promise<AppLockConfig | null> {
+  try {
+    const raw = await SecureStore.getItemAsync(APP_LOCK_KEY);
+    if (!raw) return null;
+    const config = JSON.parse(raw) as AppLockConfig;
+    return config?.pinHash ? config : null;
+  } catch (e) {
+    console.warn("Failed to read app lock", e);
+    return null;
+  }
+}
+
+async function saveAppLock(config: AppLockConfig) {
+  await SecureStore.setItemAsync(APP_LOCK_KEY, JSON.stringify(config));
+}
+
+export async function setPin(
+  pin: string,
+  ownerEmail: string,
+  autoLockSeconds = DEFAULT_AUTO_LOCK_SECONDS
+): Promise<AppLockConfig> {
+  const problem = pinProblem(pin);
+  if (problem) throw new Error(problem);
+  const config: AppLockConfig = {
+    pinHash: await hashPassword(pin),
+    ownerEmail,
+    autoLockSeconds,
+    failedAttempts: 0,
+    lockedUntil: null,
+  };
+  await saveAppLock(config);
+  return config;
+}
+
+export async function setAutoLock(seconds: number) {
+  const config = await loadAppLock();
+  if (!config) return;
+  await saveAppLock({ ...config, autoLockSeconds: seconds });
+}
+
+export async function removePin() {
+  await SecureStore.deleteItemAsync(APP_LOCK_KEY);
+}
+
+// Counts a failed attempt (wrong PIN or wrong reset password)
+async function recordFailure(config: AppLockConfig, now: number): Promise<UnlockResult> {
+  const failedAttempts = config.failedAttempts + 1;
+  const wait = lockoutMs(failedAttempts);
+  const lockedUntil = wait > 0 ? now + wait : null;
+  await saveAppLock({ ...config, failedAttempts, lockedUntil });
+  return {
+    ok: false,
+    reason: "wrong",
+    attemptsLeft: Math.max(0, FREE_ATTEMPTS - failedAttempts),
+    lockedUntil,
+  };
+}
+
+export async function checkPin(pin: string, now = Date.now()): Promise<UnlockResult> {
+  const config = await loadAppLock();
+  if (!config) return { ok: true };
+  if (config.lockedUntil && config.lockedUntil > now) {
+    return { ok: false, reason: "locked_out", lockedUntil: config.lockedUntil };
+  }
+  if (!(await verifyPassword(pin, config.pinHash))) {
+    return recordFailure(config, now);
+  }
+  if (config.failedAttempts > 0 || config.lockedUntil) {
+    await saveAppLock({ ...config, failedAttempts: 0, lockedUntil: null });
+  }
+  return { ok: true };
+}
+
+// "Forgot PIN": signing in to the owner's account again removes the PIN
+// (with the password, or on the provider's own sign-in page). Wrong
+// passwords count towards the same back-off as wrong PINs.
+export async function resetPinWithPassword(
+  password: string,
+  now = Date.now()
+): Promise<UnlockResult> {
+  const config = await loadAppLock();
+  if (!config) return { ok: true };
+  if (config.lockedUntil && config.lockedUntil > now) {
+    return { ok: false, reason: "locked_out", lockedUntil: config.lockedUntil };
+  }
+  const login = await getAuthProvider().signIn({ email: config.ownerEmail, password });
+  if (!login.ok && (login.reason === "cancelled" || login.reason === "unavailable")) {
+    return { ok: false, reason: "unverified", lockedUntil: null };
+  }
+  if (!login.ok || !sameEmail(login.account.email, config.ownerEmail)) {
+    return recordFailure(config, now);
+  }
+  await removePin();
+  return { ok: true };
+}
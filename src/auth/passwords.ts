@@ -0,0 +1,108 @@
+// src/auth/passwords.ts
+// Password hashing and the password policy for local accounts. Only a
+// salted PBKDF2-SHA256 hash is stored, never the password itself.
+
+import { pbkdf2Async } from "@noble/hashes/pbkdf2";
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+import * as Crypto from "expo-crypto";
+
+export const MIN_PASSWORD_LENGTH = 10;
+
+// Same trade-off as backup encryption: about a second per login on a
+// phone, which makes guessing a stolen hash slow.
+const PBKDF2_ITERATIONS = 150_000;
+const SALT_BYTES = 16;
+const HASH_BYTES = 32;
+
+export interface PasswordHash {
+  algorithm: "PBKDF2-SHA256";
+  iterations: number;
+  salt: string; // hex
+  hash: string; // hex
+}
+
+// The handful everyone tries first
+const COMMON_PASSWORDS = new Set([
+  "password",
+  "password1",
+  "password123",
+  "1234567890",
+  "0123456789",
+  "qwertyuiop",
+  "iloveyou12",
+  "letmein123",
+  "neuroaura1",
+  "neuroaura123",
+]);
+
+// Returns what's wrong with the password, or null if it's fine
+export function passwordProblem(
+  password: string,
+  personal: { name?: string; email?: string } = {}
+): string | null {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Use at least ${MIN_PASSWORD_LENGTH} characters.`;
+  }
+  if (!/[A-Za-z]/.test(password) || !/[^A-Za-z]/.test(password)) {
+    return "Mix letters with at least one number or symbol.";
+  }
+  if (/^(.)\1+$/.test(password) || COMMON_PASSWORDS.has(password.toLowerCase())) {
+    return "That password is too easy to guess – try something more personal.";
+  }
+  const lower = password.toLowerCase();
+  const personalParts = [
+    personal.email?.split("@")[0],
+    personal.name,
+  ].map((p) => p?.trim().toLowerCase() ?? "");
+  if (personalParts.some((p) => p.length >= 3 && lower.includes(p))) {
+    return "Don’t use your name or email in your password.";
+  }
+  return null;
+}
+
+function derive(password: string, salt: Uint8Array, iterations: number) {
+  return pbkdf2Async(sha256, utf8ToBytes(password), salt, {
+    c: iterations,
+    dkLen: HASH_BYTES,
+  });
+}
+
+// Compares every byte, so timing doesn't reveal how much matched
+export function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+export async function hashPassword(password: string): Promise<PasswordHash> {
+  const salt = Crypto.getRandomBytes(SALT_BYTES);
+  const hash = await derive(password, salt, PBKDF2_ITERATIONS);
+  return {
+    algorithm: "PBKDF2-SHA256",
+    iterations: PBKDF2_ITERATIONS,
+    salt: bytesToHex(salt),
+    hash: bytesToHex(hash),
+  };
+}
+
+export async function verifyPassword(
+  password: string,
+  stored: PasswordHash
+): Promise<boolean> {
+  if (stored.algorithm !== "PBKDF2-SHA256" || !(stored.iterations > 0)) {
+    return false;
+  }
+  try {
+    const expected = hexToBytes(stored.hash);
+    const actual = await derive(password, hexToBytes(stored.salt), stored.iterations);
+    return constantTimeEqual(actual, expected);
+  } catch {
+    return false;
+  }
+}
+
+// Older hashes (fewer iterations) get re-hashed after a good login
+export const needsRehash = (stored: PasswordHash) =>
+  stored.iterations < PBKDF2_ITERATIONS;
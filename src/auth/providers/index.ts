@@ -0,0 +1,52 @@
+// src/auth/providers/index.ts
+// Picks how accounts sign in for the whole app.
+// Set EXPO_PUBLIC_AUTH_PROVIDER in .env to "local" (default – accounts
+// stored on this device) or "oidc", which also needs
+// EXPO_PUBLIC_OIDC_ISSUER and optionally EXPO_PUBLIC_OIDC_CLIENT_ID and
+// EXPO_PUBLIC_OIDC_REDIRECT_URI. Tests can swap it with setAuthProvider().
+
+import type { AuthProvider, AuthProviderKind } from "./types";
+import { createLocalProvider } from "./localProvider";
+import { createOidcProvider, OidcConfig } from "./oidcProvider";
+
+export * from "./types";
+export type { OidcConfig };
+export { createLocalProvider, createOidcProvider };
+
+export function getOidcConfig(): OidcConfig | null {
+  const issuer = process.env.EXPO_PUBLIC_OIDC_ISSUER?.trim();
+  if (!issuer) return null;
+  return {
+    issuer: issuer.replace(/\/+$/, ""),
+    clientId: process.env.EXPO_PUBLIC_OIDC_CLIENT_ID?.trim() || "neuroaura-app",
+    // the "scheme" in app.json; Expo Go needs its exp:// URL instead
+    redirectUri:
+      process.env.EXPO_PUBLIC_OIDC_REDIRECT_URI?.trim() || "neuroaura://auth/callback",
+    scope: "openid profile email offline_access",
+  };
+}
+
+export function createAuthProvider(kind: AuthProviderKind): AuthProvider {
+  if (kind === "oidc") {
+    const config = getOidcConfig();
+    if (config) return createOidcProvider(config);
+    console.warn("EXPO_PUBLIC_OIDC_ISSUER is not set – using accounts on this device");
+  }
+  return createLocalProvider();
+}
+
+const CONFIGURED_PROVIDER = (process.env.EXPO_PUBLIC_AUTH_PROVIDER ??
+  "local") as AuthProviderKind;
+
+let provider: AuthProvider | null = null;
+
+export function getAuthProvider(): AuthProvider {
+  if (!provider) {
+    provider = createAuthProvider(CONFIGURED_PROVIDER);
+  }
+  return provider;
+}
+
+export function setAuthProvider(next: AuthProvider) {
+  provider = next;
+}
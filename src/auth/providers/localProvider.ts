@@ -0,0 +1,38 @@
+// src/auth/providers/localProvider.ts
+// Accounts kept on this device in SecureStore (src/auth/accountStore.ts).
+// There are no tokens, so there is nothing to refresh or revoke – the
+// session's idle limit (src/auth/session.ts) is the only expiry.
+
+import { createAccount, findUser, verifyLogin } from "../accountStore";
+import type { AuthProvider } from "./types";
+
+export function createLocalProvider(): AuthProvider {
+  return {
+    kind: "local",
+    label: "this device",
+    collectsPassword: true,
+
+    async signUp({ name, email, password, role }) {
+      // the caller has checked the password policy
+      if (await findUser(email)) return { ok: false, reason: "account_exists" };
+      const user = await createAccount(
+        { name: name.trim(), email: email.trim(), role },
+        password
+      );
+      return { ok: true, account: { name: user.name, email: user.email, role: user.role } };
+    },
+
+    async signIn({ email, password }) {
+      const result = await verifyLogin(email, password);
+      if (!result.ok) return result;
+      const { name, email: storedEmail, role } = result.user;
+      return { ok: true, account: { name, email: storedEmail, role } };
+    },
+
+    async refresh() {
+      return true;
+    },
+
+    async signOut() {},
+  };
+}
@@ -0,0 +1,372 @@
+// src/auth/providers/oidcProvider.ts
+// Sign-in through an OpenID Connect identity server: authorization code
+// flow with PKCE in the system browser, tokens kept in SecureStore and
+// renewed with the refresh token before they expire. For development,
+// server/mock-oidc-server.js stands in for a real identity vendor.
+
+import { AppState, Linking } from "react-native";
+import * as SecureStore from "expo-secure-store";
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+import type { UserRole } from "../../../context/UserContext";
+import type { AuthAccount, AuthProvider, AuthResult } from "./types";
+import {
+  createPkcePair,
+  decodeJwtClaims,
+  parseRedirect,
+  randomToken,
+  toQuery,
+} from "./pkce";
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  // must be registered with the identity server and open this app
+  redirectUri: string;
+  scope: string;
+}
+
+interface Discovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  revocation_endpoint?: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  expires_in?: number;
+  refresh_token?: string;
+  id_token?: string;
+}
+
+interface StoredTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt: number;
+}
+
+type TokenResult =
+  | { ok: true; body: TokenResponse }
+  | { ok: false; retryable: boolean; error: string };
+
+const REQUEST_TIMEOUT_MS = 10_000;
+// give up on a sign-in page left open this long
+const SIGN_IN_TIMEOUT_MS = 10 * 60 * 1000;
+// back in the app with no redirect this long after = the page was closed
+const RETURN_GRACE_MS = 1500;
+// renew a little before the access token runs out
+const EXPIRY_MARGIN_MS = 60_000;
+// allowed clock difference with the identity server
+const CLOCK_SKEW_MS = 5 * 60_000;
+const APP_ROLES: UserRole[] = ["individual", "parent", "under18"];
+
+// One SecureStore entry per account (keys can't hold an email)
+const tokenKey = (email: string) =>
+  `neuroaura_oidc_${bytesToHex(sha256(utf8ToBytes(email.trim().toLowerCase()))).slice(0, 24)}`;
+
+async function loadTokens(email: string): Promise<StoredTokens | null> {
+  try {
+    const raw = await SecureStore.getItemAsync(tokenKey(email));
+    return raw ? (JSON.parse(raw) as StoredTokens) : null;
+  } catch (e) {
+    console.warn("Failed to read sign-in tokens", e);
+    return null;
+  }
+}
+
+const saveTokens = (email: string, tokens: StoredTokens) =>
+  SecureStore.setItemAsync(tokenKey(email), JSON.stringify(tokens));
+
+const clearTokens = (email: string) => SecureStore.deleteItemAsync(tokenKey(email));
+
+// The refresh token is kept if the server didn't send a new one
+const toStored = (body: TokenResponse, previousRefresh?: string): StoredTokens => ({
+  accessToken: body.access_token,
+  refreshToken: body.refresh_token ?? previousRefresh,
+  expiresAt: Date.now() + (body.expires_in ?? 300) * 1000,
+});
+
+async function timedFetch(url: string, init: RequestInit): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function postForm(url: string, params: Record<string, string | undefined>) {
+  return timedFetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    },
+    body: toQuery(params),
+  });
+}
+
+// Network failures and 5xx are worth another try later; an OAuth error
+// (e.g. invalid_grant for a revoked refresh token) is not.
+async function postToken(
+  discovery: Discovery,
+  params: Record<string, string | undefined>
+): Promise<TokenResult> {
+  let res: Response;
+  try {
+    res = await postForm(discovery.token_endpoint, params);
+  } catch (e: any) {
+    return { ok: false, retryable: true, error: e?.message || "Network error" };
+  }
+  let body: any = null;
+  try {
+    body = await res.json();
+  } catch {
+    // reported below
+  }
+  if (res.ok && typeof body?.access_token === "string") return { ok: true, body };
+  return {
+    ok: false,
+    retryable: res.status >= 500 || res.status === 429,
+    error: body?.error_description || body?.error || `HTTP ${res.status}`,
+  };
+}
+
+// Opens the sign-in page in the browser and waits for it to send the
+// user back to redirectUri. null if they closed it instead.
+function openForRedirect(url: string, redirectUri: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    let settled = false;
+    let leftApp = false;
+    let graceTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const finish = (result: string | null) => {
+      if (settled) return;
+      settled = true;
+      linkSub.remove();
+      appSub.remove();
+      clearTimeout(timeout);
+      if (graceTimer) clearTimeout(graceTimer);
+      resolve(result);
+    };
+
+    const linkSub = Linking.addEventListener("url", ({ url: incoming }) => {
+      if (incoming.startsWith(redirectUri)) finish(incoming);
+    });
+    const appSub = AppState.addEventListener("change", (state) => {
+      if (state !== "active") {
+        leftApp = true;
+      } else if (leftApp && !graceTimer) {
+        graceTimer = setTimeout(() => finish(null), RETURN_GRACE_MS);
+      }
+    });
+    const timeout = setTimeout(() => finish(null), SIGN_IN_TIMEOUT_MS);
+
+    Linking.openURL(url).catch((e) => {
+      console.warn("Failed to open the sign-in page", e);
+      finish(null);
+    });
+  });
+}
+
+// The ID token comes straight from the token endpoint, so (as OIDC Core
+// 3.1.3.7 allows) its signature isn't checked here – issuer, audience,
+// expiry and nonce are. Use https for a real identity server.
+function accountFromIdToken(
+  idToken: string,
+  discovery: Discovery,
+  config: OidcConfig,
+  nonce: string
+): AuthAccount {
+  const claims = decodeJwtClaims(idToken);
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== discovery.issuer) throw new Error("ID token is from another issuer");
+  if (!audience.includes(config.clientId)) throw new Error("ID token is for another app");
+  if (typeof claims.exp !== "number" || claims.exp * 1000 < Date.now() - CLOCK_SKEW_MS) {
+    throw new Error("ID token has expired");
+  }
+  if (claims.nonce !== nonce) throw new Error("ID token doesn't match this sign-in");
+  if (typeof claims.email !== "string" || !claims.email) {
+    throw new Error("The identity server didn't share an email address");
+  }
+
+  const role = claims.neuroaura_role as UserRole;
+  return {
+    name: typeof claims.name === "string" && claims.name ? claims.name : claims.email.split("@")[0],
+    email: claims.email,
+    role: APP_ROLES.includes(role) ? role : undefined,
+  };
+}
+
+const unavailable = (message: string): AuthResult => ({
+  ok: false,
+  reason: "unavailable",
+  message,
+});
+
+export function createOidcProvider(config: OidcConfig): AuthProvider {
+  let discovery: Promise<Discovery> | null = null;
+  // one refresh per account at a time – a rotated refresh token used
+  // twice would end the sign-in
+  const refreshing = new Map<string, Promise<boolean>>();
+
+  const discover = () => {
+    if (!discovery) {
+      discovery = (async () => {
+        const res = await timedFetch(`${config.issuer}/.well-known/openid-configuration`, {
+          headers: { Accept: "application/json" },
+        });
+        if (!res.ok) throw new Error(`Discovery failed (HTTP ${res.status})`);
+        const doc = (await res.json()) as Discovery;
+        if (doc.issuer !== config.issuer) {
+          throw new Error(`Discovery is for another issuer (${doc.issuer})`);
+        }
+        if (!doc.authorization_endpoint || !doc.token_endpoint) {
+          throw new Error("Discovery document is missing endpoints");
+        }
+        return doc;
+      })();
+      // try again next time rather than caching the failure
+      discovery.catch(() => {
+        discovery = null;
+      });
+    }
+    return discovery;
+  };
+
+  const runCodeFlow = async (extra: Record<string, string | undefined>): Promise<AuthResult> => {
+    let doc: Discovery;
+    try {
+      doc = await discover();
+    } catch (e: any) {
+      console.warn("Failed to reach identity server", e);
+      return unavailable(`Couldn’t reach ${config.issuer}.`);
+    }
+
+    const pkce = createPkcePair();
+    const state = randomToken();
+    const nonce = randomToken();
+    const url =
+      `${doc.authorization_endpoint}?` +
+      toQuery({
+        response_type: "code",
+        client_id: config.clientId,
+        redirect_uri: config.redirectUri,
+        scope: config.scope,
+        state,
+        nonce,
+        code_challenge: pkce.challenge,
+        code_challenge_method: "S256",
+        ...extra,
+      });
+
+    const redirect = await openForRedirect(url, config.redirectUri);
+    if (!redirect) return { ok: false, reason: "cancelled" };
+    const params = parseRedirect(redirect);
+    if (params.state !== state) return unavailable("The sign-in answer didn’t match this request.");
+    if (params.error === "access_denied") return { ok: false, reason: "cancelled" };
+    if (params.error || !params.code) {
+      return unavailable(params.error_description || params.error || "No sign-in code came back.");
+    }
+
+    const result = await postToken(doc, {
+      grant_type: "authorization_code",
+      code: params.code,
+      redirect_uri: config.redirectUri,
+      client_id: config.clientId,
+      code_verifier: pkce.verifier,
+    });
+    if (!result.ok) return unavailable(result.error);
+    if (!result.body.id_token) return unavailable("The identity server sent no ID token.");
+
+    let account: AuthAccount;
+    try {
+      account = accountFromIdToken(result.body.id_token, doc, config, nonce);
+    } catch (e: any) {
+      return unavailable(e?.message || "The ID token isn’t valid.");
+    }
+    await saveTokens(account.email, toStored(result.body));
+    return { ok: true, account };
+  };
+
+  const renew = async (email: string): Promise<boolean> => {
+    const stored = await loadTokens(email);
+    if (!stored) return false;
+    if (stored.expiresAt - EXPIRY_MARGIN_MS > Date.now()) return true;
+    if (!stored.refreshToken) {
+      await clearTokens(email);
+      return false;
+    }
+
+    let doc: Discovery;
+    try {
+      doc = await discover();
+    } catch (e) {
+      // offline – keep the sign-in and try again later
+      console.warn("Failed to reach identity server", e);
+      return true;
+    }
+    const result = await postToken(doc, {
+      grant_type: "refresh_token",
+      refresh_token: stored.refreshToken,
+      client_id: config.clientId,
+    });
+    if (!result.ok) {
+      if (result.retryable) return true;
+      console.warn("Sign-in could not be renewed:", result.error);
+      await clearTokens(email);
+      return false;
+    }
+    await saveTokens(email, toStored(result.body, stored.refreshToken));
+    return true;
+  };
+
+  return {
+    kind: "oidc",
+    label: config.issuer.replace(/^https?:\/\//, "").replace(/\/.*$/, ""),
+    collectsPassword: false,
+
+    signUp({ email, role }) {
+      // prompt=create opens the server's sign-up form
+      return runCodeFlow({
+        prompt: "create",
+        login_hint: email.trim() || undefined,
+        neuroaura_role: role,
+      });
+    },
+
+    signIn({ email }) {
+      return runCodeFlow({ login_hint: email.trim() || undefined });
+    },
+
+    refresh(email) {
+      const key = email.trim().toLowerCase();
+      let pending = refreshing.get(key);
+      if (!pending) {
+        pending = renew(email).finally(() => refreshing.delete(key));
+        refreshing.set(key, pending);
+      }
+      return pending;
+    },
+
+    async signOut(email) {
+      try {
+        const stored = await loadTokens(email);
+        await clearTokens(email);
+        if (!stored?.refreshToken) return;
+        const doc = await discover();
+        if (!doc.revocation_endpoint) return;
+        await postForm(doc.revocation_endpoint, {
+          token: stored.refreshToken,
+          token_type_hint: "refresh_token",
+          client_id: config.clientId,
+        });
+      } catch (e) {
+        // the tokens are gone from this device either way
+        console.warn("Failed to revoke sign-in", e);
+      }
+    },
+  };
+}
@@ -0,0 +1,86 @@
+// src/auth/providers/pkce.ts
+// Small pieces of the OAuth code flow that need no server: PKCE
+// (RFC 7636, S256 only), random state values, query strings and
+// reading the claims of a JWT.
+
+import { sha256 } from "@noble/hashes/sha2";
+import { utf8ToBytes } from "@noble/hashes/utils";
+import * as Crypto from "expo-crypto";
+
+const BASE64URL =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+// Unpadded base64url, as PKCE and JWTs use it
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let out = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    const chars = Math.min(4, Math.ceil(((bytes.length - i) * 8) / 6));
+    for (let c = 0; c < chars; c++) {
+      out += BASE64URL[(n >> (18 - c * 6)) & 63];
+    }
+  }
+  return out;
+}
+
+export function base64UrlDecode(text: string): Uint8Array {
+  const clean = text.replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const ch of clean) {
+    const v = BASE64URL.indexOf(ch);
+    if (v === -1) throw new Error("Not base64url");
+    buffer = (buffer << 6) | v;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+// 32 random bytes, base64url – for state, nonce and code verifiers
+export const randomToken = () => base64UrlEncode(Crypto.getRandomBytes(32));
+
+export interface PkcePair {
+  verifier: string;
+  challenge: string;
+}
+
+export function createPkcePair(): PkcePair {
+  const verifier = randomToken();
+  return { verifier, challenge: base64UrlEncode(sha256(utf8ToBytes(verifier))) };
+}
+
+export const toQuery = (params: Record<string, string | undefined>) =>
+  Object.entries(params)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`)
+    .join("&");
+
+// The query (and fragment) parameters of a redirect URL
+export function parseRedirect(url: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  const parts = url.split(/[?#]/).slice(1);
+  for (const part of parts) {
+    for (const pair of part.split("&")) {
+      if (!pair) continue;
+      const [k, v = ""] = pair.split("=");
+      params[decodeURIComponent(k)] = decodeURIComponent(v.replace(/\+/g, " "));
+    }
+  }
+  return params;
+}
+
+// The payload of a JWT, without checking its signature (see oidcProvider)
+export function decodeJwtClaims(token: string): Record<string, unknown> {
+  const [, payload] = token.split(".");
+  if (!payload) throw new Error("Not a JWT");
+  // UTF-8 back to a string (names can have accents)
+  const json = decodeURIComponent(
+    Array.from(base64UrlDecode(payload), (b) => `%${b.toString(16).padStart(2, "0")}`).join("")
+  );
+  return JSON.parse(json);
+}
@@ -0,0 +1,61 @@
+// src/auth/providers/types.ts
+// The contract every way of signing in implements: the device-local
+// account store, or an OpenID Connect identity server. Profiles and
+// sessions (src/auth/session.ts) stay the same whichever one is used.
+
+import type { UserRole } from "../../../context/UserContext";
+
+// "local" (default) or "oidc" – see EXPO_PUBLIC_AUTH_PROVIDER
+export type AuthProviderKind = "local" | "oidc";
+
+// Who signed in, as the provider knows them
+export interface AuthAccount {
+  name: string;
+  email: string;
+  role?: UserRole;
+}
+
+// email and password are ignored by providers with their own sign-in page
+export interface SignUpDetails {
+  name: string;
+  email: string;
+  password: string;
+  role: UserRole;
+}
+
+export interface Credentials {
+  email: string;
+  password: string;
+}
+
+export type AuthFailure =
+  | "no_account"
+  | "wrong_password"
+  | "account_exists"
+  // the user closed the provider's sign-in page
+  | "cancelled"
+  // the provider couldn't be reached or gave a bad answer
+  | "unavailable";
+
+export type AuthResult =
+  | { ok: true; account: AuthAccount }
+  | { ok: false; reason: AuthFailure; message?: string };
+
+export interface AuthProvider {
+  readonly kind: AuthProviderKind;
+  // shown on the auth screen, e.g. "this device" or the issuer's host
+  readonly label: string;
+  // false when the provider shows its own sign-in page, so the app
+  // never sees the password
+  readonly collectsPassword: boolean;
+
+  signUp(details: SignUpDetails): Promise<AuthResult>;
+  signIn(credentials: Credentials): Promise<AuthResult>;
+  // Keeps the account's sign-in valid (renewing tokens when needed).
+  // false means it has ended and the user must sign in again; being
+  // offline is not a reason to return false.
+  refresh(email: string): Promise<boolean>;
+  // Forgets (and where possible revokes) what the provider holds for
+  // the account. Never throws.
+  signOut(email: string): Promise<void>;
+}
@@ -0,0 +1,112 @@
+// src/auth/recoveryCodes.ts
+// One-time recovery codes: the way back into a device-local account
+// after a forgotten password. Shown once when made, stored only as
+// hashes; each code works a single time.
+
+import { pbkdf2Async } from "@noble/hashes/pbkdf2";
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+import * as Crypto from "expo-crypto";
+import { constantTimeEqual } from "./passwords";
+
+export const RECOVERY_CODE_COUNT = 8;
+
+// no 0/O, 1/I/L – easy to copy down by hand
+const ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+// two groups of five: about 25 bits per group, 50 per code
+const GROUP_LENGTH = 5;
+// Codes are random, not chosen by people, so far fewer rounds than for
+// passwords are enough. All codes in a set share one salt, so checking
+// a code costs a single derivation.
+const PBKDF2_ITERATIONS = 20_000;
+const SALT_BYTES = 16;
+const HASH_BYTES = 32;
+
+export interface RecoveryCodeSet {
+  algorithm: "PBKDF2-SHA256";
+  iterations: number;
+  salt: string; // hex
+  // hex hash per code; null once the code has been used
+  hashes: (string | null)[];
+  createdAt: number;
+}
+
+// Upper-case, without spaces or dashes, so "abcde fghjk" matches too
+export const normalizeRecoveryCode = (code: string) =>
+  code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+function randomCode(): string {
+  const bytes = Crypto.getRandomBytes(GROUP_LENGTH * 2);
+  let code = "";
+  for (let i = 0; i < bytes.length; i++) {
+    // 256 % 31 leaves a tiny bias – irrelevant at this length
+    code += ALPHABET[bytes[i] % ALPHABET.length];
+    if (i === GROUP_LENGTH - 1) code += "-";
+  }
+  return code;
+}
+
+function derive(code: string, salt: Uint8Array, iterations: number) {
+  return pbkdf2Async(sha256, utf8ToBytes(normalizeRecoveryCode(code)), salt, {
+    c: iterations,
+    dkLen: HASH_BYTES,
+  });
+}
+
+// A fresh set: the codes to show once, and what to store
+export async function generateRecoveryCodes(): Promise<{
+  codes: string[];
+  set: RecoveryCodeSet;
+}> {
+  const codes = new Set<string>();
+  while (codes.size < RECOVERY_CODE_COUNT) codes.add(randomCode());
+  const salt = Crypto.getRandomBytes(SALT_BYTES);
+  const hashes: string[] = [];
+  for (const code of codes) {
+    hashes.push(bytesToHex(await derive(code, salt, PBKDF2_ITERATIONS)));
+  }
+  return {
+    codes: Array.from(codes),
+    set: {
+      algorithm: "PBKDF2-SHA256",
+      iterations: PBKDF2_ITERATIONS,
+      salt: bytesToHex(salt),
+      hashes,
+      createdAt: Date.now(),
+    },
+  };
+}
+
+export const remainingRecoveryCodes = (set: RecoveryCodeSet | undefined) =>
+  set ? set.hashes.filter((h) => h !== null).length : 0;
+
+// Index of the unused code that matches, or -1
+export async function findRecoveryCode(
+  code: string,
+  set: RecoveryCodeSet
+): Promise<number> {
+  if (set.algorithm !== "PBKDF2-SHA256" || !(set.iterations > 0)) return -1;
+  if (normalizeRecoveryCode(code).length !== GROUP_LENGTH * 2) return -1;
+  try {
+    const actual = await derive(code, hexToBytes(set.salt), set.iterations);
+    let found = -1;
+    // compare against every code, so timing doesn't say which one matched
+    set.hashes.forEach((hash, i) => {
+      if (hash !== null && constantTimeEqual(actual, hexToBytes(hash)) && found === -1) {
+        found = i;
+      }
+    });
+    return found;
+  } catch {
+    return -1;
+  }
+}
+
+// The same set with one code crossed out
+export const markRecoveryCodeUsed = (
+  set: RecoveryCodeSet,
+  index: number
+): RecoveryCodeSet => ({
+  ...set,
+  hashes: set.hashes.map((h, i) => (i === index ? null : h)),
+});
@@ -0,0 +1,49 @@
+// src/auth/session.ts
+// The signed-in session, kept in SecureStore so a restart doesn't sign
+// the user out. A session nobody has used for a while expires.
+
+import * as SecureStore from "expo-secure-store";
+
+export interface AuthSession {
+  profileId: string;
+  signedInAt: number;
+  lastActiveAt: number;
+}
+
+const SESSION_KEY = "neuroaura_session";
+export const SESSION_IDLE_LIMIT_MS = 30 * 24 * 60 * 60 * 1000;
+
+// null when there's no session, it's unreadable or it has expired
+export async function loadSession(now = Date.now()): Promise<AuthSession | null> {
+  try {
+    const raw = await SecureStore.getItemAsync(SESSION_KEY);
+    if (!raw) return null;
+    const session = JSON.parse(raw) as AuthSession;
+    if (
+      typeof session?.profileId !== "string" ||
+      typeof session.lastActiveAt !== "number" ||
+      now - session.lastActiveAt > SESSION_IDLE_LIMIT_MS
+    ) {
+      await clearSession();
+      return null;
+    }
+    return session;
+  } catch (e) {
+    console.warn("Failed to read session", e);
+    return null;
+  }
+}
+
+// Starts a session for the profile, or marks the current one as used
+export async function saveSession(profileId: string, now = Date.now()) {
+  const current = await loadSession(now);
+  const session: AuthSession =
+    current?.profileId === profileId
+      ? { ...current, lastActiveAt: now }
+      : { profileId, signedInAt: now, lastActiveAt: now };
+  await SecureStore.setItemAsync(SESSION_KEY, JSON.stringify(session));
+}
+
+export async function clearSession() {
+  await SecureStore.deleteItemAsync(SESSION_KEY);
+}
@@ -0,0 +1,58 @@
+// src/backup/bundle.ts
+// The NeuroAura backup bundle: everything stored for one profile,
+// as a single versioned JSON document.
+
+import type {
+  AlertEvent,
+  CheckIn,
+  UserProfile,
+} from "../../context/UserContext";
+import type { ChatMessage } from "../api/cometClient";
+import { getRepository, ScheduleItem } from "../storage";
+
+export const BACKUP_FORMAT = "neuroaura-backup";
+// Bump when the bundle shape changes (importers check this).
+export const BACKUP_VERSION = 1;
+
+export interface BackupBundle {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string; // ISO date
+  profile: UserProfile;
+  checkIns: CheckIn[];
+  alerts: AlertEvent[];
+  schedule: ScheduleItem[];
+  screenTime: {
+    goalMinutes: number | null;
+    usage: Record<string, number>; // YYYY-MM-DD -> minutes
+  };
+  chat: ChatMessage[];
+}
+
+// checkIns / alerts come from UserContext (always the freshest copy);
+// the rest is read from storage.
+export async function buildBackupBundle(
+  profile: UserProfile,
+  checkIns: CheckIn[],
+  alerts: AlertEvent[]
+): Promise<BackupBundle> {
+  const repo = getRepository();
+  const [schedule, goalMinutes, usage, chat] = await Promise.all([
+    repo.loadSchedule(profile.id),
+    repo.loadScreenTimeGoal(profile.id),
+    repo.loadScreenTimeHistory(profile.id),
+    repo.loadChat(profile.id),
+  ]);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile,
+    checkIns,
+    alerts,
+    schedule,
+    screenTime: { goalMinutes, usage },
+    chat,
+  };
+}
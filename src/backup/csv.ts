@@ -0,0 +1,64 @@
+// src/backup/csv.ts
+// Flat CSV views of check-ins and alerts (for therapists / spreadsheets).
+
+import type { AlertEvent, CheckIn } from "../../context/UserContext";
+
+// Text a spreadsheet would run as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// RFC 4180: quote when needed, double any quotes inside. Free text that
+// looks like a formula gets a leading ' so it stays text.
+function csvCell(value: unknown): string {
+  if (value == null) return "";
+  let text = String(value);
+  if (typeof value === "string" && FORMULA_START.test(text)) text = `'${text}`;
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\r\n");
+}
+
+export function checkInsToCsv(checkIns: CheckIn[]): string {
+  const sorted = [...checkIns].sort((a, b) => a.timestamp - b.timestamp);
+  return toCsv(
+    [
+      "id",
+      "time",
+      "mood",
+      "intensity",
+      "source",
+      "sleep_quality",
+      "symptoms",
+      "notes",
+    ],
+    sorted.map((c) => [
+      c.id,
+      new Date(c.timestamp).toISOString(),
+      c.mood,
+      c.intensity,
+      c.source,
+      c.sleepQuality,
+      c.symptoms.join("; "),
+      c.notes,
+    ])
+  );
+}
+
+export function alertsToCsv(alerts: AlertEvent[]): string {
+  const sorted = [...alerts].sort((a, b) => a.timestamp - b.timestamp);
+  return toCsv(
+    ["id", "time", "type", "message"],
+    sorted.map((a) => [
+      a.id,
+      new Date(a.timestamp).toISOString(),
+      a.type,
+      a.message,
+    ])
+  );
+}
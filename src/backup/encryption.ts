@@ -0,0 +1,156 @@
+// src/backup/encryption.ts
+// Passphrase-protected backup files: PBKDF2-SHA256 derives the key,
+// AES-256-GCM encrypts the bundle. The GCM tag covers the ciphertext and
+// the header, so a wrong passphrase or an edited file fails as a whole.
+
+import { gcm } from "@noble/ciphers/aes";
+import {
+  bytesToHex,
+  bytesToUtf8,
+  hexToBytes,
+  utf8ToBytes,
+} from "@noble/ciphers/utils";
+import { pbkdf2Async } from "@noble/hashes/pbkdf2";
+import { sha256 } from "@noble/hashes/sha2";
+import * as Crypto from "expo-crypto";
+
+export const ENCRYPTED_BACKUP_FORMAT = "neuroaura-encrypted-backup";
+export const ENCRYPTED_BACKUP_VERSION = 1;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// Pure-JS PBKDF2 on a phone: high enough to slow guessing, low enough
+// that export / restore stays around a second.
+const PBKDF2_ITERATIONS = 150_000;
+// What a file may ask for: far fewer wasn't made by NeuroAura, far more
+// would freeze the app before the passphrase could even be checked.
+const MIN_PBKDF2_ITERATIONS = 100_000;
+const MAX_PBKDF2_ITERATIONS = 10 * PBKDF2_ITERATIONS;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedBackup {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: number;
+  kdf: { name: "PBKDF2-SHA256"; iterations: number; salt: string }; // hex
+  cipher: { name: "AES-256-GCM"; iv: string }; // hex
+  data: string; // hex ciphertext + tag
+}
+
+function deriveKey(passphrase: string, salt: Uint8Array, iterations: number) {
+  return pbkdf2Async(sha256, utf8ToBytes(passphrase), salt, {
+    c: iterations,
+    dkLen: 32,
+  });
+}
+
+// Header fields are authenticated too, so changing e.g. the iteration
+// count is caught just like changing the data.
+function headerAad(file: Omit<EncryptedBackup, "data">): Uint8Array {
+  return utf8ToBytes(
+    [
+      file.format,
+      file.version,
+      file.kdf.name,
+      file.kdf.iterations,
+      file.kdf.salt,
+      file.cipher.name,
+      file.cipher.iv,
+    ].join("|")
+  );
+}
+
+export function isEncryptedBackup(text: string): boolean {
+  try {
+    return JSON.parse(text)?.format === ENCRYPTED_BACKUP_FORMAT;
+  } catch {
+    return false;
+  }
+}
+
+export async function encryptBackup(
+  plaintext: string,
+  passphrase: string
+): Promise<string> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(
+      `Use a passphrase with at least ${MIN_PASSPHRASE_LENGTH} characters.`
+    );
+  }
+
+  const salt = Crypto.getRandomBytes(SALT_BYTES);
+  const iv = Crypto.getRandomBytes(IV_BYTES);
+  const header: Omit<EncryptedBackup, "data"> = {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: ENCRYPTED_BACKUP_VERSION,
+    kdf: {
+      name: "PBKDF2-SHA256",
+      iterations: PBKDF2_ITERATIONS,
+      salt: bytesToHex(salt),
+    },
+    cipher: { name: "AES-256-GCM", iv: bytesToHex(iv) },
+  };
+
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const sealed = gcm(key, iv, headerAad(header)).encrypt(utf8ToBytes(plaintext));
+
+  const file: EncryptedBackup = { ...header, data: bytesToHex(sealed) };
+  return JSON.stringify(file);
+}
+
+// Every error thrown here has a message that can be shown to the user.
+export async function decryptBackup(
+  text: string,
+  passphrase: string
+): Promise<string> {
+  let file: EncryptedBackup;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn’t a NeuroAura backup (it’s not valid JSON).");
+  }
+
+  if (file?.format !== ENCRYPTED_BACKUP_FORMAT) {
+    throw new Error("This file isn’t an encrypted NeuroAura backup.");
+  }
+  if (typeof file.version !== "number" || file.version > ENCRYPTED_BACKUP_VERSION) {
+    throw new Error(
+      "This backup was made by a newer version of NeuroAura. Update the app, then try again."
+    );
+  }
+  if (
+    file.kdf?.name !== "PBKDF2-SHA256" ||
+    file.cipher?.name !== "AES-256-GCM" ||
+    !Number.isInteger(file.kdf.iterations) ||
+    typeof file.data !== "string"
+  ) {
+    throw new Error("This backup is incomplete or damaged.");
+  }
+  if (
+    file.kdf.iterations < MIN_PBKDF2_ITERATIONS ||
+    file.kdf.iterations > MAX_PBKDF2_ITERATIONS
+  ) {
+    throw new Error("This backup uses key settings NeuroAura doesn’t accept. Nothing was restored.");
+  }
+
+  let salt: Uint8Array;
+  let iv: Uint8Array;
+  let sealed: Uint8Array;
+  try {
+    salt = hexToBytes(file.kdf.salt);
+    iv = hexToBytes(file.cipher.iv);
+    sealed = hexToBytes(file.data);
+  } catch {
+    throw new Error("This backup is incomplete or damaged.");
+  }
+
+  const key = await deriveKey(passphrase, salt, file.kdf.iterations);
+  try {
+    const plain = gcm(key, iv, headerAad(file)).decrypt(sealed);
+    return bytesToUtf8(plain);
+  } catch {
+    // GCM can't tell these apart – and nothing has been restored.
+    throw new Error(
+      "Wrong passphrase, or the file was changed since it was made. Nothing was restored."
+    );
+  }
+}
@@ -0,0 +1,252 @@
+// src/backup/importBundle.ts
+// Reading a backup bundle back in: validate it, work out what's new
+// (de-duplicated by id) so the user can preview, then merge. Records
+// with missing or unknown fields are skipped (and counted), so a damaged
+// or hand-edited file can't put bad data into the app.
+
+import * as DocumentPicker from "expo-document-picker";
+import { File } from "expo-file-system";
+import type {
+  AlertEvent,
+  AlertEventType,
+  CheckIn,
+  CheckInSource,
+  MoodType,
+  SleepQuality,
+} from "../../context/UserContext";
+import type { FieldClock } from "../sync/clock";
+import { getRepository, ScheduleItem } from "../storage";
+import { domainEvents } from "../events/eventBus";
+import { BACKUP_FORMAT, BACKUP_VERSION, BackupBundle } from "./bundle";
+
+// A readable bundle, with only its valid records
+export interface ParsedBackup {
+  bundle: BackupBundle;
+  // records left out because a field was missing or made no sense
+  invalidCount: number;
+}
+
+export interface ImportPreview {
+  bundle: BackupBundle;
+  invalidCount: number;
+  newCheckIns: CheckIn[];
+  newAlerts: AlertEvent[];
+  newScheduleItems: ScheduleItem[];
+  // records already on this device (same id) – left untouched
+  duplicateCount: number;
+}
+
+const MOODS: MoodType[] = ["calm", "okay", "overwhelmed", "angry", "sad", "idk"];
+const SOURCES: CheckInSource[] = ["manual", "sensor"];
+const SLEEP: SleepQuality[] = ["good", "ok", "bad"];
+const ALERT_TYPES: AlertEventType[] = ["shake", "noise_high", "light_high", "manual_high_risk"];
+const SCHEDULE_TYPES: ScheduleItem["type"][] = [
+  "CHECK_IN",
+  "ACTIVITY",
+  "THERAPY",
+  "MEDICATION",
+  "OTHER",
+];
+const REPEATS: ScheduleItem["repeat"][] = ["NONE", "DAILY", "WEEKLY"];
+
+const isId = (v: any): v is string => typeof v === "string" && v.length > 0;
+const isTime = (v: any): v is number => typeof v === "number" && Number.isFinite(v);
+const isOneOf = <T>(choices: T[], v: any): v is T => choices.includes(v);
+const optional = (v: any, check: (v: any) => boolean) => v === undefined || check(v);
+
+function isClock(raw: any): raw is FieldClock {
+  return (
+    !!raw &&
+    typeof raw === "object" &&
+    !Array.isArray(raw) &&
+    Object.values(raw).every((s: any) => isTime(s?.t) && typeof s?.d === "string")
+  );
+}
+
+// Each reader returns a clean copy, or null if the record can't be used
+function readCheckIn(c: any): CheckIn | null {
+  // older backups had no source, and sometimes no symptoms
+  const source = c?.source ?? "manual";
+  const symptoms = c?.symptoms ?? [];
+  if (
+    !isId(c?.id) ||
+    !isTime(c.timestamp) ||
+    !isOneOf(MOODS, c.mood) ||
+    !isOneOf(SOURCES, source) ||
+    !Array.isArray(symptoms) ||
+    !symptoms.every((s: any) => typeof s === "string") ||
+    !optional(c.sleepQuality, (v) => isOneOf(SLEEP, v)) ||
+    !optional(c.intensity, (v) => Number.isInteger(v) && v >= 1 && v <= 5) ||
+    !optional(c.notes, (v) => typeof v === "string") ||
+    !optional(c.updatedAt, isTime) ||
+    !optional(c.clock, isClock)
+  ) {
+    return null;
+  }
+  return {
+    id: c.id,
+    timestamp: c.timestamp,
+    mood: c.mood,
+    symptoms,
+    source,
+    sleepQuality: c.sleepQuality,
+    intensity: c.intensity,
+    notes: c.notes,
+    updatedAt: c.updatedAt,
+    clock: c.clock,
+  };
+}
+
+function readAlert(a: any): AlertEvent | null {
+  if (
+    !isId(a?.id) ||
+    !isOneOf(ALERT_TYPES, a.type) ||
+    typeof a.message !== "string" ||
+    !isTime(a.timestamp) ||
+    !optional(a.acknowledgedAt, isTime) ||
+    !optional(a.notifiedAt, isTime) ||
+    !optional(a.silenced, (v) => typeof v === "boolean")
+  ) {
+    return null;
+  }
+  return {
+    id: a.id,
+    type: a.type,
+    message: a.message,
+    timestamp: a.timestamp,
+    acknowledgedAt: a.acknowledgedAt,
+    notifiedAt: a.notifiedAt,
+    silenced: a.silenced,
+  };
+}
+
+function readScheduleItem(i: any): ScheduleItem | null {
+  if (
+    !isId(i?.id) ||
+    typeof i.date !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(i.date) ||
+    typeof i.title !== "string" ||
+    !isOneOf(SCHEDULE_TYPES, i.type) ||
+    typeof i.time !== "string" ||
+    !isOneOf(REPEATS, i.repeat) ||
+    typeof i.completed !== "boolean" ||
+    !optional(i.clock, isClock)
+  ) {
+    return null;
+  }
+  return {
+    id: i.id,
+    date: i.date,
+    title: i.title,
+    type: i.type,
+    time: i.time,
+    repeat: i.repeat,
+    completed: i.completed,
+    clock: i.clock,
+  };
+}
+
+// Every error thrown here has a message that can be shown to the user.
+export function parseBackupBundle(text: string): ParsedBackup {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn’t a NeuroAura backup (it’s not valid JSON).");
+  }
+
+  if (raw?.format !== BACKUP_FORMAT) {
+    throw new Error("This file isn’t a NeuroAura backup.");
+  }
+  if (typeof raw.version !== "number" || raw.version < 1) {
+    throw new Error("This backup has no valid version number.");
+  }
+  if (raw.version > BACKUP_VERSION) {
+    throw new Error(
+      "This backup was made by a newer version of NeuroAura. Update the app, then try again."
+    );
+  }
+  if (
+    !Array.isArray(raw.checkIns) ||
+    !Array.isArray(raw.alerts) ||
+    !Array.isArray(raw.schedule)
+  ) {
+    throw new Error("This backup is incomplete or damaged.");
+  }
+
+  const keep = <T>(records: any[], read: (r: any) => T | null): T[] =>
+    records.map(read).filter((r): r is T => r !== null);
+  const checkIns = keep(raw.checkIns, readCheckIn);
+  const alerts = keep(raw.alerts, readAlert);
+  const schedule = keep(raw.schedule, readScheduleItem);
+  const total = raw.checkIns.length + raw.alerts.length + raw.schedule.length;
+  const invalidCount = total - checkIns.length - alerts.length - schedule.length;
+  if (total > 0 && invalidCount === total) {
+    throw new Error("None of the records in this backup could be read. It may be damaged.");
+  }
+
+  return {
+    bundle: { ...raw, checkIns, alerts, schedule } as BackupBundle,
+    invalidCount,
+  };
+}
+
+function onlyNew<T extends { id: string }>(incoming: T[], existing: T[]) {
+  const seen = new Set(existing.map((r) => r.id));
+  const fresh: T[] = [];
+  for (const r of incoming) {
+    if (seen.has(r.id)) continue;
+    seen.add(r.id);
+    fresh.push(r);
+  }
+  return fresh;
+}
+
+export async function previewImport(
+  { bundle, invalidCount }: ParsedBackup,
+  profileId: string,
+  current: { checkIns: CheckIn[]; alerts: AlertEvent[] }
+): Promise<ImportPreview> {
+  const schedule = await getRepository().loadSchedule(profileId);
+
+  const newCheckIns = onlyNew(bundle.checkIns, current.checkIns);
+  const newAlerts = onlyNew(bundle.alerts, current.alerts);
+  const newScheduleItems = onlyNew(bundle.schedule, schedule);
+
+  const total =
+    bundle.checkIns.length + bundle.alerts.length + bundle.schedule.length;
+  const added = newCheckIns.length + newAlerts.length + newScheduleItems.length;
+
+  return {
+    bundle,
+    invalidCount,
+    newCheckIns,
+    newAlerts,
+    newScheduleItems,
+    duplicateCount: total - added,
+  };
+}
+
+// Check-ins / alerts go through UserContext (mergeImported); schedule
+// items are merged straight into storage here.
+export async function commitScheduleImport(
+  profileId: string,
+  preview: ImportPreview
+): Promise<void> {
+  if (preview.newScheduleItems.length === 0) return;
+  const repo = getRepository();
+  const existing = await repo.loadSchedule(profileId);
+  const items = [...existing, ...onlyNew(preview.newScheduleItems, existing)];
+  await repo.saveSchedule(profileId, items);
+  domainEvents.emit("schedule.changed", { profileId, items, previous: existing });
+}
+
+// Lets the user pick a file; null if they cancelled.
+export async function pickBackupFile(): Promise<string | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ["application/json", "text/plain", "*/*"],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || !result.assets?.length) return null;
+  return new File(result.assets[0].uri).text();
+}
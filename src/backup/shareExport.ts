@@ -0,0 +1,87 @@
+// src/backup/shareExport.ts
+// Writes an export to the cache directory and opens the OS share sheet.
+// The file is deleted once the share sheet closes.
+
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import type { AlertEvent, CheckIn, UserProfile } from "../../context/UserContext";
+import { buildBackupBundle } from "./bundle";
+import { alertsToCsv, checkInsToCsv } from "./csv";
+import { encryptBackup } from "./encryption";
+
+// Full backups are never written in plaintext – see shareEncryptedBackup.
+export type ExportKind = "checkins_csv" | "alerts_csv";
+
+const MIME_TYPES: Record<ExportKind, string> = {
+  checkins_csv: "text/csv",
+  alerts_csv: "text/csv",
+};
+
+const fileSafe = (text: string) =>
+  text.trim().replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "") || "profile";
+
+// Writes `contents` to a fresh cache file, shares it and deletes it
+export async function shareTextFile(
+  fileName: string,
+  contents: string,
+  mimeType: string,
+  dialogTitle: string
+): Promise<void> {
+  const file = new File(Paths.cache, fileName);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(contents);
+
+  try {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error("Sharing is not available on this device");
+    }
+    await Sharing.shareAsync(file.uri, { mimeType, dialogTitle });
+  } finally {
+    try {
+      if (file.exists) file.delete();
+    } catch (e) {
+      console.warn("Failed to delete shared export", e);
+    }
+  }
+}
+
+const exportBaseName = (profile: UserProfile) =>
+  `neuroaura-${fileSafe(profile.name)}-${new Date().toISOString().slice(0, 10)}`;
+
+export async function shareExport(
+  kind: ExportKind,
+  profile: UserProfile,
+  checkIns: CheckIn[],
+  alerts: AlertEvent[]
+): Promise<void> {
+  const base = exportBaseName(profile);
+
+  let fileName: string;
+  let contents: string;
+  if (kind === "checkins_csv") {
+    fileName = `${base}-checkins.csv`;
+    contents = checkInsToCsv(checkIns);
+  } else {
+    fileName = `${base}-alerts.csv`;
+    contents = alertsToCsv(alerts);
+  }
+
+  await shareTextFile(fileName, contents, MIME_TYPES[kind], "Share NeuroAura data");
+}
+
+export async function shareEncryptedBackup(
+  profile: UserProfile,
+  checkIns: CheckIn[],
+  alerts: AlertEvent[],
+  passphrase: string
+): Promise<void> {
+  const bundle = await buildBackupBundle(profile, checkIns, alerts);
+  const contents = await encryptBackup(JSON.stringify(bundle), passphrase);
+  await shareTextFile(
+    `${exportBaseName(profile)}.backup.json`,
+    contents,
+    "application/json",
+    "Save your NeuroAura backup"
+  );
+}
@@ -0,0 +1,61 @@
+// src/components/AlertModeBadge.tsx
+// Shows which alert mode the sensors are in, and whether they're snoozed
+// or in quiet hours. Tapping it opens the alert modes.
+import React from "react";
+import { Text, TouchableOpacity, StyleSheet } from "react-native";
+import { ALERT_MODE_INFO } from "../sensors/alertModes";
+import { useAlertStatus } from "../sensors/useAlertStatus";
+
+interface Props {
+  onPress: () => void;
+}
+
+const timeLabel = (at: number) =>
+  new Date(at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+const AlertModeBadge: React.FC<Props> = ({ onPress }) => {
+  const { mode, pause } = useAlertStatus();
+  const info = ALERT_MODE_INFO[mode];
+
+  let text = `${info.emoji} ${info.title} mode`;
+  if (pause.paused) {
+    text +=
+      pause.reason === "snooze"
+        ? ` · snoozed until ${timeLabel(pause.until)}`
+        : ` · quiet hours until ${timeLabel(pause.until)}`;
+  }
+
+  return (
+    <TouchableOpacity
+      style={[styles.badge, pause.paused && styles.badgePaused]}
+      onPress={onPress}
+      activeOpacity={0.8}
+    >
+      <Text style={[styles.text, pause.paused && styles.textPaused]}>{text}</Text>
+    </TouchableOpacity>
+  );
+};
+
+export default AlertModeBadge;
+
+const styles = StyleSheet.create({
+  badge: {
+    alignSelf: "center",
+    backgroundColor: "#EDE9FE",
+    borderRadius: 999,
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+  },
+  badgePaused: {
+    backgroundColor: "#E5E7EB",
+  },
+  text: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#5B21B6",
+  },
+  textPaused: {
+    color: "#374151",
+  },
+});
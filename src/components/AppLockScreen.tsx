@@ -0,0 +1,235 @@
+// src/components/AppLockScreen.tsx
+// Covers the whole app while it's locked (and while the lock settings
+// are still being read, so nothing private flashes up on launch).
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from "react-native";
+import { useAppLock } from "../../context/AppLockContext";
+import { MAX_PIN_LENGTH, UnlockResult } from "../auth/appLock";
+import { getAuthProvider } from "../auth/providers";
+
+function formatWait(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds} s`;
+  return `${Math.ceil(seconds / 60)} min`;
+}
+
+const AppLockScreen: React.FC = () => {
+  const { ready, locked, ownerEmail, unlock, resetWithPassword } = useAppLock();
+  const [mode, setMode] = useState<"pin" | "password">("pin");
+  const [secret, setSecret] = useState("");
+  const [checking, setChecking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  // an OIDC account resets the PIN on its provider's page, not here
+  const typesPassword = getAuthProvider().collectsPassword;
+  const needsSecret = mode === "pin" || typesPassword;
+
+  // countdown while locked out
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const timer = setInterval(() => {
+      const t = Date.now();
+      setNow(t);
+      if (t >= lockedUntil) {
+        setLockedUntil(null);
+        setMessage(null);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  useEffect(() => {
+    if (!locked) {
+      setMode("pin");
+      setSecret("");
+      setMessage(null);
+    }
+  }, [locked]);
+
+  if (ready && !locked) return null;
+
+  if (!ready) {
+    return <View style={styles.cover} />;
+  }
+
+  const waiting = lockedUntil !== null && lockedUntil > now;
+
+  const showResult = (result: UnlockResult) => {
+    if (result.ok) return;
+    setSecret("");
+    if (result.lockedUntil) {
+      setLockedUntil(result.lockedUntil);
+      setNow(Date.now());
+      setMessage("Too many tries. Take a breath and try again in a bit.");
+    } else if (result.reason === "unverified") {
+      setMessage("Sign-in didn’t finish, so the PIN is still set.");
+    } else if (result.reason === "wrong") {
+      setMessage(
+        mode === "pin"
+          ? `That PIN isn’t right. ${result.attemptsLeft} tries before a short wait.`
+          : "That password isn’t right."
+      );
+    }
+  };
+
+  const submit = async () => {
+    if ((needsSecret && !secret) || checking || waiting) return;
+    setChecking(true);
+    try {
+      showResult(mode === "pin" ? await unlock(secret) : await resetWithPassword(secret));
+    } catch (e) {
+      console.warn("Failed to unlock", e);
+      setMessage("Something went wrong. Try again.");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const switchMode = () => {
+    setMode((m) => (m === "pin" ? "password" : "pin"));
+    setSecret("");
+    setMessage(null);
+  };
+
+  return (
+    <View style={styles.cover}>
+      <View style={styles.card}>
+        <Text style={styles.emoji}>🔐</Text>
+        <Text style={styles.title}>NeuroAura is locked</Text>
+        <Text style={styles.subtitle}>
+          {mode === "pin"
+            ? "Type your PIN to open your space."
+            : `${typesPassword ? "Type the password for" : "Sign in again to"} ${ownerEmail ?? "the account that set the PIN"}. This removes the PIN – you can set a new one in settings.`}
+        </Text>
+
+        {needsSecret && (
+          <TextInput
+            style={styles.input}
+            value={secret}
+            onChangeText={setSecret}
+            placeholder={mode === "pin" ? "PIN" : "Account password"}
+            placeholderTextColor="#9CA3AF"
+            secureTextEntry
+            keyboardType={mode === "pin" ? "number-pad" : "default"}
+            maxLength={mode === "pin" ? MAX_PIN_LENGTH : undefined}
+            autoCapitalize="none"
+            editable={!waiting}
+            onSubmitEditing={submit}
+          />
+        )}
+
+        {message && <Text style={styles.message}>{message}</Text>}
+        {waiting && (
+          <Text style={styles.message}>
+            Try again in {formatWait(lockedUntil! - now)}.
+          </Text>
+        )}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, (checking || waiting) && styles.disabled]}
+          onPress={submit}
+          disabled={checking || waiting}
+          activeOpacity={0.9}
+        >
+          {checking ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <Text style={styles.primaryText}>
+              {mode === "pin" ? "Unlock" : "Reset PIN"}
+            </Text>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity onPress={switchMode} style={styles.linkButton}>
+          <Text style={styles.linkText}>
+            {mode === "pin" ? "Forgot PIN?" : "Back to PIN"}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+export default AppLockScreen;
+
+const styles = StyleSheet.create({
+  cover: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: "#F0D9EF",
+    justifyContent: "center",
+    paddingHorizontal: 24,
+  },
+  card: {
+    backgroundColor: "white",
+    borderRadius: 24,
+    padding: 24,
+    alignItems: "stretch",
+  },
+  emoji: {
+    fontSize: 36,
+    textAlign: "center",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#111827",
+    textAlign: "center",
+    marginTop: 8,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: "#4B5563",
+    textAlign: "center",
+    marginTop: 6,
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: "#F9FAFB",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 18,
+    color: "#111827",
+    textAlign: "center",
+  },
+  message: {
+    fontSize: 12,
+    color: "#B91C1C",
+    textAlign: "center",
+    marginTop: 8,
+  },
+  primaryButton: {
+    backgroundColor: "#8B5CF6",
+    borderRadius: 999,
+    paddingVertical: 12,
+    alignItems: "center",
+    marginTop: 14,
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+  primaryText: {
+    color: "white",
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  linkButton: {
+    alignItems: "center",
+    marginTop: 12,
+  },
+  linkText: {
+    color: "#6D28D9",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
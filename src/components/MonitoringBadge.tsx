@@ -0,0 +1,72 @@
+// src/components/MonitoringBadge.tsx
+// A small "monitoring is on" pill, shown while background monitoring
+// runs for the signed-in profile – or says it isn't working on this
+// phone. Tapping it opens the sensor settings.
+import React, { useEffect, useState } from "react";
+import { Text, TouchableOpacity, StyleSheet } from "react-native";
+import { useUser } from "../../context/UserContext";
+import {
+  BackgroundMonitoring,
+  monitoringUnsupported,
+  subscribeMonitoring,
+} from "../sensors/backgroundMonitor";
+
+interface Props {
+  onPress: () => void;
+}
+
+const MonitoringBadge: React.FC<Props> = ({ onPress }) => {
+  const { profile } = useUser();
+  const [monitoring, setMonitoring] = useState<BackgroundMonitoring | null>(null);
+
+  useEffect(() => subscribeMonitoring(setMonitoring), []);
+
+  if (!monitoring?.enabled || monitoring.profileId !== profile?.id) return null;
+  const unsupported = monitoringUnsupported(monitoring);
+
+  return (
+    <TouchableOpacity
+      style={[styles.badge, unsupported && styles.badgeWarning]}
+      onPress={onPress}
+      activeOpacity={0.8}
+    >
+      <Text style={[styles.dot, unsupported && styles.textWarning]}>●</Text>
+      <Text style={[styles.text, unsupported && styles.textWarning]}>
+        {unsupported
+          ? "Background monitoring unsupported on this phone"
+          : "Background monitoring on"}
+      </Text>
+    </TouchableOpacity>
+  );
+};
+
+export default MonitoringBadge;
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "center",
+    backgroundColor: "#EDE9FE",
+    borderRadius: 999,
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+  },
+  badgeWarning: {
+    backgroundColor: "#FEF3C7",
+  },
+  dot: {
+    fontSize: 10,
+    color: "#7C3AED",
+    marginRight: 6,
+  },
+  text: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#5B21B6",
+  },
+  textWarning: {
+    color: "#92400E",
+  },
+});
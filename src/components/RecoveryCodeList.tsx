@@ -0,0 +1,111 @@
+// src/components/RecoveryCodeList.tsx
+// A freshly made set of recovery codes, shown once, with a way to keep
+// them somewhere safe before moving on.
+import React from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Share,
+  Platform,
+} from "react-native";
+
+interface Props {
+  codes: string[];
+  email: string;
+  onDone: () => void;
+}
+
+const RecoveryCodeList: React.FC<Props> = ({ codes, email, onDone }) => {
+  const share = async () => {
+    try {
+      await Share.share({
+        message:
+          `NeuroAura recovery codes for ${email}\n` +
+          "Each code works once.\n\n" +
+          codes.join("\n"),
+      });
+    } catch (e) {
+      console.warn("Failed to share recovery codes", e);
+    }
+  };
+
+  return (
+    <View>
+      <Text style={styles.intro}>
+        If you forget your password, one of these lets you choose a new one.
+        Each code works once. Keep them somewhere safe – this is the only
+        time they’re shown.
+      </Text>
+      <View style={styles.grid}>
+        {codes.map((code) => (
+          <Text key={code} style={styles.code} selectable>
+            {code}
+          </Text>
+        ))}
+      </View>
+      <TouchableOpacity style={styles.secondaryButton} onPress={share}>
+        <Text style={styles.secondaryText}>Save or share them…</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.primaryButton} onPress={onDone}>
+        <Text style={styles.primaryText}>I’ve saved them →</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+export default RecoveryCodeList;
+
+const styles = StyleSheet.create({
+  intro: {
+    fontSize: 13,
+    color: "#374151",
+    marginBottom: 10,
+  },
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "space-between",
+    backgroundColor: "#F9FAFB",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    padding: 12,
+  },
+  code: {
+    width: "48%",
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#111827",
+    fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
+    letterSpacing: 1,
+    paddingVertical: 4,
+    textAlign: "center",
+  },
+  secondaryButton: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#8B5CF6",
+    paddingVertical: 10,
+    alignItems: "center",
+    marginTop: 12,
+  },
+  secondaryText: {
+    color: "#8B5CF6",
+    fontWeight: "700",
+    fontSize: 14,
+  },
+  primaryButton: {
+    backgroundColor: "#8B5CF6",
+    borderRadius: 999,
+    paddingVertical: 12,
+    alignItems: "center",
+    marginTop: 8,
+  },
+  primaryText: {
+    color: "white",
+    fontWeight: "700",
+    fontSize: 15,
+  },
+});
@@ -0,0 +1,178 @@
+// src/components/SharingEditor.tsx
+// The teen's choices for one parent link: how much of their mood to
+// show, which other things to share, and how long to hold them back.
+import React from "react";
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import {
+  DELAY_CHOICES,
+  delayLabel,
+  MOOD_LEVELS,
+  moodLevelOf,
+  NEVER_SHARED,
+  SHARE_CATEGORIES,
+  ShareCategory,
+  SharingChoice,
+  withMoodLevel,
+} from "../pairing/types";
+
+interface Props {
+  value: SharingChoice;
+  onChange: (next: SharingChoice) => void;
+  parentName: string;
+}
+
+const SharingEditor: React.FC<Props> = ({ value, onChange, parentName }) => {
+  const moodLevel = moodLevelOf(value.categories);
+
+  const toggle = (key: ShareCategory) =>
+    onChange({
+      ...value,
+      categories: value.categories.includes(key)
+        ? value.categories.filter((c) => c !== key)
+        : [...value.categories, key],
+    });
+
+  return (
+    <View>
+      <Text style={styles.sectionTitle}>Your moods</Text>
+      <View style={styles.chipRow}>
+        {MOOD_LEVELS.map((level) => {
+          const active = level.key === moodLevel;
+          return (
+            <TouchableOpacity
+              key={level.key}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() =>
+                onChange({ ...value, categories: withMoodLevel(value.categories, level.key) })
+              }
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                {level.title}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <Text style={styles.detail}>
+        {MOOD_LEVELS.find((l) => l.key === moodLevel)?.detail}
+      </Text>
+
+      <Text style={styles.sectionTitle}>Also share</Text>
+      {SHARE_CATEGORIES.map((c) => {
+        const on = value.categories.includes(c.key);
+        return (
+          <TouchableOpacity
+            key={c.key}
+            style={[styles.option, on && styles.optionOn]}
+            onPress={() => toggle(c.key)}
+          >
+            <Text style={styles.optionTitle}>
+              {on ? "☑︎" : "☐"} {c.title}
+            </Text>
+            <Text style={styles.optionBody}>{c.detail}</Text>
+          </TouchableOpacity>
+        );
+      })}
+
+      <Text style={styles.sectionTitle}>Delay</Text>
+      <View style={styles.chipRow}>
+        {DELAY_CHOICES.map((minutes) => {
+          const active = minutes === value.delayMinutes;
+          return (
+            <TouchableOpacity
+              key={minutes}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => onChange({ ...value, delayMinutes: minutes })}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                {delayLabel(minutes)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <Text style={styles.detail}>
+        {value.delayMinutes === 0
+          ? `${parentName} sees things as soon as they sync.`
+          : `${parentName} sees things ${delayLabel(value.delayMinutes)} later. Sensor alerts and red-zone check-ins still show straight away.`}
+      </Text>
+
+      <Text style={styles.sectionTitle}>Never shared</Text>
+      {NEVER_SHARED.map((item) => (
+        <Text key={item} style={styles.muted}>
+          ✗ {item}
+        </Text>
+      ))}
+    </View>
+  );
+};
+
+export default SharingEditor;
+
+const styles = StyleSheet.create({
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#374151",
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginTop: 4,
+  },
+  chip: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+    backgroundColor: "white",
+  },
+  chipActive: {
+    backgroundColor: "#8B5CF6",
+    borderColor: "#8B5CF6",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#4B5563",
+    fontWeight: "600",
+  },
+  chipTextActive: {
+    color: "white",
+  },
+  detail: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  option: {
+    backgroundColor: "#F9FAFB",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    padding: 12,
+    marginTop: 8,
+  },
+  optionOn: {
+    backgroundColor: "#EEF2FF",
+    borderColor: "#8B5CF6",
+  },
+  optionTitle: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#1E1B4B",
+  },
+  optionBody: {
+    fontSize: 12,
+    color: "#4B5563",
+    marginTop: 2,
+  },
+  muted: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,124 @@
+// src/components/SyncOverrideBanner.tsx
+// Tells the user when a sync replaced something they edited on this
+// device, so a check-in or schedule item doesn't silently change.
+import React, { useEffect, useRef, useState } from "react";
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { useUser } from "../../context/UserContext";
+import { domainEvents } from "../events/eventBus";
+import type { RemoteOverride } from "../sync/merge";
+
+const AUTO_HIDE_MS = 12_000;
+const MAX_LINES = 3;
+
+const FIELD_LABELS: Record<string, string> = {
+  sleepQuality: "sleep",
+  completed: "done / not done",
+};
+
+function describe(override: RemoteOverride): string {
+  if (override.fields.includes("deleted")) return `${override.label} was deleted`;
+  if (override.fields.includes("restored")) {
+    return `${override.label} was brought back after you deleted it`;
+  }
+  const fields = override.fields.map((f) => FIELD_LABELS[f] ?? f).join(", ");
+  return `${override.label}: ${fields} changed`;
+}
+
+const SyncOverrideBanner: React.FC = () => {
+  const { profile } = useUser();
+  const profileId = profile?.id ?? null;
+  const [overrides, setOverrides] = useState<RemoteOverride[]>([]);
+  const hideTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    setOverrides([]);
+    const off = domainEvents.on("sync.overridden", (evt) => {
+      if (evt.profileId !== profileId) return;
+      setOverrides((prev) => {
+        const incoming = new Set(evt.overrides.map((o) => `${o.kind}:${o.id}`));
+        return [
+          ...evt.overrides,
+          ...prev.filter((o) => !incoming.has(`${o.kind}:${o.id}`)),
+        ];
+      });
+      if (hideTimer.current) clearTimeout(hideTimer.current);
+      hideTimer.current = setTimeout(() => setOverrides([]), AUTO_HIDE_MS);
+    });
+    return () => {
+      off();
+      if (hideTimer.current) clearTimeout(hideTimer.current);
+    };
+  }, [profileId]);
+
+  if (overrides.length === 0) return null;
+
+  const shown = overrides.slice(0, MAX_LINES);
+  const more = overrides.length - shown.length;
+
+  return (
+    <View style={styles.wrapper} pointerEvents="box-none">
+      <View style={styles.banner}>
+        <Text style={styles.title}>🔄 Changed on another device</Text>
+        {shown.map((o) => (
+          <Text key={`${o.kind}:${o.id}`} style={styles.line} numberOfLines={2}>
+            • {describe(o)}
+          </Text>
+        ))}
+        {more > 0 && <Text style={styles.line}>…and {more} more</Text>}
+        <TouchableOpacity
+          onPress={() => setOverrides([])}
+          style={styles.okButton}
+          activeOpacity={0.85}
+        >
+          <Text style={styles.okText}>OK</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+export default SyncOverrideBanner;
+
+const styles = StyleSheet.create({
+  wrapper: {
+    position: "absolute",
+    top: 48,
+    left: 16,
+    right: 16,
+  },
+  banner: {
+    backgroundColor: "#FFF7E6",
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#FDE2B3",
+    padding: 14,
+    shadowColor: "#000",
+    shadowOpacity: 0.12,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 3 },
+    elevation: 5,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#2d3436",
+    marginBottom: 6,
+  },
+  line: {
+    fontSize: 13,
+    color: "#636e72",
+    marginBottom: 2,
+  },
+  okButton: {
+    alignSelf: "flex-end",
+    marginTop: 8,
+    backgroundColor: "#6C5CE7",
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 14,
+  },
+  okText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+});
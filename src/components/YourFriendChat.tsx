@@ -1,5 +1,5 @@
 // src/components/YourFriendChat.tsx
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import {
   View,
   Text,
@@ -13,18 +13,54 @@ import {
   StyleSheet,
 } from "react-native";
 import { sendToComet, ChatMessage } from "../api/cometClient";
+import { getRepository } from "../storage";
+import { useUser } from "../../context/UserContext";
+import { useAppLock } from "../../context/AppLockContext";
+import { shareChat } from "../pairing/pairingClient";
+
+const GREETING: ChatMessage = {
+  role: "assistant",
+  content:
+    "Hi, I’m Your Friend 🧸. You can tell me whatever you’re comfortable sharing. What’s on your mind right now?",
+};
 
 const YourFriendChat: React.FC = () => {
+  const { profile } = useUser();
+  const { locked } = useAppLock();
+  const profileId = profile?.id || "guest";
+
   const [isOpen, setIsOpen] = useState(false);
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      role: "assistant",
-      content:
-        "Hi, I’m Your Friend 🧸. You can tell me whatever you’re comfortable sharing. What’s on your mind right now?",
-    },
-  ]);
+  const [messages, setMessages] = useState<ChatMessage[]>([GREETING]);
   const [input, setInput] = useState("");
   const [loading, setLoading] = useState(false);
+  // profile whose history is currently in `messages`
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+
+  // Restore this profile's previous conversation
+  useEffect(() => {
+    let cancelled = false;
+    setHistoryFor(null);
+    setMessages([GREETING]);
+    (async () => {
+      try {
+        const stored = await getRepository().loadChat(profileId);
+        if (!cancelled && stored.length > 0) setMessages(stored);
+      } catch (e) {
+        console.warn("Failed to load chat history", e);
+      }
+      if (!cancelled) setHistoryFor(profileId);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId]);
+
+  useEffect(() => {
+    if (historyFor !== profileId) return;
+    getRepository()
+      .saveChat(profileId, messages)
+      .catch((e) => console.warn("Failed to save chat history", e));
+  }, [messages, historyFor, profileId]);
 
   const toggleOpen = () => setIsOpen((prev) => !prev);
 
@@ -43,6 +79,12 @@ const YourFriendChat: React.FC = () => {
       const reply = await sendToComet(updatedConversation);
       const botMsg: ChatMessage = { role: "assistant", content: reply };
       setMessages((prev) => [...prev, botMsg]);
+      // only reaches a parent if the teen chose to share the chat
+      if (profile?.role === "under18") {
+        shareChat(profileId, [...updatedConversation, botMsg]).catch((e) =>
+          console.warn("Failed to share chat", e)
+        );
+      }
     } catch (error) {
       console.error(error);
       const fallback: ChatMessage = {
@@ -56,6 +98,9 @@ const YourFriendChat: React.FC = () => {
     }
   };
 
+  // the chat is private – a modal would show above the lock screen
+  if (locked) return null;
+
   return (
     <>
       {/* Floating "Your Friend" button */}
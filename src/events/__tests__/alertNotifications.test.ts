@@ -0,0 +1,65 @@
+// src/events/__tests__/alertNotifications.test.ts
+import * as Notifications from "expo-notifications";
+import type { AlertEvent } from "../../../context/UserContext";
+import { subscribeAlertNotifications } from "../alertNotifications";
+import { createEventBus, DomainEvents } from "../eventBus";
+
+jest.mock("expo-notifications", () => ({
+  scheduleNotificationAsync: jest.fn(() => Promise.resolve("id")),
+  SchedulableTriggerInputTypes: { TIME_INTERVAL: "timeInterval" },
+}));
+
+const schedule = Notifications.scheduleNotificationAsync as jest.Mock;
+
+const alert = (fields: Partial<AlertEvent> = {}): AlertEvent => ({
+  id: "a1",
+  type: "shake",
+  message: "Phone shaken hard",
+  timestamp: 1,
+  ...fields,
+});
+
+// lets the async handler finish
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("subscribeAlertNotifications", () => {
+  beforeEach(() => schedule.mockClear());
+
+  it("notifies about a raised alert on the bus it's given", async () => {
+    const bus = createEventBus<DomainEvents>();
+    subscribeAlertNotifications(bus);
+    bus.emit("alert.raised", { profileId: "p1", alert: alert() });
+    await settle();
+    expect(schedule).toHaveBeenCalledTimes(1);
+    expect(schedule.mock.calls[0][0].content.data).toEqual({
+      type: "high_risk_shake",
+      alertId: "a1",
+    });
+  });
+
+  it("schedules the follow-up for alerts that have one", async () => {
+    const bus = createEventBus<DomainEvents>();
+    subscribeAlertNotifications(bus);
+    bus.emit("alert.raised", { profileId: "p1", alert: alert({ type: "noise_high" }) });
+    await settle();
+    expect(schedule).toHaveBeenCalledTimes(2);
+  });
+
+  it("skips alerts that were already notified or are silenced", async () => {
+    const bus = createEventBus<DomainEvents>();
+    subscribeAlertNotifications(bus);
+    bus.emit("alert.raised", { profileId: "p1", alert: alert({ notifiedAt: 2 }) });
+    bus.emit("alert.raised", { profileId: "p1", alert: alert({ silenced: true }) });
+    await settle();
+    expect(schedule).not.toHaveBeenCalled();
+  });
+
+  it("stops when unsubscribed", async () => {
+    const bus = createEventBus<DomainEvents>();
+    const off = subscribeAlertNotifications(bus);
+    off();
+    bus.emit("alert.raised", { profileId: "p1", alert: alert() });
+    await settle();
+    expect(schedule).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,84 @@
+// src/events/__tests__/eventBus.test.ts
+import { createEventBus } from "../eventBus";
+
+interface TestEvents {
+  ping: { n: number };
+  pong: { n: number };
+}
+
+describe("createEventBus", () => {
+  let warn: jest.SpyInstance;
+  beforeEach(() => {
+    warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+  afterEach(() => warn.mockRestore());
+
+  it("calls handlers in the order they subscribed, with the payload", () => {
+    const bus = createEventBus<TestEvents>();
+    const calls: string[] = [];
+    bus.on("ping", ({ n }) => {
+      calls.push(`first ${n}`);
+    });
+    bus.on("ping", ({ n }) => {
+      calls.push(`second ${n}`);
+    });
+    bus.emit("ping", { n: 1 });
+    expect(calls).toEqual(["first 1", "second 1"]);
+  });
+
+  it("only calls handlers for the emitted type", () => {
+    const bus = createEventBus<TestEvents>();
+    const pong = jest.fn();
+    bus.on("pong", pong);
+    bus.emit("ping", { n: 1 });
+    expect(pong).not.toHaveBeenCalled();
+  });
+
+  it("stops calling a handler once it unsubscribes", () => {
+    const bus = createEventBus<TestEvents>();
+    const handler = jest.fn();
+    const off = bus.on("ping", handler);
+    bus.emit("ping", { n: 1 });
+    off();
+    bus.emit("ping", { n: 2 });
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith({ n: 1 });
+  });
+
+  it("finishes an emit with the handlers it started with", () => {
+    const bus = createEventBus<TestEvents>();
+    const late = jest.fn();
+    const second = jest.fn();
+    bus.on("ping", () => {
+      offSecond();
+      bus.on("ping", late);
+    });
+    const offSecond = bus.on("ping", second);
+    bus.emit("ping", { n: 1 });
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(late).not.toHaveBeenCalled();
+  });
+
+  it("keeps going when a handler throws or rejects", async () => {
+    const bus = createEventBus<TestEvents>();
+    const after = jest.fn();
+    bus.on("ping", () => {
+      throw new Error("boom");
+    });
+    bus.on("ping", () => Promise.reject(new Error("async boom")));
+    bus.on("ping", after);
+    expect(() => bus.emit("ping", { n: 1 })).not.toThrow();
+    expect(after).toHaveBeenCalledTimes(1);
+    await Promise.resolve();
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  it("drops every handler on clear", () => {
+    const bus = createEventBus<TestEvents>();
+    const handler = jest.fn();
+    bus.on("ping", handler);
+    bus.clear();
+    bus.emit("ping", { n: 1 });
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
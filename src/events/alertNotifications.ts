@@ -0,0 +1,95 @@
+// src/events/alertNotifications.ts
+// Local notifications for sensor alerts, driven by "alert.raised".
+// The sensors only detect and log; this decides what the user sees.
+// Background monitoring runs without the app and notifies directly.
+
+import * as Notifications from "expo-notifications";
+import type { AlertEventType } from "../../context/UserContext";
+import { domainEvents, DomainEvents, EventBus } from "./eventBus";
+
+interface AlertNotification {
+  title: string;
+  body: string;
+  // kept in the notification data for older listeners
+  dataType: string;
+  // optional nudge to check in a little later
+  followUp?: { title: string; body: string; dataType: string; afterSeconds: number };
+}
+
+const ALERT_NOTIFICATIONS: Partial<Record<AlertEventType, AlertNotification>> = {
+  shake: {
+    title: "NeuroAura: big feelings detected 💛",
+    body:
+      "It felt like your phone was shaken really hard. If you’re upset or overwhelmed, try a slow breath and open NeuroAura to use your calm tools. You’re doing your best and that’s enough.",
+    dataType: "high_risk_shake",
+  },
+  noise_high: {
+    title: "NeuroAura: this place is VERY loud 🚨",
+    body:
+      "The sound level here is extremely high. If noise is a trigger for you, try moving to a quieter spot or using headphones. You’re allowed to protect your senses.",
+    dataType: "noise_high",
+    followUp: {
+      title: "NeuroAura: quick check-in 💭",
+      body:
+        "That place was really loud a moment ago. Are you still feeling overwhelmed, or is it a bit better now? If you want, open NeuroAura and log how you feel so I can support you.",
+      dataType: "noise_followup",
+      afterSeconds: 90,
+    },
+  },
+  light_high: {
+    title: "NeuroAura: light is very harsh here 🌞",
+    body:
+      "The brightness around your device is really intense. If bright light triggers headaches or sensory overload, try moving to shade, dimming your screen, or using tinted glasses.",
+    dataType: "light_high",
+  },
+};
+
+// Shows the notification for one alert type (with its follow-up)
+export async function showAlertNotification(type: AlertEventType, alertId?: string) {
+  const config = ALERT_NOTIFICATIONS[type];
+  if (!config) return;
+
+  await Notifications.scheduleNotificationAsync({
+    content: {
+      title: config.title,
+      body: config.body,
+      sound: "default",
+      data: { type: config.dataType, alertId },
+    },
+    trigger: null,
+  });
+
+  if (config.followUp) {
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: config.followUp.title,
+        body: config.followUp.body,
+        sound: "default",
+        data: { type: config.followUp.dataType, alertId },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+        seconds: config.followUp.afterSeconds,
+      },
+    });
+  }
+}
+
+// Returns an unsubscribe function
+export function subscribeAlertNotifications(
+  bus: EventBus<DomainEvents> = domainEvents
+): () => void {
+  return bus.on("alert.raised", async ({ alert }) => {
+    // background monitoring already told them, or they're snoozed
+    if (alert.notifiedAt || alert.silenced) return;
+    await showAlertNotification(alert.type, alert.id);
+  });
+}
+
+// The alert a tapped notification was about, if any
+export function alertIdFromResponse(
+  response: Notifications.NotificationResponse
+): string | null {
+  const id = response.notification.request.content.data?.alertId;
+  return typeof id === "string" ? id : null;
+}
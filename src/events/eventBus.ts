@@ -0,0 +1,88 @@
+// src/events/eventBus.ts
+// Typed in-process event bus. UserContext emits domain events; anything
+// that wants to react (notifications, parent sync, rewards, analytics)
+// subscribes on its own instead of being wired into the watchers.
+
+import type { AlertEvent, CheckIn } from "../../context/UserContext";
+import type { ScheduleItem } from "../storage/types";
+import type { RemoteOverride } from "../sync/merge";
+
+// Event name -> payload. profileId is the active profile when the
+// event happened (null = nobody signed in).
+export interface DomainEvents {
+  "checkin.created": { profileId: string | null; checkIn: CheckIn };
+  "checkin.updated": { profileId: string | null; checkIn: CheckIn };
+  "checkin.deleted": { profileId: string | null; checkIn: CheckIn };
+  "alert.raised": { profileId: string | null; alert: AlertEvent };
+  "alert.acknowledged": { profileId: string | null; alert: AlertEvent };
+  // records restored from a backup that this profile didn't have yet
+  // (not "created" / "raised" – nothing should notify about them again)
+  "data.imported": { profileId: string; checkIns: CheckIn[]; alerts: AlertEvent[] };
+  // the whole saved list after a user change (not on plain loads),
+  // and the list as it was saved before that change
+  "schedule.changed": {
+    profileId: string;
+    items: ScheduleItem[];
+    previous: ScheduleItem[];
+  };
+  // the stored schedule was updated from another device
+  "schedule.synced": { profileId: string; items: ScheduleItem[] };
+  // changes from another device replaced edits made on this one
+  "sync.overridden": { profileId: string; overrides: RemoteOverride[] };
+}
+
+export type DomainEventType = keyof DomainEvents;
+
+export type EventHandler<P> = (payload: P) => void | Promise<void>;
+
+export interface EventBus<E> {
+  // Returns an unsubscribe function
+  on<K extends keyof E>(type: K, handler: EventHandler<E[K]>): () => void;
+  emit<K extends keyof E>(type: K, payload: E[K]): void;
+  // Drops every handler (handy between tests)
+  clear(): void;
+}
+
+export function createEventBus<E>(): EventBus<E> {
+  const handlers = new Map<keyof E, Set<EventHandler<any>>>();
+
+  return {
+    on(type, handler) {
+      let set = handlers.get(type);
+      if (!set) {
+        set = new Set();
+        handlers.set(type, set);
+      }
+      set.add(handler);
+      return () => {
+        set?.delete(handler);
+      };
+    },
+
+    // A failing subscriber is logged and never affects the others
+    // (or the code that emitted).
+    emit(type, payload) {
+      const set = handlers.get(type);
+      if (!set) return;
+      for (const handler of Array.from(set)) {
+        try {
+          const result = handler(payload);
+          if (result && typeof (result as Promise<void>).catch === "function") {
+            (result as Promise<void>).catch((e) =>
+              console.warn(`Handler for ${String(type)} failed`, e)
+            );
+          }
+        } catch (e) {
+          console.warn(`Handler for ${String(type)} failed`, e);
+        }
+      }
+    },
+
+    clear() {
+      handlers.clear();
+    },
+  };
+}
+
+// The app-wide bus
+export const domainEvents = createEventBus<DomainEvents>();
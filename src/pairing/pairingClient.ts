@@ -0,0 +1,217 @@
+// src/pairing/pairingClient.ts
+// Pairing calls to the sync server, each made as one of this device's
+// profiles (with its key – see sync/profileKeys.ts). Every error thrown
+// here has a message that can be shown to the user.
+
+import type { AlertEvent } from "../../context/UserContext";
+import type { ChatMessage } from "../api/cometClient";
+import type { ScheduleItem } from "../storage/types";
+import { applyRemoteAlerts, applyRemoteSchedule } from "../sync/applyRemote";
+import { getSyncConfig, request, SyncConfig } from "../sync/syncClient";
+import { profileKeyFor } from "../sync/profileKeys";
+import type { RemoteChange } from "../sync/types";
+import type {
+  PairingCode,
+  PairingLink,
+  SharedChatMessage,
+  SharedCheckIn,
+  SharingChoice,
+} from "./types";
+
+function requireConfig(): SyncConfig {
+  const config = getSyncConfig();
+  if (!config) {
+    throw new Error(
+      "Linking needs a sync server. Start the app with EXPO_PUBLIC_SYNC_URL set (see the README)."
+    );
+  }
+  return config;
+}
+
+async function call<T>(profileId: string, path: string, init: RequestInit = {}): Promise<T> {
+  const config = requireConfig();
+  const profileKey = await profileKeyFor(config, profileId);
+  let res: Response;
+  try {
+    res = await request(config, path, {
+      ...init,
+      headers: { ...(init.headers as Record<string, string>), "X-Profile-Key": profileKey },
+    });
+  } catch {
+    throw new Error("Couldn’t reach the sync server. Check your connection and try again.");
+  }
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new Error(body?.error || `The sync server said no (HTTP ${res.status}).`);
+  }
+  return body as T;
+}
+
+const post = <T>(profileId: string, path: string, body: unknown = {}) =>
+  call<T>(profileId, path, { method: "POST", body: JSON.stringify(body) });
+
+export const isPairingAvailable = () => getSyncConfig() !== null;
+
+// Parent: a short-lived code for the teen to type in
+export function createPairingCode(
+  parentProfileId: string,
+  parentName: string
+): Promise<PairingCode> {
+  return post(parentProfileId, "/v1/pairing-codes", { parentName });
+}
+
+// Teen: who a code belongs to, before agreeing to anything
+export function lookupPairingCode(
+  code: string,
+  childProfileId: string
+): Promise<{ parentName: string; expiresAt: number }> {
+  return call(
+    childProfileId,
+    `/v1/pairing-codes/${encodeURIComponent(code.trim().toUpperCase())}`
+  );
+}
+
+interface ChildDetails {
+  profileId: string;
+  name: string;
+  // only sent on if "sensitivities" is shared
+  sensitivities: string[];
+}
+
+export async function acceptPairingCode(
+  code: string,
+  child: ChildDetails,
+  sharing: SharingChoice
+): Promise<PairingLink> {
+  const { link } = await post<{ link: PairingLink }>(
+    child.profileId,
+    `/v1/pairing-codes/${encodeURIComponent(code.trim().toUpperCase())}/accept`,
+    {
+      childName: child.name,
+      sensitivities: child.sensitivities,
+      ...sharing,
+    }
+  );
+  return link;
+}
+
+// Teen: change what an existing link shares
+export async function updateSharing(
+  linkId: string,
+  child: Omit<ChildDetails, "name">,
+  sharing: SharingChoice
+): Promise<PairingLink> {
+  const { link } = await post<{ link: PairingLink }>(
+    child.profileId,
+    `/v1/links/${encodeURIComponent(linkId)}/sharing`,
+    { sensitivities: child.sensitivities, ...sharing }
+  );
+  return link;
+}
+
+export async function listLinks(profileId: string): Promise<PairingLink[]> {
+  const { links } = await call<{ links: PairingLink[] }>(
+    profileId,
+    `/v1/profiles/${encodeURIComponent(profileId)}/links`
+  );
+  return Array.isArray(links) ? links : [];
+}
+
+export async function confirmLink(linkId: string, parentProfileId: string) {
+  const { link } = await post<{ link: PairingLink }>(
+    parentProfileId,
+    `/v1/links/${encodeURIComponent(linkId)}/confirm`
+  );
+  return link;
+}
+
+// Either side can end a link at any time
+export async function revokeLink(linkId: string, profileId: string) {
+  const { link } = await post<{ link: PairingLink }>(
+    profileId,
+    `/v1/links/${encodeURIComponent(linkId)}/revoke`
+  );
+  return link;
+}
+
+export interface SharedData {
+  checkIns: SharedCheckIn[];
+  alerts: AlertEvent[];
+  schedule: ScheduleItem[];
+  // null unless the teen shares the chat
+  chat: SharedChatMessage[] | null;
+}
+
+// Shared check-ins come without field stamps, so they can't be merged
+// field by field. They don't need to be: the teen's devices upload the
+// merged record, and the latest upload (highest seq) is the current one.
+function foldSharedCheckIns(
+  byId: Map<string, SharedCheckIn>,
+  changes: RemoteChange[]
+) {
+  for (const change of changes) {
+    if (change.kind === "checkin.upsert") {
+      const checkIn = change.payload as unknown as SharedCheckIn;
+      byId.set(checkIn.id, checkIn);
+    } else if (change.kind === "checkin.delete") {
+      byId.delete((change.payload as { id: string }).id);
+    }
+  }
+}
+
+// Parent: everything the teen shares through this link. Always read
+// from the start, since delayed changes turn up behind the cursor.
+export async function loadSharedData(
+  link: PairingLink,
+  parentProfileId: string
+): Promise<SharedData> {
+  const linkPath = `/v1/links/${encodeURIComponent(link.id)}`;
+  let since = 0;
+  const checkIns = new Map<string, SharedCheckIn>();
+  let alerts: AlertEvent[] = [];
+  let schedule: ScheduleItem[] = [];
+  for (;;) {
+    const page = await call<{ changes: RemoteChange[]; cursor: number; hasMore: boolean }>(
+      parentProfileId,
+      `${linkPath}/changes?since=${since}`
+    );
+    foldSharedCheckIns(checkIns, page.changes);
+    alerts = applyRemoteAlerts(alerts, page.changes);
+    schedule = applyRemoteSchedule(schedule, page.changes).records;
+    since = page.cursor;
+    if (!page.hasMore) break;
+  }
+  let chat: SharedChatMessage[] | null = null;
+  if (link.categories.includes("chat")) {
+    ({ messages: chat } = await call<{ messages: SharedChatMessage[] }>(
+      parentProfileId,
+      `${linkPath}/chat`
+    ));
+  }
+  return {
+    checkIns: Array.from(checkIns.values()).sort((a, b) => b.timestamp - a.timestamp),
+    alerts,
+    schedule,
+    chat,
+  };
+}
+
+// Teen: hands the recent chat to every active link that shares it.
+// Quietly does nothing if there's no server or no such link.
+export async function shareChat(profileId: string, messages: ChatMessage[]) {
+  if (!isPairingAvailable()) return;
+  const links = await listLinks(profileId);
+  const sharing = links.filter(
+    (l) =>
+      l.childProfileId === profileId &&
+      l.status === "active" &&
+      l.categories.includes("chat")
+  );
+  const body = JSON.stringify({ messages });
+  for (const link of sharing) {
+    await call(profileId, `/v1/links/${encodeURIComponent(link.id)}/chat`, {
+      method: "PUT",
+      body,
+    });
+  }
+}
@@ -0,0 +1,168 @@
+// src/pairing/types.ts
+// Parent–teen links as the sync server stores them (server/sync-server.js)
+
+import type {
+  CheckInSource,
+  MoodIntensity,
+  MoodType,
+  SleepQuality,
+} from "../../context/UserContext";
+
+// "zone" and "moods" are two levels of the same thing, so a link has
+// at most one of them
+export type ShareCategory =
+  | "zone"
+  | "moods"
+  | "symptoms"
+  | "sleep"
+  | "alerts"
+  | "schedule"
+  | "sensitivities"
+  | "chat";
+
+export type MoodLevel = "off" | "zone" | "moods";
+
+export const MOOD_LEVELS: { key: MoodLevel; title: string; detail: string }[] = [
+  { key: "off", title: "Nothing", detail: "Your moods stay private." },
+  {
+    key: "zone",
+    title: "Zone only",
+    detail: "Just green, yellow or red – not which mood you picked.",
+  },
+  {
+    key: "moods",
+    title: "Full mood",
+    detail: "Which mood you picked, how strong it was and when.",
+  },
+];
+
+// Everything apart from the mood level, in the order the teen sees it
+export const SHARE_CATEGORIES: {
+  key: Exclude<ShareCategory, "zone" | "moods">;
+  title: string;
+  detail: string;
+}[] = [
+  {
+    key: "symptoms",
+    title: "Body signals 🫀",
+    detail: "What you ticked under body feelings.",
+  },
+  {
+    key: "sleep",
+    title: "Sleep 💤",
+    detail: "How you said you slept.",
+  },
+  {
+    key: "alerts",
+    title: "Sensor alerts 🚨",
+    detail: "When the phone noticed shaking, loud noise or bright light.",
+  },
+  {
+    key: "schedule",
+    title: "Schedule 📅",
+    detail: "Your calendar items and which ones are done.",
+  },
+  {
+    key: "sensitivities",
+    title: "Sensitivities & triggers 🎧",
+    detail: "The sensitivities and allergies in your profile.",
+  },
+  {
+    key: "chat",
+    title: "Chats with Your Friend 🧸",
+    detail: "Your recent messages and its replies. Most people keep this private.",
+  },
+];
+
+// Never leaves the teen's device through a link, whatever they pick
+export const NEVER_SHARED = ["Notes you write in check-ins", "Screen time"];
+
+// Chat is never on unless the teen turns it on
+export const DEFAULT_SHARE: ShareCategory[] = ["zone", "alerts"];
+
+// How long non-urgent data waits before a parent can see it, in
+// minutes. Alerts and red-zone check-ins always show straight away.
+export const DELAY_CHOICES = [0, 60, 240, 720, 1440];
+
+export function delayLabel(minutes: number): string {
+  if (minutes === 0) return "No delay";
+  if (minutes < 60) return `${minutes} min`;
+  const hours = minutes / 60;
+  return hours === 24 ? "1 day" : `${hours} h`;
+}
+
+export function moodLevelOf(categories: ShareCategory[]): MoodLevel {
+  if (categories.includes("moods")) return "moods";
+  if (categories.includes("zone")) return "zone";
+  return "off";
+}
+
+export function withMoodLevel(
+  categories: ShareCategory[],
+  level: MoodLevel
+): ShareCategory[] {
+  const rest = categories.filter((c) => c !== "zone" && c !== "moods");
+  return level === "off" ? rest : [level, ...rest];
+}
+
+export type LinkStatus = "pending" | "active" | "revoked";
+
+export interface PairingLink {
+  id: string;
+  parentProfileId: string;
+  parentName: string;
+  childProfileId: string;
+  childName: string;
+  categories: ShareCategory[];
+  delayMinutes: number;
+  // the teen's, while they share them
+  sensitivities: string[];
+  // pending = the teen accepted, the parent hasn't confirmed yet
+  status: LinkStatus;
+  createdAt: number;
+  confirmedAt?: number;
+  revokedAt?: number;
+  revokedBy?: "parent" | "child";
+  sharingUpdatedAt?: number;
+}
+
+// What the teen chose, as sent to the server
+export interface SharingChoice {
+  categories: ShareCategory[];
+  delayMinutes: number;
+}
+
+export interface PairingCode {
+  code: string;
+  expiresAt: number;
+}
+
+export type StressZone = "green" | "yellow" | "red";
+
+// A teen's check-in as a linked parent receives it: the zone the teen's
+// device worked out, without any field the teen doesn't share
+export interface SharedCheckIn {
+  id: string;
+  timestamp: number;
+  source: CheckInSource;
+  // missing for check-ins uploaded before devices sent it
+  zone?: StressZone;
+  updatedAt?: number;
+  mood?: MoodType;
+  intensity?: MoodIntensity;
+  symptoms?: string[];
+  sleepQuality?: SleepQuality;
+}
+
+export interface SharedChatMessage {
+  role: "user" | "assistant";
+  content: string;
+  // when the server first got it
+  at: number;
+}
+
+export function categoryTitle(key: ShareCategory): string {
+  if (key === "zone") return "Mood zone only 🚦";
+  if (key === "moods") return "Full mood 🙂";
+  return SHARE_CATEGORIES.find((c) => c.key === key)?.title ?? key;
+}
@@ -0,0 +1,84 @@
+// src/privacy/deleteAllData.ts
+// "Delete everything": wipes every profile's data and every login on
+// this device, and reports what was removed so the user can see it.
+
+import { deleteAllUsers } from "../auth/accountStore";
+import { clearSession } from "../auth/session";
+import { removePin } from "../auth/appLock";
+import { getAuthProvider } from "../auth/providers";
+import { getRepository, summarizeProfileData } from "../storage";
+import { syncService } from "../sync/syncService";
+import { forgetProfileKey } from "../sync/profileKeys";
+import { forgetMonitoring } from "../sensors/backgroundMonitor";
+
+export interface DeletionReport {
+  profiles: number;
+  accounts: number;
+  checkIns: number;
+  alerts: number;
+  scheduleItems: number;
+  screenTimeDays: number;
+  chatMessages: number;
+}
+
+export async function deleteAllData(): Promise<DeletionReport> {
+  const repo = getRepository();
+  const { profiles } = await repo.loadProfiles();
+
+  const report: DeletionReport = {
+    profiles: profiles.length,
+    accounts: 0,
+    checkIns: 0,
+    alerts: 0,
+    scheduleItems: 0,
+    screenTimeDays: 0,
+    chatMessages: 0,
+  };
+
+  // Counting is best-effort – a profile we can't read is still deleted
+  for (const p of profiles) {
+    try {
+      const counts = await summarizeProfileData(repo, p.id);
+      report.checkIns += counts.checkIns;
+      report.alerts += counts.alerts;
+      report.scheduleItems += counts.scheduleItems;
+      report.screenTimeDays += counts.screenTimeDays;
+      report.chatMessages += counts.chatMessages;
+    } catch (e) {
+      console.warn(`Failed to count data for profile ${p.id}`, e);
+    }
+  }
+
+  // ends (and revokes) each account's sign-in with its provider, and
+  // drops its key for the sync server
+  for (const p of profiles) {
+    if (p.email) await getAuthProvider().signOut(p.email);
+    await forgetProfileKey(p.id);
+  }
+
+  await repo.deleteEverything();
+  // drop the queued uploads it still holds in memory
+  await syncService.reset();
+  report.accounts = await deleteAllUsers();
+  await clearSession();
+  // its reset password is gone with the logins
+  await removePin();
+  // background monitoring, with anything it found but hadn't logged
+  await forgetMonitoring();
+  return report;
+}
+
+export function describeDeletion(report: DeletionReport): string {
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+  return [
+    plural(report.profiles, "profile"),
+    plural(report.accounts, "login"),
+    plural(report.checkIns, "check-in"),
+    plural(report.alerts, "sensor alert"),
+    plural(report.scheduleItems, "schedule item"),
+    plural(report.screenTimeDays, "day") + " of screen time",
+    plural(report.chatMessages, "chat message"),
+  ]
+    .map((line) => `• ${line}`)
+    .join("\n");
+}
@@ -0,0 +1,201 @@
+// src/risk/__tests__/overloadRisk.test.ts
+import {
+  assessOverloadRisk,
+  checkInZone,
+  explainRisk,
+  OverloadRisk,
+  RiskCheckIn,
+  zoneForScore,
+} from "../overloadRisk";
+import { DEFAULT_SENSOR_SETTINGS } from "../../sensors/settings";
+
+const NOW = Date.UTC(2025, 4, 12, 15, 0);
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const manual = (minutesAgo: number, fields: Partial<RiskCheckIn> = {}): RiskCheckIn => ({
+  timestamp: NOW - minutesAgo * MINUTE,
+  source: "manual",
+  ...fields,
+});
+
+const sensor = (minutesAgo: number): RiskCheckIn => ({
+  timestamp: NOW - minutesAgo * MINUTE,
+  source: "sensor",
+  mood: "overwhelmed",
+});
+
+describe("zoneForScore", () => {
+  it("splits the score at 30 and 65", () => {
+    expect(zoneForScore(0)).toBe("green");
+    expect(zoneForScore(30)).toBe("green");
+    expect(zoneForScore(31)).toBe("yellow");
+    expect(zoneForScore(65)).toBe("yellow");
+    expect(zoneForScore(66)).toBe("red");
+    expect(zoneForScore(100)).toBe("red");
+  });
+});
+
+describe("assessOverloadRisk", () => {
+  it("is green with no factors when there's nothing to go on", () => {
+    const risk = assessOverloadRisk({ now: NOW, checkIns: [] });
+    expect(risk).toEqual({ score: 0, zone: "green", factors: [] });
+  });
+
+  it("scores the latest mood, scaled by intensity", () => {
+    expect(assessOverloadRisk({ now: NOW, checkIns: [manual(5, { mood: "angry" })] })).toEqual({
+      score: 80,
+      zone: "red",
+      factors: [{ kind: "mood", points: 80, label: "Feeling angry" }],
+    });
+    const strong = assessOverloadRisk({
+      now: NOW,
+      checkIns: [manual(5, { mood: "angry", intensity: 5 })],
+    });
+    expect(strong.score).toBe(96);
+    const mild = assessOverloadRisk({
+      now: NOW,
+      checkIns: [manual(5, { mood: "calm", intensity: 1 })],
+    });
+    expect(mild.score).toBe(12);
+  });
+
+  it("weighs the newest of the last few check-ins most", () => {
+    const risk = assessOverloadRisk({
+      now: NOW,
+      checkIns: [manual(90, { mood: "angry" }), manual(10, { mood: "okay" })],
+    });
+    expect(risk.score).toBe(50);
+    expect(risk.zone).toBe("yellow");
+    expect(risk.factors[0].label).toBe("Feeling okay (before that: angry)");
+  });
+
+  it("ignores check-ins that are too old or in the future", () => {
+    const risk = assessOverloadRisk({
+      now: NOW,
+      checkIns: [manual(7 * 60, { mood: "angry" }), manual(-5, { mood: "angry" })],
+    });
+    expect(risk.factors).toEqual([]);
+  });
+
+  it("adds body signals from the latest check-in and last night's sleep", () => {
+    const risk = assessOverloadRisk({
+      now: NOW,
+      checkIns: [
+        manual(20 * 60, { mood: "okay", sleepQuality: "bad" }),
+        manual(5, { mood: "sad", symptoms: ["headache", "tight chest", "shaky"] }),
+      ],
+    });
+    // 55 + 3 × 5 + 10
+    expect(risk.score).toBe(80);
+    expect(risk.zone).toBe("red");
+    expect(risk.factors.map((f) => f.kind)).toEqual(["mood", "symptoms", "sleep"]);
+
+    const rested = assessOverloadRisk({
+      now: NOW,
+      checkIns: [manual(5, { mood: "okay", sleepQuality: "good" })],
+    });
+    expect(rested.score).toBe(30);
+    expect(rested.factors[1]).toEqual({ kind: "sleep", points: -5, label: "Slept well" });
+  });
+
+  it("counts sensor check-ins from the last hour as alerts, up to a cap", () => {
+    const risk = assessOverloadRisk({
+      now: NOW,
+      checkIns: [sensor(5), sensor(20), sensor(40), sensor(50), sensor(2 * 60)],
+    });
+    // sensor check-ins don't count as moods
+    expect(risk.factors).toEqual([
+      { kind: "alerts", points: 24, label: "4 sensor alerts in the last hour" },
+    ]);
+  });
+
+  it("counts the alerts it's given instead of sensor check-ins", () => {
+    const risk = assessOverloadRisk({
+      now: NOW,
+      checkIns: [sensor(5), sensor(20)],
+      alerts: [{ timestamp: NOW - 10 * MINUTE }, { timestamp: NOW - 2 * HOUR }],
+    });
+    expect(risk.factors).toEqual([
+      { kind: "alerts", points: 8, label: "1 sensor alert in the last hour" },
+    ]);
+  });
+
+  it("uses the zone of check-ins shared without their mood", () => {
+    const risk = assessOverloadRisk({
+      now: NOW,
+      checkIns: [manual(5, { zone: "red", symptoms: ["headache"] }), manual(60, { zone: "green" })],
+    });
+    // (75 + 20 × 0.5) / 1.5; the zone already counts the body signals
+    expect(risk.score).toBe(57);
+    expect(risk.factors).toEqual([
+      { kind: "mood", points: 57, label: "Checked in at red zone (before that: green zone)" },
+    ]);
+  });
+
+  it("adds current sensor levels, ignoring stale ones", () => {
+    const risk = assessOverloadRisk({
+      now: NOW,
+      checkIns: [manual(5, { mood: "okay" })],
+      sensors: {
+        levels: {
+          noise: { value: -10, at: NOW - MINUTE },
+          light: { value: 1, at: NOW - HOUR },
+        },
+        settings: DEFAULT_SENSOR_SETTINGS,
+      },
+    });
+    expect(risk.score).toBe(50);
+    expect(risk.factors[1]).toEqual({
+      kind: "noise",
+      points: 15,
+      label: "Loud surroundings (past the alert level)",
+    });
+    expect(risk.factors.some((f) => f.kind === "light")).toBe(false);
+  });
+
+  it("keeps the score within 0–100", () => {
+    const risk = assessOverloadRisk({
+      now: NOW,
+      checkIns: [
+        manual(5, { mood: "angry", intensity: 5, symptoms: ["a", "b", "c", "d"] }),
+        sensor(10),
+        sensor(20),
+        sensor(30),
+      ],
+    });
+    expect(risk.score).toBe(100);
+  });
+});
+
+describe("checkInZone", () => {
+  it("scores a check-in on its own, whoever logged it", () => {
+    expect(checkInZone(manual(0, { mood: "calm" }))).toBe("green");
+    expect(checkInZone(manual(0, { mood: "sad", symptoms: ["headache"] }))).toBe("yellow");
+    expect(checkInZone({ ...sensor(0), mood: "angry" })).toBe("red");
+  });
+});
+
+describe("explainRisk", () => {
+  const risk = (points: number[]): OverloadRisk => ({
+    score: 0,
+    zone: "green",
+    factors: points.map((p, i) => ({
+      kind: "mood",
+      points: p,
+      label: ["Feeling angry", "2 body signals", "Loud surroundings", "Bright light"][i],
+    })),
+  });
+
+  it("joins the biggest factors into a sentence", () => {
+    expect(explainRisk(risk([80, 15, 10, 5]))).toBe(
+      "Feeling angry, 2 body signals and loud surroundings"
+    );
+    expect(explainRisk(risk([80, 15, 10]), 2)).toBe("Feeling angry and 2 body signals");
+  });
+
+  it("leaves out what lowered the score", () => {
+    expect(explainRisk(risk([80, -5]))).toBe("Feeling angry");
+    expect(explainRisk(risk([]))).toBe("");
+  });
+});
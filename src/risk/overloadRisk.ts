@@ -0,0 +1,232 @@
+// src/risk/overloadRisk.ts
+// The one place overload risk is worked out. Combines the last few
+// check-ins (mood, intensity, body signals, sleep), recent sensor alerts
+// and the current sensor levels into a 0–100 score, with the factors
+// that made it up. Pure – callers pass in `now` and everything else.
+// The zone a linked parent sees is worked out here too (checkInZone) and
+// uploaded with each check-in, so the sync server never scores moods.
+
+import type { CheckIn, MoodType } from "../../context/UserContext";
+import type { StressZone } from "../pairing/types";
+import type { SensorKind, SensorSettings } from "../sensors/settings";
+
+// A check-in as far as it's known – a parent may see only some fields,
+// or just the zone instead of the mood
+export type RiskCheckIn = Pick<CheckIn, "timestamp" | "source"> &
+  Partial<Pick<CheckIn, "mood" | "intensity" | "symptoms" | "sleepQuality">> & {
+    zone?: StressZone;
+  };
+
+export interface SensorLevel {
+  value: number;
+  at: number;
+}
+
+export interface RiskInputs {
+  now: number;
+  checkIns: RiskCheckIn[];
+  // sensor alerts; when given they're counted instead of the check-ins
+  // the sensors log (a parent may see alerts but no check-ins)
+  alerts?: { timestamp: number }[];
+  // recent levels and the thresholds they're measured against
+  sensors?: {
+    levels: Partial<Record<SensorKind, SensorLevel>>;
+    settings: SensorSettings;
+  };
+}
+
+export type RiskFactorKind = "mood" | "symptoms" | "sleep" | "alerts" | SensorKind;
+
+export interface RiskFactor {
+  kind: RiskFactorKind;
+  // what it added (negative = it lowered the score)
+  points: number;
+  label: string;
+}
+
+export interface OverloadRisk {
+  score: number;
+  zone: StressZone;
+  // biggest effect first; empty when there was nothing to go on
+  factors: RiskFactor[];
+}
+
+export const MOOD_RISK: Record<MoodType, number> = {
+  calm: 15,
+  okay: 35,
+  idk: 45,
+  sad: 55,
+  overwhelmed: 70,
+  angry: 80,
+};
+
+// What a check-in shared as its zone only stands for. The zone already
+// counts that check-in's body signals and sleep.
+const ZONE_RISK: Record<StressZone, number> = { green: 20, yellow: 48, red: 75 };
+
+const MOOD_WORDS: Record<MoodType, string> = {
+  calm: "calm",
+  okay: "okay",
+  idk: "unsure",
+  sad: "low",
+  overwhelmed: "overwhelmed",
+  angry: "angry",
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+// check-ins older than this don't say much about now
+const RECENT_CHECK_INS_MS = 6 * HOUR_MS;
+// how many recent check-ins count, newest weighing most
+const CHECK_IN_WEIGHTS = [1, 0.5, 0.25];
+// last night's sleep
+const SLEEP_WINDOW_MS = 24 * HOUR_MS;
+const POINTS_PER_SYMPTOM = 5;
+const ALERT_WINDOW_MS = HOUR_MS;
+const POINTS_PER_ALERT = 8;
+const MAX_ALERT_POINTS = 24;
+// sensor levels older than this are ignored
+const SENSOR_STALE_MS = 10 * 60 * 1000;
+// most a sensor adds at or past its threshold
+const SENSOR_MAX_POINTS: Record<SensorKind, number> = { shake: 15, noise: 15, light: 10 };
+// how far below the threshold a sensor starts adding points, uncalibrated
+const SENSOR_RAMP: Record<SensorKind, number> = { shake: 0.9, noise: 20, light: 0.3 };
+const SENSOR_WORDS: Record<SensorKind, string> = {
+  shake: "Strong movement",
+  noise: "Loud surroundings",
+  light: "Bright light",
+};
+
+export function zoneForScore(score: number): StressZone {
+  if (score <= 30) return "green";
+  if (score <= 65) return "yellow";
+  return "red";
+}
+
+// 1–5, for check-ins the sensors log
+export function intensityForScore(score: number): 1 | 2 | 3 | 4 | 5 {
+  return Math.min(5, Math.max(1, Math.floor(score / 20) + 1)) as 1 | 2 | 3 | 4 | 5;
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+// 3 is a plain check-in; 1 takes a fifth off, 5 adds a fifth
+const intensityFactor = (intensity?: number) =>
+  intensity ? 1 + (intensity - 3) * 0.1 : 1;
+
+function moodFactor(recent: RiskCheckIn[]): RiskFactor | null {
+  const known = recent.filter((c) => c.mood || c.zone).slice(0, CHECK_IN_WEIGHTS.length);
+  if (known.length === 0) return null;
+  let total = 0;
+  let weights = 0;
+  known.forEach((c, i) => {
+    const risk = c.mood
+      ? MOOD_RISK[c.mood] * intensityFactor(c.intensity)
+      : ZONE_RISK[c.zone!];
+    total += risk * CHECK_IN_WEIGHTS[i];
+    weights += CHECK_IN_WEIGHTS[i];
+  });
+  const words = known.map((c) => (c.mood ? MOOD_WORDS[c.mood] : `${c.zone} zone`));
+  const first = known[0].mood ? `Feeling ${words[0]}` : `Checked in at ${words[0]}`;
+  return {
+    kind: "mood",
+    points: Math.round(total / weights),
+    label:
+      words.length === 1 ? first : `${first} (before that: ${words.slice(1).join(", ")})`,
+  };
+}
+
+function sensorFactor(
+  kind: SensorKind,
+  level: SensorLevel | undefined,
+  settings: SensorSettings,
+  now: number
+): RiskFactor | null {
+  const config = settings[kind];
+  if (!level || !config.enabled || now - level.at > SENSOR_STALE_MS) return null;
+  // points build up from what's normal for this person (a normal room,
+  // normal handling) to the threshold; uncalibrated, over a fixed step
+  const calibration = config.calibration;
+  const normal = calibration
+    ? kind === "noise"
+      ? calibration.reference
+      : calibration.baseline
+    : config.threshold - SENSOR_RAMP[kind];
+  const span = Math.max(config.threshold - normal, SENSOR_RAMP[kind] / 10);
+  const share = clamp((level.value - (config.threshold - span)) / span, 0, 1);
+  const points = Math.round(share * SENSOR_MAX_POINTS[kind]);
+  if (points === 0) return null;
+  const what = SENSOR_WORDS[kind];
+  return { kind, points, label: share >= 1 ? `${what} (past the alert level)` : what };
+}
+
+export function assessOverloadRisk(input: RiskInputs): OverloadRisk {
+  const { now, checkIns, sensors } = input;
+  const newestFirst = [...checkIns].sort((a, b) => b.timestamp - a.timestamp);
+  const manual = newestFirst.filter((c) => c.source === "manual" && c.timestamp <= now);
+  const recent = manual.filter((c) => now - c.timestamp <= RECENT_CHECK_INS_MS);
+  const factors: RiskFactor[] = [];
+
+  const mood = moodFactor(recent);
+  if (mood) factors.push(mood);
+
+  // a zone-only check-in has these in its zone already
+  const symptoms = recent[0]?.mood ? recent[0].symptoms?.length ?? 0 : 0;
+  if (symptoms > 0) {
+    factors.push({
+      kind: "symptoms",
+      points: symptoms * POINTS_PER_SYMPTOM,
+      label: symptoms === 1 ? "1 body signal" : `${symptoms} body signals`,
+    });
+  }
+
+  const sleep = manual.find(
+    (c) => c.mood && c.sleepQuality && now - c.timestamp <= SLEEP_WINDOW_MS
+  )?.sleepQuality;
+  if (sleep === "bad") factors.push({ kind: "sleep", points: 10, label: "Slept badly" });
+  if (sleep === "good") factors.push({ kind: "sleep", points: -5, label: "Slept well" });
+
+  const alertTimes = input.alerts ?? newestFirst.filter((c) => c.source === "sensor");
+  const alerts = alertTimes.filter(
+    (a) => a.timestamp <= now && now - a.timestamp <= ALERT_WINDOW_MS
+  ).length;
+  if (alerts > 0) {
+    factors.push({
+      kind: "alerts",
+      points: Math.min(MAX_ALERT_POINTS, alerts * POINTS_PER_ALERT),
+      label: alerts === 1 ? "1 sensor alert in the last hour" : `${alerts} sensor alerts in the last hour`,
+    });
+  }
+
+  if (sensors) {
+    for (const kind of ["noise", "light", "shake"] as SensorKind[]) {
+      const factor = sensorFactor(kind, sensors.levels[kind], sensors.settings, now);
+      if (factor) factors.push(factor);
+    }
+  }
+
+  const score = Math.round(
+    clamp(factors.reduce((sum, f) => sum + f.points, 0), 0, 100)
+  );
+  factors.sort((a, b) => Math.abs(b.points) - Math.abs(a.points));
+  return { score, zone: zoneForScore(score), factors };
+}
+
+// The zone of one check-in on its own, as uploaded for linked parents
+export function checkInZone(checkIn: RiskCheckIn): StressZone {
+  // a sensor check-in counts as what it logged, not as an alert
+  return assessOverloadRisk({
+    now: checkIn.timestamp,
+    checkIns: [{ ...checkIn, source: "manual", zone: undefined }],
+  }).zone;
+}
+
+// "Feeling angry, 2 body signals and loud surroundings"
+export function explainRisk(risk: OverloadRisk, max = 3): string {
+  const labels = risk.factors
+    .filter((f) => f.points > 0)
+    .slice(0, max)
+    .map((f, i) => (i === 0 ? f.label : f.label.charAt(0).toLowerCase() + f.label.slice(1)));
+  if (labels.length <= 1) return labels[0] ?? "";
+  return `${labels.slice(0, -1).join(", ")} and ${labels[labels.length - 1]}`;
+}
@@ -0,0 +1,199 @@
+// src/sensors/alertModes.ts
+// When the sensors may alert: a context mode ("school", "sports",
+// "sleeping") that turns sensors off or makes them less sensitive,
+// scheduled quiet hours and a snooze. Quiet hours and a snooze only hush
+// alerts – what the sensors notice is still logged. Pure helpers –
+// UserContext stores the settings, the sensor runners apply them.
+
+import {
+  SENSOR_INFO,
+  SENSOR_KINDS,
+  SensorKind,
+  SensorSettings,
+} from "./settings";
+
+export type AlertModeId = "everyday" | "school" | "sports" | "sleeping";
+
+export const ALERT_MODE_IDS: AlertModeId[] = ["everyday", "school", "sports", "sleeping"];
+
+// 0 = as set, 1 = less sensitive, 2 = much less sensitive
+export type SensitivityStep = 0 | 1 | 2;
+
+export interface ModeSensorRule {
+  enabled: boolean;
+  step: SensitivityStep;
+}
+
+export type ModeRules = Record<SensorKind, ModeSensorRule>;
+
+export interface QuietHours {
+  enabled: boolean;
+  // minutes after midnight; start > end runs over midnight
+  startMinute: number;
+  endMinute: number;
+}
+
+export interface AlertModes {
+  activeMode: AlertModeId;
+  rules: Record<AlertModeId, ModeRules>;
+  quietHours: QuietHours;
+  snoozedUntil: number | null;
+}
+
+// Why sensor alerts don't notify or buzz right now
+export type AlertPause =
+  | { paused: false }
+  | { paused: true; reason: "snooze" | "quiet_hours"; until: number };
+
+export const ALERT_MODE_INFO: Record<AlertModeId, { title: string; emoji: string; detail: string }> = {
+  everyday: { title: "Everyday", emoji: "🙂", detail: "Your sensor settings as they are." },
+  school: {
+    title: "School",
+    emoji: "🏫",
+    detail: "Classrooms and hallways are loud – noise needs to be louder to count.",
+  },
+  sports: {
+    title: "Sports",
+    emoji: "⚽",
+    detail: "Running around shakes the phone, so shaking doesn’t alert.",
+  },
+  sleeping: {
+    title: "Sleeping",
+    emoji: "🌙",
+    detail: "Only a really loud noise alerts; movement and light don’t.",
+  },
+};
+
+// How far one step moves each threshold
+const STEP_SIZE: Record<SensorKind, number> = { shake: 0.5, noise: 6, light: 0.05 };
+
+export const SNOOZE_CHOICES = [15, 30, 60, 120];
+
+// minutes after midnight
+export const QUIET_START_CHOICES = [20 * 60, 21 * 60, 22 * 60, 23 * 60];
+export const QUIET_END_CHOICES = [6 * 60, 7 * 60, 8 * 60, 9 * 60];
+
+const rule = (enabled: boolean, step: SensitivityStep = 0): ModeSensorRule => ({ enabled, step });
+
+export const DEFAULT_ALERT_MODES: AlertModes = {
+  activeMode: "everyday",
+  rules: {
+    everyday: { shake: rule(true), noise: rule(true), light: rule(true) },
+    school: { shake: rule(true), noise: rule(true, 1), light: rule(true) },
+    sports: { shake: rule(false), noise: rule(true, 1), light: rule(true) },
+    sleeping: { shake: rule(false), noise: rule(true, 2), light: rule(false) },
+  },
+  quietHours: { enabled: false, startMinute: 22 * 60, endMinute: 7 * 60 },
+  snoozedUntil: null,
+};
+
+const DAY_MINUTES = 24 * 60;
+const MINUTE_MS = 60 * 1000;
+
+const minuteOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+// The next time today or tomorrow the clock reads `minute`
+function nextClockTime(now: number, minute: number): number {
+  const at = new Date(now);
+  at.setHours(Math.floor(minute / 60), minute % 60, 0, 0);
+  if (at.getTime() <= now) at.setDate(at.getDate() + 1);
+  return at.getTime();
+}
+
+function inQuietHours(quiet: QuietHours, now: number): boolean {
+  if (!quiet.enabled || quiet.startMinute === quiet.endMinute) return false;
+  const minute = minuteOfDay(new Date(now));
+  return quiet.startMinute < quiet.endMinute
+    ? minute >= quiet.startMinute && minute < quiet.endMinute
+    : minute >= quiet.startMinute || minute < quiet.endMinute;
+}
+
+export function alertPause(modes: AlertModes, now: number): AlertPause {
+  if (modes.snoozedUntil && modes.snoozedUntil > now) {
+    return { paused: true, reason: "snooze", until: modes.snoozedUntil };
+  }
+  if (inQuietHours(modes.quietHours, now)) {
+    return {
+      paused: true,
+      reason: "quiet_hours",
+      until: nextClockTime(now, modes.quietHours.endMinute),
+    };
+  }
+  return { paused: false };
+}
+
+// When alertPause() next changes its answer, or null if it never will
+export function nextAlertChange(modes: AlertModes, now: number): number | null {
+  const times: number[] = [];
+  if (modes.snoozedUntil && modes.snoozedUntil > now) times.push(modes.snoozedUntil);
+  const quiet = modes.quietHours;
+  if (quiet.enabled && quiet.startMinute !== quiet.endMinute) {
+    times.push(nextClockTime(now, quiet.startMinute), nextClockTime(now, quiet.endMinute));
+  }
+  return times.length ? Math.min(...times) : null;
+}
+
+// The settings the sensors run with: the active mode's rules on top.
+// A pause doesn't change them – see alertPause().
+export function effectiveSensorSettings(
+  settings: SensorSettings,
+  modes: AlertModes
+): SensorSettings {
+  const rules = modes.rules[modes.activeMode];
+  const result = {} as SensorSettings;
+  for (const kind of SENSOR_KINDS) {
+    const config = settings[kind];
+    const { enabled, step } = rules[kind];
+    const [, max] = SENSOR_INFO[kind].thresholdRange;
+    result[kind] = {
+      ...config,
+      enabled: config.enabled && enabled,
+      threshold: Math.min(max, config.threshold + step * STEP_SIZE[kind]),
+    };
+  }
+  return result;
+}
+
+export const snoozeUntil = (now: number, minutes: number) => now + minutes * MINUTE_MS;
+
+export function clockLabel(minute: number): string {
+  const h = Math.floor(minute / 60) % 24;
+  const m = minute % 60;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+export const stepLabel = (step: SensitivityStep) =>
+  ["As set", "Less sensitive", "Much less"][step];
+
+export function sanitizeAlertModes(raw: any): AlertModes {
+  const minute = (v: any, fallback: number) =>
+    Number.isInteger(v) && v >= 0 && v < DAY_MINUTES ? v : fallback;
+  const defaults = DEFAULT_ALERT_MODES;
+
+  const rules = {} as AlertModes["rules"];
+  for (const id of ALERT_MODE_IDS) {
+    rules[id] = {} as ModeRules;
+    for (const kind of SENSOR_KINDS) {
+      const stored = raw?.rules?.[id]?.[kind];
+      const fallback = defaults.rules[id][kind];
+      rules[id][kind] = {
+        enabled: typeof stored?.enabled === "boolean" ? stored.enabled : fallback.enabled,
+        step: [0, 1, 2].includes(stored?.step) ? stored.step : fallback.step,
+      };
+    }
+  }
+
+  return {
+    activeMode: ALERT_MODE_IDS.includes(raw?.activeMode) ? raw.activeMode : defaults.activeMode,
+    rules,
+    quietHours: {
+      enabled: raw?.quietHours?.enabled === true,
+      startMinute: minute(raw?.quietHours?.startMinute, defaults.quietHours.startMinute),
+      endMinute: minute(raw?.quietHours?.endMinute, defaults.quietHours.endMinute),
+    },
+    snoozedUntil:
+      typeof raw?.snoozedUntil === "number" && Number.isFinite(raw.snoozedUntil)
+        ? raw.snoozedUntil
+        : null,
+  };
+}
@@ -0,0 +1,32 @@
+// src/sensors/alerts.ts
+// What a sensor crossing its threshold is logged as – the same whether
+// the app is open or background monitoring noticed it.
+
+import type { AlertEventType, MoodType } from "../../context/UserContext";
+import type { SensorKind } from "./settings";
+
+// What each sensor logs when it crosses its threshold. The text goes in
+// the check-in's notes – it isn't a body signal the user ticked.
+export const SENSOR_ALERTS: Record<
+  SensorKind,
+  { mood: MoodType; notes: string; alert: AlertEventType; message: string }
+> = {
+  shake: {
+    mood: "angry",
+    notes: "Phone shaken hard – possible anger / overload moment",
+    alert: "shake",
+    message: "Strong phone movement detected (possible anger / overload).",
+  },
+  noise: {
+    mood: "overwhelmed",
+    notes: "Very loud environment – possible sound overload moment",
+    alert: "noise_high",
+    message: "Very loud environment detected (noise overload risk).",
+  },
+  light: {
+    mood: "overwhelmed",
+    notes: "Very bright screen / light – possible light sensitivity trigger",
+    alert: "light_high",
+    message: "Very bright screen / ambient light detected (light overload risk).",
+  },
+};
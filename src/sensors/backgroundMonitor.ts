@@ -0,0 +1,347 @@
+// src/sensors/backgroundMonitor.ts
+// Opt-in monitoring while NeuroAura isn't open. The phone wakes a
+// background task every so often (never more than every 15 minutes,
+// and later when the battery or OS wants); each run listens and feels
+// for a few seconds, then goes back to sleep. What it finds is notified
+// right away and logged to the owner's history next time the app opens.
+// Many phones hand a background task no sensor events and no microphone,
+// so runs that get nothing are recorded and the app says so.
+//
+// The task runs without the React tree, so everything it needs – the
+// owner's sensor settings and alert modes included – is kept in its own
+// record here.
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as TaskManager from "expo-task-manager";
+import * as BackgroundTask from "expo-background-task";
+import * as Notifications from "expo-notifications";
+import { Audio } from "expo-av";
+import { Platform } from "react-native";
+import { showAlertNotification } from "../events/alertNotifications";
+import { SENSOR_ALERTS } from "./alerts";
+import {
+  AlertModes,
+  alertPause,
+  DEFAULT_ALERT_MODES,
+  effectiveSensorSettings,
+  sanitizeAlertModes,
+} from "./alertModes";
+import { sensorService } from "./sensorService";
+import {
+  crossesThreshold,
+  DEFAULT_SENSOR_SETTINGS,
+  sanitizeSensorSettings,
+  SensorKind,
+  SensorSettings,
+} from "./settings";
+
+export const BACKGROUND_SENSOR_TASK = "neuroaura-background-sensors";
+
+const STORAGE_KEY = "neuroaura_background_monitoring";
+const INDICATOR_ID = "neuroaura-monitoring-indicator";
+
+// Screen brightness says nothing while the screen is off
+export type BackgroundKind = Extract<SensorKind, "shake" | "noise">;
+export const BACKGROUND_KINDS: BackgroundKind[] = ["shake", "noise"];
+
+// minutes; the OS won't run background tasks more often than 15
+export const BACKGROUND_INTERVAL_CHOICES = [15, 30, 60];
+
+// Each run samples this long, and this often within it
+const SAMPLE: Record<BackgroundKind, { durationMs: number; intervalMs: number }> = {
+  shake: { durationMs: 5000, intervalMs: 100 },
+  // two back-to-back metering windows
+  noise: { durationMs: 5000, intervalMs: 0 },
+};
+
+export interface BackgroundEvent {
+  kind: BackgroundKind;
+  value: number;
+  at: number;
+  // found during a snooze or quiet hours, so not notified
+  silenced?: boolean;
+}
+
+export interface BackgroundMonitoring {
+  enabled: boolean;
+  // whoever turned it on – events are logged to their history
+  profileId: string | null;
+  intervalMinutes: number;
+  // a copy of the owner's settings, kept current by the app
+  sensors: SensorSettings;
+  // applied at run time, so modes, quiet hours and snoozes hold while closed
+  modes: AlertModes;
+  lastTriggeredAt: Partial<Record<BackgroundKind, number>>;
+  // found while the app was closed, not logged yet
+  pending: BackgroundEvent[];
+  lastRunAt?: number;
+  // sensors that gave no readings the last time a run sampled them
+  emptyKinds: BackgroundKind[];
+  // runs in a row where no sensor gave any readings
+  emptyRuns: number;
+}
+
+export type StartMonitoringResult =
+  | { ok: true }
+  | {
+      ok: false;
+      reason: "unsupported" | "restricted" | "no_notifications" | "no_microphone";
+    };
+
+const DEFAULT_MONITORING: BackgroundMonitoring = {
+  enabled: false,
+  profileId: null,
+  intervalMinutes: 30,
+  sensors: DEFAULT_SENSOR_SETTINGS,
+  modes: DEFAULT_ALERT_MODES,
+  lastTriggeredAt: {},
+  pending: [],
+  emptyKinds: [],
+  emptyRuns: 0,
+};
+
+// at most this many events wait for the app
+const MAX_PENDING = 50;
+
+let current: BackgroundMonitoring | null = null;
+const listeners = new Set<(monitoring: BackgroundMonitoring) => void>();
+
+function sanitize(raw: any): BackgroundMonitoring {
+  const pending = Array.isArray(raw?.pending)
+    ? raw.pending.filter(
+        (e: any) =>
+          BACKGROUND_KINDS.includes(e?.kind) &&
+          typeof e?.value === "number" &&
+          typeof e?.at === "number"
+      )
+    : [];
+  return {
+    enabled: raw?.enabled === true,
+    profileId: typeof raw?.profileId === "string" ? raw.profileId : null,
+    intervalMinutes: BACKGROUND_INTERVAL_CHOICES.includes(raw?.intervalMinutes)
+      ? raw.intervalMinutes
+      : DEFAULT_MONITORING.intervalMinutes,
+    sensors: sanitizeSensorSettings(raw?.sensors),
+    modes: sanitizeAlertModes(raw?.modes),
+    lastTriggeredAt: { ...raw?.lastTriggeredAt },
+    pending,
+    lastRunAt: typeof raw?.lastRunAt === "number" ? raw.lastRunAt : undefined,
+    emptyKinds: Array.isArray(raw?.emptyKinds)
+      ? BACKGROUND_KINDS.filter((kind) => raw.emptyKinds.includes(kind))
+      : [],
+    emptyRuns: Number.isInteger(raw?.emptyRuns) && raw.emptyRuns > 0 ? raw.emptyRuns : 0,
+  };
+}
+
+// The last run sampled the sensors and this phone gave it nothing
+export const monitoringUnsupported = (monitoring: BackgroundMonitoring) =>
+  monitoring.enabled && monitoring.emptyRuns > 0;
+
+export async function loadMonitoring(): Promise<BackgroundMonitoring> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    current = raw ? sanitize(JSON.parse(raw)) : DEFAULT_MONITORING;
+  } catch (e) {
+    console.warn("Failed to load background monitoring", e);
+    current = current ?? DEFAULT_MONITORING;
+  }
+  return current;
+}
+
+async function saveMonitoring(next: BackgroundMonitoring) {
+  current = next;
+  listeners.forEach((listener) => listener(next));
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+}
+
+// Called with the current state straight away and after every change
+export function subscribeMonitoring(
+  listener: (monitoring: BackgroundMonitoring) => void
+): () => void {
+  listeners.add(listener);
+  if (current) listener(current);
+  else loadMonitoring().then(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// The "monitoring is on" notification. Android keeps it in the shade
+// until monitoring stops; iOS shows it once (the app shows a badge too).
+async function showIndicator() {
+  await Notifications.scheduleNotificationAsync({
+    identifier: INDICATOR_ID,
+    content: {
+      title: "NeuroAura is keeping an eye out 🛡️",
+      body: "Background monitoring is on. Open NeuroAura to change or stop it.",
+      sticky: true,
+      autoDismiss: false,
+      data: { type: "monitoring" },
+    },
+    trigger: null,
+  });
+}
+
+async function hideIndicator() {
+  try {
+    await Notifications.dismissNotificationAsync(INDICATOR_ID);
+  } catch (e) {
+    console.warn("Failed to hide monitoring notification", e);
+  }
+}
+
+// One background run: a short sample of each enabled sensor
+export async function runBackgroundCheck(): Promise<void> {
+  const monitoring = await loadMonitoring();
+  if (!monitoring.enabled) return;
+
+  const found: BackgroundEvent[] = [];
+  const sampled: BackgroundKind[] = [];
+  const empty: BackgroundKind[] = [];
+  const lastTriggeredAt = { ...monitoring.lastTriggeredAt };
+  const sensors = effectiveSensorSettings(monitoring.sensors, monitoring.modes);
+
+  // one sensor at a time keeps each wake-up short and light
+  for (const kind of BACKGROUND_KINDS) {
+    const config = sensors[kind];
+    if (!config.enabled) continue;
+    const { durationMs, intervalMs } = SAMPLE[kind];
+    const values = await sensorService.record(kind, durationMs, intervalMs);
+    sampled.push(kind);
+    if (values.length === 0) {
+      empty.push(kind);
+      continue;
+    }
+
+    const peak = Math.max(...values);
+    const at = Date.now();
+    if (!crossesThreshold(peak, config)) continue;
+    if (at - (lastTriggeredAt[kind] ?? 0) < config.cooldownMs) continue;
+    lastTriggeredAt[kind] = at;
+    // a snooze or quiet hours hush it, but it's still logged
+    const silenced = alertPause(monitoring.modes, at).paused;
+    found.push(silenced ? { kind, value: peak, at, silenced } : { kind, value: peak, at });
+  }
+
+  for (const event of found) {
+    if (event.silenced) continue;
+    try {
+      await showAlertNotification(SENSOR_ALERTS[event.kind].alert);
+    } catch (e) {
+      console.warn("Failed to show background alert", e);
+    }
+  }
+
+  // re-read – the app may have changed things while we sampled
+  const latest = await loadMonitoring();
+  const emptyKinds = [
+    ...latest.emptyKinds.filter((kind) => !sampled.includes(kind)),
+    ...empty,
+  ];
+  let emptyRuns = latest.emptyRuns;
+  if (sampled.length > 0) emptyRuns = empty.length === sampled.length ? emptyRuns + 1 : 0;
+  await saveMonitoring({
+    ...latest,
+    lastTriggeredAt,
+    pending: [...latest.pending, ...found].slice(-MAX_PENDING),
+    lastRunAt: Date.now(),
+    emptyKinds,
+    emptyRuns,
+  });
+}
+
+TaskManager.defineTask(BACKGROUND_SENSOR_TASK, async () => {
+  try {
+    await runBackgroundCheck();
+    return BackgroundTask.BackgroundTaskResult.Success;
+  } catch (e) {
+    console.warn("Background sensor check failed", e);
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+});
+
+export async function startMonitoring(
+  profileId: string,
+  sensors: SensorSettings,
+  modes: AlertModes,
+  intervalMinutes: number
+): Promise<StartMonitoringResult> {
+  if (Platform.OS === "web") return { ok: false, reason: "unsupported" };
+  const status = await BackgroundTask.getStatusAsync();
+  if (status === BackgroundTask.BackgroundTaskStatus.Restricted) {
+    return { ok: false, reason: "restricted" };
+  }
+
+  // Asked now – a background task can't show a permission prompt
+  let notifications = await Notifications.getPermissionsAsync();
+  if (notifications.status !== "granted") {
+    notifications = await Notifications.requestPermissionsAsync();
+  }
+  if (notifications.status !== "granted") return { ok: false, reason: "no_notifications" };
+  if (sensors.noise.enabled) {
+    let mic = await Audio.getPermissionsAsync();
+    if (mic.status !== "granted") mic = await Audio.requestPermissionsAsync();
+    if (mic.status !== "granted") return { ok: false, reason: "no_microphone" };
+  }
+
+  if (await TaskManager.isTaskRegisteredAsync(BACKGROUND_SENSOR_TASK)) {
+    await BackgroundTask.unregisterTaskAsync(BACKGROUND_SENSOR_TASK);
+  }
+  await BackgroundTask.registerTaskAsync(BACKGROUND_SENSOR_TASK, {
+    minimumInterval: intervalMinutes,
+  });
+
+  const previous = await loadMonitoring();
+  await saveMonitoring({
+    ...previous,
+    enabled: true,
+    // a new owner doesn't inherit someone else's unlogged events
+    pending: previous.profileId === profileId ? previous.pending : [],
+    profileId,
+    intervalMinutes,
+    sensors,
+    modes,
+  });
+  await showIndicator();
+  return { ok: true };
+}
+
+export async function stopMonitoring(): Promise<void> {
+  try {
+    if (await TaskManager.isTaskRegisteredAsync(BACKGROUND_SENSOR_TASK)) {
+      await BackgroundTask.unregisterTaskAsync(BACKGROUND_SENSOR_TASK);
+    }
+  } catch (e) {
+    console.warn("Failed to stop background task", e);
+  }
+  const previous = await loadMonitoring();
+  await saveMonitoring({ ...previous, enabled: false });
+  await hideIndicator();
+}
+
+// Stops monitoring and drops its record, unlogged events included
+export async function forgetMonitoring(): Promise<void> {
+  await stopMonitoring();
+  current = DEFAULT_MONITORING;
+  listeners.forEach((listener) => listener(DEFAULT_MONITORING));
+  await AsyncStorage.removeItem(STORAGE_KEY);
+}
+
+// Keeps the task's copy of the owner's settings current
+export async function updateMonitoredSensors(
+  profileId: string,
+  sensors: SensorSettings,
+  modes: AlertModes
+): Promise<void> {
+  const previous = await loadMonitoring();
+  if (!previous.enabled || previous.profileId !== profileId) return;
+  await saveMonitoring({ ...previous, sensors, modes });
+}
+
+// Hands over (and forgets) what the owner hasn't seen logged yet
+export async function takePendingEvents(profileId: string): Promise<BackgroundEvent[]> {
+  const previous = await loadMonitoring();
+  if (previous.profileId !== profileId || previous.pending.length === 0) return [];
+  await saveMonitoring({ ...previous, pending: [] });
+  return previous.pending;
+}
@@ -0,0 +1,129 @@
+// src/sensors/calibration.ts
+// Turns a short recording of the user's own surroundings and handling
+// into a threshold for this phone and this person. Pure helpers – the
+// recording is done by sensorService.record().
+
+import { SENSOR_INFO, SensorCalibration, SensorKind } from "./settings";
+
+export type CalibratableKind = Extract<SensorKind, "noise" | "shake">;
+
+export const CALIBRATABLE_KINDS: CalibratableKind[] = ["noise", "shake"];
+
+export const isCalibratable = (kind: SensorKind): kind is CalibratableKind =>
+  (CALIBRATABLE_KINDS as SensorKind[]).includes(kind);
+
+export interface CalibrationStep {
+  kind: CalibratableKind;
+  part: "baseline" | "reference";
+  title: string;
+  instructions: string;
+  durationMs: number;
+  // how often to read the sensor meanwhile
+  intervalMs: number;
+  // how the step's readings become one level
+  summarize: (values: number[]) => number;
+}
+
+export type CalibrationResult =
+  | { ok: true; calibration: SensorCalibration; threshold: number }
+  | { ok: false; reason: "no_readings" | "too_close" };
+
+// A sound this far over the usual room counts as very loud, at least
+const MIN_NOISE_HEADROOM_DB = 10;
+// A shake must beat normal handling by this much to tell them apart
+const MIN_SHAKE_GAP_G = 0.5;
+// Alert this far of the way from normal handling to the hard shake
+const SHAKE_POINT = 0.6;
+
+const sorted = (values: number[]) => [...values].sort((a, b) => a - b);
+
+const percentile = (values: number[], p: number) => {
+  const list = sorted(values);
+  return list[Math.min(list.length - 1, Math.floor(p * list.length))];
+};
+
+export const CALIBRATION_STEPS: Record<CalibratableKind, CalibrationStep[]> = {
+  noise: [
+    {
+      kind: "noise",
+      part: "baseline",
+      title: "A quiet room",
+      instructions:
+        "Go somewhere quiet and put the phone down. Stay still and silent while it listens.",
+      durationMs: 12_000,
+      // back-to-back samples
+      intervalMs: 0,
+      summarize: (values) => percentile(values, 0.5),
+    },
+    {
+      kind: "noise",
+      part: "reference",
+      title: "A normal room",
+      instructions:
+        "Now somewhere that sounds like a usual day – talking, TV, the kitchen. Nothing extra loud.",
+      durationMs: 12_000,
+      intervalMs: 0,
+      summarize: (values) => percentile(values, 0.5),
+    },
+  ],
+  shake: [
+    {
+      kind: "shake",
+      part: "baseline",
+      title: "Normal handling",
+      instructions:
+        "Hold and use the phone the way you usually do – scroll, walk around, pick it up and put it down.",
+      durationMs: 10_000,
+      intervalMs: 50,
+      // a single bump shouldn't count as normal
+      summarize: (values) => percentile(values, 0.95),
+    },
+    {
+      kind: "shake",
+      part: "reference",
+      title: "A hard shake",
+      instructions:
+        "Hold on tight and shake the phone hard, like you might when you're really angry.",
+      durationMs: 5_000,
+      intervalMs: 50,
+      summarize: (values) => Math.max(...values),
+    },
+  ],
+};
+
+const round = (value: number, step: number) => Math.round(value / step) * step;
+
+// The threshold a calibration stands for
+export function calibratedThreshold(kind: CalibratableKind, calibration: SensorCalibration): number {
+  const { baseline, reference } = calibration;
+  let threshold: number;
+  if (kind === "noise") {
+    const room = Math.max(baseline, reference);
+    const headroom = Math.max(MIN_NOISE_HEADROOM_DB, room - baseline);
+    threshold = Math.round(room + headroom);
+  } else {
+    threshold = Number(round(baseline + (reference - baseline) * SHAKE_POINT, 0.1).toFixed(1));
+  }
+  const [min, max] = SENSOR_INFO[kind].thresholdRange;
+  return Math.min(max, Math.max(min, threshold));
+}
+
+// Puts the two steps of a kind together
+export function calibrate(
+  kind: CalibratableKind,
+  readings: Record<CalibrationStep["part"], number[]>
+): CalibrationResult {
+  const [baselineStep, referenceStep] = CALIBRATION_STEPS[kind];
+  if (!readings.baseline.length || !readings.reference.length) {
+    return { ok: false, reason: "no_readings" };
+  }
+  const calibration: SensorCalibration = {
+    baseline: baselineStep.summarize(readings.baseline),
+    reference: referenceStep.summarize(readings.reference),
+    calibratedAt: Date.now(),
+  };
+  if (kind === "shake" && calibration.reference - calibration.baseline < MIN_SHAKE_GAP_G) {
+    return { ok: false, reason: "too_close" };
+  }
+  return { ok: true, calibration, threshold: calibratedThreshold(kind, calibration) };
+}
@@ -0,0 +1,143 @@
+// src/sensors/sensorService.ts
+// Runs the overload sensors with the active profile's settings. Each
+// enabled sensor is read at its own interval; a reading at or past the
+// sensor's threshold triggers once, then the sensor stays quiet for its
+// cooldown. Settings can change at any time – only a sensor whose
+// interval changed is restarted. While a sensor is being recorded for
+// calibration it raises no alerts.
+
+import {
+  crossesThreshold,
+  DEFAULT_SENSOR_SETTINGS,
+  SENSOR_KINDS,
+  SensorKind,
+  SensorSettings,
+} from "./settings";
+import { SENSOR_WATCHERS, SensorWatcher } from "./watchers";
+
+export interface SensorReading {
+  kind: SensorKind;
+  value: number;
+  at: number;
+}
+
+export type SensorTriggerHandler = (reading: SensorReading) => void;
+
+export interface SensorService {
+  // Starts the enabled sensors; the returned function stops them all
+  start(onTrigger: SensorTriggerHandler): () => void;
+  configure(settings: SensorSettings): void;
+  // Every reading, for live levels on the settings screen
+  subscribeReadings(listener: (reading: SensorReading) => void): () => void;
+  // The latest level of each sensor, held a while at its peak so a
+  // short spike still counts (for the overload risk score)
+  levels(): Partial<Record<SensorKind, SensorReading>>;
+  // Reads one sensor for a while and returns everything it read
+  record(kind: SensorKind, durationMs: number, intervalMs: number): Promise<number[]>;
+}
+
+// how long a peak level is held
+const LEVEL_HOLD_MS = 60_000;
+
+export function createSensorService(
+  watchers: Record<SensorKind, SensorWatcher> = SENSOR_WATCHERS
+): SensorService {
+  let settings = DEFAULT_SENSOR_SETTINGS;
+  let onTrigger: SensorTriggerHandler | null = null;
+  const running = new Map<SensorKind, { intervalMs: number; stop: () => void }>();
+  const lastTriggeredAt: Record<SensorKind, number> = { shake: 0, noise: 0, light: 0 };
+  const readingListeners = new Set<(reading: SensorReading) => void>();
+  const recording = new Set<SensorKind>();
+  const levels: Partial<Record<SensorKind, SensorReading>> = {};
+
+  const emit = (kind: SensorKind, value: number) => {
+    const reading = { kind, value, at: Date.now() };
+    readingListeners.forEach((listener) => listener(reading));
+    return reading;
+  };
+
+  const handleReading = (kind: SensorKind, value: number) => {
+    const reading = emit(kind, value);
+    const held = levels[kind];
+    if (!held || value >= held.value || reading.at - held.at > LEVEL_HOLD_MS) {
+      levels[kind] = reading;
+    }
+
+    const config = settings[kind];
+    if (!onTrigger || !config.enabled || !crossesThreshold(value, config)) return;
+    if (reading.at - lastTriggeredAt[kind] < config.cooldownMs) return;
+    lastTriggeredAt[kind] = reading.at;
+    onTrigger(reading);
+  };
+
+  // Brings the running sensors in line with the settings
+  const apply = () => {
+    for (const kind of SENSOR_KINDS) {
+      const config = settings[kind];
+      const current = running.get(kind);
+      const shouldRun = onTrigger !== null && config.enabled && !recording.has(kind);
+
+      if (current && (!shouldRun || current.intervalMs !== config.intervalMs)) {
+        current.stop();
+        running.delete(kind);
+      }
+      if (shouldRun && !running.has(kind)) {
+        running.set(kind, {
+          intervalMs: config.intervalMs,
+          stop: watchers[kind](config.intervalMs, (value) => handleReading(kind, value)),
+        });
+      }
+    }
+  };
+
+  return {
+    start(handler) {
+      onTrigger = handler;
+      apply();
+      return () => {
+        onTrigger = null;
+        apply();
+      };
+    },
+
+    configure(next) {
+      settings = next;
+      apply();
+    },
+
+    subscribeReadings(listener) {
+      readingListeners.add(listener);
+      return () => {
+        readingListeners.delete(listener);
+      };
+    },
+
+    levels() {
+      return { ...levels };
+    },
+
+    record(kind, durationMs, intervalMs) {
+      if (recording.has(kind)) {
+        return Promise.reject(new Error(`Already recording ${kind}`));
+      }
+      recording.add(kind);
+      apply();
+
+      const values: number[] = [];
+      const stop = watchers[kind](intervalMs, (value) => {
+        values.push(value);
+        emit(kind, value);
+      });
+      return new Promise((resolve) => {
+        setTimeout(() => {
+          stop();
+          recording.delete(kind);
+          apply();
+          resolve(values);
+        }, durationMs);
+      });
+    },
+  };
+}
+
+export const sensorService = createSensorService();
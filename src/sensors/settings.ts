@@ -0,0 +1,141 @@
+// src/sensors/settings.ts
+// What each overload sensor watches for, per profile. Pure helpers –
+// sensorService.ts does the sampling, UserContext stores the settings.
+
+export type SensorKind = "shake" | "noise" | "light";
+
+export const SENSOR_KINDS: SensorKind[] = ["shake", "noise", "light"];
+
+export interface SensorConfig {
+  enabled: boolean;
+  // shake: total acceleration in g; noise: loudest level in dBFS
+  // (0 = the mic's maximum); light: brightness from 0 to 1
+  threshold: number;
+  // quiet time after an alert before the same sensor can alert again
+  cooldownMs: number;
+  // how often the sensor is read
+  intervalMs: number;
+  // set by the calibration wizard (see calibration.ts)
+  calibration?: SensorCalibration;
+}
+
+// Both levels are in the sensor's own unit (dBFS or g)
+export interface SensorCalibration {
+  // noise: a quiet room; shake: normal handling
+  baseline: number;
+  // noise: a normal room; shake: a deliberate hard shake
+  reference: number;
+  calibratedAt: number;
+}
+
+export type SensorSettings = Record<SensorKind, SensorConfig>;
+
+const MINUTE_MS = 60 * 1000;
+
+export const DEFAULT_SENSOR_SETTINGS: SensorSettings = {
+  // needs a real hard shake
+  shake: { enabled: true, threshold: 2.3, cooldownMs: 6000, intervalMs: 100 },
+  // extreme volume
+  noise: { enabled: true, threshold: -12, cooldownMs: 5 * MINUTE_MS, intervalMs: 30_000 },
+  light: { enabled: true, threshold: 0.85, cooldownMs: 5 * MINUTE_MS, intervalMs: 30_000 },
+};
+
+export interface SensorInfo {
+  title: string;
+  emoji: string;
+  detail: string;
+  // lowest first – a lower threshold reacts sooner for every sensor
+  thresholdChoices: number[];
+  // any stored threshold outside this is ignored
+  thresholdRange: [number, number];
+  cooldownChoices: number[];
+  intervalChoices: number[];
+}
+
+export const SENSOR_INFO: Record<SensorKind, SensorInfo> = {
+  shake: {
+    title: "Shaking",
+    emoji: "📳",
+    detail: "Notices when the phone is shaken or thrown hard.",
+    thresholdChoices: [1.6, 2.0, 2.3, 2.8, 3.5],
+    // resting is about 1 g
+    thresholdRange: [1.1, 8],
+    cooldownChoices: [6000, 30_000, MINUTE_MS, 5 * MINUTE_MS],
+    intervalChoices: [50, 100, 250, 500],
+  },
+  noise: {
+    title: "Loud sounds",
+    emoji: "🔊",
+    detail: "Listens for a couple of seconds at a time. Nothing is recorded or kept.",
+    thresholdChoices: [-30, -20, -12, -6],
+    thresholdRange: [-60, 0],
+    cooldownChoices: [MINUTE_MS, 5 * MINUTE_MS, 15 * MINUTE_MS, 30 * MINUTE_MS],
+    intervalChoices: [10_000, 30_000, MINUTE_MS, 5 * MINUTE_MS],
+  },
+  light: {
+    title: "Bright light",
+    emoji: "💡",
+    detail: "Checks how bright the screen has been set, as a hint about bright surroundings.",
+    thresholdChoices: [0.6, 0.7, 0.85, 0.95],
+    thresholdRange: [0.05, 1],
+    cooldownChoices: [MINUTE_MS, 5 * MINUTE_MS, 15 * MINUTE_MS, 30 * MINUTE_MS],
+    intervalChoices: [10_000, 30_000, MINUTE_MS, 5 * MINUTE_MS],
+  },
+};
+
+// Every sensor alerts when its reading reaches the threshold
+export const crossesThreshold = (value: number, config: SensorConfig) =>
+  value >= config.threshold;
+
+export function thresholdLabel(kind: SensorKind, value: number): string {
+  switch (kind) {
+    case "shake":
+      return `${value} g`;
+    case "noise":
+      return `${value} dB`;
+    default:
+      return `${Math.round(value * 100)}%`;
+  }
+}
+
+export function durationLabel(ms: number): string {
+  if (ms < 1000) return `${ms} ms`;
+  if (ms < MINUTE_MS) return `${Math.round(ms / 1000)} s`;
+  return `${Math.round(ms / MINUTE_MS)} min`;
+}
+
+const finite = (v: any): v is number => typeof v === "number" && Number.isFinite(v);
+
+function sanitizeCalibration(raw: any): SensorCalibration | undefined {
+  if (!finite(raw?.baseline) || !finite(raw?.reference) || !finite(raw?.calibratedAt)) {
+    return undefined;
+  }
+  return {
+    baseline: raw.baseline,
+    reference: raw.reference,
+    calibratedAt: raw.calibratedAt,
+  };
+}
+
+// Anything stored that isn't a sensible number falls back to the default
+export function sanitizeSensorSettings(raw: any): SensorSettings {
+  const number = (v: any, fallback: number, min: number, max: number) =>
+    finite(v) && v >= min && v <= max ? v : fallback;
+
+  const result = {} as SensorSettings;
+  for (const kind of SENSOR_KINDS) {
+    const fallback = DEFAULT_SENSOR_SETTINGS[kind];
+    const stored = raw?.[kind];
+    const [min, max] = SENSOR_INFO[kind].thresholdRange;
+    result[kind] = {
+      enabled: typeof stored?.enabled === "boolean" ? stored.enabled : fallback.enabled,
+      // needn't be one of the choices
+      threshold: number(stored?.threshold, fallback.threshold, min, max),
+      cooldownMs: number(stored?.cooldownMs, fallback.cooldownMs, 1000, 24 * 60 * MINUTE_MS),
+      intervalMs: number(stored?.intervalMs, fallback.intervalMs, 50, 60 * MINUTE_MS),
+    };
+    const calibration = sanitizeCalibration(stored?.calibration);
+    if (calibration) result[kind].calibration = calibration;
+  }
+  return result;
+}
@@ -0,0 +1,43 @@
+// src/sensors/useAlertStatus.ts
+// The active profile's alert mode and pause – re-worked out when a snooze
+// or quiet hours begin or end – and the sensor settings the mode adds up to.
+import { useEffect, useMemo, useState } from "react";
+import { useUser } from "../../context/UserContext";
+import {
+  AlertModeId,
+  AlertPause,
+  alertPause,
+  effectiveSensorSettings,
+  nextAlertChange,
+} from "./alertModes";
+import type { SensorSettings } from "./settings";
+
+export interface AlertStatus {
+  mode: AlertModeId;
+  pause: AlertPause;
+  // what the sensors should run with
+  settings: SensorSettings;
+}
+
+export function useAlertStatus(): AlertStatus {
+  const { alertModes, sensorSettings } = useUser();
+  const [tick, setTick] = useState(0);
+
+  useEffect(() => {
+    const now = Date.now();
+    const next = nextAlertChange(alertModes, now);
+    if (next === null) return;
+    // a little late rather than early, so the change has happened
+    const timer = setTimeout(() => setTick((t) => t + 1), next - now + 1000);
+    return () => clearTimeout(timer);
+  }, [alertModes, tick]);
+
+  return useMemo(() => {
+    const now = Date.now();
+    return {
+      mode: alertModes.activeMode,
+      pause: alertPause(alertModes, now),
+      settings: effectiveSensorSettings(sensorSettings, alertModes),
+    };
+  }, [alertModes, sensorSettings, tick]);
+}
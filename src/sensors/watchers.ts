@@ -0,0 +1,186 @@
+// src/sensors/watchers.ts
+// Reads one sensor on the device every `intervalMs` and reports the raw
+// value. Thresholds and cooldowns are applied by sensorService.ts.
+
+import { Platform } from "react-native";
+import { Accelerometer } from "expo-sensors";
+import { Audio } from "expo-av";
+import * as Brightness from "expo-brightness";
+import type { SensorKind } from "./settings";
+
+// Starts watching; call the returned function to stop
+export type SensorWatcher = (
+  intervalMs: number,
+  onReading: (value: number) => void
+) => () => void;
+
+// How long each noise sample listens for
+const NOISE_WINDOW_MS = 2500;
+// quieter than any real reading
+const SILENCE_DB = -160;
+
+// A loop's stop switch, which also cuts its current wait short
+function createStopSignal() {
+  let stopped = false;
+  let wake: (() => void) | null = null;
+  return {
+    isStopped: () => stopped,
+    stop() {
+      stopped = true;
+      wake?.();
+    },
+    wait(ms: number) {
+      return new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, ms);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    },
+  };
+}
+
+// total acceleration in g (about 1 at rest)
+const watchShake: SensorWatcher = (intervalMs, onReading) => {
+  let subscription: { remove: () => void } | null = null;
+  let stopped = false;
+
+  (async () => {
+    if (Platform.OS === "web") return;
+    const available = await Accelerometer.isAvailableAsync();
+    if (!available) {
+      console.log("Accelerometer not available on this device.");
+      return;
+    }
+    if (stopped) return;
+    Accelerometer.setUpdateInterval(intervalMs);
+    subscription = Accelerometer.addListener(({ x, y, z }) =>
+      onReading(Math.sqrt(x * x + y * y + z * z))
+    );
+  })().catch((err) => console.warn("Shake watcher error:", err));
+
+  return () => {
+    stopped = true;
+    subscription?.remove();
+  };
+};
+
+// One recording can run at a time, so a restarted noise watcher waits
+// for the previous one to let go of the mic
+let noiseLoop: Promise<void> = Promise.resolve();
+
+// loudest level of a short sample, in dBFS
+const watchNoise: SensorWatcher = (intervalMs, onReading) => {
+  const signal = createStopSignal();
+
+  const run = async () => {
+    if (Platform.OS === "web" || signal.isStopped()) return;
+
+    // Mic permission
+    const existing = await Audio.getPermissionsAsync();
+    let status = existing.status;
+    if (status !== "granted") {
+      const req = await Audio.requestPermissionsAsync();
+      status = req.status;
+    }
+    if (status !== "granted") {
+      console.log("Mic permission not granted; skipping noise watch.");
+      return;
+    }
+
+    await Audio.setAudioModeAsync({
+      allowsRecordingIOS: true,
+      playsInSilentModeIOS: true,
+    });
+
+    while (!signal.isStopped()) {
+      const recording = new Audio.Recording();
+      let maxLevel = SILENCE_DB;
+
+      try {
+        await recording.prepareToRecordAsync({
+          ...Audio.RecordingOptionsPresets.LOW_QUALITY,
+          // @ts-ignore – metering flag not typed
+          isMeteringEnabled: true,
+        });
+
+        recording.setOnRecordingStatusUpdate((status) => {
+          const s = status as any;
+          if (typeof s.metering === "number" && s.metering > maxLevel) {
+            maxLevel = s.metering;
+          }
+        });
+
+        await recording.startAsync();
+        await signal.wait(NOISE_WINDOW_MS);
+
+        try {
+          await recording.stopAndUnloadAsync();
+        } catch (err) {
+          console.warn("Noise recording stop error:", err);
+        }
+      } catch (err) {
+        console.warn("Noise recording error:", err);
+      }
+
+      if (signal.isStopped()) break;
+      if (maxLevel > SILENCE_DB) onReading(maxLevel);
+
+      await signal.wait(Math.max(0, intervalMs - NOISE_WINDOW_MS));
+    }
+
+    await Audio.setAudioModeAsync({ allowsRecordingIOS: false });
+  };
+
+  noiseLoop = noiseLoop
+    .then(run)
+    .catch((err) => console.warn("Noise watcher error:", err));
+
+  return signal.stop;
+};
+
+// screen brightness from 0 to 1
+const watchLight: SensorWatcher = (intervalMs, onReading) => {
+  const signal = createStopSignal();
+
+  (async () => {
+    if (Platform.OS === "web") return;
+
+    const existing = await Brightness.getPermissionsAsync();
+    let status = existing.status;
+    if (status !== "granted") {
+      const req = await Brightness.requestPermissionsAsync();
+      status = req.status;
+    }
+    if (status !== "granted") {
+      console.log("Brightness permission not granted; skipping light watch.");
+      return;
+    }
+
+    while (!signal.isStopped()) {
+      let level: number | null = null;
+      try {
+        level = await Brightness.getSystemBrightnessAsync();
+      } catch {
+        try {
+          level = await Brightness.getBrightnessAsync();
+        } catch (err) {
+          console.warn("Light reading error:", err);
+        }
+      }
+      if (signal.isStopped()) break;
+      if (level !== null) onReading(level);
+
+      await signal.wait(intervalMs);
+    }
+  })().catch((err) => console.warn("Light watcher error:", err));
+
+  return signal.stop;
+};
+
+export const SENSOR_WATCHERS: Record<SensorKind, SensorWatcher> = {
+  shake: watchShake,
+  noise: watchNoise,
+  light: watchLight,
+};
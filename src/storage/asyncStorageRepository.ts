@@ -0,0 +1,211 @@
+// src/storage/asyncStorageRepository.ts
+// Default backend. Keys are namespaced per profile:
+//   @neuroaura_user_data_<profileId>
+//   @neuroaura_schedule_<profileId>
+//   @neuroaura_screen_time_goal_minutes_<profileId>
+//   @neuroaura_screen_time_usage_<profileId>_<YYYY-MM-DD>
+//   @neuroaura_chat_history_<profileId>
+//   @neuroaura_preferences_<profileId>
+// plus device-wide @neuroaura_profiles and @neuroaura_sync_state.
+// Data saved before profiles existed used the same keys without the
+// profile id (schedules used "guest"); claimLegacyData moves it over.
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { ChatMessage } from "../api/cometClient";
+import type {
+  ProfilePreferences,
+  ProfileRegistry,
+  ScheduleItem,
+  StorageRepository,
+  UserDataSnapshot,
+} from "./types";
+import { decodeUserData, CURRENT_SCHEMA_VERSION } from "./userDataSchema";
+import { normalizeSyncState } from "../sync/types";
+
+const PROFILES_KEY = "@neuroaura_profiles";
+const USER_DATA_KEY = "@neuroaura_user_data";
+const SCHEDULE_PREFIX = "@neuroaura_schedule_";
+const SCREEN_TIME_GOAL_KEY = "@neuroaura_screen_time_goal_minutes";
+const SCREEN_TIME_USAGE_PREFIX = "@neuroaura_screen_time_usage_";
+const CHAT_KEY = "@neuroaura_chat_history";
+const PREFERENCES_KEY = "@neuroaura_preferences";
+const SYNC_STATE_KEY = "@neuroaura_sync_state";
+// every key this app writes starts with this
+const APP_KEY_PREFIX = "@neuroaura_";
+
+const LEGACY_SCHEDULE_KEY = `${SCHEDULE_PREFIX}guest`;
+const LEGACY_USAGE_KEY = /^@neuroaura_screen_time_usage_(\d{4}-\d{2}-\d{2})$/;
+
+const userDataKey = (profileId: string) => `${USER_DATA_KEY}_${profileId}`;
+const scheduleKey = (profileId: string) => `${SCHEDULE_PREFIX}${profileId}`;
+const goalKey = (profileId: string) => `${SCREEN_TIME_GOAL_KEY}_${profileId}`;
+const usageKey = (profileId: string, day: string) =>
+  `${SCREEN_TIME_USAGE_PREFIX}${profileId}_${day}`;
+const chatKey = (profileId: string) => `${CHAT_KEY}_${profileId}`;
+const preferencesKey = (profileId: string) =>
+  `${PREFERENCES_KEY}_${profileId}`;
+
+async function readJson(key: string): Promise<any> {
+  const raw = await AsyncStorage.getItem(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch (e) {
+    console.warn(`Stored value for ${key} is not valid JSON, ignoring`, e);
+    return null;
+  }
+}
+
+function parseMinutes(raw: string | null): number | null {
+  if (!raw) return null;
+  const n = parseInt(raw, 10);
+  return Number.isNaN(n) || n < 0 ? null : n;
+}
+
+export function createAsyncStorageRepository(): StorageRepository {
+  return {
+    kind: "async-storage",
+
+    async loadProfiles() {
+      const parsed = await readJson(PROFILES_KEY);
+      return {
+        profiles: Array.isArray(parsed?.profiles) ? parsed.profiles : [],
+        activeProfileId:
+          typeof parsed?.activeProfileId === "string"
+            ? parsed.activeProfileId
+            : null,
+        guestSessionId:
+          typeof parsed?.guestSessionId === "string" ? parsed.guestSessionId : null,
+      };
+    },
+    async saveProfiles(registry: ProfileRegistry) {
+      await AsyncStorage.setItem(PROFILES_KEY, JSON.stringify(registry));
+    },
+
+    async loadUserData(profileId) {
+      return decodeUserData(await readJson(userDataKey(profileId)));
+    },
+    async saveUserData(profileId, data: UserDataSnapshot) {
+      await AsyncStorage.setItem(
+        userDataKey(profileId),
+        JSON.stringify({
+          schemaVersion: CURRENT_SCHEMA_VERSION,
+          checkIns: data.checkIns,
+          alerts: data.alerts,
+        })
+      );
+    },
+
+    async loadSchedule(profileId) {
+      const parsed = await readJson(scheduleKey(profileId));
+      return Array.isArray(parsed) ? (parsed as ScheduleItem[]) : [];
+    },
+    async saveSchedule(profileId, items) {
+      await AsyncStorage.setItem(scheduleKey(profileId), JSON.stringify(items));
+    },
+
+    async loadScreenTimeGoal(profileId) {
+      return parseMinutes(await AsyncStorage.getItem(goalKey(profileId)));
+    },
+    async saveScreenTimeGoal(profileId, minutes) {
+      await AsyncStorage.setItem(goalKey(profileId), String(minutes));
+    },
+    async loadScreenTimeUsage(profileId, day) {
+      const raw = await AsyncStorage.getItem(usageKey(profileId, day));
+      return parseMinutes(raw) ?? 0;
+    },
+    async saveScreenTimeUsage(profileId, day, minutes) {
+      await AsyncStorage.setItem(usageKey(profileId, day), String(minutes));
+    },
+    async loadScreenTimeHistory(profileId) {
+      const prefix = `${SCREEN_TIME_USAGE_PREFIX}${profileId}_`;
+      const keys = (await AsyncStorage.getAllKeys()).filter((k) =>
+        k.startsWith(prefix)
+      );
+      const history: Record<string, number> = {};
+      for (const [key, value] of await AsyncStorage.multiGet(keys)) {
+        const minutes = parseMinutes(value);
+        if (minutes != null) history[key.slice(prefix.length)] = minutes;
+      }
+      return history;
+    },
+
+    async loadChat(profileId) {
+      const parsed = await readJson(chatKey(profileId));
+      return Array.isArray(parsed) ? (parsed as ChatMessage[]) : [];
+    },
+    async saveChat(profileId, messages) {
+      await AsyncStorage.setItem(chatKey(profileId), JSON.stringify(messages));
+    },
+
+    async loadPreferences(profileId) {
+      const parsed = await readJson(preferencesKey(profileId));
+      return parsed && typeof parsed === "object"
+        ? (parsed as ProfilePreferences)
+        : {};
+    },
+    async savePreferences(profileId, prefs) {
+      await AsyncStorage.setItem(preferencesKey(profileId), JSON.stringify(prefs));
+    },
+
+    async loadSyncState() {
+      return normalizeSyncState(await readJson(SYNC_STATE_KEY));
+    },
+    async saveSyncState(state) {
+      await AsyncStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+    },
+
+    async deleteProfileData(profileId) {
+      const allKeys = await AsyncStorage.getAllKeys();
+      const usagePrefix = `${SCREEN_TIME_USAGE_PREFIX}${profileId}_`;
+      const toRemove = allKeys.filter(
+        (k) =>
+          k === userDataKey(profileId) ||
+          k === scheduleKey(profileId) ||
+          k === goalKey(profileId) ||
+          k === chatKey(profileId) ||
+          k === preferencesKey(profileId) ||
+          k.startsWith(usagePrefix)
+      );
+      if (toRemove.length > 0) await AsyncStorage.multiRemove(toRemove);
+    },
+
+    async deleteEverything() {
+      const toRemove = (await AsyncStorage.getAllKeys()).filter((k) =>
+        k.startsWith(APP_KEY_PREFIX)
+      );
+      if (toRemove.length > 0) await AsyncStorage.multiRemove(toRemove);
+    },
+
+    async claimLegacyData(profileId) {
+      const allKeys = await AsyncStorage.getAllKeys();
+
+      // legacy key -> namespaced key
+      const moves: [string, string][] = [
+        [USER_DATA_KEY, userDataKey(profileId)],
+        [LEGACY_SCHEDULE_KEY, scheduleKey(profileId)],
+        [SCREEN_TIME_GOAL_KEY, goalKey(profileId)],
+        [CHAT_KEY, chatKey(profileId)],
+      ];
+      for (const key of allKeys) {
+        const match = LEGACY_USAGE_KEY.exec(key);
+        if (match) moves.push([key, usageKey(profileId, match[1])]);
+      }
+
+      const present = moves.filter(
+        ([from, to]) =>
+          from !== to && allKeys.includes(from) && !allKeys.includes(to)
+      );
+      if (present.length === 0) return;
+
+      const values = await AsyncStorage.multiGet(present.map(([from]) => from));
+      const writes: [string, string][] = [];
+      values.forEach(([, value], i) => {
+        if (value != null) writes.push([present[i][1], value]);
+      });
+
+      await AsyncStorage.multiSet(writes);
+      await AsyncStorage.multiRemove(present.map(([from]) => from));
+    },
+  };
+}
@@ -0,0 +1,42 @@
+// src/storage/index.ts
+// Picks the storage backend for the whole app.
+// Set EXPO_PUBLIC_STORAGE_BACKEND in .env to "memory", "async-storage"
+// (default) or "sqlite". Tests can swap it with setRepository().
+
+import type { StorageBackendKind, StorageRepository } from "./types";
+import { createMemoryRepository } from "./memoryRepository";
+import { createAsyncStorageRepository } from "./asyncStorageRepository";
+import { createSqliteRepository } from "./sqliteRepository";
+
+export * from "./types";
+export * from "./retention";
+export * from "./transferProfileData";
+export * from "./purgeExpired";
+export { createMemoryRepository, createAsyncStorageRepository, createSqliteRepository };
+
+export function createRepository(kind: StorageBackendKind): StorageRepository {
+  switch (kind) {
+    case "memory":
+      return createMemoryRepository();
+    case "sqlite":
+      return createSqliteRepository();
+    default:
+      return createAsyncStorageRepository();
+  }
+}
+
+const CONFIGURED_BACKEND = (process.env.EXPO_PUBLIC_STORAGE_BACKEND ??
+  "async-storage") as StorageBackendKind;
+
+let repository: StorageRepository | null = null;
+
+export function getRepository(): StorageRepository {
+  if (!repository) {
+    repository = createRepository(CONFIGURED_BACKEND);
+  }
+  return repository;
+}
+
+export function setRepository(next: StorageRepository) {
+  repository = next;
+}
@@ -0,0 +1,124 @@
+// src/storage/memoryRepository.ts
+// In-memory backend – nothing survives a reload. Handy for tests and
+// for sessions that must not touch the disk.
+
+import type { ChatMessage } from "../api/cometClient";
+import type {
+  ProfilePreferences,
+  ProfileRegistry,
+  ScheduleItem,
+  StorageRepository,
+  UserDataSnapshot,
+} from "./types";
+import { decodeUserData, CURRENT_SCHEMA_VERSION } from "./userDataSchema";
+import { emptySyncState, SyncState } from "../sync/types";
+
+export function createMemoryRepository(): StorageRepository {
+  let registry: ProfileRegistry = { profiles: [], activeProfileId: null };
+  const userData = new Map<string, any>();
+  const schedules = new Map<string, ScheduleItem[]>();
+  const screenTimeGoals = new Map<string, number>();
+  // key = `${profileId}:${day}`
+  const screenTimeUsage = new Map<string, number>();
+  const chats = new Map<string, ChatMessage[]>();
+  const preferences = new Map<string, ProfilePreferences>();
+  let syncState: SyncState = emptySyncState();
+
+  return {
+    kind: "memory",
+
+    async loadProfiles() {
+      return { ...registry, profiles: [...registry.profiles] };
+    },
+    async saveProfiles(next) {
+      registry = { ...next, profiles: [...next.profiles] };
+    },
+
+    async loadUserData(profileId) {
+      return decodeUserData(userData.get(profileId) ?? null);
+    },
+    async saveUserData(profileId, data: UserDataSnapshot) {
+      userData.set(profileId, {
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        checkIns: [...data.checkIns],
+        alerts: [...data.alerts],
+      });
+    },
+
+    async loadSchedule(profileId) {
+      return [...(schedules.get(profileId) ?? [])];
+    },
+    async saveSchedule(profileId, items) {
+      schedules.set(profileId, [...items]);
+    },
+
+    async loadScreenTimeGoal(profileId) {
+      return screenTimeGoals.get(profileId) ?? null;
+    },
+    async saveScreenTimeGoal(profileId, minutes) {
+      screenTimeGoals.set(profileId, minutes);
+    },
+    async loadScreenTimeUsage(profileId, day) {
+      return screenTimeUsage.get(`${profileId}:${day}`) ?? 0;
+    },
+    async saveScreenTimeUsage(profileId, day, minutes) {
+      screenTimeUsage.set(`${profileId}:${day}`, minutes);
+    },
+    async loadScreenTimeHistory(profileId) {
+      const history: Record<string, number> = {};
+      screenTimeUsage.forEach((minutes, key) => {
+        if (key.startsWith(`${profileId}:`)) {
+          history[key.slice(profileId.length + 1)] = minutes;
+        }
+      });
+      return history;
+    },
+
+    async loadChat(profileId) {
+      return [...(chats.get(profileId) ?? [])];
+    },
+    async saveChat(profileId, messages) {
+      chats.set(profileId, [...messages]);
+    },
+
+    async loadPreferences(profileId) {
+      return { ...(preferences.get(profileId) ?? {}) };
+    },
+    async savePreferences(profileId, prefs) {
+      preferences.set(profileId, { ...prefs });
+    },
+
+    async loadSyncState() {
+      return JSON.parse(JSON.stringify(syncState));
+    },
+    async saveSyncState(state) {
+      syncState = JSON.parse(JSON.stringify(state));
+    },
+
+    async deleteProfileData(profileId) {
+      userData.delete(profileId);
+      schedules.delete(profileId);
+      screenTimeGoals.delete(profileId);
+      chats.delete(profileId);
+      preferences.delete(profileId);
+      for (const key of Array.from(screenTimeUsage.keys())) {
+        if (key.startsWith(`${profileId}:`)) screenTimeUsage.delete(key);
+      }
+    },
+
+    async deleteEverything() {
+      registry = { profiles: [], activeProfileId: null };
+      userData.clear();
+      schedules.clear();
+      screenTimeGoals.clear();
+      screenTimeUsage.clear();
+      chats.clear();
+      preferences.clear();
+      syncState = emptySyncState();
+    },
+
+    async claimLegacyData() {
+      // nothing predates profiles in memory
+    },
+  };
+}
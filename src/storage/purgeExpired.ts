@@ -0,0 +1,30 @@
+// src/storage/purgeExpired.ts
+// Applies each profile's retention policy to what's stored for it, so
+// data expires on a shared phone even for profiles nobody signs in to.
+// Runs at startup, before any profile is loaded. Works on any backend
+// through the repository interface.
+
+import { pruneExpired, sanitizeRetention } from "./retention";
+import type { StorageRepository } from "./types";
+
+export async function purgeExpiredProfiles(
+  repo: StorageRepository,
+  profileIds: string[],
+  now: number = Date.now()
+): Promise<void> {
+  for (const profileId of profileIds) {
+    try {
+      const policy = sanitizeRetention((await repo.loadPreferences(profileId)).retention);
+      if (policy.checkInDays == null && policy.alertDays == null) continue;
+      const data = await repo.loadUserData(profileId);
+      // null = written by a newer build; never overwrite it
+      if (!data) continue;
+      const checkIns = pruneExpired(data.checkIns, policy.checkInDays, now);
+      const alerts = pruneExpired(data.alerts, policy.alertDays, now);
+      if (checkIns === data.checkIns && alerts === data.alerts) continue;
+      await repo.saveUserData(profileId, { checkIns, alerts });
+    } catch (e) {
+      console.warn("Failed to purge expired data", e);
+    }
+  }
+}
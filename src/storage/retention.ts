@@ -0,0 +1,48 @@
+// src/storage/retention.ts
+// How long check-ins and sensor alerts are kept. Pure helpers – the
+// purging itself runs in purgeExpired.ts at startup and in UserContext
+// while a profile is open.
+
+export interface RetentionPolicy {
+  // null = keep forever
+  checkInDays: number | null;
+  alertDays: number | null;
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  checkInDays: null,
+  alertDays: null,
+};
+
+export const CHECK_IN_RETENTION_CHOICES: (number | null)[] = [null, 365, 90, 30];
+export const ALERT_RETENTION_CHOICES: (number | null)[] = [null, 90, 30, 7];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function retentionLabel(days: number | null): string {
+  if (days == null) return "Forever";
+  if (days === 365) return "1 year";
+  return `${days} days`;
+}
+
+// Returns the same array when nothing expired, so state setters can
+// bail out without triggering a save.
+export function pruneExpired<T extends { timestamp: number }>(
+  records: T[],
+  days: number | null,
+  now: number = Date.now()
+): T[] {
+  if (days == null) return records;
+  const cutoff = now - days * DAY_MS;
+  const kept = records.filter((r) => r.timestamp >= cutoff);
+  return kept.length === records.length ? records : kept;
+}
+
+export function sanitizeRetention(raw: any): RetentionPolicy {
+  const days = (v: any) =>
+    typeof v === "number" && Number.isFinite(v) && v > 0 ? Math.round(v) : null;
+  return {
+    checkInDays: days(raw?.checkInDays),
+    alertDays: days(raw?.alertDays),
+  };
+}
@@ -0,0 +1,366 @@
+// src/storage/sqliteRepository.ts
+// SQLite backend for long histories: one row per check-in / alert /
+// schedule item instead of one big JSON string in AsyncStorage.
+// Every table carries a profile_id so siblings' data stays apart.
+
+import * as SQLite from "expo-sqlite";
+import type { ChatMessage } from "../api/cometClient";
+import type {
+  ProfilePreferences,
+  ProfileRegistry,
+  ScheduleItem,
+  StorageRepository,
+  UserDataSnapshot,
+} from "./types";
+import { decodeUserData, CURRENT_SCHEMA_VERSION } from "./userDataSchema";
+import { normalizeSyncState } from "../sync/types";
+
+const DB_NAME = "neuroaura.db";
+
+const CREATE_TABLES = `
+  PRAGMA journal_mode = WAL;
+  CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY NOT NULL, value TEXT);
+  CREATE TABLE IF NOT EXISTS check_ins (
+    profile_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    body TEXT NOT NULL,
+    PRIMARY KEY (profile_id, id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_check_ins_ts ON check_ins (profile_id, timestamp);
+  CREATE TABLE IF NOT EXISTS alerts (
+    profile_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    body TEXT NOT NULL,
+    PRIMARY KEY (profile_id, id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_alerts_ts ON alerts (profile_id, timestamp);
+  CREATE TABLE IF NOT EXISTS schedule_items (
+    profile_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    body TEXT NOT NULL,
+    PRIMARY KEY (profile_id, id)
+  );
+  CREATE TABLE IF NOT EXISTS screen_time_usage (
+    profile_id TEXT NOT NULL,
+    day TEXT NOT NULL,
+    minutes INTEGER NOT NULL,
+    PRIMARY KEY (profile_id, day)
+  );
+  CREATE TABLE IF NOT EXISTS chat_messages (
+    profile_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    role TEXT NOT NULL,
+    content TEXT NOT NULL,
+    PRIMARY KEY (profile_id, position)
+  );
+`;
+
+// Tables whose rows belong to a single profile
+const PROFILE_TABLES = [
+  "check_ins",
+  "alerts",
+  "schedule_items",
+  "screen_time_usage",
+  "chat_messages",
+];
+
+type BodyRow = { body: string };
+
+// Check-in / alert tables, written row by row as they change
+type RecordTable = "check_ins" | "alerts";
+
+export function createSqliteRepository(): StorageRepository {
+  let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = (async () => {
+        const db = await SQLite.openDatabaseAsync(DB_NAME);
+        await db.execAsync(CREATE_TABLES);
+        return db;
+      })();
+    }
+    return dbPromise;
+  };
+
+  const getMeta = async (key: string): Promise<string | null> => {
+    const db = await getDb();
+    const row = await db.getFirstAsync<{ value: string | null }>(
+      "SELECT value FROM meta WHERE key = ?",
+      key
+    );
+    return row?.value ?? null;
+  };
+
+  const setMeta = async (key: string, value: string) => {
+    const db = await getDb();
+    await db.runAsync(
+      "INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)",
+      key,
+      value
+    );
+  };
+
+  const readBodies = async (sql: string, ...params: string[]) => {
+    const db = await getDb();
+    const rows = await db.getAllAsync<BodyRow>(sql, ...params);
+    return rows.map((r) => JSON.parse(r.body));
+  };
+
+  // id -> body as last written, per table and profile, so a save only
+  // touches the rows that changed
+  const written = new Map<string, Map<string, string>>();
+  const writtenKey = (table: RecordTable, profileId: string) => `${table}:${profileId}`;
+
+  const forgetWritten = (profileId?: string) => {
+    if (profileId === undefined) {
+      written.clear();
+      return;
+    }
+    written.delete(writtenKey("check_ins", profileId));
+    written.delete(writtenKey("alerts", profileId));
+  };
+
+  // Upserts changed records, deletes removed ones; returns what the table
+  // now holds
+  const writeRecords = async (
+    txn: SQLite.SQLiteDatabase,
+    table: RecordTable,
+    profileId: string,
+    records: { id: string; timestamp: number }[]
+  ) => {
+    let before = written.get(writtenKey(table, profileId));
+    if (!before) {
+      const rows = await txn.getAllAsync<{ id: string; body: string }>(
+        `SELECT id, body FROM ${table} WHERE profile_id = ?`,
+        profileId
+      );
+      before = new Map(rows.map((row) => [row.id, row.body]));
+    }
+    const after = new Map<string, string>();
+    for (const record of records) {
+      const body = JSON.stringify(record);
+      after.set(record.id, body);
+      if (before.get(record.id) === body) continue;
+      await txn.runAsync(
+        `INSERT INTO ${table} (profile_id, id, timestamp, body) VALUES (?, ?, ?, ?)
+         ON CONFLICT (profile_id, id) DO UPDATE SET timestamp = excluded.timestamp, body = excluded.body`,
+        profileId,
+        record.id,
+        record.timestamp,
+        body
+      );
+    }
+    for (const id of before.keys()) {
+      if (after.has(id)) continue;
+      await txn.runAsync(`DELETE FROM ${table} WHERE profile_id = ? AND id = ?`, profileId, id);
+    }
+    return after;
+  };
+
+  return {
+    kind: "sqlite",
+
+    async loadProfiles() {
+      const raw = await getMeta("profiles");
+      if (!raw) return { profiles: [], activeProfileId: null };
+      return JSON.parse(raw) as ProfileRegistry;
+    },
+    async saveProfiles(registry) {
+      await setMeta("profiles", JSON.stringify(registry));
+    },
+
+    async loadUserData(profileId) {
+      const version = await getMeta(`schema_version:${profileId}`);
+      const checkIns = await readBodies(
+        "SELECT body FROM check_ins WHERE profile_id = ? ORDER BY timestamp DESC",
+        profileId
+      );
+      const alerts = await readBodies(
+        "SELECT body FROM alerts WHERE profile_id = ? ORDER BY timestamp DESC",
+        profileId
+      );
+      if (version == null && checkIns.length === 0 && alerts.length === 0) {
+        return decodeUserData(null);
+      }
+      return decodeUserData({
+        schemaVersion: version == null ? 0 : parseInt(version, 10),
+        checkIns,
+        alerts,
+      });
+    },
+    async saveUserData(profileId, data: UserDataSnapshot) {
+      const db = await getDb();
+      try {
+        await db.withExclusiveTransactionAsync(async (txn) => {
+          const checkIns = await writeRecords(txn, "check_ins", profileId, data.checkIns);
+          const alerts = await writeRecords(txn, "alerts", profileId, data.alerts);
+          await txn.runAsync(
+            "INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)",
+            `schema_version:${profileId}`,
+            String(CURRENT_SCHEMA_VERSION)
+          );
+          // set before the next save's transaction can start
+          written.set(writtenKey("check_ins", profileId), checkIns);
+          written.set(writtenKey("alerts", profileId), alerts);
+        });
+      } catch (e) {
+        // rolled back – re-read the rows next time
+        forgetWritten(profileId);
+        throw e;
+      }
+    },
+
+    async loadSchedule(profileId) {
+      return (await readBodies(
+        "SELECT body FROM schedule_items WHERE profile_id = ? ORDER BY rowid",
+        profileId
+      )) as ScheduleItem[];
+    },
+    async saveSchedule(profileId, items) {
+      const db = await getDb();
+      await db.withExclusiveTransactionAsync(async (txn) => {
+        await txn.runAsync(
+          "DELETE FROM schedule_items WHERE profile_id = ?",
+          profileId
+        );
+        for (const item of items) {
+          await txn.runAsync(
+            "INSERT INTO schedule_items (profile_id, id, body) VALUES (?, ?, ?)",
+            profileId,
+            item.id,
+            JSON.stringify(item)
+          );
+        }
+      });
+    },
+
+    async loadScreenTimeGoal(profileId) {
+      const raw = await getMeta(`screen_time_goal_minutes:${profileId}`);
+      if (raw == null) return null;
+      const n = parseInt(raw, 10);
+      return Number.isNaN(n) ? null : n;
+    },
+    async saveScreenTimeGoal(profileId, minutes) {
+      await setMeta(`screen_time_goal_minutes:${profileId}`, String(minutes));
+    },
+    async loadScreenTimeUsage(profileId, day) {
+      const db = await getDb();
+      const row = await db.getFirstAsync<{ minutes: number }>(
+        "SELECT minutes FROM screen_time_usage WHERE profile_id = ? AND day = ?",
+        profileId,
+        day
+      );
+      return row?.minutes ?? 0;
+    },
+    async saveScreenTimeUsage(profileId, day, minutes) {
+      const db = await getDb();
+      await db.runAsync(
+        "INSERT OR REPLACE INTO screen_time_usage (profile_id, day, minutes) VALUES (?, ?, ?)",
+        profileId,
+        day,
+        minutes
+      );
+    },
+
+    async loadScreenTimeHistory(profileId) {
+      const db = await getDb();
+      const rows = await db.getAllAsync<{ day: string; minutes: number }>(
+        "SELECT day, minutes FROM screen_time_usage WHERE profile_id = ? ORDER BY day",
+        profileId
+      );
+      const history: Record<string, number> = {};
+      rows.forEach((r) => {
+        history[r.day] = r.minutes;
+      });
+      return history;
+    },
+
+    async loadChat(profileId) {
+      const db = await getDb();
+      return db.getAllAsync<ChatMessage>(
+        "SELECT role, content FROM chat_messages WHERE profile_id = ? ORDER BY position",
+        profileId
+      );
+    },
+    async saveChat(profileId, messages) {
+      const db = await getDb();
+      await db.withExclusiveTransactionAsync(async (txn) => {
+        await txn.runAsync(
+          "DELETE FROM chat_messages WHERE profile_id = ?",
+          profileId
+        );
+        for (let i = 0; i < messages.length; i++) {
+          await txn.runAsync(
+            "INSERT INTO chat_messages (profile_id, position, role, content) VALUES (?, ?, ?, ?)",
+            profileId,
+            i,
+            messages[i].role,
+            messages[i].content
+          );
+        }
+      });
+    },
+
+    async loadPreferences(profileId) {
+      const raw = await getMeta(`preferences:${profileId}`);
+      if (!raw) return {};
+      try {
+        return JSON.parse(raw) as ProfilePreferences;
+      } catch (e) {
+        console.warn("Stored preferences are not valid JSON, ignoring", e);
+        return {};
+      }
+    },
+    async savePreferences(profileId, prefs) {
+      await setMeta(`preferences:${profileId}`, JSON.stringify(prefs));
+    },
+
+    async loadSyncState() {
+      const raw = await getMeta("sync_state");
+      if (!raw) return normalizeSyncState(null);
+      try {
+        return normalizeSyncState(JSON.parse(raw));
+      } catch (e) {
+        console.warn("Stored sync state is not valid JSON, ignoring", e);
+        return normalizeSyncState(null);
+      }
+    },
+    async saveSyncState(state) {
+      await setMeta("sync_state", JSON.stringify(state));
+    },
+
+    async deleteProfileData(profileId) {
+      forgetWritten(profileId);
+      const db = await getDb();
+      await db.withExclusiveTransactionAsync(async (txn) => {
+        for (const table of PROFILE_TABLES) {
+          await txn.runAsync(`DELETE FROM ${table} WHERE profile_id = ?`, profileId);
+        }
+        await txn.runAsync(
+          "DELETE FROM meta WHERE key IN (?, ?, ?)",
+          `schema_version:${profileId}`,
+          `screen_time_goal_minutes:${profileId}`,
+          `preferences:${profileId}`
+        );
+      });
+    },
+
+    async deleteEverything() {
+      forgetWritten();
+      const db = await getDb();
+      await db.withExclusiveTransactionAsync(async (txn) => {
+        for (const table of PROFILE_TABLES) {
+          await txn.runAsync(`DELETE FROM ${table}`);
+        }
+        await txn.runAsync("DELETE FROM meta");
+      });
+    },
+
+    async claimLegacyData() {
+      // SQLite storage never shipped without profile ids – nothing to claim
+    },
+  };
+}
@@ -0,0 +1,91 @@
+// src/storage/transferProfileData.ts
+// Moves everything one profile stored into another – used when a guest
+// session signs up and keeps what it logged. Works on any backend
+// through the repository interface.
+
+import type { StorageRepository } from "./types";
+
+export interface ProfileDataSummary {
+  checkIns: number;
+  alerts: number;
+  scheduleItems: number;
+  screenTimeDays: number;
+  chatMessages: number;
+}
+
+export const isEmptySummary = (s: ProfileDataSummary) =>
+  s.checkIns + s.alerts + s.scheduleItems + s.screenTimeDays + s.chatMessages === 0;
+
+export async function summarizeProfileData(
+  repo: StorageRepository,
+  profileId: string
+): Promise<ProfileDataSummary> {
+  const [data, schedule, usage, chat] = await Promise.all([
+    repo.loadUserData(profileId),
+    repo.loadSchedule(profileId),
+    repo.loadScreenTimeHistory(profileId),
+    repo.loadChat(profileId),
+  ]);
+  return {
+    checkIns: data?.checkIns.length ?? 0,
+    alerts: data?.alerts.length ?? 0,
+    scheduleItems: schedule.length,
+    screenTimeDays: Object.keys(usage).length,
+    chatMessages: chat.length,
+  };
+}
+
+// Records the target already has win when ids clash
+function mergeById<T extends { id: string }>(target: T[], source: T[]): T[] {
+  const seen = new Set(target.map((r) => r.id));
+  return [...target, ...source.filter((r) => !seen.has(r.id))];
+}
+
+const newestFirst = <T extends { timestamp: number }>(list: T[]) =>
+  [...list].sort((a, b) => b.timestamp - a.timestamp);
+
+// Copies fromId's data into toId, then deletes fromId's. Throws (and
+// deletes nothing) if a step fails, so nothing is lost half-way.
+export async function transferProfileData(
+  repo: StorageRepository,
+  fromId: string,
+  toId: string
+): Promise<void> {
+  const source = await repo.loadUserData(fromId);
+  if (source && (source.checkIns.length > 0 || source.alerts.length > 0)) {
+    const target = await repo.loadUserData(toId);
+    if (!target) {
+      throw new Error("The account’s stored data can’t be read, so nothing was moved.");
+    }
+    await repo.saveUserData(toId, {
+      checkIns: newestFirst(mergeById(target.checkIns, source.checkIns)),
+      alerts: newestFirst(mergeById(target.alerts, source.alerts)),
+    });
+  }
+
+  const schedule = await repo.loadSchedule(fromId);
+  if (schedule.length > 0) {
+    await repo.saveSchedule(toId, mergeById(await repo.loadSchedule(toId), schedule));
+  }
+
+  const goal = await repo.loadScreenTimeGoal(fromId);
+  if (goal != null && (await repo.loadScreenTimeGoal(toId)) == null) {
+    await repo.saveScreenTimeGoal(toId, goal);
+  }
+  // minutes logged on the same day by both add up
+  const usage = await repo.loadScreenTimeHistory(fromId);
+  for (const [day, minutes] of Object.entries(usage)) {
+    const existing = await repo.loadScreenTimeUsage(toId, day);
+    await repo.saveScreenTimeUsage(toId, day, existing + minutes);
+  }
+
+  const chat = await repo.loadChat(fromId);
+  if (chat.length > 0 && (await repo.loadChat(toId)).length === 0) {
+    await repo.saveChat(toId, chat);
+  }
+
+  const prefs = await repo.loadPreferences(fromId);
+  await repo.savePreferences(toId, { ...prefs, ...(await repo.loadPreferences(toId)) });
+
+  await repo.deleteProfileData(fromId);
+}
@@ -0,0 +1,103 @@
+// src/storage/types.ts
+// One storage interface for everything the app keeps on the device.
+// Screens and UserContext talk to this, never to AsyncStorage / SQLite.
+
+import type {
+  CheckIn,
+  AlertEvent,
+  UserProfile,
+} from "../../context/UserContext";
+import type { ChatMessage } from "../api/cometClient";
+import type { PersistedUserData } from "./userDataSchema";
+import type { RetentionPolicy } from "./retention";
+import type { SensorSettings } from "../sensors/settings";
+import type { AlertModes } from "../sensors/alertModes";
+import type { SyncState } from "../sync/types";
+import type { FieldClock } from "../sync/clock";
+
+export type ScheduleItem = {
+  id: string;
+  date: string; // YYYY-MM-DD
+  title: string;
+  type: "CHECK_IN" | "ACTIVITY" | "THERAPY" | "MEDICATION" | "OTHER";
+  time: string; // "09:30 pm"
+  repeat: "NONE" | "DAILY" | "WEEKLY";
+  completed: boolean;
+  // per-field edit stamps, used to merge edits from other devices
+  clock?: FieldClock;
+};
+
+export interface UserDataSnapshot {
+  checkIns: CheckIn[];
+  alerts: AlertEvent[];
+}
+
+// Every profile on the device + which one is in use
+export interface ProfileRegistry {
+  profiles: UserProfile[];
+  activeProfileId: string | null;
+  // A guest session that's still running. Its data is deleted when it
+  // ends – or on the next launch, if the app was closed mid-session.
+  guestSessionId?: string | null;
+}
+
+// Per-profile settings that aren't data themselves
+export interface ProfilePreferences {
+  retention?: RetentionPolicy;
+  sensors?: SensorSettings;
+  alertModes?: AlertModes;
+}
+
+export type StorageBackendKind = "memory" | "async-storage" | "sqlite";
+
+// Everything except the registry is namespaced by profile id, so
+// siblings sharing a device never see each other's data.
+export interface StorageRepository {
+  readonly kind: StorageBackendKind;
+
+  loadProfiles(): Promise<ProfileRegistry>;
+  saveProfiles(registry: ProfileRegistry): Promise<void>;
+
+  // Check-ins + alerts. Returns null if stored data can't be read
+  // safely (see decodeUserData) – don't save over it in that case.
+  loadUserData(profileId: string): Promise<PersistedUserData | null>;
+  saveUserData(profileId: string, data: UserDataSnapshot): Promise<void>;
+
+  // Schedule items (ScheduleCalendarScreen)
+  loadSchedule(profileId: string): Promise<ScheduleItem[]>;
+  saveSchedule(profileId: string, items: ScheduleItem[]): Promise<void>;
+
+  // Screen time (ScreenTimeRegulatorScreen). day = YYYY-MM-DD
+  loadScreenTimeGoal(profileId: string): Promise<number | null>;
+  saveScreenTimeGoal(profileId: string, minutes: number): Promise<void>;
+  loadScreenTimeUsage(profileId: string, day: string): Promise<number>;
+  // every logged day -> minutes
+  loadScreenTimeHistory(profileId: string): Promise<Record<string, number>>;
+  saveScreenTimeUsage(
+    profileId: string,
+    day: string,
+    minutes: number
+  ): Promise<void>;
+
+  // "Your Friend" chat history
+  loadChat(profileId: string): Promise<ChatMessage[]>;
+  saveChat(profileId: string, messages: ChatMessage[]): Promise<void>;
+
+  loadPreferences(profileId: string): Promise<ProfilePreferences>;
+  savePreferences(profileId: string, prefs: ProfilePreferences): Promise<void>;
+
+  // Sync outbox + cursors for the whole device (see src/sync)
+  loadSyncState(): Promise<SyncState>;
+  saveSyncState(state: SyncState): Promise<void>;
+
+  // Removes everything stored for one profile (not the registry entry)
+  deleteProfileData(profileId: string): Promise<void>;
+
+  // Removes everything this app ever stored: all profiles, the registry
+  // and any data left over from before profiles existed.
+  deleteEverything(): Promise<void>;
+
+  // Moves data written before profiles existed into the given profile.
+  // No-op when there is nothing to claim.
+  claimLegacyData(profileId: string): Promise<void>;
+}
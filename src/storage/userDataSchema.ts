@@ -0,0 +1,89 @@
+// src/storage/userDataSchema.ts
+// Schema version + migrations for the data UserContext persists
+// (check-ins + parent alert log). Every storage backend runs stored
+// data through decodeUserData, so old installs upgrade the same way.
+
+import type { CheckIn, AlertEvent } from "../../context/UserContext";
+
+// Bump this whenever the stored shape changes, and add a migration below.
+export const CURRENT_SCHEMA_VERSION = 2;
+
+export interface PersistedUserData {
+  schemaVersion: number;
+  checkIns: CheckIn[];
+  alerts: AlertEvent[];
+}
+
+// Each migration upgrades data from version N to N + 1.
+// Key = the version being migrated FROM.
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  // 0 = anything written before we versioned the payload
+  0: (data) => ({
+    schemaVersion: 1,
+    checkIns: Array.isArray(data?.checkIns) ? data.checkIns : [],
+    alerts: Array.isArray(data?.alerts) ? data.alerts : [],
+  }),
+  // v2: check-ins get an explicit source. Older sensor entries were only
+  // recognisable by the symptom text the watchers wrote.
+  1: (data) => ({
+    ...data,
+    schemaVersion: 2,
+    checkIns: data.checkIns.map((c: any) => ({
+      ...c,
+      source: c.source ?? (looksLikeLegacySensorEntry(c) ? "sensor" : "manual"),
+    })),
+  }),
+};
+
+const LEGACY_SENSOR_SYMPTOMS = [
+  "phone shaken hard",
+  "very loud environment",
+  "very bright screen",
+];
+
+function looksLikeLegacySensorEntry(entry: any): boolean {
+  const syms: string[] = Array.isArray(entry?.symptoms) ? entry.symptoms : [];
+  const text = syms.join(" ").toLowerCase();
+  return LEGACY_SENSOR_SYMPTOMS.some((s) => text.includes(s));
+}
+
+export function emptyUserData(): PersistedUserData {
+  return { schemaVersion: CURRENT_SCHEMA_VERSION, checkIns: [], alerts: [] };
+}
+
+// Run every migration between the stored version and the current one.
+export function migrateUserData(raw: any): PersistedUserData {
+  let data = raw ?? {};
+  let version = typeof data.schemaVersion === "number" ? data.schemaVersion : 0;
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    // Written by a newer app build – don't risk mangling it.
+    throw new Error(
+      `Stored user data is schema v${version}, this build only knows v${CURRENT_SCHEMA_VERSION}`
+    );
+  }
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from user data schema v${version}`);
+    }
+    data = migrate(data);
+    version = data.schemaVersion;
+  }
+
+  return data as PersistedUserData;
+}
+
+// Returns null when the stored data exists but can't be used safely
+// (e.g. written by a newer build). Callers should then avoid saving,
+// so we never overwrite data we don't understand.
+export function decodeUserData(raw: any): PersistedUserData | null {
+  if (raw == null) return emptyUserData();
+  try {
+    return migrateUserData(raw);
+  } catch (e) {
+    console.warn("Failed to migrate stored user data", e);
+    return null;
+  }
+}
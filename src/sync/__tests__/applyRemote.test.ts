@@ -0,0 +1,129 @@
+// src/sync/__tests__/applyRemote.test.ts
+import { applyRemoteCheckIns, applyRemoteSchedule } from "../applyRemote";
+import { setClockDevice, Stamp } from "../clock";
+import { RemoteChange, tombstoneKey } from "../types";
+import type { CheckIn } from "../../../context/UserContext";
+import type { ScheduleItem } from "../../storage/types";
+
+const ME = "phone-a";
+const OTHER = "phone-b";
+
+const at = (t: number, d = ME): Stamp => ({ t, d });
+
+const item = (fields: Partial<ScheduleItem> = {}): ScheduleItem => ({
+  id: "s1",
+  date: "2025-05-12",
+  title: "Swimming",
+  type: "ACTIVITY",
+  time: "04:00 pm",
+  repeat: "NONE",
+  completed: false,
+  ...fields,
+});
+
+let seq = 0;
+const change = <K extends RemoteChange["kind"]>(
+  kind: K,
+  payload: RemoteChange<K>["payload"],
+  createdAt = 0
+): RemoteChange => ({
+  seq: ++seq,
+  profileId: "p1",
+  deviceId: OTHER,
+  kind,
+  payload,
+  createdAt,
+});
+
+const upsert = (record: ScheduleItem) => change("schedule.upsert", record);
+const remove = (id: string, deletedAt: Stamp) => change("schedule.delete", { id, deletedAt });
+
+beforeAll(() => setClockDevice(ME));
+
+describe("applyRemoteSchedule", () => {
+  it("returns the same list when nothing changed", () => {
+    const items = [item({ clock: { title: at(20) } })];
+    const result = applyRemoteSchedule(items, [upsert(item({ clock: { title: at(10, OTHER) } }))]);
+    expect(result.records).toBe(items);
+    expect(result.overrides).toEqual([]);
+  });
+
+  it("merges field by field and reports the local edits that lost", () => {
+    const items = [item({ title: "Swim club", completed: true, clock: { title: at(20), completed: at(20) } })];
+    const remote = item({ title: "Swimming lesson", clock: { title: at(30, OTHER) } });
+
+    const { records, overrides } = applyRemoteSchedule(items, [upsert(remote)]);
+    expect(records[0]).toMatchObject({ title: "Swimming lesson", completed: true });
+    expect(overrides).toEqual([
+      { kind: "schedule", id: "s1", label: "“Swim club”", fields: ["title"] },
+    ]);
+  });
+
+  it("drops a record deleted elsewhere unless it was edited afterwards", () => {
+    const items = [item({ clock: { title: at(20) } })];
+
+    const deleted = applyRemoteSchedule(items, [remove("s1", at(30, OTHER))]);
+    expect(deleted.records).toEqual([]);
+    expect(deleted.overrides[0].fields).toEqual(["deleted"]);
+
+    const kept = applyRemoteSchedule(items, [remove("s1", at(10, OTHER))]);
+    expect(kept.records).toBe(items);
+  });
+
+  it("brings back something deleted here only for a later edit", () => {
+    const tombstones = { [tombstoneKey("schedule", "s1")]: at(20) };
+
+    const older = applyRemoteSchedule([], [upsert(item({ clock: { title: at(10, OTHER) } }))], tombstones);
+    expect(older.records).toEqual([]);
+
+    const later = item({ title: "Swim club", clock: { title: at(30, OTHER) } });
+    const restored = applyRemoteSchedule([], [upsert(later)], tombstones);
+    expect(restored.records).toEqual([later]);
+    expect(restored.overrides[0].fields).toEqual(["restored"]);
+  });
+
+  it("ends up the same whatever order an edit and a delete arrive in", () => {
+    const items = [item({ clock: { title: at(10) } })];
+    const edit = upsert(item({ time: "05:00 pm", clock: { time: at(30, OTHER) } }));
+    const del = remove("s1", at(20, "tablet"));
+
+    // the values agree; only the clock of the copy that was dropped differs
+    const values = (records: ScheduleItem[]) => records.map(({ clock, ...rest }) => rest);
+    const editFirst = applyRemoteSchedule(items, [edit, del]).records;
+    const deleteFirst = applyRemoteSchedule(items, [del, edit]).records;
+    expect(values(editFirst)).toEqual(values(deleteFirst));
+    expect(editFirst[0].time).toBe("05:00 pm");
+  });
+
+  it("stamps a delete from before deletes were stamped with when it was sent", () => {
+    const items = [item({ clock: { title: at(20) } })];
+    const legacy = change("schedule.delete", { id: "s1" } as RemoteChange<"schedule.delete">["payload"], 30);
+    expect(applyRemoteSchedule(items, [legacy]).records).toEqual([]);
+  });
+});
+
+describe("applyRemoteCheckIns", () => {
+  const checkIn = (fields: Partial<CheckIn> = {}): CheckIn => ({
+    id: "c1",
+    timestamp: 1_000,
+    mood: "okay",
+    symptoms: [],
+    source: "manual",
+    ...fields,
+  });
+
+  it("treats unedited fields as written when the check-in was logged", () => {
+    const local = checkIn();
+    const remote = checkIn({ mood: "sad", clock: { mood: at(2_000, OTHER) } });
+    const stale = checkIn({ mood: "angry", clock: { mood: at(500, OTHER) } });
+
+    expect(applyRemoteCheckIns([local], [change("checkin.upsert", remote)]).records[0].mood).toBe("sad");
+    expect(applyRemoteCheckIns([local], [change("checkin.upsert", stale)]).records[0].mood).toBe("okay");
+  });
+
+  it("keeps the list newest first", () => {
+    const older = checkIn({ id: "c0", timestamp: 500 });
+    const { records } = applyRemoteCheckIns([checkIn()], [change("checkin.upsert", older)]);
+    expect(records.map((c) => c.id)).toEqual(["c1", "c0"]);
+  });
+});
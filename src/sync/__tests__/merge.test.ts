@@ -0,0 +1,129 @@
+// src/sync/__tests__/merge.test.ts
+import { compareStamps, observeStamp, setClockDevice, Stamp, stamp } from "../clock";
+import { latestStamp, mergeRecord, survivesDelete } from "../merge";
+import { SCHEDULE_ITEM_SPEC } from "../applyRemote";
+import type { ScheduleItem } from "../../storage/types";
+
+const ME = "phone-a";
+const OTHER = "phone-b";
+
+const at = (t: number, d = ME): Stamp => ({ t, d });
+
+const item = (fields: Partial<ScheduleItem> = {}): ScheduleItem => ({
+  id: "s1",
+  date: "2025-05-12",
+  title: "Swimming",
+  type: "ACTIVITY",
+  time: "04:00 pm",
+  repeat: "NONE",
+  completed: false,
+  ...fields,
+});
+
+const merge = (local: ScheduleItem, remote: ScheduleItem) =>
+  mergeRecord(SCHEDULE_ITEM_SPEC, local, remote);
+
+describe("clock", () => {
+  it("won't stamp before the device id is known", () => {
+    jest.isolateModules(() => {
+      const clock = require("../clock");
+      expect(() => clock.stamp()).toThrow("device id");
+    });
+  });
+
+  it("stamps with this device and never goes backwards", () => {
+    setClockDevice(ME);
+    const first = stamp();
+    observeStamp({ t: first.t + 60_000, d: OTHER });
+    const second = stamp();
+    expect(first.d).toBe(ME);
+    expect(second.t).toBeGreaterThan(first.t + 60_000);
+  });
+
+  it("orders by time, then by device id", () => {
+    expect(compareStamps(at(1, OTHER), at(2, ME))).toBeLessThan(0);
+    expect(compareStamps(at(2, OTHER), at(2, ME))).toBeGreaterThan(0);
+    expect(compareStamps(at(2, ME), at(2, ME))).toBe(0);
+  });
+});
+
+describe("mergeRecord", () => {
+  beforeAll(() => setClockDevice(ME));
+
+  it("keeps the newest value of each field on its own", () => {
+    const local = item({ title: "Swim club", clock: { title: at(20) } });
+    const remote = item({ time: "05:00 pm", clock: { time: at(30, OTHER) } });
+
+    const { merged, changed, overridden } = merge(local, remote);
+    expect(changed).toBe(true);
+    expect(merged).toMatchObject({ title: "Swim club", time: "05:00 pm" });
+    expect(merged.clock).toEqual({ title: at(20), time: at(30, OTHER) });
+    expect(overridden).toEqual([]);
+  });
+
+  it("reports the local edits a later remote edit replaced", () => {
+    const local = item({ title: "Swim club", clock: { title: at(20) } });
+    const remote = item({ title: "Swimming lesson", clock: { title: at(30, OTHER) } });
+
+    const { merged, overridden } = merge(local, remote);
+    expect(merged.title).toBe("Swimming lesson");
+    expect(overridden).toEqual(["title"]);
+  });
+
+  it("ignores an older remote edit", () => {
+    const local = item({ title: "Swim club", clock: { title: at(30) } });
+    const remote = item({ title: "Swimming lesson", clock: { title: at(20, OTHER) } });
+
+    const result = merge(local, remote);
+    expect(result.changed).toBe(false);
+    expect(result.merged).toBe(local);
+  });
+
+  it("breaks a tie on time by device id", () => {
+    const mine = item({ title: "Mine", clock: { title: at(20, ME) } });
+    const theirs = item({ title: "Theirs", clock: { title: at(20, OTHER) } });
+
+    expect(merge(mine, theirs).merged.title).toBe("Theirs");
+    expect(merge(theirs, mine).merged.title).toBe("Theirs");
+  });
+
+  it("ends up the same whatever order the copies arrive in", () => {
+    const copies = [
+      item({ title: "A", completed: true, clock: { title: at(10), completed: at(40) } }),
+      item({ title: "B", time: "06:00 pm", clock: { title: at(30, OTHER), time: at(20, OTHER) } }),
+      item({ repeat: "WEEKLY", completed: false, clock: { repeat: at(25, "tablet"), completed: at(35, "tablet") } }),
+    ];
+    const orders = [
+      [0, 1, 2],
+      [0, 2, 1],
+      [1, 0, 2],
+      [1, 2, 0],
+      [2, 0, 1],
+      [2, 1, 0],
+    ];
+    const results = orders.map((order) =>
+      order.map((i) => copies[i]).reduce((acc, next) => merge(acc, next).merged)
+    );
+
+    for (const result of results) expect(result).toEqual(results[0]);
+    expect(results[0]).toMatchObject({
+      title: "B",
+      time: "06:00 pm",
+      repeat: "WEEKLY",
+      completed: true,
+    });
+  });
+});
+
+describe("survivesDelete", () => {
+  it("keeps a record only if it was touched after the delete", () => {
+    const edited = item({ clock: { title: at(30, OTHER) } });
+
+    expect(latestStamp(SCHEDULE_ITEM_SPEC, edited)).toEqual(at(30, OTHER));
+    expect(survivesDelete(SCHEDULE_ITEM_SPEC, edited, at(20))).toBe(true);
+    expect(survivesDelete(SCHEDULE_ITEM_SPEC, edited, at(40))).toBe(false);
+    // same time: the higher device id wins here too
+    expect(survivesDelete(SCHEDULE_ITEM_SPEC, edited, at(30, ME))).toBe(true);
+    expect(survivesDelete(SCHEDULE_ITEM_SPEC, item(), at(1))).toBe(false);
+  });
+});
@@ -0,0 +1,167 @@
+// src/sync/applyRemote.ts
+// Folds pulled changes into a local list of check-ins / alerts /
+// schedule items. Pure, so UserContext can run it inside a state update
+// and the sync service can run it on the stored schedule.
+
+import type { AlertEvent, CheckIn } from "../../context/UserContext";
+import type { ScheduleItem } from "../storage/types";
+import { isLocalStamp, Stamp } from "./clock";
+import {
+  hasLocalEdits,
+  Mergeable,
+  mergeRecord,
+  RecordSpec,
+  RemoteOverride,
+  survivesDelete,
+} from "./merge";
+import { RemoteChange, tombstoneKey, Tombstones } from "./types";
+
+export const CHECK_IN_SPEC: RecordSpec<CheckIn> = {
+  fields: ["mood", "symptoms", "notes", "intensity", "sleepQuality"],
+  base: (c) => ({ t: c.timestamp, d: "" }),
+};
+
+export const SCHEDULE_ITEM_SPEC: RecordSpec<ScheduleItem> = {
+  fields: ["date", "title", "type", "time", "repeat", "completed"],
+  base: () => ({ t: 0, d: "" }),
+};
+
+export interface RemoteApplyResult<T> {
+  // same array as the input when nothing changed
+  records: T[];
+  overrides: RemoteOverride[];
+}
+
+interface Collection<T extends Mergeable> {
+  kind: RemoteOverride["kind"];
+  spec: RecordSpec<T>;
+  upsert: RemoteChange["kind"];
+  remove: RemoteChange["kind"];
+  label: (record: T) => string;
+  afterMerge?: (merged: T, local: T, remote: T) => T;
+}
+
+const CHECK_INS: Collection<CheckIn> = {
+  kind: "checkin",
+  spec: CHECK_IN_SPEC,
+  upsert: "checkin.upsert",
+  remove: "checkin.delete",
+  label: (c) => `Check-in from ${new Date(c.timestamp).toLocaleDateString()}`,
+  afterMerge: (merged, local, remote) => ({
+    ...merged,
+    updatedAt: Math.max(local.updatedAt ?? 0, remote.updatedAt ?? 0) || undefined,
+  }),
+};
+
+const SCHEDULE_ITEMS: Collection<ScheduleItem> = {
+  kind: "schedule",
+  spec: SCHEDULE_ITEM_SPEC,
+  upsert: "schedule.upsert",
+  remove: "schedule.delete",
+  label: (item) => `“${item.title}”`,
+};
+
+// Deletes queued before deletes were stamped only know when they were sent
+function deletedAt(change: RemoteChange): Stamp {
+  const payload = change.payload as { deletedAt?: Stamp };
+  return payload.deletedAt ?? { t: change.createdAt, d: change.deviceId };
+}
+
+function applyChanges<T extends Mergeable>(
+  collection: Collection<T>,
+  list: T[],
+  changes: RemoteChange[],
+  tombstones: Tombstones
+): RemoteApplyResult<T> {
+  const { spec } = collection;
+  const overrides = new Map<string, RemoteOverride>();
+  const note = (record: T, fields: string[]) => {
+    const prev = overrides.get(record.id);
+    overrides.set(record.id, {
+      kind: collection.kind,
+      id: record.id,
+      label: collection.label(record),
+      fields: Array.from(new Set([...(prev?.fields ?? []), ...fields])),
+    });
+  };
+
+  let next = list;
+  for (const change of changes) {
+    if (change.kind === collection.upsert) {
+      const incoming = change.payload as unknown as T;
+      const index = next.findIndex((r) => r.id === incoming.id);
+      if (index === -1) {
+        const tombstone = tombstones[tombstoneKey(collection.kind, incoming.id)];
+        if (tombstone && !survivesDelete(spec, incoming, tombstone)) continue;
+        // edited elsewhere after we deleted it – the edit wins
+        if (tombstone && isLocalStamp(tombstone)) note(incoming, ["restored"]);
+        next = [incoming, ...next];
+        continue;
+      }
+      const local = next[index];
+      const result = mergeRecord(spec, local, incoming);
+      if (!result.changed) continue;
+      next = [...next];
+      next[index] = collection.afterMerge
+        ? collection.afterMerge(result.merged, local, incoming)
+        : result.merged;
+      if (result.overridden.length > 0) note(local, result.overridden);
+    } else if (change.kind === collection.remove) {
+      const { id } = change.payload as { id: string };
+      const local = next.find((r) => r.id === id);
+      // kept if it was edited after the delete happened
+      if (!local || survivesDelete(spec, local, deletedAt(change))) continue;
+      if (hasLocalEdits(local)) note(local, ["deleted"]);
+      next = next.filter((r) => r.id !== id);
+    }
+  }
+  return { records: next, overrides: Array.from(overrides.values()) };
+}
+
+const byNewest = <T extends { timestamp: number }>(list: T[]) =>
+  [...list].sort((a, b) => b.timestamp - a.timestamp);
+
+export function applyRemoteCheckIns(
+  checkIns: CheckIn[],
+  changes: RemoteChange[],
+  tombstones: Tombstones = {}
+): RemoteApplyResult<CheckIn> {
+  const result = applyChanges(CHECK_INS, checkIns, changes, tombstones);
+  return result.records === checkIns
+    ? result
+    : { ...result, records: byNewest(result.records) };
+}
+
+export function applyRemoteSchedule(
+  items: ScheduleItem[],
+  changes: RemoteChange[],
+  tombstones: Tombstones = {}
+): RemoteApplyResult<ScheduleItem> {
+  return applyChanges(SCHEDULE_ITEMS, items, changes, tombstones);
+}
+
+// Alerts never change except for being acknowledged, which sticks.
+// If both devices acknowledged, the earlier time wins. Returns the same
+// array when nothing changed.
+export function applyRemoteAlerts(
+  alerts: AlertEvent[],
+  changes: RemoteChange[]
+): AlertEvent[] {
+  let next = alerts;
+  for (const change of changes) {
+    if (change.kind !== "alert.upsert") continue;
+    const incoming = (change as RemoteChange<"alert.upsert">).payload;
+    const index = next.findIndex((a) => a.id === incoming.id);
+    if (index === -1) {
+      next = [incoming, ...next];
+      continue;
+    }
+    const local = next[index].acknowledgedAt;
+    const remote = incoming.acknowledgedAt;
+    if (remote && (!local || remote < local)) {
+      next = [...next];
+      next[index] = { ...next[index], acknowledgedAt: remote };
+    }
+  }
+  return next === alerts ? alerts : byNewest(next);
+}
@@ -0,0 +1,60 @@
+// src/sync/clock.ts
+// Per-field timestamps for mergeable records. A stamp is wall-clock
+// time plus the device that made it; stamps never go backwards on one
+// device and jump past anything seen from other devices, so an edit
+// made after seeing a remote change always wins over it.
+
+export interface Stamp {
+  t: number;
+  d: string; // device id
+}
+
+// field name -> when it was last set. The pseudo-field "_alive" is
+// stamped when a deleted record is brought back.
+export type FieldClock = Record<string, Stamp>;
+
+export const ALIVE_FIELD = "_alive";
+
+// Set at startup by loadDeviceId() (deviceId.ts). Nothing is stamped
+// before that: a placeholder id would look like every device's own.
+let deviceId: string | null = null;
+let lastT = 0;
+
+export function setClockDevice(id: string) {
+  deviceId = id;
+}
+
+export function isLocalStamp(s: Stamp): boolean {
+  return s.d === deviceId;
+}
+
+export function stamp(): Stamp {
+  if (!deviceId) throw new Error("Can't stamp an edit before the device id is loaded");
+  lastT = Math.max(Date.now(), lastT + 1);
+  return { t: lastT, d: deviceId };
+}
+
+// Call with every stamp received from another device
+export function observeStamp(s: Stamp) {
+  if (s.t > lastT) lastT = s.t;
+}
+
+// Total order: time, then device id
+export function compareStamps(a: Stamp, b: Stamp): number {
+  if (a.t !== b.t) return a.t < b.t ? -1 : 1;
+  if (a.d === b.d) return 0;
+  return a.d < b.d ? -1 : 1;
+}
+
+export const maxStamp = (a: Stamp, b: Stamp) => (compareStamps(a, b) >= 0 ? a : b);
+
+// Stamps the given fields as changed now
+export function touchClock(
+  clock: FieldClock | undefined,
+  fields: string[]
+): FieldClock {
+  const now = stamp();
+  const next: FieldClock = { ...(clock ?? {}) };
+  for (const f of fields) next[f] = now;
+  return next;
+}
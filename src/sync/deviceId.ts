@@ -0,0 +1,32 @@
+// src/sync/deviceId.ts
+// This device's id, kept in the sync state. Loaded at startup – before
+// any profile's data, so before anything can be edited – and handed to
+// the clock, so every stamp carries the real id (see clock.ts).
+
+import { getRepository } from "../storage";
+import { setClockDevice } from "./clock";
+
+const newDeviceId = () => `${Date.now()}_${Math.random().toString(16).slice(2)}`;
+
+let loading: Promise<string> | null = null;
+
+export function loadDeviceId(repo = getRepository()): Promise<string> {
+  if (!loading) {
+    loading = (async () => {
+      const state = await repo.loadSyncState();
+      if (!state.deviceId) {
+        state.deviceId = newDeviceId();
+        await repo.saveSyncState(state);
+      }
+      setClockDevice(state.deviceId);
+      return state.deviceId;
+    })();
+    // only shared while in flight – "delete everything" wipes the id
+    loading
+      .catch(() => undefined)
+      .then(() => {
+        loading = null;
+      });
+  }
+  return loading;
+}
@@ -0,0 +1,109 @@
+// src/sync/merge.ts
+// Deterministic merge of records edited on several devices: every field
+// is a last-writer-wins register (see clock.ts), deletes leave a
+// tombstone that only a later edit can beat. Both devices end up with
+// the same result whatever order the changes arrive in.
+
+import { compareStamps, FieldClock, isLocalStamp, maxStamp, Stamp } from "./clock";
+
+export interface Mergeable {
+  id: string;
+  clock?: FieldClock;
+}
+
+// A remote change that replaced something edited on this device
+export interface RemoteOverride {
+  kind: "checkin" | "schedule";
+  id: string;
+  label: string;
+  // changed fields, or "deleted" / "restored"
+  fields: string[];
+}
+
+export interface RecordSpec<T extends Mergeable> {
+  fields: readonly (keyof T & string)[];
+  // stamp for fields never edited since the record was created
+  base: (record: T) => Stamp;
+}
+
+// Ties on time + device (practically never) fall back to the value
+// itself, so the outcome still doesn't depend on merge order.
+function compareValues(a: unknown, b: unknown): number {
+  const ja = JSON.stringify(a) ?? "";
+  const jb = JSON.stringify(b) ?? "";
+  return ja === jb ? 0 : ja < jb ? -1 : 1;
+}
+
+const sameValue = (a: unknown, b: unknown) => compareValues(a, b) === 0;
+
+const fieldStamp = <T extends Mergeable>(
+  spec: RecordSpec<T>,
+  record: T,
+  field: string
+) => record.clock?.[field] ?? spec.base(record);
+
+// Newest stamp anywhere on the record
+export function latestStamp<T extends Mergeable>(spec: RecordSpec<T>, record: T): Stamp {
+  let latest = spec.base(record);
+  for (const s of Object.values(record.clock ?? {})) latest = maxStamp(latest, s);
+  return latest;
+}
+
+// Fields this device edited since the record was created
+export function hasLocalEdits<T extends Mergeable>(record: T): boolean {
+  return Object.values(record.clock ?? {}).some(isLocalStamp);
+}
+
+export interface MergeResult<T> {
+  merged: T;
+  changed: boolean;
+  // locally edited fields the remote copy won
+  overridden: string[];
+}
+
+export function mergeRecord<T extends Mergeable>(
+  spec: RecordSpec<T>,
+  local: T,
+  remote: T
+): MergeResult<T> {
+  const merged: T = { ...local };
+  const clock: FieldClock = { ...(local.clock ?? {}) };
+  const overridden: string[] = [];
+  let changed = false;
+
+  for (const field of spec.fields) {
+    const ls = fieldStamp(spec, local, field);
+    const rs = fieldStamp(spec, remote, field);
+    const cmp = compareStamps(rs, ls) || compareValues(remote[field], local[field]);
+    if (cmp <= 0) continue;
+
+    if (!sameValue(remote[field], local[field])) {
+      merged[field] = remote[field];
+      changed = true;
+      if (local.clock?.[field] && isLocalStamp(local.clock[field])) {
+        overridden.push(field);
+      }
+    }
+  }
+
+  // the clock itself is a per-key max
+  for (const [key, rs] of Object.entries(remote.clock ?? {})) {
+    const ls = clock[key];
+    if (!ls || compareStamps(rs, ls) > 0) {
+      clock[key] = rs;
+      changed = true;
+    }
+  }
+  merged.clock = clock;
+
+  return { merged: changed ? merged : local, changed, overridden };
+}
+
+// A record survives a tombstone only if it was touched after the delete
+export function survivesDelete<T extends Mergeable>(
+  spec: RecordSpec<T>,
+  record: T,
+  deletedAt: Stamp
+): boolean {
+  return compareStamps(latestStamp(spec, record), deletedAt) > 0;
+}
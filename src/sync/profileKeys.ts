@@ -0,0 +1,85 @@
+// src/sync/profileKeys.ts
+// Each profile's key for the sync server. The first time a profile
+// syncs or links, this device registers it and keeps the key; from then
+// on the server serves the profile's data – and acts for it in links –
+// only to whoever sends the key. Other devices join the profile with a
+// one-time code made here and get keys of their own. One SecureStore
+// value per profile.
+
+import * as SecureStore from "expo-secure-store";
+import {
+  createDeviceCode,
+  redeemDeviceCode,
+  registerProfile,
+  SyncConfig,
+} from "./syncClient";
+
+const keyName = (profileId: string) => `neuroaura_sync_key_${profileId}`;
+
+const UNREACHABLE = "Couldn’t reach the sync server. Check your connection and try again.";
+
+// one registration at a time per profile
+const registering = new Map<string, Promise<string>>();
+
+// The profile's key, registering the profile first if needed. Throws
+// with a message that can be shown to the user.
+export function profileKeyFor(config: SyncConfig, profileId: string): Promise<string> {
+  let pending = registering.get(profileId);
+  if (!pending) {
+    pending = (async () => {
+      const stored = await SecureStore.getItemAsync(keyName(profileId));
+      if (stored) return stored;
+      let result;
+      try {
+        result = await registerProfile(config, profileId);
+      } catch {
+        throw new Error(UNREACHABLE);
+      }
+      if (!result.ok) {
+        throw new Error(`The sync server didn’t accept this profile: ${result.error}`);
+      }
+      await SecureStore.setItemAsync(keyName(profileId), result.profileKey);
+      return result.profileKey;
+    })().finally(() => registering.delete(profileId));
+    registering.set(profileId, pending);
+  }
+  return pending;
+}
+
+// A short-lived code another device types in to join this profile
+export async function deviceCodeFor(
+  config: SyncConfig,
+  profileId: string
+): Promise<{ code: string; expiresAt: number }> {
+  const profileKey = await profileKeyFor(config, profileId);
+  let result;
+  try {
+    result = await createDeviceCode(config, profileKey);
+  } catch {
+    throw new Error(UNREACHABLE);
+  }
+  if (!result.ok) throw new Error(`The sync server didn’t make a code: ${result.error}`);
+  return { code: result.code, expiresAt: result.expiresAt };
+}
+
+// Joins the profile a code from another device was made for and keeps
+// this device's key for it. Returns the profile's id.
+export async function joinWithDeviceCode(config: SyncConfig, code: string): Promise<string> {
+  let result;
+  try {
+    result = await redeemDeviceCode(config, code);
+  } catch {
+    throw new Error(UNREACHABLE);
+  }
+  if (!result.ok) throw new Error(result.error);
+  await SecureStore.setItemAsync(keyName(result.profileId), result.profileKey);
+  return result.profileId;
+}
+
+export async function forgetProfileKey(profileId: string): Promise<void> {
+  try {
+    await SecureStore.deleteItemAsync(keyName(profileId));
+  } catch (e) {
+    console.warn("Failed to forget sync key", e);
+  }
+}
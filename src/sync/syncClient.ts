@@ -0,0 +1,179 @@
+// src/sync/syncClient.ts
+// HTTP calls to a sync server (see server/sync-server.js).
+// Point the app at one with EXPO_PUBLIC_SYNC_URL, e.g.
+// http://192.168.1.20:4000 – sync stays off when it isn't set.
+
+import type { OutboxOperation, RemoteChange } from "./types";
+
+export interface SyncConfig {
+  baseUrl: string;
+  // must match the server's SYNC_TOKEN, if it has one
+  token?: string;
+}
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export function getSyncConfig(): SyncConfig | null {
+  const baseUrl = process.env.EXPO_PUBLIC_SYNC_URL?.trim();
+  if (!baseUrl) return null;
+  return {
+    baseUrl: baseUrl.replace(/\/+$/, ""),
+    token: process.env.EXPO_PUBLIC_SYNC_TOKEN?.trim() || undefined,
+  };
+}
+
+// Network failures, timeouts, 5xx, 408 and 429 are worth retrying;
+// other 4xx mean the server will never accept this operation.
+export type PushResult =
+  | { ok: true }
+  | { ok: false; retryable: boolean; error: string };
+
+export async function request(
+  config: SyncConfig,
+  path: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    return await fetch(`${config.baseUrl}${path}`, {
+      ...init,
+      signal: controller.signal,
+      headers: {
+        "Content-Type": "application/json",
+        ...(config.token ? { Authorization: `Bearer ${config.token}` } : {}),
+        ...(init.headers as Record<string, string> | undefined),
+      },
+    });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// The server acts for a profile only with its key (see profileKeys.ts)
+const keyHeader = (profileKey: string) => ({ "X-Profile-Key": profileKey });
+
+export type RegisterResult =
+  | { ok: true; profileKey: string }
+  | { ok: false; error: string };
+
+// Claims a profile that no device has synced yet
+export async function registerProfile(
+  config: SyncConfig,
+  profileId: string
+): Promise<RegisterResult> {
+  const res = await request(
+    config,
+    `/v1/profiles/${encodeURIComponent(profileId)}/register`,
+    { method: "POST" }
+  );
+  const body = await res.json().catch(() => null);
+  if (res.ok && typeof body?.profileKey === "string") {
+    return { ok: true, profileKey: body.profileKey };
+  }
+  return { ok: false, error: body?.error || `HTTP ${res.status}` };
+}
+
+export type DeviceCodeResult =
+  | { ok: true; code: string; expiresAt: number }
+  | { ok: false; error: string };
+
+// One-time code that lets another device join this profile
+export async function createDeviceCode(
+  config: SyncConfig,
+  profileKey: string
+): Promise<DeviceCodeResult> {
+  const res = await request(config, "/v1/device-codes", {
+    method: "POST",
+    headers: keyHeader(profileKey),
+  });
+  const body = await res.json().catch(() => null);
+  if (res.ok && typeof body?.code === "string") {
+    return { ok: true, code: body.code, expiresAt: body.expiresAt };
+  }
+  return { ok: false, error: body?.error || `HTTP ${res.status}` };
+}
+
+export type RedeemResult =
+  | { ok: true; profileId: string; profileKey: string }
+  | { ok: false; error: string };
+
+// Joins the profile a device code was made for, with a key of our own
+export async function redeemDeviceCode(
+  config: SyncConfig,
+  code: string
+): Promise<RedeemResult> {
+  const res = await request(
+    config,
+    `/v1/device-codes/${encodeURIComponent(code.trim().toUpperCase())}/redeem`,
+    { method: "POST" }
+  );
+  const body = await res.json().catch(() => null);
+  if (res.ok && typeof body?.profileId === "string" && typeof body?.profileKey === "string") {
+    return { ok: true, profileId: body.profileId, profileKey: body.profileKey };
+  }
+  return { ok: false, error: body?.error || `HTTP ${res.status}` };
+}
+
+export async function pushOperation(
+  config: SyncConfig,
+  deviceId: string,
+  op: OutboxOperation,
+  profileKey: string
+): Promise<PushResult> {
+  let res: Response;
+  try {
+    res = await request(config, "/v1/ops", {
+      method: "POST",
+      headers: { "Idempotency-Key": op.id, ...keyHeader(profileKey) },
+      body: JSON.stringify({
+        deviceId,
+        profileId: op.profileId,
+        kind: op.kind,
+        payload: op.payload,
+        createdAt: op.createdAt,
+      }),
+    });
+  } catch (e: any) {
+    return { ok: false, retryable: true, error: e?.message || "Network error" };
+  }
+
+  if (res.ok) return { ok: true };
+  const retryable = res.status >= 500 || res.status === 408 || res.status === 429;
+  let error = `HTTP ${res.status}`;
+  try {
+    const body = await res.json();
+    if (body?.error) error = `${error}: ${body.error}`;
+  } catch {
+    // no JSON body
+  }
+  return { ok: false, retryable, error };
+}
+
+export interface PullResult {
+  changes: RemoteChange[];
+  cursor: number;
+  hasMore: boolean;
+}
+
+export async function pullChanges(
+  config: SyncConfig,
+  profileId: string,
+  since: number,
+  profileKey: string
+): Promise<PullResult> {
+  const res = await request(
+    config,
+    `/v1/profiles/${encodeURIComponent(profileId)}/changes?since=${since}`,
+    { headers: keyHeader(profileKey) }
+  );
+  if (!res.ok) {
+    throw new Error(`Pull failed: HTTP ${res.status}`);
+  }
+  const body = await res.json();
+  return {
+    changes: Array.isArray(body?.changes) ? body.changes : [],
+    cursor: typeof body?.cursor === "number" ? body.cursor : since,
+    hasMore: !!body?.hasMore,
+  };
+}
@@ -0,0 +1,482 @@
+// src/sync/syncService.ts
+// Offline-first sync. Domain events are turned into outbox operations
+// that are persisted right away and pushed whenever the server is
+// reachable – with back-off between retries and the operation id as an
+// idempotency key. Changes from other devices are pulled per profile and
+// merged field by field (merge.ts), so edits on two devices don't lose
+// each other whichever order they arrive in.
+
+import { AppState } from "react-native";
+import type { AlertEvent, CheckIn } from "../../context/UserContext";
+import { domainEvents, DomainEvents, EventBus } from "../events/eventBus";
+import { getRepository, ScheduleItem, StorageRepository } from "../storage";
+import { applyRemoteSchedule } from "./applyRemote";
+import { maxStamp, observeStamp, Stamp, stamp } from "./clock";
+import { loadDeviceId } from "./deviceId";
+import type { RemoteOverride } from "./merge";
+import { getSyncConfig, pullChanges, pushOperation, SyncConfig } from "./syncClient";
+import { profileKeyFor } from "./profileKeys";
+import { checkInZone } from "../risk/overloadRisk";
+import {
+  isSyncOperationKind,
+  OutboxOperation,
+  RemoteChange,
+  SyncOperationKind,
+  SyncPayloads,
+  SyncState,
+  tombstoneKey,
+  Tombstones,
+} from "./types";
+
+const FLUSH_DEBOUNCE_MS = 1_000;
+const POLL_INTERVAL_MS = 30_000;
+const BASE_RETRY_MS = 5_000;
+const MAX_RETRY_MS = 10 * 60 * 1000;
+
+export interface SyncStatus {
+  enabled: boolean;
+  pending: number;
+  lastSyncedAt: number | null;
+  lastError: string | null;
+}
+
+export interface SyncHooks {
+  // Applies pulled check-ins / alerts to the profile's live data and
+  // returns the local edits that lost. Return null if that profile isn't
+  // loaded right now – the changes will be pulled again later.
+  applyRemoteChanges: (
+    profileId: string,
+    changes: RemoteChange[],
+    tombstones: Tombstones
+  ) => RemoteOverride[] | null;
+}
+
+export interface SyncService {
+  start(hooks: SyncHooks): () => void;
+  setActiveProfile(profileId: string | null): void;
+  // Only these profiles are synced (e.g. not the signed-out "guest")
+  setKnownProfiles(profileIds: string[]): void;
+  // Queues a profile's existing history the first time it syncs
+  seedProfile(profileId: string, checkIns: CheckIn[], alerts: AlertEvent[]): void;
+  syncNow(): Promise<void>;
+  // Forgets the in-memory queue (after everything was deleted)
+  reset(): Promise<void>;
+  getStatus(): SyncStatus;
+  onStatusChange(listener: (status: SyncStatus) => void): () => void;
+}
+
+const newId = () => `${Date.now()}_${Math.random().toString(16).slice(2)}`;
+
+// linked parents get the zone, never the scoring
+const withZone = (checkIn: CheckIn) => ({ ...checkIn, zone: checkInZone(checkIn) });
+
+function retryDelay(attempts: number): number {
+  const base = Math.min(BASE_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS);
+  // ±20% so several devices don't retry in lock-step
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+}
+
+export function createSyncService(
+  config: SyncConfig | null,
+  bus: EventBus<DomainEvents> = domainEvents,
+  // defaults to whatever getRepository() returns at the time
+  repository?: StorageRepository
+): SyncService {
+  const storage = () => repository ?? getRepository();
+  let state: SyncState | null = null;
+  let hooks: SyncHooks | null = null;
+  let activeProfileId: string | null = null;
+  let knownProfiles = new Set<string>();
+  let lastSyncedAt: number | null = null;
+  let lastError: string | null = null;
+
+  // every read-modify-write of `state` runs through this chain
+  let chain: Promise<unknown> = Promise.resolve();
+  const serial = <T>(fn: () => Promise<T>): Promise<T> => {
+    const next = chain.then(fn, fn);
+    chain = next.catch(() => undefined);
+    return next;
+  };
+
+  const listeners = new Set<(status: SyncStatus) => void>();
+  const getStatus = (): SyncStatus => ({
+    enabled: !!config,
+    pending: state?.outbox.length ?? 0,
+    lastSyncedAt,
+    lastError,
+  });
+  const notify = () => {
+    const status = getStatus();
+    listeners.forEach((l) => l(status));
+  };
+
+  const loadState = async (): Promise<SyncState> => {
+    if (!state) {
+      // saves the id first if this device has none yet
+      await loadDeviceId(storage());
+      state = await storage().loadSyncState();
+    }
+    return state;
+  };
+
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  const scheduleFlush = (delay = FLUSH_DEBOUNCE_MS) => {
+    if (!config) return;
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      syncNow().catch((e) => console.warn("Sync failed", e));
+    }, delay);
+  };
+
+  const setTombstone = (
+    s: SyncState,
+    profileId: string,
+    key: string,
+    deletedAt: Stamp | null
+  ) => {
+    const tombstones = { ...(s.tombstones[profileId] ?? {}) };
+    if (deletedAt) {
+      const prev = tombstones[key];
+      tombstones[key] = prev ? maxStamp(prev, deletedAt) : deletedAt;
+    } else {
+      delete tombstones[key];
+    }
+    s.tombstones = { ...s.tombstones, [profileId]: tombstones };
+  };
+
+  const queue = <K extends SyncOperationKind>(
+    s: SyncState,
+    profileId: string,
+    kind: K,
+    payload: SyncPayloads[K]
+  ) => {
+    const now = Date.now();
+    // upserts carry the whole record, so a newer one replaces a queued one
+    if (kind.endsWith(".upsert")) {
+      const id = (payload as { id: string }).id;
+      s.outbox = s.outbox.filter(
+        (op) =>
+          !(
+            op.kind === kind &&
+            op.profileId === profileId &&
+            op.attempts === 0 &&
+            (op.payload as { id: string }).id === id
+          )
+      );
+    }
+    s.outbox.push({
+      id: newId(),
+      profileId,
+      kind,
+      payload,
+      createdAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+    });
+  };
+
+  // Runs `change` against the persisted state, then pushes soon
+  const enqueue = (
+    profileId: string | null,
+    change: (s: SyncState, profileId: string) => void
+  ) => {
+    if (!config || !profileId || !knownProfiles.has(profileId)) return;
+    serial(async () => {
+      const s = await loadState();
+      change(s, profileId);
+      await storage().saveSyncState(s);
+    })
+      .then(() => {
+        notify();
+        scheduleFlush();
+      })
+      .catch((e) => console.warn("Failed to queue sync operation", e));
+  };
+
+  const push = async (s: SyncState) => {
+    const now = Date.now();
+    for (const op of [...s.outbox]) {
+      if (op.nextAttemptAt > now) continue;
+      let result;
+      try {
+        const profileKey = await profileKeyFor(config!, op.profileId);
+        result = await pushOperation(config!, s.deviceId!, op, profileKey);
+      } catch (e: any) {
+        // not registered yet (or the server is unreachable) – keep it
+        result = { ok: false as const, retryable: true, error: e?.message || "Sync failed" };
+      }
+      if (result.ok) {
+        s.outbox = s.outbox.filter((o) => o.id !== op.id);
+      } else if (!result.retryable) {
+        console.warn(`Sync server rejected ${op.kind} ${op.id}: ${result.error}`);
+        s.outbox = s.outbox.filter((o) => o.id !== op.id);
+        lastError = result.error;
+      } else {
+        op.attempts += 1;
+        op.nextAttemptAt = Date.now() + retryDelay(op.attempts);
+        op.lastError = result.error;
+        lastError = result.error;
+        await storage().saveSyncState(s);
+        // server unreachable – the rest would fail the same way
+        break;
+      }
+      await storage().saveSyncState(s);
+    }
+  };
+
+  const queueScheduleChanges = (
+    s: SyncState,
+    profileId: string,
+    items: ScheduleItem[],
+    previous: ScheduleItem[]
+  ) => {
+    const before = new Map(previous.map((item) => [item.id, item]));
+    const after = new Set(items.map((item) => item.id));
+    for (const item of items) {
+      const old = before.get(item.id);
+      if (!old || JSON.stringify(old) !== JSON.stringify(item)) {
+        queue(s, profileId, "schedule.upsert", item);
+      }
+    }
+    for (const item of previous) {
+      if (after.has(item.id)) continue;
+      const deletedAt = stamp();
+      setTombstone(s, profileId, tombstoneKey("schedule", item.id), deletedAt);
+      queue(s, profileId, "schedule.delete", { id: item.id, deletedAt });
+    }
+  };
+
+  // Remote stamps move our clock forward, and remote deletes are
+  // remembered so a stale copy arriving later can't undo them.
+  const observe = (s: SyncState, profileId: string, changes: RemoteChange[]) => {
+    for (const change of changes) {
+      if (change.kind === "checkin.delete" || change.kind === "schedule.delete") {
+        const { id, deletedAt } = (change as RemoteChange<"checkin.delete">).payload;
+        if (!deletedAt) continue;
+        observeStamp(deletedAt);
+        const kind = change.kind === "checkin.delete" ? "checkin" : "schedule";
+        setTombstone(s, profileId, tombstoneKey(kind, id), deletedAt);
+      } else {
+        const { clock } = change.payload as { clock?: Record<string, Stamp> };
+        Object.values(clock ?? {}).forEach(observeStamp);
+      }
+    }
+  };
+
+  const applySchedule = async (
+    s: SyncState,
+    profileId: string,
+    changes: RemoteChange[]
+  ): Promise<RemoteOverride[]> => {
+    if (!changes.some((c) => c.kind.startsWith("schedule."))) return [];
+    const stored = await storage().loadSchedule(profileId);
+    const { records, overrides } = applyRemoteSchedule(
+      stored,
+      changes,
+      s.tombstones[profileId]
+    );
+    if (records !== stored) {
+      await storage().saveSchedule(profileId, records);
+      bus.emit("schedule.synced", { profileId, items: records });
+    }
+    return overrides;
+  };
+
+  const pull = async (s: SyncState, profileId: string) => {
+    let since = s.cursors[profileId] ?? 0;
+    const profileKey = await profileKeyFor(config!, profileId);
+    for (;;) {
+      const page = await pullChanges(config!, profileId, since, profileKey);
+      // our own operations come back too – nothing to apply. Kinds an
+      // older or newer build sent are skipped as well.
+      const foreign = page.changes.filter(
+        (c) => c.deviceId !== s.deviceId && isSyncOperationKind(c.kind)
+      );
+      if (foreign.length > 0) {
+        observe(s, profileId, foreign);
+        const records = foreign.filter((c) => !c.kind.startsWith("schedule."));
+        let overrides: RemoteOverride[] = [];
+        if (records.length > 0) {
+          const result = hooks?.applyRemoteChanges(
+            profileId,
+            records,
+            s.tombstones[profileId] ?? {}
+          );
+          if (!result) return;
+          overrides = result;
+        }
+        overrides = [...overrides, ...(await applySchedule(s, profileId, foreign))];
+        if (overrides.length > 0) {
+          bus.emit("sync.overridden", { profileId, overrides });
+        }
+      }
+      since = page.cursor;
+      s.cursors[profileId] = since;
+      await storage().saveSyncState(s);
+      if (!page.hasMore) return;
+    }
+  };
+
+  const syncNow = () => {
+    if (!config) return Promise.resolve();
+    return serial(async () => {
+      const s = await loadState();
+      try {
+        await push(s);
+        if (activeProfileId && knownProfiles.has(activeProfileId)) {
+          await pull(s, activeProfileId);
+        }
+        if (s.outbox.every((op) => op.attempts === 0)) lastError = null;
+        lastSyncedAt = Date.now();
+      } catch (e: any) {
+        lastError = e?.message || "Sync failed";
+      }
+    }).finally(notify);
+  };
+
+  return {
+    start(nextHooks) {
+      hooks = nextHooks;
+      if (!config) return () => {
+        hooks = null;
+      };
+
+      const unsubscribers = [
+        bus.on("checkin.created", ({ profileId, checkIn }) =>
+          enqueue(profileId, (s, id) => {
+            // created again = brought back after a delete (undo)
+            setTombstone(s, id, tombstoneKey("checkin", checkIn.id), null);
+            queue(s, id, "checkin.upsert", withZone(checkIn));
+          })
+        ),
+        bus.on("checkin.updated", ({ profileId, checkIn }) =>
+          enqueue(profileId, (s, id) => queue(s, id, "checkin.upsert", withZone(checkIn)))
+        ),
+        bus.on("checkin.deleted", ({ profileId, checkIn }) =>
+          enqueue(profileId, (s, id) => {
+            const deletedAt = stamp();
+            setTombstone(s, id, tombstoneKey("checkin", checkIn.id), deletedAt);
+            queue(s, id, "checkin.delete", { id: checkIn.id, deletedAt });
+          })
+        ),
+        bus.on("alert.raised", ({ profileId, alert }) =>
+          enqueue(profileId, (s, id) => queue(s, id, "alert.upsert", alert))
+        ),
+        bus.on("alert.acknowledged", ({ profileId, alert }) =>
+          enqueue(profileId, (s, id) => queue(s, id, "alert.upsert", alert))
+        ),
+        bus.on("data.imported", ({ profileId, checkIns, alerts }) =>
+          enqueue(profileId, (s, id) => {
+            for (const checkIn of checkIns) {
+              setTombstone(s, id, tombstoneKey("checkin", checkIn.id), null);
+              queue(s, id, "checkin.upsert", withZone(checkIn));
+            }
+            for (const alert of alerts) queue(s, id, "alert.upsert", alert);
+          })
+        ),
+        bus.on("schedule.changed", ({ profileId, items, previous }) =>
+          enqueue(profileId, (s, id) => queueScheduleChanges(s, id, items, previous))
+        ),
+      ];
+
+      const poll = setInterval(() => scheduleFlush(0), POLL_INTERVAL_MS);
+      const appState = AppState.addEventListener("change", (next) => {
+        if (next === "active") scheduleFlush(0);
+      });
+      scheduleFlush(0);
+
+      return () => {
+        unsubscribers.forEach((off) => off());
+        clearInterval(poll);
+        appState.remove();
+        if (flushTimer) clearTimeout(flushTimer);
+        flushTimer = null;
+        hooks = null;
+      };
+    },
+
+    setActiveProfile(profileId) {
+      const changed = profileId !== activeProfileId;
+      activeProfileId = profileId;
+      if (changed && profileId) scheduleFlush(0);
+    },
+
+    setKnownProfiles(profileIds) {
+      knownProfiles = new Set(profileIds);
+    },
+
+    seedProfile(profileId, checkIns, alerts) {
+      if (!config || !knownProfiles.has(profileId)) return;
+      serial(async () => {
+        const s = await loadState();
+        if (s.seededProfiles.includes(profileId)) return false;
+        const now = Date.now();
+        const ops: OutboxOperation[] = [
+          ...checkIns.map((c) => ({
+            id: `seed_${profileId}_checkin_${c.id}`,
+            profileId,
+            kind: "checkin.upsert" as const,
+            payload: withZone(c),
+            createdAt: now,
+            attempts: 0,
+            nextAttemptAt: now,
+          })),
+          ...alerts.map((a) => ({
+            id: `seed_${profileId}_alert_${a.id}`,
+            profileId,
+            kind: "alert.upsert" as const,
+            payload: a,
+            createdAt: now,
+            attempts: 0,
+            nextAttemptAt: now,
+          })),
+        ];
+        const schedule = await storage().loadSchedule(profileId);
+        ops.push(
+          ...schedule.map((item) => ({
+            id: `seed_${profileId}_schedule_${item.id}`,
+            profileId,
+            kind: "schedule.upsert" as const,
+            payload: item,
+            createdAt: now,
+            attempts: 0,
+            nextAttemptAt: now,
+          }))
+        );
+        s.outbox.push(...ops);
+        s.seededProfiles.push(profileId);
+        await storage().saveSyncState(s);
+        return true;
+      })
+        .then((seeded) => {
+          if (!seeded) return;
+          notify();
+          scheduleFlush();
+        })
+        .catch((e) => console.warn("Failed to queue existing history", e));
+    },
+
+    syncNow,
+
+    reset() {
+      return serial(async () => {
+        state = null;
+        lastSyncedAt = null;
+        lastError = null;
+      }).finally(notify);
+    },
+
+    getStatus,
+
+    onStatusChange(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// The app-wide instance (disabled when EXPO_PUBLIC_SYNC_URL is unset)
+export const syncService = createSyncService(getSyncConfig());
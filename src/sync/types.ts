@@ -0,0 +1,109 @@
+// src/sync/types.ts
+// Wire format shared by the app's outbox and the reference sync server
+// (server/sync-server.js).
+
+import type { AlertEvent, CheckIn } from "../../context/UserContext";
+import type { StressZone } from "../pairing/types";
+import type { ScheduleItem } from "../storage/types";
+import type { Stamp } from "./clock";
+
+// Upserts carry the whole record with its field clock; the receiving
+// device merges field by field (see merge.ts). A check-in also carries
+// its zone, worked out on the device, for linked parents.
+export interface SyncPayloads {
+  "checkin.upsert": CheckIn & { zone?: StressZone };
+  "checkin.delete": { id: string; deletedAt: Stamp };
+  "alert.upsert": AlertEvent;
+  "schedule.upsert": ScheduleItem;
+  "schedule.delete": { id: string; deletedAt: Stamp };
+}
+
+export type SyncOperationKind = keyof SyncPayloads;
+
+const OPERATION_KINDS: SyncOperationKind[] = [
+  "checkin.upsert",
+  "checkin.delete",
+  "alert.upsert",
+  "schedule.upsert",
+  "schedule.delete",
+];
+
+export const isSyncOperationKind = (kind: unknown): kind is SyncOperationKind =>
+  OPERATION_KINDS.includes(kind as SyncOperationKind);
+
+// "checkin:<id>" / "schedule:<id>" -> when it was deleted
+export type Tombstones = Record<string, Stamp>;
+
+export const tombstoneKey = (kind: "checkin" | "schedule", id: string) =>
+  `${kind}:${id}`;
+
+// One queued change. id doubles as the idempotency key, so replaying
+// an operation the server already has is harmless.
+export interface OutboxOperation<K extends SyncOperationKind = SyncOperationKind> {
+  id: string;
+  profileId: string;
+  kind: K;
+  payload: SyncPayloads[K];
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+// A change as the server hands it back (in seq order)
+export interface RemoteChange<K extends SyncOperationKind = SyncOperationKind> {
+  seq: number;
+  profileId: string;
+  deviceId: string;
+  kind: K;
+  payload: SyncPayloads[K];
+  createdAt: number;
+}
+
+// Persisted by the storage repository (device-wide, not per profile)
+export interface SyncState {
+  deviceId: string | null;
+  outbox: OutboxOperation[];
+  // profileId -> last seq pulled from the server
+  cursors: Record<string, number>;
+  // profiles whose existing history has been queued once
+  seededProfiles: string[];
+  // profileId -> deleted records, so a stale copy can't bring them back
+  tombstones: Record<string, Tombstones>;
+}
+
+export function emptySyncState(): SyncState {
+  return {
+    deviceId: null,
+    outbox: [],
+    cursors: {},
+    seededProfiles: [],
+    tombstones: {},
+  };
+}
+
+// Fills in anything missing from a stored (possibly older) state
+export function normalizeSyncState(raw: any): SyncState {
+  const empty = emptySyncState();
+  if (!raw || typeof raw !== "object") return empty;
+  return {
+    deviceId: typeof raw.deviceId === "string" ? raw.deviceId : null,
+    // operations queued by an older build in a format we no longer send
+    outbox: Array.isArray(raw.outbox)
+      ? raw.outbox.filter(
+          (op: any) =>
+            isSyncOperationKind(op?.kind) &&
+            (!op.kind.endsWith(".delete") || op.payload?.deletedAt)
+        )
+      : empty.outbox,
+    cursors:
+      raw.cursors && typeof raw.cursors === "object" ? raw.cursors : empty.cursors,
+    seededProfiles: Array.isArray(raw.seededProfiles)
+      ? raw.seededProfiles
+      : empty.seededProfiles,
+    tombstones:
+      raw.tombstones && typeof raw.tombstones === "object"
+        ? raw.tombstones
+        : empty.tombstones,
+  };
+}